@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAnalysisRepository, summarizeAnalysis } from '@/lib/analysis-store';
+import type { UpdateSavedAnalysisRequest } from '@/types';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const notFound = () =>
+  NextResponse.json(
+    { success: false, error: 'Saved analysis not found' },
+    { status: 404 }
+  );
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const analysis = await getAnalysisRepository().get(id);
+    if (!analysis) return notFound();
+
+    return NextResponse.json({
+      success: true,
+      data: analysis,
+    });
+  } catch (error) {
+    console.error('Fetch analysis error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load saved analysis.' },
+      { status: 500 }
+    );
+  }
+}
+
+// Rename an analysis, move it to another client/project or save a picked title/description variant
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const body: UpdateSavedAnalysisRequest = await request.json();
+
+    if (!body.name?.trim() && !body.project?.trim() && !body.metaTitle?.trim() && !body.metaDescription?.trim()) {
+      return NextResponse.json(
+        { success: false, error: 'Provide a new name, project, title or description' },
+        { status: 400 }
+      );
+    }
+
+    const analysis = await getAnalysisRepository().update(id, body);
+    if (!analysis) return notFound();
+
+    return NextResponse.json({
+      success: true,
+      data: summarizeAnalysis(analysis),
+    });
+  } catch (error) {
+    console.error('Update analysis error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update saved analysis.' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const deleted = await getAnalysisRepository().delete(id);
+    if (!deleted) return notFound();
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete analysis error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete saved analysis.' },
+      { status: 500 }
+    );
+  }
+}
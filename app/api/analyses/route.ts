@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAnalysisRepository, summarizeAnalysis } from '@/lib/analysis-store';
+import type { SaveAnalysisRequest } from '@/types';
+
+export async function GET(request: NextRequest) {
+  try {
+    const project = request.nextUrl.searchParams.get('project') || undefined;
+    const analyses = await getAnalysisRepository().list(project);
+
+    return NextResponse.json({
+      success: true,
+      data: analyses,
+    });
+  } catch (error) {
+    console.error('List analyses error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load saved analyses.' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: SaveAnalysisRequest = await request.json();
+
+    if (!body.analysisResult?.crawledData || !body.analysisResult?.seoAnalysis) {
+      return NextResponse.json(
+        { success: false, error: 'Analysis result is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!body.settings) {
+      return NextResponse.json(
+        { success: false, error: 'Settings are required' },
+        { status: 400 }
+      );
+    }
+
+    const analysis = await getAnalysisRepository().create(body);
+
+    return NextResponse.json({
+      success: true,
+      data: summarizeAnalysis(analysis),
+    });
+  } catch (error) {
+    console.error('Save analysis error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to save analysis.' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { crawlPage } from '@/lib/crawler';
+import { crawlPage, isCrawlerProviderName } from '@/lib/crawler';
+import { buildCrawledDataFromPastedContent, isPastedContentFormat } from '@/lib/pasted-content';
 import { analyzeSEO } from '@/lib/seo-analyzer';
 import { optimizeContent } from '@/lib/content-optimizer';
-import type { AnalyzeRequest, AnalysisResult, KeywordData, CustomInstructions } from '@/types';
+import { OptimizationOutputError } from '@/lib/optimizer-schema';
+import type { AnalyzeRequest, AnalysisResult, AnalysisStageId, AnalysisStreamEvent, KeywordData, CustomInstructions } from '@/types';
 
 // Extend timeout for Vercel Pro (Claude API calls can take 30-60+ seconds)
 export const maxDuration = 120;
@@ -10,21 +12,48 @@ export const maxDuration = 120;
 export async function POST(request: NextRequest) {
   try {
     const body: AnalyzeRequest = await request.json();
-    const { url, keywords, settings, customInstructions } = body;
+    const { url, keywords, customInstructions, crawler, pastedContent } = body;
 
-    // Validate URL
-    if (!url) {
+    const isPasted = pastedContent !== undefined;
+
+    if (isPasted && !pastedContent.content?.trim()) {
+      return NextResponse.json(
+        { success: false, error: 'Pasted content is empty' },
+        { status: 400 }
+      );
+    }
+
+    // Format is optional - defaults to auto-detection
+    if (isPasted && pastedContent.format !== undefined && !isPastedContentFormat(pastedContent.format)) {
+      return NextResponse.json(
+        { success: false, error: `Unknown pasted content format "${pastedContent.format}". Use "auto", "html", "markdown" or "text".` },
+        { status: 400 }
+      );
+    }
+
+    // Validate URL (optional for pasted content)
+    if (!url && !isPasted) {
       return NextResponse.json(
         { success: false, error: 'URL is required' },
         { status: 400 }
       );
     }
 
-    try {
-      new URL(url);
-    } catch {
+    if (url) {
+      try {
+        new URL(url);
+      } catch {
+        return NextResponse.json(
+          { success: false, error: 'Please enter a valid URL starting with http:// or https://' },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Crawler is optional - falls back to CRAWLER_PROVIDER / auto-detection
+    if (crawler !== undefined && !isCrawlerProviderName(crawler)) {
       return NextResponse.json(
-        { success: false, error: 'Please enter a valid URL starting with http:// or https://' },
+        { success: false, error: `Unknown crawler provider "${crawler}". Use "firecrawl" or "fetch".` },
         { status: 400 }
       );
     }
@@ -39,30 +68,6 @@ export async function POST(request: NextRequest) {
       all: keywords?.all || [],
     };
 
-    // Step 1: Crawl the page
-    let crawledData;
-    try {
-      crawledData = await crawlPage(url);
-    } catch (error) {
-      console.error('Crawl error:', error);
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-
-      if (errorMessage.includes('FIRECRAWL_API_KEY')) {
-        return NextResponse.json(
-          { success: false, error: 'Firecrawl API key is not configured. Please add it to your .env.local file.' },
-          { status: 500 }
-        );
-      }
-
-      return NextResponse.json(
-        { success: false, error: `Failed to crawl page: ${errorMessage}` },
-        { status: 500 }
-      );
-    }
-
-    // Step 2: Analyze SEO
-    const seoAnalysis = analyzeSEO(crawledData, safeKeywords);
-
     // Ensure customInstructions has all required properties
     const safeCustomInstructions: CustomInstructions = {
       thingsToAvoid: customInstructions?.thingsToAvoid || '',
@@ -71,37 +76,54 @@ export async function POST(request: NextRequest) {
       additionalInstructions: customInstructions?.additionalInstructions || '',
     };
 
-    // Step 3: Generate optimized content using AI
-    let optimizedContent;
-    try {
-      optimizedContent = await optimizeContent(crawledData, safeKeywords, settings, safeCustomInstructions);
-    } catch (error) {
-      console.error('AI optimization error:', error);
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    const runAnalysis = (emit: (event: AnalysisStreamEvent) => void) =>
+      runPipeline(body, safeKeywords, safeCustomInstructions, emit);
 
-      if (errorMessage.includes('ANTHROPIC_API_KEY')) {
-        return NextResponse.json(
-          { success: false, error: 'Anthropic API key is not configured. Please add it to your .env.local file.' },
-          { status: 500 }
-        );
-      }
+    // Streaming mode: NDJSON events as each stage starts/finishes
+    if (body.stream) {
+      const encoder = new TextEncoder();
+      const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          const emit = (event: AnalysisStreamEvent) => {
+            controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+          };
+
+          try {
+            const outcome = await runAnalysis(emit);
+            if (outcome.success) {
+              emit({ type: 'result', data: outcome.data });
+            } else {
+              emit({ type: 'error', stage: outcome.stage, error: outcome.error });
+            }
+          } catch (error) {
+            console.error('Analysis error:', error);
+            emit({ type: 'error', error: 'Something went wrong. Please try again.' });
+          } finally {
+            controller.close();
+          }
+        },
+      });
+
+      return new Response(stream, {
+        headers: {
+          'Content-Type': 'application/x-ndjson; charset=utf-8',
+          'Cache-Control': 'no-cache, no-transform',
+        },
+      });
+    }
+
+    const outcome = await runAnalysis(() => {});
 
+    if (!outcome.success) {
       return NextResponse.json(
-        { success: false, error: `Failed to generate optimized content: ${errorMessage}` },
+        { success: false, error: outcome.error },
         { status: 500 }
       );
     }
 
-    const result: AnalysisResult = {
-      crawledData,
-      seoAnalysis,
-      optimizedContent,
-      keywords: safeKeywords,
-    };
-
     return NextResponse.json({
       success: true,
-      data: result,
+      data: outcome.data,
     });
   } catch (error) {
     console.error('Analysis error:', error);
@@ -111,3 +133,118 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+type PipelineOutcome =
+  | { success: true; data: AnalysisResult }
+  | { success: false; stage: AnalysisStageId; error: string };
+
+/**
+ * Crawl → analyze → optimize, reporting each stage through `emit`.
+ * Failures are returned (not thrown) with a user-facing message.
+ */
+async function runPipeline(
+  body: AnalyzeRequest,
+  keywords: KeywordData,
+  customInstructions: CustomInstructions,
+  emit: (event: AnalysisStreamEvent) => void
+): Promise<PipelineOutcome> {
+  const { url, settings, crawler, pastedContent, surferReport } = body;
+  const stage = (id: AnalysisStageId, status: 'started' | 'completed', message: string) =>
+    emit({ type: 'stage', stage: id, status, message, at: Date.now() });
+
+  // Step 1: Crawl the page (or build it from pasted content)
+  stage('crawl', 'started', pastedContent ? 'Reading pasted content...' : 'Crawling page content...');
+  let crawledData;
+  try {
+    crawledData = pastedContent
+      ? buildCrawledDataFromPastedContent(pastedContent.content, pastedContent.format, url || '')
+      : await crawlPage(url, crawler);
+  } catch (error) {
+    console.error('Crawl error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    if (errorMessage.includes('FIRECRAWL_API_KEY')) {
+      return {
+        success: false,
+        stage: 'crawl',
+        error: 'Firecrawl API key is not configured. Please add it to your .env.local file or use the "fetch" crawler.',
+      };
+    }
+
+    return {
+      success: false,
+      stage: 'crawl',
+      error: pastedContent ? `Failed to read pasted content: ${errorMessage}` : `Failed to crawl page: ${errorMessage}`,
+    };
+  }
+  stage('crawl', 'completed', `Read ${crawledData.wordCount} words`);
+
+  // Step 2: Analyze SEO
+  stage('analyze', 'started', 'Analyzing meta data, headings, schema and keywords...');
+  const seoAnalysis = analyzeSEO(crawledData, keywords);
+  emit({ type: 'analysis', data: seoAnalysis });
+  stage('analyze', 'completed', `Found ${seoAnalysis.issues.length} issue${seoAnalysis.issues.length !== 1 ? 's' : ''} (score ${seoAnalysis.score})`);
+
+  // Step 3: Generate optimized content using AI
+  stage('generate', 'started', 'Generating AI-powered recommendations...');
+  let optimization;
+  try {
+    // Long pages are optimized section by section; generation finishes with the last one
+    let section = { current: 1, total: 1 };
+    optimization = await optimizeContent(crawledData, keywords, settings, customInstructions, (event) => {
+      const isLastSection = section.current === section.total;
+      if (event.type === 'section') {
+        section = { current: event.section, total: event.sections };
+        stage('generate', 'started', `Long page: optimizing section ${event.section} of ${event.sections}...`);
+      } else if (event.type === 'receiving') {
+        emit({ type: 'tokens', characters: event.characters });
+      } else if (event.type === 'received') {
+        emit({ type: 'tokens', characters: event.characters, outputTokens: event.outputTokens });
+        if (isLastSection) {
+          stage('generate', 'completed', `Received ${event.outputTokens} tokens`);
+          stage('parse', 'started', 'Validating AI response...');
+        }
+      } else if (event.type === 'repairing') {
+        stage(isLastSection ? 'parse' : 'generate', 'started', `Fixing ${event.errors.length} problem${event.errors.length !== 1 ? 's' : ''} in the AI response...`);
+      }
+    }, { seoAnalysis, surferReport });
+  } catch (error) {
+    console.error('AI optimization error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    const failedStage: AnalysisStageId = error instanceof OptimizationOutputError ? 'parse' : 'generate';
+
+    if (errorMessage.includes('ANTHROPIC_API_KEY')) {
+      return {
+        success: false,
+        stage: failedStage,
+        error: 'Anthropic API key is not configured. Please add it to your .env.local file or choose another AI provider.',
+      };
+    }
+
+    if (errorMessage.includes('OPENAI_API_KEY')) {
+      return {
+        success: false,
+        stage: failedStage,
+        error: 'OpenAI API key is not configured. Please add it to your .env.local file, set OPENAI_BASE_URL to a local model server or choose another AI provider.',
+      };
+    }
+
+    return {
+      success: false,
+      stage: failedStage,
+      error: `Failed to generate optimized content: ${errorMessage}`,
+    };
+  }
+  stage('parse', 'completed', 'Analysis complete!');
+
+  return {
+    success: true,
+    data: {
+      crawledData,
+      seoAnalysis,
+      optimizedContent: optimization.optimizedContent,
+      keywords,
+      compliance: optimization.compliance,
+    },
+  };
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { advanceBatchJob } from '@/lib/batch-processor';
+
+// Processes up to the job's concurrency of pages per request
+export const maxDuration = 300;
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const { jobId } = await params;
+    const job = await advanceBatchJob(jobId);
+
+    if (!job) {
+      return NextResponse.json(
+        { success: false, error: 'Batch job not found. It may have expired.' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: job,
+    });
+  } catch (error) {
+    console.error('Batch processing error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to process batch. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
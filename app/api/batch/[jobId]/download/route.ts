@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { buildBatchZip, getBatchJob } from '@/lib/batch-processor';
+
+// Reports are generated here, one per completed page
+export const maxDuration = 300;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const { jobId } = await params;
+    const job = await getBatchJob(jobId);
+
+    if (!job) {
+      return NextResponse.json(
+        { success: false, error: 'Batch job not found. It may have expired.' },
+        { status: 404 }
+      );
+    }
+
+    const zipBuffer = await buildBatchZip(jobId);
+    if (!zipBuffer) {
+      return NextResponse.json(
+        { success: false, error: 'Batch job not found. It may have expired.' },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(new Uint8Array(zipBuffer), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${jobId}_reports.zip"`,
+        'Content-Length': zipBuffer.length.toString(),
+      },
+    });
+  } catch (error) {
+    console.error('Batch download error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to build ZIP. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
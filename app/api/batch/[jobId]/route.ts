@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getBatchJob } from '@/lib/batch-processor';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const { jobId } = await params;
+  const job = await getBatchJob(jobId);
+
+  if (!job) {
+    return NextResponse.json(
+      { success: false, error: 'Batch job not found. It may have expired.' },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: job,
+  });
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createBatchJob, parseBatchInput, MAX_BATCH_ITEMS } from '@/lib/batch-processor';
+import { isCrawlerProviderName } from '@/lib/crawler';
+import { isValidUrl } from '@/lib/utils';
+import type { BatchCreateRequest, BatchItemInput, CustomInstructions } from '@/types';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: BatchCreateRequest = await request.json();
+    const { settings, customInstructions, crawler, concurrency } = body;
+
+    if (!settings) {
+      return NextResponse.json(
+        { success: false, error: 'Settings are required' },
+        { status: 400 }
+      );
+    }
+
+    if (crawler !== undefined && !isCrawlerProviderName(crawler)) {
+      return NextResponse.json(
+        { success: false, error: `Unknown crawler provider "${crawler}". Use "firecrawl" or "fetch".` },
+        { status: 400 }
+      );
+    }
+
+    // Accept either structured items or raw pasted/CSV text
+    let items: BatchItemInput[] = [];
+    if (body.input) {
+      const parsed = parseBatchInput(body.input);
+      if (parsed.errors.length > 0) {
+        return NextResponse.json(
+          { success: false, error: `Invalid batch input:\n${parsed.errors.join('\n')}` },
+          { status: 400 }
+        );
+      }
+      items = parsed.items;
+    } else if (Array.isArray(body.items)) {
+      const invalid = body.items.filter((item) => !isValidUrl(item?.url || ''));
+      if (invalid.length > 0) {
+        return NextResponse.json(
+          { success: false, error: `Invalid URLs: ${invalid.map((item) => item?.url || '(empty)').join(', ')}` },
+          { status: 400 }
+        );
+      }
+      // Ensure keywords objects have all required properties
+      items = body.items.map((item) => ({
+        url: item.url,
+        keywords: {
+          primary: item.keywords?.primary || [],
+          secondary: item.keywords?.secondary || [],
+          nlpTerms: item.keywords?.nlpTerms || [],
+          questions: item.keywords?.questions || [],
+          longTail: item.keywords?.longTail || [],
+          all: item.keywords?.all || [],
+          ...(item.keywords?.metrics ? { metrics: item.keywords.metrics } : {}),
+          ...(item.keywords?.intents ? { intents: item.keywords.intents } : {}),
+          ...(item.keywords?.clusters ? { clusters: item.keywords.clusters } : {}),
+        },
+      }));
+    }
+
+    if (items.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Please provide at least one URL' },
+        { status: 400 }
+      );
+    }
+
+    if (items.length > MAX_BATCH_ITEMS) {
+      return NextResponse.json(
+        { success: false, error: `A batch can contain at most ${MAX_BATCH_ITEMS} URLs (got ${items.length})` },
+        { status: 400 }
+      );
+    }
+
+    const safeCustomInstructions: CustomInstructions = {
+      thingsToAvoid: customInstructions?.thingsToAvoid || '',
+      focusAreas: customInstructions?.focusAreas || '',
+      toneAndStyle: customInstructions?.toneAndStyle || '',
+      additionalInstructions: customInstructions?.additionalInstructions || '',
+    };
+
+    const job = await createBatchJob(items, settings, safeCustomInstructions, { concurrency, crawler });
+
+    return NextResponse.json({
+      success: true,
+      data: job,
+    });
+  } catch (error) {
+    console.error('Batch creation error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to start batch. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAnalysisRepository } from '@/lib/analysis-store';
+import { detectCannibalization, isComparableAnalysis, uniquePages } from '@/lib/cannibalization';
+import type { AnalysisResult, CannibalizationRequest } from '@/types';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: CannibalizationRequest = await request.json();
+
+    // Saved analyses are loaded by id; uploaded results are checked and used as-is
+    const uploaded: unknown[] = Array.isArray(body.analyses) ? body.analyses : [];
+    const invalidIndex = uploaded.findIndex((result) => !isComparableAnalysis(result));
+    if (invalidIndex !== -1) {
+      return NextResponse.json(
+        { success: false, error: `Uploaded analysis ${invalidIndex + 1} is not a complete analysis (needs crawledData with url and h1, and seoAnalysis)` },
+        { status: 400 }
+      );
+    }
+
+    const results = [...uploaded] as AnalysisResult[];
+    for (const id of body.analysisIds || []) {
+      const saved = await getAnalysisRepository().get(id);
+      if (!saved) {
+        return NextResponse.json(
+          { success: false, error: `Saved analysis not found: ${id}` },
+          { status: 404 }
+        );
+      }
+      results.push(saved.analysisResult);
+    }
+
+    // Count pages after dropping repeats, so two copies of one page aren't a comparison
+    const pages = uniquePages(results);
+    if (pages.length < 2) {
+      return NextResponse.json(
+        { success: false, error: 'Select at least two different analyzed pages of the same site' },
+        { status: 400 }
+      );
+    }
+
+    let report;
+    try {
+      report = detectCannibalization(pages);
+    } catch (error) {
+      return NextResponse.json(
+        { success: false, error: error instanceof Error ? error.message : 'Invalid analyses' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    console.error('Cannibalization check error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to check keyword cannibalization.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseContentBrief } from '@/lib/content-brief-parser';
+import { CONTENT_BRIEF_SOURCES, convertToKeywordData, toSurferSEOReport } from '@/lib/surfer-report';
+import { resolveKeywordLimits } from '@/lib/keyword-processor';
+import type { ContentBriefSource, KeywordLimits } from '@/types';
+
+// Imports a content tool's term export (CSV/XLSX/JSON) - same response as /api/surfer, plus the detected source
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file') as File;
+    // Optional target keyword; from the export or its most relevant term when absent
+    const keywordField = formData.get('keyword');
+    // Optional tool the export came from; auto-detected when absent
+    const sourceField = formData.get('source');
+    // Optional JSON Settings.keywordLimits; missing values fall back to the defaults
+    const limitsField = formData.get('keywordLimits');
+
+    if (!file) {
+      return NextResponse.json(
+        { success: false, error: 'No file uploaded' },
+        { status: 400 }
+      );
+    }
+
+    if (!/\.(csv|tsv|xlsx|xls|json)$/i.test(file.name)) {
+      return NextResponse.json(
+        { success: false, error: 'Please upload the export as a CSV, Excel (.xlsx, .xls) or JSON file.' },
+        { status: 400 }
+      );
+    }
+
+    let source: ContentBriefSource | undefined;
+    if (typeof sourceField === 'string' && sourceField) {
+      if (!CONTENT_BRIEF_SOURCES.includes(sourceField as ContentBriefSource)) {
+        return NextResponse.json(
+          { success: false, error: `Unknown source "${sourceField}"` },
+          { status: 400 }
+        );
+      }
+      source = sourceField as ContentBriefSource;
+    }
+
+    let keywordLimits: Partial<KeywordLimits> | undefined;
+    if (typeof limitsField === 'string' && limitsField) {
+      try {
+        keywordLimits = JSON.parse(limitsField);
+      } catch {
+        return NextResponse.json(
+          { success: false, error: 'Invalid keyword limits' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer());
+    let parsed;
+    try {
+      parsed = parseContentBrief(buffer, file.name, {
+        mainKeyword: typeof keywordField === 'string' ? keywordField : undefined,
+        source,
+      });
+    } catch (parseError) {
+      if (parseError instanceof SyntaxError) {
+        return NextResponse.json(
+          { success: false, error: 'The JSON export could not be read' },
+          { status: 400 }
+        );
+      }
+      throw parseError;
+    }
+
+    if (!parsed.source || !parsed.data.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.data.error || 'Failed to read the export' },
+        { status: 400 }
+      );
+    }
+
+    const surferReport = toSurferSEOReport(parsed.data, parsed.source);
+    const keywords = convertToKeywordData(surferReport, resolveKeywordLimits(keywordLimits));
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        surferReport,
+        keywords,
+        source: parsed.source,
+      },
+    });
+  } catch (error) {
+    console.error('[Content Brief] Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to read the export. Please check the file format.' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { generateDocument } from '@/lib/doc-generator';
+import { buildReportModel } from '@/lib/report-model';
+import { getReportRenderer, isReportFormat } from '@/lib/report-renderers';
 import type { DocumentGenerationRequest } from '@/types';
 
 // Extend timeout for Vercel (Pro plan: up to 300s, Hobby: 10s max)
@@ -10,7 +11,7 @@ export async function POST(request: NextRequest) {
 
   try {
     const body: DocumentGenerationRequest = await request.json();
-    const { analysisResult, settings, clientName, pageName } = body;
+    const { analysisResult, settings, clientName, pageName, reaudit, cannibalization, format = 'docx' } = body;
 
     console.log('[generate-doc] Parsed body, content length:',
       analysisResult?.optimizedContent?.fullContent?.length || 0);
@@ -22,25 +23,37 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    console.log('[generate-doc] Starting document generation...');
+    if (!isReportFormat(format)) {
+      return NextResponse.json(
+        { success: false, error: `Unsupported report format: ${String(format)}` },
+        { status: 400 }
+      );
+    }
+
+    console.log(`[generate-doc] Starting ${format} document generation...`);
 
-    // Generate the Word document
-    const docBuffer = await generateDocument({
+    // Parse the content once, then render it in the requested format
+    const renderer = getReportRenderer(format);
+    const model = buildReportModel({
       analysisResult,
       settings,
       clientName: clientName || 'Client',
       pageName: pageName || 'Page',
+      reaudit,
+      cannibalization,
     });
+    const docBuffer = await renderer.render(model);
 
     console.log('[generate-doc] Document generated, buffer size:', docBuffer.length);
 
     // Return the document as a downloadable file
-    const filename = `${clientName || 'SEO'}_${pageName || 'Content'}_Improvement.docx`
+    const baseName = `${clientName || 'SEO'}_${pageName || 'Content'}_${renderer.filenameSuffix}`
       .replace(/[^a-zA-Z0-9_-]/g, '_');
+    const filename = `${baseName}.${renderer.extension}`;
 
     return new NextResponse(new Uint8Array(docBuffer), {
       headers: {
-        'Content-Type': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        'Content-Type': renderer.contentType,
         'Content-Disposition': `attachment; filename="${filename}"`,
         'Content-Length': docBuffer.length.toString(),
       },
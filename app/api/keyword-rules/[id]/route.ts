@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getKeywordRuleSetRepository } from '@/lib/keyword-rule-store';
+import { isBuiltInRuleSetId, parseKeywordRuleSet } from '@/lib/keyword-rules';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const notFound = () =>
+  NextResponse.json(
+    { success: false, error: 'Keyword rule set not found' },
+    { status: 404 }
+  );
+
+const builtInReadOnly = () =>
+  NextResponse.json(
+    { success: false, error: 'Built-in rule sets are read-only. Save a copy to edit it.' },
+    { status: 400 }
+  );
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const ruleSet = await getKeywordRuleSetRepository().get(id);
+    if (!ruleSet) return notFound();
+
+    return NextResponse.json({
+      success: true,
+      data: ruleSet,
+    });
+  } catch (error) {
+    console.error('Fetch keyword rule set error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load keyword rule set.' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  if (isBuiltInRuleSetId(id)) return builtInReadOnly();
+
+  let input;
+  try {
+    input = parseKeywordRuleSet(await request.json());
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Invalid rule set' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const ruleSet = await getKeywordRuleSetRepository().update(id, input);
+    if (!ruleSet) return notFound();
+
+    return NextResponse.json({
+      success: true,
+      data: ruleSet,
+    });
+  } catch (error) {
+    console.error('Update keyword rule set error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update keyword rule set.' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    if (isBuiltInRuleSetId(id)) return builtInReadOnly();
+
+    const deleted = await getKeywordRuleSetRepository().delete(id);
+    if (!deleted) return notFound();
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete keyword rule set error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete keyword rule set.' },
+      { status: 500 }
+    );
+  }
+}
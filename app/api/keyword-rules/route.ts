@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getKeywordRuleSetRepository } from '@/lib/keyword-rule-store';
+import { parseKeywordRuleSet } from '@/lib/keyword-rules';
+
+export async function GET() {
+  try {
+    const ruleSets = await getKeywordRuleSetRepository().list();
+
+    return NextResponse.json({
+      success: true,
+      data: ruleSets,
+    });
+  } catch (error) {
+    console.error('List keyword rule sets error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load keyword rule sets.' },
+      { status: 500 }
+    );
+  }
+}
+
+// Create a rule set (also used to import an exported JSON file)
+export async function POST(request: NextRequest) {
+  let input;
+  try {
+    input = parseKeywordRuleSet(await request.json());
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Invalid rule set' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const ruleSet = await getKeywordRuleSetRepository().create(input);
+
+    return NextResponse.json({
+      success: true,
+      data: ruleSet,
+    });
+  } catch (error) {
+    console.error('Save keyword rule set error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to save keyword rule set.' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { parseKeywordsFromBuffer } from '@/lib/keyword-parser';
+import { parseKeywordFile } from '@/lib/keyword-parser';
+import type { KeywordColumnMapping } from '@/types';
 
 export async function POST(request: NextRequest) {
   try {
     const formData = await request.formData();
     const file = formData.get('file') as File;
+    // Optional JSON column mapping chosen in the preview; auto-detected when absent
+    const mappingField = formData.get('mapping');
+    // Optional worksheet name for multi-sheet workbooks; the first sheet when absent
+    const sheetField = formData.get('sheet');
 
     if (!file) {
       return NextResponse.json(
@@ -36,10 +41,26 @@ export async function POST(request: NextRequest) {
     const arrayBuffer = await file.arrayBuffer();
     const buffer = Buffer.from(arrayBuffer);
 
+    let mapping: KeywordColumnMapping | undefined;
+    if (typeof mappingField === 'string' && mappingField) {
+      try {
+        mapping = JSON.parse(mappingField);
+      } catch {
+        return NextResponse.json(
+          { success: false, error: 'Invalid column mapping' },
+          { status: 400 }
+        );
+      }
+    }
+
     // Parse keywords
-    const keywords = parseKeywordsFromBuffer(buffer, file.name);
+    const sheet = typeof sheetField === 'string' && sheetField ? sheetField : undefined;
+    const parsed = parseKeywordFile(buffer, file.name, { mapping, sheet });
 
-    if (keywords.all.length === 0) {
+    // No keywords isn't an error while the user can still fix it in the preview
+    // by picking another column or another sheet
+    const canAdjust = Boolean(mapping || sheet) || parsed.preview.sheets.length > 1;
+    if (parsed.keywords.all.length === 0 && !canAdjust) {
       return NextResponse.json(
         { success: false, error: 'No keywords found in the uploaded file. Please check the file format.' },
         { status: 400 }
@@ -48,7 +69,7 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      data: keywords,
+      data: parsed,
     });
   } catch (error) {
     console.error('Error parsing keywords:', error);
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isCrawlerProviderName } from '@/lib/crawler';
+import { getAnalysisRepository } from '@/lib/analysis-store';
+import { reauditPage } from '@/lib/reaudit';
+import type { AnalysisResult, ReauditRequest } from '@/types';
+
+// Re-crawling can be slow for heavy pages
+export const maxDuration = 60;
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: ReauditRequest = await request.json();
+    const { savedAnalysisId, crawler } = body;
+
+    if (crawler !== undefined && !isCrawlerProviderName(crawler)) {
+      return NextResponse.json(
+        { success: false, error: `Unknown crawler provider "${crawler}". Use "firecrawl" or "fetch".` },
+        { status: 400 }
+      );
+    }
+
+    // Prefer the saved copy so the re-audit can be stored alongside it
+    let previous: AnalysisResult | undefined = body.analysisResult;
+    let originalAuditedAt: string | undefined;
+    if (savedAnalysisId) {
+      const saved = await getAnalysisRepository().get(savedAnalysisId);
+      if (!saved) {
+        return NextResponse.json(
+          { success: false, error: 'Saved analysis not found' },
+          { status: 404 }
+        );
+      }
+      previous = saved.analysisResult;
+      originalAuditedAt = saved.createdAt;
+    }
+
+    if (!previous?.crawledData || !previous?.seoAnalysis || !previous?.optimizedContent) {
+      return NextResponse.json(
+        { success: false, error: 'A saved analysis or analysis result is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!previous.crawledData.url) {
+      return NextResponse.json(
+        { success: false, error: 'This analysis was made from pasted content and has no URL to re-audit' },
+        { status: 400 }
+      );
+    }
+
+    const reaudit = await reauditPage(previous, { crawler, originalAuditedAt });
+
+    if (savedAnalysisId) {
+      await getAnalysisRepository().addReaudit(savedAnalysisId, reaudit);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: reaudit,
+    });
+  } catch (error) {
+    console.error('Re-audit error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    // Matches the fetch crawler's "Timed out after ..." as well as other "timeout" errors
+    if (/timed out|timeout/i.test(errorMessage)) {
+      return NextResponse.json(
+        { success: false, error: 'The page took too long to load. This might be a temporary issue - please try again.' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: `Re-audit failed: ${errorMessage}` },
+      { status: 500 }
+    );
+  }
+}
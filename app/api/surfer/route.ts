@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { parseSurferAuditReport } from '@/lib/surfer-parser';
-import type { SurferSEOReport, KeywordData } from '@/types';
+import { resolveKeywordLimits } from '@/lib/keyword-processor';
+import { convertToKeywordData, toSurferSEOReport } from '@/lib/surfer-report';
 
 // Extended timeout for Puppeteer browser automation
 export const maxDuration = 60;
@@ -13,6 +14,10 @@ export async function POST(request: NextRequest) {
     console.log('[Surfer API] Request body:', JSON.stringify(body));
 
     const { surferUrl } = body;
+    // Debug: save the rendered page's HTML so new extraction fixtures can be captured
+    const saveSnapshot = body.saveSnapshot === true;
+    // Optional Settings.keywordLimits; missing values fall back to the defaults
+    const limits = resolveKeywordLimits(body.keywordLimits);
 
     // Validate SurferSEO URL
     if (!surferUrl) {
@@ -37,7 +42,7 @@ export async function POST(request: NextRequest) {
     // Use Puppeteer-based parser for better extraction
     let result;
     try {
-      result = await parseSurferAuditReport(surferUrl);
+      result = await parseSurferAuditReport(surferUrl, { saveSnapshot });
       console.log('[Surfer API] Parser returned:', {
         success: result.success,
         termCount: result.terms?.length || 0,
@@ -51,60 +56,21 @@ export async function POST(request: NextRequest) {
 
     if (!result.success) {
       return NextResponse.json(
-        { success: false, error: result.error || 'Failed to parse SurferSEO report' },
+        {
+          success: false,
+          error: result.error || 'Failed to parse SurferSEO report',
+          // A snapshot of a failed page is the most useful fixture
+          snapshotPath: result.debug?.snapshotPath,
+        },
         { status: 500 }
       );
     }
 
-    // Combine regular terms and NLP terms for the full list
-    const allTerms = [...result.terms, ...result.nlpTerms];
-
     // Convert parsed data to SurferSEOReport format
-    const surferReport: SurferSEOReport = {
-      url: result.url,
-      auditedUrl: result.auditedUrl,
-      targetKeyword: result.mainKeyword,
-      contentScore: result.contentScore || 0,
-      wordCountTarget: {
-        min: result.wordCount ? Math.round(result.wordCount * 0.8) : 1500,
-        max: result.wordCount ? Math.round(result.wordCount * 1.2) : 3000,
-        recommended: result.wordCount || 2000,
-      },
-      headings: {
-        h2Count: { min: 3, max: 10, recommended: 6 },
-        h3Count: { min: 2, max: 15, recommended: 8 },
-      },
-      keywords: allTerms.map((term, index) => ({
-        term: term.term,
-        importance: index < 5 ? 'high' as const : index < 15 ? 'medium' as const : 'low' as const,
-        usageTarget: {
-          min: term.recommendedMin || 1,
-          max: term.recommendedMax || 5,
-          recommended: term.recommendedMin && term.recommendedMax
-            ? Math.round((term.recommendedMin + term.recommendedMax) / 2)
-            : 2,
-        },
-        currentCount: term.currentCount,
-        status: term.status,
-        action: term.action,
-        relevance: term.relevance,
-        isNLP: term.isNLP,
-      })),
-      nlpTerms: result.nlpTerms.map((term, index) => ({
-        term: term.term,
-        relevance: term.relevance ?? Math.max(0.3, 1 - (index * 0.03)),
-        usageTarget: term.recommendedMax || Math.max(1, 3 - Math.floor(index / 5)),
-        currentCount: term.currentCount,
-        status: term.status,
-        action: term.action,
-      })),
-      questions: result.questions,
-      competitors: [],
-      structureRecommendations: result.headings,
-    };
+    const surferReport = toSurferSEOReport(result);
 
     // Convert to KeywordData format for the main analyzer
-    const keywords = convertToKeywordData(surferReport);
+    const keywords = convertToKeywordData(surferReport, limits);
 
     console.log(`[Surfer API] Extracted ${result.terms.length} terms, ${result.nlpTerms.length} NLP terms, ${result.questions.length} questions`);
 
@@ -113,6 +79,7 @@ export async function POST(request: NextRequest) {
       data: {
         surferReport,
         keywords,
+        ...(result.debug?.snapshotPath ? { snapshotPath: result.debug.snapshotPath } : {}),
       },
     });
 
@@ -132,94 +99,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
-// Helper to check if a string looks like a URL
-function isUrl(str: string): boolean {
-  return str.startsWith('http://') ||
-         str.startsWith('https://') ||
-         str.startsWith('www.') ||
-         str.includes('.com/') ||
-         str.includes('.pdf') ||
-         str.includes('.org/') ||
-         str.includes('.net/') ||
-         str.includes('.io/') ||
-         /^[a-z0-9-]+\.(com|org|net|io|co|edu|gov|pdf)\b/i.test(str);
-}
-
-// Helper to filter out invalid keywords
-function isValidKeyword(term: string): boolean {
-  if (!term || term.length < 2 || term.length > 60) return false;
-  if (isUrl(term)) return false;
-  if (/[<>{}|\[\]\\]/.test(term)) return false;
-  return true;
-}
-
-// Maximum keyword limits to prevent overwhelming the AI
-const MAX_PRIMARY_KEYWORDS = 5;
-const MAX_SECONDARY_KEYWORDS = 10;
-const MAX_NLP_TERMS = 15;
-const MAX_QUESTIONS = 5;
-
-// Convert SurferSEO report to KeywordData format for the main analyzer
-function convertToKeywordData(surferReport: SurferSEOReport): KeywordData {
-  // Convert SurferSEO report to KeywordData format
-  const primary: string[] = [];
-  const secondary: string[] = [];
-  const nlpTerms: string[] = [];
-  const questions: string[] = surferReport.questions.filter(q => !isUrl(q));
-  const longTail: string[] = [];
-
-  // Add target keyword as primary (if valid)
-  if (surferReport.targetKeyword && isValidKeyword(surferReport.targetKeyword)) {
-    primary.push(surferReport.targetKeyword);
-  }
-
-  // Categorize keywords by importance, filtering out URLs
-  surferReport.keywords.forEach(kw => {
-    // Skip invalid keywords (URLs, too long, etc.)
-    if (!isValidKeyword(kw.term)) return;
-
-    if (kw.importance === 'high') {
-      if (!primary.includes(kw.term)) {
-        primary.push(kw.term);
-      }
-    } else if (kw.importance === 'medium') {
-      secondary.push(kw.term);
-    } else {
-      // Low importance keywords often make good long-tail targets
-      if (kw.term.split(' ').length >= 3) {
-        longTail.push(kw.term);
-      } else {
-        secondary.push(kw.term);
-      }
-    }
-  });
-
-  // Add NLP terms (filtering out URLs)
-  surferReport.nlpTerms.forEach(term => {
-    if (isValidKeyword(term.term)) {
-      nlpTerms.push(term.term);
-    }
-  });
-
-  // Apply strict limits to prevent overwhelming the AI optimizer
-  const limitedPrimary = primary.slice(0, MAX_PRIMARY_KEYWORDS);
-  const limitedSecondary = secondary.slice(0, MAX_SECONDARY_KEYWORDS);
-  const limitedNlp = nlpTerms.slice(0, MAX_NLP_TERMS);
-  const limitedQuestions = questions.slice(0, MAX_QUESTIONS);
-  const limitedLongTail = longTail.slice(0, 5);
-
-  // Combine all keywords (limited)
-  const all = [...new Set([...limitedPrimary, ...limitedSecondary, ...limitedNlp, ...limitedQuestions, ...limitedLongTail])];
-
-  console.log(`[Surfer API] Keyword limits applied: ${limitedPrimary.length} primary, ${limitedSecondary.length} secondary, ${limitedNlp.length} NLP`);
-
-  return {
-    primary: limitedPrimary,
-    secondary: limitedSecondary,
-    nlpTerms: limitedNlp,
-    questions: limitedQuestions,
-    longTail: limitedLongTail,
-    all,
-  };
-}
@@ -1,30 +1,31 @@
 "use client"
 
-import { useState, useCallback } from "react"
+import { useState, useCallback, useRef } from "react"
 import { Header } from "@/components/header"
 import { UrlInput } from "@/components/url-input"
 import { KeywordUpload } from "@/components/keyword-upload"
-import { SurferInput } from "@/components/surfer-input"
+import { ContentBriefInput } from "@/components/content-brief-input"
 import { CustomInstructionsInput } from "@/components/custom-instructions"
-import { AnalysisProgress } from "@/components/analysis-progress"
+import { AnalysisProgress, type ProgressStep } from "@/components/analysis-progress"
 import { ResultsPreview } from "@/components/results-preview"
 import { SettingsPanel } from "@/components/settings-panel"
-import type { AnalysisResult, KeywordData, Settings, SurferSEOReport, CustomInstructions } from "@/types"
+import { KeywordRulesPanel } from "@/components/keyword-rules-panel"
+import { BatchPanel } from "@/components/batch-panel"
+import { CannibalizationPanel } from "@/components/cannibalization-panel"
+import { SavedAnalyses } from "@/components/saved-analyses"
+import { ReauditPanel } from "@/components/reaudit-panel"
+import type { AnalysisResult, AnalysisStreamEvent, CannibalizationReport, KeywordData, KeywordUrlGroup, SEOAnalysis, Settings, SurferSEOReport, CustomInstructions, PastedContent, SavedAnalysis, ReauditResult, ReportFormat } from "@/types"
 import { extractDomain } from "@/lib/utils"
+import { DEFAULT_KEYWORD_LIMITS } from "@/lib/keyword-processor"
+import { DEFAULT_KEYWORD_RULE_SET } from "@/lib/keyword-rules"
+import { applyMetaSelection } from "@/lib/compliance-checker"
 
-interface ProgressStep {
-  id: string
-  label: string
-  status: 'pending' | 'in_progress' | 'completed' | 'error'
-}
-
+// Step ids match the AnalysisStageId values streamed by /api/analyze
 const initialSteps: ProgressStep[] = [
   { id: 'crawl', label: 'Crawling page content', status: 'pending' },
-  { id: 'meta', label: 'Extracting meta data', status: 'pending' },
-  { id: 'headings', label: 'Analyzing heading structure', status: 'pending' },
-  { id: 'schema', label: 'Detecting schema markup', status: 'pending' },
-  { id: 'keywords', label: 'Processing keywords', status: 'pending' },
-  { id: 'generate', label: 'Generating recommendations', status: 'pending' },
+  { id: 'analyze', label: 'Analyzing meta data, headings, schema and keywords', status: 'pending' },
+  { id: 'generate', label: 'Generating AI recommendations', status: 'pending' },
+  { id: 'parse', label: 'Validating AI response', status: 'pending' },
 ]
 
 const defaultSettings: Settings = {
@@ -33,6 +34,12 @@ const defaultSettings: Settings = {
   descriptionMaxLength: 160,
   tone: 'professional',
   includeSchemaRecommendations: true,
+  trackChangesInWord: false,
+  keywordRuleSet: DEFAULT_KEYWORD_RULE_SET,
+  relevanceScorer: 'tfidf',
+  keywordLimits: DEFAULT_KEYWORD_LIMITS,
+  llmProvider: 'anthropic',
+  llmModel: '',
 }
 
 const defaultCustomInstructions: CustomInstructions = {
@@ -42,23 +49,44 @@ const defaultCustomInstructions: CustomInstructions = {
   additionalInstructions: '',
 }
 
+// Download filename endings per report format
+const downloadFileSuffixes: Record<ReportFormat, string> = {
+  docx: 'Content_Improvement.docx',
+  pdf: 'Content_Improvement.pdf',
+  html: 'Content_Improvement.html',
+  'html-clean': 'Paste_Ready.html',
+  markdown: 'Content_Improvement.md',
+}
+
 export default function Home() {
   const [isAnalyzing, setIsAnalyzing] = useState(false)
   const [isGeneratingDoc, setIsGeneratingDoc] = useState(false)
   const [keywords, setKeywords] = useState<KeywordData | null>(null)
+  // Per-URL keywords from a URL → keyword file, queued for the batch panel
+  const [batchPages, setBatchPages] = useState<KeywordUrlGroup[] | null>(null)
   const [surferReport, setSurferReport] = useState<SurferSEOReport | null>(null)
   const [settings, setSettings] = useState<Settings>(defaultSettings)
+  // The settings the shown results were made with; the Settings panel may have changed since
+  const [resultsSettings, setResultsSettings] = useState<Settings>(defaultSettings)
   const [customInstructions, setCustomInstructions] = useState<CustomInstructions>(defaultCustomInstructions)
   const [results, setResults] = useState<AnalysisResult | null>(null)
   const [error, setError] = useState("")
   const [progressSteps, setProgressSteps] = useState<ProgressStep[]>(initialSteps)
   const [currentMessage, setCurrentMessage] = useState("")
   const [analyzedUrl, setAnalyzedUrl] = useState("")
-
-  const updateStepStatus = (stepId: string, status: ProgressStep['status']) => {
+  const [partialAnalysis, setPartialAnalysis] = useState<SEOAnalysis | null>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
+  const [savedAnalysisId, setSavedAnalysisId] = useState<string | null>(null)
+  const [savedListVersion, setSavedListVersion] = useState(0)
+  const [reaudit, setReaudit] = useState<ReauditResult | null>(null)
+  // Latest site-wide check; reports of pages it covered get a cannibalization section
+  const [cannibalizationReport, setCannibalizationReport] = useState<CannibalizationReport | null>(null)
+  const [includeImplementationCheck, setIncludeImplementationCheck] = useState(false)
+
+  const updateStep = (stepId: string, changes: Partial<ProgressStep>) => {
     setProgressSteps(prev =>
       prev.map(step =>
-        step.id === stepId ? { ...step, status } : step
+        step.id === stepId ? { ...step, ...changes } : step
       )
     )
   }
@@ -66,25 +94,51 @@ export default function Home() {
   const resetProgress = () => {
     setProgressSteps(initialSteps.map(step => ({ ...step, status: 'pending' })))
     setCurrentMessage("")
+    setPartialAnalysis(null)
     setError("")
   }
 
-  const handleAnalyze = useCallback(async (url: string) => {
+  // Apply one streamed event to the progress UI. Returns the final result if this was it.
+  const handleStreamEvent = (event: AnalysisStreamEvent): AnalysisResult | null => {
+    switch (event.type) {
+      case 'stage':
+        if (event.status === 'started') {
+          updateStep(event.stage, { status: 'in_progress', startedAt: event.at })
+        } else {
+          updateStep(event.stage, { status: 'completed', finishedAt: event.at, detail: event.message })
+        }
+        setCurrentMessage(event.message)
+        return null
+      case 'analysis':
+        setPartialAnalysis(event.data)
+        return null
+      case 'tokens':
+        updateStep('generate', { detail: `Receiving response (${event.characters.toLocaleString()} characters)` })
+        return null
+      case 'result':
+        return event.data
+      case 'error':
+        throw new Error(event.error)
+    }
+  }
+
+  const handleAnalyze = useCallback(async (url: string, pastedContent?: PastedContent) => {
     setIsAnalyzing(true)
     setResults(null)
     setError("")
     setAnalyzedUrl(url)
+    setSavedAnalysisId(null)
+    setReaudit(null)
+    setIncludeImplementationCheck(false)
     resetProgress()
 
-    try {
-      // Simulate step progress for better UX
-      const steps = ['crawl', 'meta', 'headings', 'schema', 'keywords', 'generate']
+    const controller = new AbortController()
+    abortControllerRef.current = controller
 
-      // Start first step
-      updateStepStatus('crawl', 'in_progress')
-      setCurrentMessage('Connecting to page...')
+    try {
+      setCurrentMessage(pastedContent ? 'Reading pasted content...' : 'Connecting to page...')
 
-      // Make the API call
+      // Stream real stage events (NDJSON) from the API
       const response = await fetch('/api/analyze', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -100,30 +154,54 @@ export default function Home() {
           },
           settings,
           customInstructions,
+          pastedContent,
+          surferReport,
+          stream: true,
         }),
+        signal: controller.signal,
       })
 
-      // Simulate progress updates
-      for (let i = 0; i < steps.length; i++) {
-        updateStepStatus(steps[i], 'completed')
-        if (i < steps.length - 1) {
-          updateStepStatus(steps[i + 1], 'in_progress')
-          setCurrentMessage(getProgressMessage(steps[i + 1]))
+      // Validation errors come back as a plain JSON response
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => null)
+        throw new Error(data?.error || 'Analysis failed')
+      }
+
+      const reader = response.body.getReader()
+      const decoder = new TextDecoder()
+      let buffer = ''
+      let result: AnalysisResult | null = null
+
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+
+        buffer += decoder.decode(value, { stream: true })
+        const lines = buffer.split('\n')
+        buffer = lines.pop() || ''
+
+        for (const line of lines) {
+          if (!line.trim()) continue
+          result = handleStreamEvent(JSON.parse(line) as AnalysisStreamEvent) || result
         }
-        // Small delay for visual feedback
-        await new Promise(resolve => setTimeout(resolve, 300))
       }
 
-      const data = await response.json()
+      if (buffer.trim()) {
+        result = handleStreamEvent(JSON.parse(buffer) as AnalysisStreamEvent) || result
+      }
 
-      if (!data.success) {
-        throw new Error(data.error || 'Analysis failed')
+      if (!result) {
+        throw new Error('Analysis ended without a result')
       }
 
-      setResults(data.data)
+      setResults(result)
+      setResultsSettings(settings)
       setCurrentMessage('Analysis complete!')
-
+      await saveAnalysis(result)
     } catch (err) {
+      if (err instanceof Error && err.name === 'AbortError') {
+        return
+      }
       const errorMessage = err instanceof Error ? err.message : 'Something went wrong'
       setError(errorMessage)
       // Mark current step as error
@@ -133,16 +211,100 @@ export default function Home() {
         )
       )
     } finally {
+      abortControllerRef.current = null
       setIsAnalyzing(false)
     }
-  }, [keywords, settings, customInstructions])
+  }, [keywords, settings, customInstructions, surferReport])
+
+  // Persist a finished analysis to the workspace. Failures don't affect the results shown.
+  const saveAnalysis = async (result: AnalysisResult) => {
+    try {
+      const response = await fetch('/api/analyses', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          analysisResult: result,
+          settings,
+          customInstructions,
+          keywords: result.keywords,
+          surferReport,
+        }),
+      })
+      const data = await response.json()
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to save analysis')
+      }
+      setSavedAnalysisId(data.data.id)
+      setSavedListVersion(version => version + 1)
+    } catch (err) {
+      console.error('[saveAnalysis] Could not save analysis:', err)
+    }
+  }
+
+  // Reopen a saved analysis - the report can be regenerated without re-crawling
+  const handleOpenSaved = (analysis: SavedAnalysis) => {
+    // Analyses saved before a setting existed fall back to its default
+    const analysisSettings = { ...defaultSettings, ...analysis.settings }
+    setResults(analysis.analysisResult)
+    setResultsSettings(analysisSettings)
+    setSettings(analysisSettings)
+    setCustomInstructions(analysis.customInstructions)
+    setKeywords(analysis.keywords)
+    setSurferReport(analysis.surferReport)
+    setAnalyzedUrl(analysis.url)
+    setSavedAnalysisId(analysis.id)
+    setReaudit(analysis.reaudits?.[analysis.reaudits.length - 1] || null)
+    setIncludeImplementationCheck(false)
+    resetProgress()
+  }
+
+  const handleReauditComplete = (result: ReauditResult) => {
+    setReaudit(result)
+    setIncludeImplementationCheck(true)
+    if (savedAnalysisId) {
+      // Stored with the saved analysis - refresh the sidebar scores
+      setSavedListVersion(version => version + 1)
+    }
+  }
+
+  const handleSavedDeleted = (id: string) => {
+    if (id === savedAnalysisId) {
+      setSavedAnalysisId(null)
+    }
+  }
 
   const handleCancel = () => {
+    abortControllerRef.current?.abort()
     setIsAnalyzing(false)
     resetProgress()
   }
 
-  const handleDownload = async () => {
+  // A picked title or description variant replaces the recommendation used in the report,
+  // and is saved with the analysis so reopening it and re-audits use the same text.
+  // It is re-checked against the analysis' own length limits, as the server does when saving.
+  const handleSelectMetaVariant = async (field: 'metaTitle' | 'metaDescription', text: string) => {
+    setResults(prev => prev && applyMetaSelection(prev, { [field]: text }, resultsSettings))
+    if (!savedAnalysisId) return
+
+    try {
+      const response = await fetch(`/api/analyses/${savedAnalysisId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ [field]: text }),
+      })
+      const data = await response.json()
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to save selection')
+      }
+      setSavedListVersion(version => version + 1)
+    } catch (err) {
+      console.error('[selectMetaVariant] Could not save selection:', err)
+      const label = field === 'metaTitle' ? 'title' : 'meta description'
+      alert(`The selected ${label} is used for this report but could not be saved with the analysis (${err instanceof Error ? err.message : 'unknown error'}). Reopening the analysis will show the previous one.`)
+    }
+  }
+
+  const handleDownload = async (format: ReportFormat = 'docx') => {
     if (!results) return
 
     setIsGeneratingDoc(true)
@@ -156,21 +318,23 @@ export default function Home() {
       const domain = extractDomain(analyzedUrl)
       const clientName = settings.brandName || domain.split('.')[0] || 'Client'
 
-      // Extract URL slug for filename
-      let urlSlug = 'homepage'
-      try {
-        const parsedUrl = new URL(analyzedUrl)
-        const pathname = parsedUrl.pathname
-        // Remove leading/trailing slashes and get the path
-        const cleanPath = pathname.replace(/^\/+|\/+$/g, '')
-        if (cleanPath) {
-          // Replace remaining slashes with hyphens, convert to lowercase
-          urlSlug = cleanPath.replace(/\//g, '-').toLowerCase()
+      // Extract URL slug for filename (pasted content may have no URL)
+      let urlSlug = analyzedUrl ? 'homepage' : 'pasted-content'
+      if (analyzedUrl) {
+        try {
+          const parsedUrl = new URL(analyzedUrl)
+          const pathname = parsedUrl.pathname
+          // Remove leading/trailing slashes and get the path
+          const cleanPath = pathname.replace(/^\/+|\/+$/g, '')
+          if (cleanPath) {
+            // Replace remaining slashes with hyphens, convert to lowercase
+            urlSlug = cleanPath.replace(/\//g, '-').toLowerCase()
+          }
+        } catch {
+          // If URL parsing fails, fall back to simple extraction
+          const pathParts = analyzedUrl.split('/').filter(Boolean)
+          urlSlug = pathParts[pathParts.length - 1] || 'homepage'
         }
-      } catch {
-        // If URL parsing fails, fall back to simple extraction
-        const pathParts = analyzedUrl.split('/').filter(Boolean)
-        urlSlug = pathParts[pathParts.length - 1] || 'homepage'
       }
 
       // Sanitize the URL slug for filename (remove special characters)
@@ -187,6 +351,9 @@ export default function Home() {
           settings,
           clientName,
           pageName: sanitizedSlug, // Pass the URL slug as pageName for document title
+          reaudit: includeImplementationCheck && reaudit ? reaudit : undefined,
+          cannibalization: cannibalizationReport || undefined,
+          format,
         }),
         signal: controller.signal,
       })
@@ -209,7 +376,7 @@ export default function Home() {
       a.href = blobUrl
       // Sanitize client name for filename
       const sanitizedClient = clientName.replace(/[^a-zA-Z0-9_-]/g, '_')
-      a.download = `${sanitizedClient}_${sanitizedSlug}_Content_Improvement.docx`
+      a.download = `${sanitizedClient}_${sanitizedSlug}_${downloadFileSuffixes[format]}`
       document.body.appendChild(a)
       a.click()
       window.URL.revokeObjectURL(blobUrl)
@@ -243,6 +410,12 @@ export default function Home() {
         questions: [...new Set([...keywords.questions, ...loadedKeywords.questions])],
         longTail: [...new Set([...keywords.longTail, ...loadedKeywords.longTail])],
         all: [...new Set([...keywords.all, ...loadedKeywords.all])],
+        // Keep spreadsheet metrics, intents and clusters from the uploaded list
+        ...(keywords.metrics || loadedKeywords.metrics ? { metrics: { ...keywords.metrics, ...loadedKeywords.metrics } } : {}),
+        ...(keywords.intents || loadedKeywords.intents ? { intents: { ...keywords.intents, ...loadedKeywords.intents } } : {}),
+        ...(keywords.clusters || loadedKeywords.clusters
+          ? { clusters: [...(keywords.clusters || []), ...(loadedKeywords.clusters || [])] }
+          : {}),
       }
       setKeywords(mergedKeywords)
     } else {
@@ -256,68 +429,122 @@ export default function Home() {
       <Header />
 
       <main className="container py-8">
-        <div className="max-w-4xl mx-auto space-y-6">
-          {/* URL Input Section */}
-          <UrlInput
-            onAnalyze={handleAnalyze}
-            isAnalyzing={isAnalyzing}
-            disabled={isAnalyzing}
-          />
-
-          {/* SurferSEO Import */}
-          <SurferInput
-            onDataLoaded={handleSurferDataLoaded}
-            disabled={isAnalyzing}
-          />
-
-          {/* Custom Instructions */}
-          <CustomInstructionsInput
-            value={customInstructions}
-            onChange={setCustomInstructions}
-            disabled={isAnalyzing}
-          />
-
-          {/* Keyword Upload and Settings */}
-          <div className="grid gap-6 md:grid-cols-2">
-            <KeywordUpload
-              onKeywordsLoaded={handleKeywordsLoaded}
-              keywords={keywords}
+        <div className="flex flex-col lg:flex-row gap-6 max-w-7xl mx-auto">
+          {/* Saved analyses workspace */}
+          <aside className="lg:w-72 lg:shrink-0 lg:sticky lg:top-24 lg:self-start">
+            <SavedAnalyses
+              refreshKey={savedListVersion}
+              activeId={savedAnalysisId}
+              onOpen={handleOpenSaved}
+              onDeleted={handleSavedDeleted}
               disabled={isAnalyzing}
             />
-            <SettingsPanel
-              settings={settings}
-              onSettingsChange={setSettings}
+          </aside>
+
+          <div className="flex-1 min-w-0 max-w-4xl space-y-6">
+            {/* URL Input Section */}
+            <UrlInput
+              onAnalyze={handleAnalyze}
+              isAnalyzing={isAnalyzing}
               disabled={isAnalyzing}
             />
-          </div>
 
-          {/* Analysis Progress */}
-          {isAnalyzing && (
-            <AnalysisProgress
-              steps={progressSteps}
-              currentMessage={currentMessage}
-              onCancel={handleCancel}
-              error={error}
+            {/* Content brief import (Surfer, Clearscope, MarketMuse, Frase, NeuronWriter) */}
+            <ContentBriefInput
+              onDataLoaded={handleSurferDataLoaded}
+              keywordLimits={settings.keywordLimits}
+              disabled={isAnalyzing}
             />
-          )}
 
-          {/* Results Preview */}
-          {results && !isAnalyzing && (
-            <ResultsPreview
-              results={results}
-              settings={settings}
-              onDownload={handleDownload}
-              isGenerating={isGeneratingDoc}
+            {/* Custom Instructions */}
+            <CustomInstructionsInput
+              value={customInstructions}
+              onChange={setCustomInstructions}
+              disabled={isAnalyzing}
             />
-          )}
 
-          {/* Error Display (when not in progress) */}
-          {error && !isAnalyzing && (
-            <div className="p-4 bg-destructive/10 border border-destructive/20 rounded-lg text-destructive">
-              <p className="font-medium">Analysis Failed</p>
-              <p className="text-sm mt-1">{error}</p>
+            {/* Keyword Upload and Settings */}
+            <div className="grid gap-6 md:grid-cols-2">
+              <KeywordUpload
+                onKeywordsLoaded={handleKeywordsLoaded}
+                onPagesLoaded={setBatchPages}
+                keywords={keywords}
+                disabled={isAnalyzing}
+              />
+              <SettingsPanel
+                settings={settings}
+                onSettingsChange={setSettings}
+                disabled={isAnalyzing}
+              />
             </div>
-          )}
+
+            {/* Per-client keyword rules */}
+            <KeywordRulesPanel
+              ruleSet={settings.keywordRuleSet}
+              onRuleSetChange={(keywordRuleSet) => setSettings(prev => ({ ...prev, keywordRuleSet }))}
+              defaultClient={settings.brandName}
+              disabled={isAnalyzing}
+            />
+
+            {/* Batch Analysis */}
+            <BatchPanel
+              settings={settings}
+              customInstructions={customInstructions}
+              pages={batchPages}
+              onPagesCleared={() => setBatchPages(null)}
+              disabled={isAnalyzing}
+            />
+
+            {/* Keyword Cannibalization */}
+            <CannibalizationPanel
+              report={cannibalizationReport}
+              onReportChange={setCannibalizationReport}
+              disabled={isAnalyzing}
+            />
+
+            {/* Analysis Progress */}
+            {isAnalyzing && (
+              <AnalysisProgress
+                steps={progressSteps}
+                currentMessage={currentMessage}
+                onCancel={handleCancel}
+                error={error}
+                partialAnalysis={partialAnalysis}
+              />
+            )}
+
+            {/* Results Preview */}
+            {results && !isAnalyzing && (
+              <ResultsPreview
+                results={results}
+                settings={settings}
+                onDownload={handleDownload}
+                isGenerating={isGeneratingDoc}
+                onSelectMetaVariant={handleSelectMetaVariant}
+              />
+            )}
+
+            {/* Re-audit / Implementation Check */}
+            {results && !isAnalyzing && (
+              <ReauditPanel
+                results={results}
+                savedAnalysisId={savedAnalysisId}
+                reaudit={reaudit}
+                onReauditComplete={handleReauditComplete}
+                includeInReport={includeImplementationCheck}
+                onIncludeInReportChange={setIncludeImplementationCheck}
+                disabled={isGeneratingDoc}
+              />
+            )}
+
+            {/* Error Display (when not in progress) */}
+            {error && !isAnalyzing && (
+              <div className="p-4 bg-destructive/10 border border-destructive/20 rounded-lg text-destructive">
+                <p className="font-medium">Analysis Failed</p>
+                <p className="text-sm mt-1">{error}</p>
+              </div>
+            )}
+          </div>
         </div>
       </main>
 
@@ -329,15 +556,3 @@ export default function Home() {
     </div>
   )
 }
-
-function getProgressMessage(stepId: string): string {
-  const messages: Record<string, string> = {
-    crawl: 'Crawling page content...',
-    meta: 'Extracting meta data and titles...',
-    headings: 'Analyzing heading structure...',
-    schema: 'Detecting schema markup...',
-    keywords: 'Processing and analyzing keywords...',
-    generate: 'Generating AI-powered recommendations...',
-  }
-  return messages[stepId] || 'Processing...'
-}
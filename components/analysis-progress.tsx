@@ -1,14 +1,20 @@
 "use client"
 
+import { useEffect, useState } from "react"
 import { CheckCircle, Circle, Loader2, XCircle } from "lucide-react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Progress } from "@/components/ui/progress"
 import { Button } from "@/components/ui/button"
+import type { SEOAnalysis } from "@/types"
 
-interface ProgressStep {
+export interface ProgressStep {
   id: string
   label: string
   status: 'pending' | 'in_progress' | 'completed' | 'error'
+  // Epoch milliseconds, set from server stage events
+  startedAt?: number
+  finishedAt?: number
+  detail?: string
 }
 
 interface AnalysisProgressProps {
@@ -16,11 +22,29 @@ interface AnalysisProgressProps {
   currentMessage: string
   onCancel: () => void
   error?: string
+  // Available as soon as the analysis stage finishes, before the AI step
+  partialAnalysis?: SEOAnalysis | null
 }
 
-export function AnalysisProgress({ steps, currentMessage, onCancel, error }: AnalysisProgressProps) {
+function formatElapsed(ms: number): string {
+  const seconds = ms / 1000
+  return seconds < 60
+    ? `${seconds.toFixed(1)}s`
+    : `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`
+}
+
+export function AnalysisProgress({ steps, currentMessage, onCancel, error, partialAnalysis }: AnalysisProgressProps) {
   const completedSteps = steps.filter(s => s.status === 'completed').length
   const progress = (completedSteps / steps.length) * 100
+  const [now, setNow] = useState(() => Date.now())
+
+  // Tick while a step is running so its elapsed time updates
+  const hasRunningStep = steps.some(s => s.status === 'in_progress')
+  useEffect(() => {
+    if (!hasRunningStep) return
+    const timer = setInterval(() => setNow(Date.now()), 200)
+    return () => clearInterval(timer)
+  }, [hasRunningStep])
 
   const getStepIcon = (status: ProgressStep['status']) => {
     switch (status) {
@@ -35,6 +59,12 @@ export function AnalysisProgress({ steps, currentMessage, onCancel, error }: Ana
     }
   }
 
+  const getElapsed = (step: ProgressStep): string | null => {
+    if (!step.startedAt) return null
+    const end = step.finishedAt ?? (step.status === 'in_progress' ? now : step.startedAt)
+    return formatElapsed(Math.max(0, end - step.startedAt))
+  }
+
   return (
     <Card>
       <CardHeader>
@@ -60,15 +90,59 @@ export function AnalysisProgress({ steps, currentMessage, onCancel, error }: Ana
               }`}
             >
               {getStepIcon(step.status)}
-              <span className={`text-sm ${
-                step.status === 'pending' ? 'text-muted-foreground' : ''
-              }`}>
-                {step.label}
-              </span>
+              <div className="flex-1 min-w-0">
+                <span className={`text-sm ${
+                  step.status === 'pending' ? 'text-muted-foreground' : ''
+                }`}>
+                  {step.label}
+                </span>
+                {step.detail && (
+                  <p className="text-xs text-muted-foreground truncate">{step.detail}</p>
+                )}
+              </div>
+              {getElapsed(step) && (
+                <span className="text-xs text-muted-foreground tabular-nums">
+                  {getElapsed(step)}
+                </span>
+              )}
             </div>
           ))}
         </div>
 
+        {/* Partial results: the SEO analysis is ready before the AI step finishes */}
+        {partialAnalysis && (
+          <div className="p-3 rounded-lg border space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium">Current SEO Score</span>
+              <span className={`font-semibold ${
+                partialAnalysis.score >= 80 ? 'text-success' :
+                partialAnalysis.score >= 50 ? 'text-warning' :
+                'text-destructive'
+              }`}>
+                {partialAnalysis.score}/100
+              </span>
+            </div>
+            {partialAnalysis.issues.length > 0 && (
+              <ul className="space-y-1 text-xs">
+                {partialAnalysis.issues.slice(0, 5).map((issue, i) => (
+                  <li key={i} className={
+                    issue.type === 'error' ? 'text-destructive' :
+                    issue.type === 'warning' ? 'text-warning' :
+                    'text-muted-foreground'
+                  }>
+                    {issue.message}
+                  </li>
+                ))}
+                {partialAnalysis.issues.length > 5 && (
+                  <li className="italic text-muted-foreground">
+                    +{partialAnalysis.issues.length - 5} more issues
+                  </li>
+                )}
+              </ul>
+            )}
+          </div>
+        )}
+
         {currentMessage && !error && (
           <div className="text-sm text-muted-foreground text-center">
             {currentMessage}
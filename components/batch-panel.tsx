@@ -0,0 +1,348 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Layers, ChevronDown, ChevronUp, Download, Upload, CheckCircle, XCircle, Loader2, Circle, FileSpreadsheet, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { CannibalizationTable } from "@/components/cannibalization-panel"
+import type { BatchItemStatus, BatchJobSummary, CustomInstructions, KeywordUrlGroup, Settings } from "@/types"
+
+interface BatchPanelProps {
+  settings: Settings
+  customInstructions: CustomInstructions
+  // Pages imported from a URL → keyword file; used instead of the text input while set
+  pages?: KeywordUrlGroup[] | null
+  onPagesCleared?: () => void
+  disabled?: boolean
+}
+
+// How often to poll job status while a batch is running
+const POLL_INTERVAL_MS = 2000
+
+const statusLabels: Record<BatchItemStatus, string> = {
+  queued: 'Queued',
+  crawling: 'Crawling',
+  analyzing: 'Analyzing',
+  optimizing: 'Optimizing',
+  completed: 'Done',
+  failed: 'Failed',
+}
+
+export function BatchPanel({ settings, customInstructions, pages, onPagesCleared, disabled }: BatchPanelProps) {
+  const [isExpanded, setIsExpanded] = useState(false)
+  const [input, setInput] = useState("")
+  const [error, setError] = useState("")
+  const [isStarting, setIsStarting] = useState(false)
+  const [isDownloading, setIsDownloading] = useState(false)
+  const [job, setJob] = useState<BatchJobSummary | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const isRunning = job?.status === 'running'
+
+  // Open the panel when pages arrive from the keyword upload
+  useEffect(() => {
+    if (pages && pages.length > 0) {
+      setIsExpanded(true)
+      setError("")
+    }
+  }, [pages])
+
+  // Pages are processed inside requests, so keep asking the server for the next ones
+  // until the batch finishes
+  const jobId = job?.id
+  useEffect(() => {
+    if (!jobId || !isRunning) return
+    let cancelled = false
+
+    const advance = async () => {
+      while (!cancelled) {
+        try {
+          const response = await fetch(`/api/batch/${jobId}/advance`, { method: 'POST' })
+          const data = await response.json()
+          if (cancelled) return
+          if (!data.success) {
+            setError(data.error || 'Failed to process batch')
+            return
+          }
+          setJob(data.data)
+          if (data.data.status !== 'running') return
+        } catch {
+          // Transient network error - try again after a pause
+        }
+        await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS))
+      }
+    }
+
+    advance()
+    return () => {
+      cancelled = true
+    }
+  }, [jobId, isRunning])
+
+  // Poll job status until the batch finishes
+  useEffect(() => {
+    if (!job || job.status !== 'running') return
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/batch/${job.id}`)
+        const data = await response.json()
+        if (data.success) {
+          setJob(data.data)
+        } else {
+          setError(data.error || 'Failed to fetch batch status')
+        }
+      } catch {
+        // Transient network error - try again on next tick
+        setJob({ ...job })
+      }
+    }, POLL_INTERVAL_MS)
+
+    return () => clearTimeout(timer)
+  }, [job])
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+    setInput(await file.text())
+    setError("")
+    onPagesCleared?.()
+    e.target.value = ''
+  }
+
+  const handleStart = async () => {
+    setIsStarting(true)
+    setError("")
+
+    try {
+      const response = await fetch('/api/batch', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(
+          pages && pages.length > 0
+            ? { items: pages, settings, customInstructions }
+            : { input, settings, customInstructions }
+        ),
+      })
+      const data = await response.json()
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to start batch')
+      }
+
+      setJob(data.data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start batch')
+    } finally {
+      setIsStarting(false)
+    }
+  }
+
+  const handleDownload = async () => {
+    if (!job) return
+    setIsDownloading(true)
+
+    try {
+      const response = await fetch(`/api/batch/${job.id}/download`)
+      if (!response.ok) {
+        throw new Error('Failed to download reports')
+      }
+
+      const blob = await response.blob()
+      const blobUrl = window.URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = blobUrl
+      a.download = `${job.id}_reports.zip`
+      document.body.appendChild(a)
+      a.click()
+      window.URL.revokeObjectURL(blobUrl)
+      document.body.removeChild(a)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to download reports')
+    } finally {
+      setIsDownloading(false)
+    }
+  }
+
+  const getStatusIcon = (status: BatchItemStatus) => {
+    switch (status) {
+      case 'completed':
+        return <CheckCircle className="h-4 w-4 text-success flex-shrink-0" />
+      case 'failed':
+        return <XCircle className="h-4 w-4 text-destructive flex-shrink-0" />
+      case 'queued':
+        return <Circle className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+      default:
+        return <Loader2 className="h-4 w-4 text-primary animate-spin flex-shrink-0" />
+    }
+  }
+
+  const lineCount = pages && pages.length > 0
+    ? pages.length
+    : input.split(/\r?\n/).filter(line => line.trim()).length
+
+  return (
+    <div className="rounded-lg border bg-card p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Layers className="h-5 w-5 text-primary" />
+          <h3 className="font-semibold">Batch Analysis</h3>
+          <span className="text-xs bg-primary/10 text-primary px-2 py-0.5 rounded-full">Optional</span>
+          {job && (
+            <span className={`text-xs px-2 py-0.5 rounded-full ${isRunning ? 'bg-primary/10 text-primary' : 'bg-success/20 text-success'}`}>
+              {job.completed + job.failed} / {job.total} processed
+            </span>
+          )}
+        </div>
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="text-muted-foreground hover:text-foreground transition-colors"
+        >
+          {isExpanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+        </button>
+      </div>
+
+      {isExpanded && (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Analyze many pages at once. One page per line: the URL followed by its keywords, separated by semicolons.
+            A keyword spreadsheet with a target URL column can also be sent here from the keyword upload.
+            Uses the settings and custom instructions above.
+          </p>
+
+          {pages && pages.length > 0 ? (
+            <div className="p-3 rounded-md bg-muted/30 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 text-sm font-medium">
+                  <FileSpreadsheet className="h-4 w-4 text-primary" />
+                  {pages.length} page{pages.length !== 1 ? 's' : ''} from keyword file
+                </div>
+                <button
+                  onClick={onPagesCleared}
+                  className="text-muted-foreground hover:text-foreground transition-colors"
+                  disabled={isRunning || isStarting}
+                  title="Use pasted input instead"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+              <div className="max-h-40 overflow-y-auto space-y-1">
+                {pages.map((page) => (
+                  <p key={page.url} className="text-xs text-muted-foreground truncate" title={page.url}>
+                    {page.url} • {page.keywords.all.length} keyword{page.keywords.all.length !== 1 ? 's' : ''}
+                  </p>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <textarea
+              value={input}
+              onChange={(e) => {
+                setInput(e.target.value)
+                setError("")
+              }}
+              placeholder={"https://example.com/teacher-insurance, teacher liability insurance; educator coverage\nhttps://example.com/pta-insurance, pta insurance; parent organization insurance"}
+              className="w-full min-h-[140px] rounded-md border border-input bg-background px-3 py-2 text-sm font-mono placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 resize-y"
+              disabled={disabled || isRunning || isStarting}
+            />
+          )}
+
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.tsv,.txt"
+              className="hidden"
+              onChange={handleFileSelected}
+            />
+            <Button
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={disabled || isRunning || isStarting}
+            >
+              <Upload className="mr-2 h-4 w-4" />
+              Load CSV
+            </Button>
+            <Button
+              onClick={handleStart}
+              disabled={disabled || isRunning || isStarting || lineCount === 0}
+            >
+              {isStarting || isRunning ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  {isStarting ? 'Starting...' : 'Processing...'}
+                </>
+              ) : (
+                `Start Batch${lineCount > 0 ? ` (${lineCount} ${pages && pages.length > 0 ? 'page' : 'line'}${lineCount !== 1 ? 's' : ''})` : ''}`
+              )}
+            </Button>
+            {job && job.completed > 0 && (
+              <Button
+                variant="success"
+                onClick={handleDownload}
+                disabled={isDownloading}
+              >
+                {isDownloading ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Download className="mr-2 h-4 w-4" />
+                )}
+                Download ZIP ({job.completed} report{job.completed !== 1 ? 's' : ''})
+              </Button>
+            )}
+          </div>
+
+          {error && (
+            <div className="p-3 rounded-md bg-destructive/10 text-destructive text-sm whitespace-pre-line">
+              {error}
+            </div>
+          )}
+
+          {job && (
+            <div className="space-y-2">
+              <div className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+                Batch Status
+              </div>
+              {job.items.map((item) => (
+                <div
+                  key={item.index}
+                  className="flex items-center justify-between gap-3 p-3 rounded-md bg-muted/30"
+                >
+                  <div className="flex items-center gap-3 min-w-0 flex-1">
+                    {getStatusIcon(item.status)}
+                    <div className="min-w-0 flex-1">
+                      <p className="text-sm font-medium truncate" title={item.url}>{item.url}</p>
+                      {item.error ? (
+                        <p className="text-xs text-destructive truncate" title={item.error}>{item.error}</p>
+                      ) : (
+                        <p className="text-xs text-muted-foreground">
+                          {statusLabels[item.status]}
+                          {item.primaryKeyword && ` • ${item.primaryKeyword}`}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                  {item.score !== undefined && (
+                    <span className="text-xs px-2 py-0.5 rounded bg-muted font-medium">
+                      Score {item.score}
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {job?.cannibalization && job.cannibalization.length > 0 && (
+            <div className="space-y-2">
+              <div className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+                Keyword Cannibalization
+              </div>
+              {job.cannibalization.map((report) => (
+                <CannibalizationTable key={report.domain} report={report} />
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,263 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Swords, ChevronDown, ChevronUp, Upload, Loader2, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { AnalysisResult, CannibalizationReport, SavedAnalysisSummary } from "@/types"
+
+interface CannibalizationPanelProps {
+  report: CannibalizationReport | null
+  onReportChange: (report: CannibalizationReport | null) => void
+  disabled?: boolean
+}
+
+const severityStyles: Record<CannibalizationReport['issues'][number]['severity'], string> = {
+  high: 'bg-destructive/10 text-destructive',
+  medium: 'bg-warning/20 text-warning',
+}
+
+/**
+ * Table of contested keywords: who should own each one and what the other pages should change
+ */
+export function CannibalizationTable({ report }: { report: CannibalizationReport }) {
+  if (report.issues.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No keyword conflicts across {report.urls.length} pages on {report.domain}.
+      </p>
+    )
+  }
+
+  return (
+    <div className="overflow-x-auto rounded-lg border">
+      <table className="w-full text-xs">
+        <thead className="bg-muted/50">
+          <tr>
+            <th className="px-2 py-1.5 text-left font-medium">Keyword</th>
+            <th className="px-2 py-1.5 text-left font-medium">Should Own</th>
+            <th className="px-2 py-1.5 text-left font-medium">Competing Pages</th>
+          </tr>
+        </thead>
+        <tbody>
+          {report.issues.map((issue) => (
+            <tr key={issue.keyword} className="border-t align-top">
+              <td className="px-2 py-1.5">
+                <p className="font-medium">{issue.keyword}</p>
+                <span className={`inline-block mt-1 px-1.5 rounded ${severityStyles[issue.severity]}`}>
+                  {issue.severity === 'high' ? 'High' : 'Medium'}
+                </span>
+              </td>
+              <td className="px-2 py-1.5 max-w-[200px]">
+                <p className="truncate" title={issue.ownerUrl}>{pathOf(issue.ownerUrl)}</p>
+                <p className="text-muted-foreground">{issue.ownerReason}</p>
+              </td>
+              <td className="px-2 py-1.5 space-y-1">
+                {issue.recommendations.map((rec) => (
+                  <div key={rec.url}>
+                    <p className="truncate max-w-[220px]" title={rec.url}>{pathOf(rec.url)}</p>
+                    <p className="text-muted-foreground">{rec.action}</p>
+                  </div>
+                ))}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+export function CannibalizationPanel({ report, onReportChange, disabled }: CannibalizationPanelProps) {
+  const [isExpanded, setIsExpanded] = useState(false)
+  const [analyses, setAnalyses] = useState<SavedAnalysisSummary[]>([])
+  const [project, setProject] = useState("")
+  const [uploaded, setUploaded] = useState<AnalysisResult[]>([])
+  const [isChecking, setIsChecking] = useState(false)
+  const [error, setError] = useState("")
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  // Load saved analyses when the panel is opened
+  useEffect(() => {
+    if (!isExpanded) return
+    let cancelled = false
+
+    fetch('/api/analyses')
+      .then((response) => response.json())
+      .then((data) => {
+        if (cancelled || !data.success) return
+        setAnalyses(data.data)
+      })
+      .catch(() => {
+        // The saved analyses list shows its own error
+      })
+
+    return () => { cancelled = true }
+  }, [isExpanded])
+
+  const projects = [...new Set(analyses.filter((analysis) => analysis.url).map((analysis) => analysis.project))]
+  const projectAnalyses = analyses.filter((analysis) => analysis.project === project && analysis.url)
+
+  const handleFilesSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || [])
+    e.target.value = ''
+    setError("")
+
+    try {
+      const results: AnalysisResult[] = []
+      for (const file of files) {
+        results.push(...extractAnalysisResults(JSON.parse(await file.text())))
+      }
+      if (results.length === 0) {
+        throw new Error('No analyses found in the selected files')
+      }
+      setUploaded((prev) => [...prev, ...results])
+    } catch (err) {
+      setError(err instanceof SyntaxError ? 'Files must be analysis JSON exports' : err instanceof Error ? err.message : 'Failed to read files')
+    }
+  }
+
+  const handleCheck = async () => {
+    setIsChecking(true)
+    setError("")
+
+    try {
+      const response = await fetch('/api/cannibalization', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          analysisIds: projectAnalyses.map((analysis) => analysis.id),
+          analyses: uploaded,
+        }),
+      })
+      const data = await response.json()
+
+      if (!data.success) {
+        throw new Error(data.error || 'Cannibalization check failed')
+      }
+
+      onReportChange(data.data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Cannibalization check failed')
+    } finally {
+      setIsChecking(false)
+    }
+  }
+
+  const pageCount = projectAnalyses.length + uploaded.length
+
+  return (
+    <div className="rounded-lg border bg-card p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Swords className="h-5 w-5 text-primary" />
+          <h3 className="font-semibold">Keyword Cannibalization</h3>
+          <span className="text-xs bg-primary/10 text-primary px-2 py-0.5 rounded-full">Optional</span>
+          {report && (
+            <span className={`text-xs px-2 py-0.5 rounded-full ${report.issues.length > 0 ? 'bg-warning/20 text-warning' : 'bg-success/20 text-success'}`}>
+              {report.issues.length} conflict{report.issues.length !== 1 ? 's' : ''}
+            </span>
+          )}
+        </div>
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="text-muted-foreground hover:text-foreground transition-colors"
+        >
+          {isExpanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+        </button>
+      </div>
+
+      {isExpanded && (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Find keywords that several pages of one site compete for. Compare a client&apos;s saved analyses or upload
+            analysis JSON files. Reports for checked pages include the findings.
+          </p>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <div className="w-64">
+              <Select value={project} onValueChange={setProject} disabled={disabled || isChecking}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Saved analyses of..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {projects.map((name) => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              multiple
+              className="hidden"
+              onChange={handleFilesSelected}
+            />
+            <Button
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={disabled || isChecking}
+            >
+              <Upload className="mr-2 h-4 w-4" />
+              Upload JSON
+            </Button>
+            <Button
+              onClick={handleCheck}
+              disabled={disabled || isChecking || pageCount < 2}
+            >
+              {isChecking ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Checking...
+                </>
+              ) : (
+                `Check ${pageCount} page${pageCount !== 1 ? 's' : ''}`
+              )}
+            </Button>
+          </div>
+
+          {uploaded.length > 0 && (
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              {uploaded.length} uploaded page{uploaded.length !== 1 ? 's' : ''}
+              <button
+                onClick={() => setUploaded([])}
+                className="hover:text-foreground"
+                aria-label="Clear uploaded analyses"
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          )}
+
+          {error && (
+            <div className="p-3 rounded-md bg-destructive/10 text-destructive text-sm">
+              {error}
+            </div>
+          )}
+
+          {report && <CannibalizationTable report={report} />}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Accepts a saved analysis, a bare analysis result, or an array of either
+function extractAnalysisResults(json: unknown): AnalysisResult[] {
+  const items = Array.isArray(json) ? json : [json]
+  return items.flatMap((item) => {
+    if (item?.analysisResult?.crawledData) return [item.analysisResult as AnalysisResult]
+    if (item?.crawledData && item?.seoAnalysis) return [item as AnalysisResult]
+    return []
+  })
+}
+
+function pathOf(url: string): string {
+  try {
+    return new URL(url).pathname
+  } catch {
+    return url
+  }
+}
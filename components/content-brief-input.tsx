@@ -1,12 +1,18 @@
 "use client"
 
-import { useState } from "react"
-import { FileSearch, Loader2, CheckCircle, AlertCircle, ExternalLink, Plus, X, ChevronDown, ChevronUp } from "lucide-react"
-import type { KeywordData, SurferSEOReport } from "@/types"
+import { useRef, useState } from "react"
+import { FileSearch, Loader2, CheckCircle, AlertCircle, ExternalLink, Plus, X, ChevronDown, ChevronUp, Upload } from "lucide-react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { CONTENT_BRIEF_SOURCES, CONTENT_BRIEF_SOURCE_LABELS } from "@/lib/surfer-report"
+import type { ContentBriefSource, KeywordData, KeywordLimits, SurferSEOReport } from "@/types"
+
+// Select value for detecting the source from the export itself
+const AUTO_DETECT = "auto"
 
 interface ImportedReport {
   id: string
   url: string
+  source: ContentBriefSource
   targetKeyword: string
   keywordCount: number
   questionCount: number
@@ -14,17 +20,21 @@ interface ImportedReport {
   surferReport: SurferSEOReport
 }
 
-interface SurferInputProps {
+interface ContentBriefInputProps {
   onDataLoaded: (keywords: KeywordData, surferReport: SurferSEOReport) => void
+  // Caps on the keywords taken from each report (Settings.keywordLimits)
+  keywordLimits?: KeywordLimits
   disabled?: boolean
 }
 
-export function SurferInput({ onDataLoaded, disabled }: SurferInputProps) {
+export function ContentBriefInput({ onDataLoaded, keywordLimits, disabled }: ContentBriefInputProps) {
   const [surferUrl, setSurferUrl] = useState("")
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState("")
   const [importedReports, setImportedReports] = useState<ImportedReport[]>([])
   const [isExpanded, setIsExpanded] = useState(true)
+  const [source, setSource] = useState<ContentBriefSource | typeof AUTO_DETECT>(AUTO_DETECT)
+  const fileInputRef = useRef<HTMLInputElement>(null)
 
   const handleFetchReport = async () => {
     if (!surferUrl.trim()) {
@@ -51,7 +61,7 @@ export function SurferInput({ onDataLoaded, disabled }: SurferInputProps) {
       const response = await fetch("/api/surfer", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ surferUrl }),
+        body: JSON.stringify({ surferUrl, keywordLimits }),
       })
 
       const data = await response.json()
@@ -60,34 +70,80 @@ export function SurferInput({ onDataLoaded, disabled }: SurferInputProps) {
         throw new Error(data.error || "Failed to fetch SurferSEO report")
       }
 
-      const { keywords, surferReport } = data.data
+      addReport(surferUrl.trim(), data.data.keywords, data.data.surferReport)
+      setSurferUrl("")
+
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to fetch report"
+      setError(errorMessage)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // Terms table exported from a content tool (CSV/XLSX/JSON) - parsed on the server without a browser
+  const handleExportSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
 
-      const newReport: ImportedReport = {
-        id: Date.now().toString(),
-        url: surferUrl.trim(),
-        targetKeyword: surferReport.targetKeyword || "Not detected",
-        keywordCount: keywords.all.length,
-        questionCount: keywords.questions.length,
-        keywords,
-        surferReport,
+    if (importedReports.some(r => r.url === file.name)) {
+      setError("This export has already been imported")
+      return
+    }
+
+    setIsLoading(true)
+    setError("")
+
+    try {
+      const formData = new FormData()
+      formData.append("file", file)
+      if (source !== AUTO_DETECT) {
+        formData.append("source", source)
+      }
+      if (keywordLimits) {
+        formData.append("keywordLimits", JSON.stringify(keywordLimits))
       }
 
-      const updatedReports = [...importedReports, newReport]
-      setImportedReports(updatedReports)
-      setSurferUrl("")
+      const response = await fetch("/api/content-brief", {
+        method: "POST",
+        body: formData,
+      })
 
-      // Merge all keywords from all reports
-      const mergedKeywords = mergeAllKeywords(updatedReports)
-      onDataLoaded(mergedKeywords, surferReport)
+      const data = await response.json()
+
+      if (!data.success) {
+        throw new Error(data.error || "Failed to read the export")
+      }
 
+      addReport(file.name, data.data.keywords, data.data.surferReport)
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : "Failed to fetch report"
-      setError(errorMessage)
+      setError(err instanceof Error ? err.message : "Failed to read the export")
     } finally {
       setIsLoading(false)
     }
   }
 
+  const addReport = (url: string, keywords: KeywordData, surferReport: SurferSEOReport) => {
+    const newReport: ImportedReport = {
+      id: Date.now().toString(),
+      url,
+      source: surferReport.source || "surfer",
+      targetKeyword: surferReport.targetKeyword || "Not detected",
+      keywordCount: keywords.all.length,
+      questionCount: keywords.questions.length,
+      keywords,
+      surferReport,
+    }
+
+    const updatedReports = [...importedReports, newReport]
+    setImportedReports(updatedReports)
+
+    // Merge all keywords from all reports
+    const mergedKeywords = mergeAllKeywords(updatedReports)
+    onDataLoaded(mergedKeywords, surferReport)
+  }
+
   const handleRemoveReport = (reportId: string) => {
     const updatedReports = importedReports.filter(r => r.id !== reportId)
     setImportedReports(updatedReports)
@@ -128,7 +184,7 @@ export function SurferInput({ onDataLoaded, disabled }: SurferInputProps) {
       <div className="flex items-center justify-between mb-4">
         <div className="flex items-center gap-2">
           <FileSearch className="h-5 w-5 text-primary" />
-          <h3 className="font-semibold">SurferSEO Reports</h3>
+          <h3 className="font-semibold">Content Brief Import</h3>
           <span className="text-xs bg-primary/10 text-primary px-2 py-0.5 rounded-full">Optional</span>
           {importedReports.length > 0 && (
             <span className="text-xs bg-success/20 text-success px-2 py-0.5 rounded-full">
@@ -149,7 +205,9 @@ export function SurferInput({ onDataLoaded, disabled }: SurferInputProps) {
       {isExpanded && (
         <>
           <p className="text-sm text-muted-foreground mb-4">
-            Import multiple SurferSEO Content Editor reports to combine keywords from different target terms.
+            Import keyword targets from content briefs to combine keywords from different target terms.
+            Paste a shared SurferSEO report link, or upload a terms export (CSV, XLSX or JSON) from Surfer,
+            Clearscope, MarketMuse, Frase or NeuronWriter.
           </p>
 
           <div className="space-y-3">
@@ -190,6 +248,43 @@ export function SurferInput({ onDataLoaded, disabled }: SurferInputProps) {
               </button>
             </div>
 
+            {/* Export upload from any supported tool */}
+            <div className="flex gap-2">
+              <div className="flex-1">
+                <Select
+                  value={source}
+                  onValueChange={(value) => setSource(value as ContentBriefSource | typeof AUTO_DETECT)}
+                  disabled={disabled || isLoading}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={AUTO_DETECT}>Detect source automatically</SelectItem>
+                    {CONTENT_BRIEF_SOURCES.map((option) => (
+                      <SelectItem key={option} value={option}>{CONTENT_BRIEF_SOURCE_LABELS[option]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.tsv,.xlsx,.xls,.json"
+                className="hidden"
+                onChange={handleExportSelected}
+              />
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={disabled || isLoading}
+                className="inline-flex items-center justify-center h-10 px-4 py-2 text-sm font-medium rounded-md border border-input bg-background hover:bg-accent hover:text-accent-foreground disabled:pointer-events-none disabled:opacity-50 transition-colors"
+                title="Upload a terms export (CSV, XLSX or JSON)"
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                Upload Export
+              </button>
+            </div>
+
             {error && (
               <div className="flex items-start gap-2 p-3 rounded-md bg-destructive/10 text-destructive text-sm">
                 <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
@@ -218,7 +313,7 @@ export function SurferInput({ onDataLoaded, disabled }: SurferInputProps) {
                           {report.targetKeyword}
                         </p>
                         <p className="text-xs text-muted-foreground">
-                          {report.keywordCount} keywords • {report.questionCount} questions
+                          {CONTENT_BRIEF_SOURCE_LABELS[report.source]} • {report.keywordCount} keywords • {report.questionCount} questions
                         </p>
                       </div>
                     </div>
@@ -257,7 +352,7 @@ export function SurferInput({ onDataLoaded, disabled }: SurferInputProps) {
             )}
 
             <p className="text-xs text-muted-foreground">
-              Note: SurferSEO reports must be publicly accessible or shared. Keywords from all reports will be combined for optimization.
+              Note: SurferSEO report links must be publicly accessible or shared; exports need no access. Keywords from all reports will be combined for optimization.
             </p>
           </div>
         </>
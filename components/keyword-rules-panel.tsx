@@ -0,0 +1,420 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Filter, ChevronDown, ChevronUp, Plus, Trash2, Save, Copy, Download, Upload, Loader2 } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
+import { parseKeywordRuleSet, serializeKeywordRuleSet } from "@/lib/keyword-rules"
+import type { KeywordBoost, KeywordRule, KeywordRuleSet } from "@/types"
+
+interface KeywordRulesPanelProps {
+  // The rule set applied to keyword filtering (a working copy, may have unsaved edits)
+  ruleSet: KeywordRuleSet | null
+  onRuleSetChange: (ruleSet: KeywordRuleSet | null) => void
+  // Pre-fills the client of a new rule set
+  defaultClient?: string
+  disabled?: boolean
+}
+
+// Weight used for a boosted term written without one
+const DEFAULT_BOOST_WEIGHT = 25
+
+const NO_RULE_SET = "none"
+
+const textareaClassName = "w-full min-h-[72px] rounded-md border border-input bg-background px-3 py-2 text-sm placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 resize-y"
+
+// Rule fields as the user types them; converted to a KeywordRule on every edit
+interface RuleDraft {
+  slugPatterns: string
+  excludedTerms: string
+  boostedTerms: string
+}
+
+const emptyRule = (): KeywordRule => ({ slugPatterns: [], excludedTerms: [], boostedTerms: [] })
+
+function ruleToDraft(rule: KeywordRule): RuleDraft {
+  return {
+    slugPatterns: rule.slugPatterns.join(", "),
+    excludedTerms: rule.excludedTerms.join("\n"),
+    boostedTerms: rule.boostedTerms.map((boost) => `${boost.term}: ${boost.weight}`).join("\n"),
+  }
+}
+
+function draftToRule(draft: RuleDraft): KeywordRule {
+  return {
+    slugPatterns: draft.slugPatterns.split(",").map((pattern) => pattern.trim()).filter(Boolean),
+    // Excluded terms keep trailing spaces ("pta ") so they only match whole words
+    excludedTerms: draft.excludedTerms.split("\n").map((line) => line.replace(/\r$/, "")).filter((line) => line.trim()),
+    boostedTerms: draft.boostedTerms
+      .split("\n")
+      .map((line): KeywordBoost | null => {
+        const match = line.match(/^(.*?)(?::\s*(-?\d+(?:\.\d+)?))?\s*$/)
+        const term = match?.[1].trim()
+        if (!term) return null
+        return { term, weight: match?.[2] ? parseFloat(match[2]) : DEFAULT_BOOST_WEIGHT }
+      })
+      .filter((boost): boost is KeywordBoost => boost !== null),
+  }
+}
+
+export function KeywordRulesPanel({ ruleSet, onRuleSetChange, defaultClient, disabled }: KeywordRulesPanelProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [ruleSets, setRuleSets] = useState<KeywordRuleSet[]>([])
+  const [drafts, setDrafts] = useState<RuleDraft[]>(() => (ruleSet?.rules || []).map(ruleToDraft))
+  const [draftsFor, setDraftsFor] = useState<string | null>(ruleSet?.id ?? null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState("")
+  const [message, setMessage] = useState("")
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const load = async () => {
+      try {
+        const response = await fetch('/api/keyword-rules')
+        const data = await response.json()
+        if (cancelled) return
+        if (!data.success) {
+          throw new Error(data.error || 'Failed to load keyword rule sets')
+        }
+        setRuleSets(data.data)
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load keyword rule sets')
+        }
+      }
+    }
+
+    load()
+    return () => { cancelled = true }
+  }, [])
+
+  // Re-sync the drafts when a different rule set is selected (e.g. by opening a saved analysis)
+  const activeKey = ruleSet ? ruleSet.id : null
+  if (activeKey !== draftsFor) {
+    setDraftsFor(activeKey)
+    setDrafts((ruleSet?.rules || []).map(ruleToDraft))
+  }
+
+  const selectRuleSet = (next: KeywordRuleSet | null) => {
+    setError("")
+    setMessage("")
+    setDraftsFor(next ? next.id : null)
+    setDrafts((next?.rules || []).map(ruleToDraft))
+    onRuleSetChange(next)
+  }
+
+  const updateRuleSet = (changes: Partial<KeywordRuleSet>) => {
+    if (ruleSet) onRuleSetChange({ ...ruleSet, ...changes })
+  }
+
+  const updateDrafts = (nextDrafts: RuleDraft[]) => {
+    setDrafts(nextDrafts)
+    updateRuleSet({ rules: nextDrafts.map(draftToRule) })
+  }
+
+  const updateDraft = (index: number, field: keyof RuleDraft, value: string) => {
+    updateDrafts(drafts.map((draft, i) => (i === index ? { ...draft, [field]: value } : draft)))
+  }
+
+  const storeRuleSet = async (method: 'POST' | 'PUT', body: unknown, id?: string): Promise<KeywordRuleSet> => {
+    const response = await fetch(id ? `/api/keyword-rules/${id}` : '/api/keyword-rules', {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+    const data = await response.json()
+    if (!data.success) {
+      throw new Error(data.error || 'Failed to save rule set')
+    }
+    return data.data
+  }
+
+  const handleSave = async (asCopy: boolean) => {
+    if (!ruleSet) return
+    setIsSaving(true)
+    setError("")
+    setMessage("")
+    try {
+      const isNew = asCopy || !ruleSet.id || ruleSet.builtIn
+      const body = {
+        ...ruleSet,
+        name: isNew && ruleSet.id ? `${ruleSet.name} (copy)` : ruleSet.name,
+      }
+      const saved = await storeRuleSet(isNew ? 'POST' : 'PUT', body, isNew ? undefined : ruleSet.id)
+      setRuleSets((prev) => [saved, ...prev.filter((item) => item.id !== saved.id)])
+      selectRuleSet(saved)
+      setMessage(`Saved "${saved.name}"`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save rule set')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!ruleSet?.id || ruleSet.builtIn) return
+    if (!window.confirm(`Delete rule set "${ruleSet.name}"? This cannot be undone.`)) return
+    try {
+      const response = await fetch(`/api/keyword-rules/${ruleSet.id}`, { method: 'DELETE' })
+      const data = await response.json()
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to delete rule set')
+      }
+      setRuleSets((prev) => prev.filter((item) => item.id !== ruleSet.id))
+      selectRuleSet(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete rule set')
+    }
+  }
+
+  const handleExport = () => {
+    if (!ruleSet) return
+    const blob = new Blob([serializeKeywordRuleSet(ruleSet)], { type: 'application/json' })
+    const url = window.URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `${(ruleSet.client ? `${ruleSet.client}_${ruleSet.name}` : ruleSet.name).replace(/[^a-zA-Z0-9-_]/g, '_')}_keyword_rules.json`
+    document.body.appendChild(a)
+    a.click()
+    window.URL.revokeObjectURL(url)
+    document.body.removeChild(a)
+  }
+
+  const handleImport = async (file: File) => {
+    setIsSaving(true)
+    setError("")
+    setMessage("")
+    try {
+      let parsed
+      try {
+        parsed = parseKeywordRuleSet(JSON.parse(await file.text()))
+      } catch (err) {
+        throw new Error(`Couldn't import ${file.name}: ${err instanceof Error ? err.message : 'invalid JSON'}`)
+      }
+      const saved = await storeRuleSet('POST', parsed)
+      setRuleSets((prev) => [saved, ...prev])
+      selectRuleSet(saved)
+      setMessage(`Imported "${saved.name}"`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import rule set')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  // Unsaved new rule sets aren't in the list yet
+  const selectValue = ruleSet?.id || NO_RULE_SET
+  const isReadOnly = disabled || Boolean(ruleSet?.builtIn)
+
+  return (
+    <Card>
+      <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+        <CollapsibleTrigger asChild>
+          <CardHeader className="cursor-pointer hover:bg-muted/50 transition-colors">
+            <CardTitle className="text-lg flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Filter className="h-5 w-5 text-muted-foreground" />
+                Keyword Rules
+                {ruleSet && (
+                  <span className="text-sm font-normal text-muted-foreground">
+                    ({ruleSet.name})
+                  </span>
+                )}
+              </div>
+              {isOpen ? (
+                <ChevronUp className="h-4 w-4 text-muted-foreground" />
+              ) : (
+                <ChevronDown className="h-4 w-4 text-muted-foreground" />
+              )}
+            </CardTitle>
+          </CardHeader>
+        </CollapsibleTrigger>
+        <CollapsibleContent>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Per-client rules for which keywords suit which pages. A rule applies when the page URL&apos;s
+              last path segment contains one of its slug patterns, or is part of one.
+            </p>
+
+            {error && (
+              <div className="p-2 rounded-md bg-destructive/10 text-destructive text-xs">
+                {error}
+              </div>
+            )}
+            {message && !error && (
+              <div className="p-2 rounded-md bg-green-50 text-green-700 text-xs">
+                {message}
+              </div>
+            )}
+
+            <div className="flex flex-wrap items-end gap-2">
+              <div className="flex-1 min-w-[200px] space-y-2">
+                <Label htmlFor="keywordRuleSet">Rule Set</Label>
+                <Select
+                  value={selectValue}
+                  onValueChange={(value) =>
+                    selectRuleSet(value === NO_RULE_SET ? null : ruleSets.find((item) => item.id === value) || null)
+                  }
+                  disabled={disabled}
+                >
+                  <SelectTrigger id="keywordRuleSet">
+                    <SelectValue placeholder="New rule set (unsaved)" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_RULE_SET}>None (generic filtering only)</SelectItem>
+                    {ruleSets.map((item) => (
+                      <SelectItem key={item.id} value={item.id}>
+                        {item.client ? `${item.client} – ${item.name}` : item.name}
+                        {item.builtIn ? ' (built-in)' : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => selectRuleSet({ id: '', name: 'New rule set', client: defaultClient || '', rules: [emptyRule()] })}
+                disabled={disabled}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                New
+              </Button>
+              <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={disabled || isSaving}>
+                <Upload className="h-4 w-4 mr-1" />
+                Import JSON
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  if (file) handleImport(file)
+                  e.target.value = ''
+                }}
+              />
+            </div>
+
+            {ruleSet && (
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="ruleSetName">Name</Label>
+                    <Input
+                      id="ruleSetName"
+                      value={ruleSet.name}
+                      onChange={(e) => updateRuleSet({ name: e.target.value })}
+                      disabled={isReadOnly}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="ruleSetClient">Client</Label>
+                    <Input
+                      id="ruleSetClient"
+                      value={ruleSet.client}
+                      onChange={(e) => updateRuleSet({ client: e.target.value })}
+                      disabled={isReadOnly}
+                    />
+                  </div>
+                </div>
+
+                {ruleSet.builtIn && (
+                  <p className="text-xs text-muted-foreground">
+                    Built-in rule sets are read-only. Use &quot;Save copy&quot; to make an editable version.
+                  </p>
+                )}
+
+                {drafts.map((draft, index) => (
+                  <div key={index} className="space-y-3 p-3 rounded-lg border bg-muted/20">
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium">Rule {index + 1}</span>
+                      {!isReadOnly && (
+                        <button
+                          onClick={() => updateDrafts(drafts.filter((_, i) => i !== index))}
+                          className="text-muted-foreground hover:text-destructive"
+                          aria-label={`Remove rule ${index + 1}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      )}
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Slug patterns (comma-separated)</Label>
+                      <Input
+                        value={draft.slugPatterns}
+                        onChange={(e) => updateDraft(index, 'slugPatterns', e.target.value)}
+                        placeholder="e.g., booster-club-insurance"
+                        className="h-8 text-sm"
+                        disabled={isReadOnly}
+                      />
+                    </div>
+                    <div className="grid gap-3 md:grid-cols-2">
+                      <div className="space-y-1">
+                        <Label className="text-xs">Excluded terms (one per line)</Label>
+                        <textarea
+                          value={draft.excludedTerms}
+                          onChange={(e) => updateDraft(index, 'excludedTerms', e.target.value)}
+                          placeholder={"teacher liability\nclassroom"}
+                          className={textareaClassName}
+                          disabled={isReadOnly}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs">Boosted terms (term: weight, one per line)</Label>
+                        <textarea
+                          value={draft.boostedTerms}
+                          onChange={(e) => updateDraft(index, 'boostedTerms', e.target.value)}
+                          placeholder={`booster: ${DEFAULT_BOOST_WEIGHT}`}
+                          className={textareaClassName}
+                          disabled={isReadOnly}
+                        />
+                      </div>
+                    </div>
+                  </div>
+                ))}
+
+                <div className="flex flex-wrap gap-2">
+                  {!isReadOnly && (
+                    <Button variant="outline" size="sm" onClick={() => updateDrafts([...drafts, ruleToDraft(emptyRule())])}>
+                      <Plus className="h-4 w-4 mr-1" />
+                      Add rule
+                    </Button>
+                  )}
+                  {!isReadOnly && (
+                    <Button size="sm" onClick={() => handleSave(false)} disabled={isSaving || !ruleSet.name.trim()}>
+                      {isSaving ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+                      Save
+                    </Button>
+                  )}
+                  {ruleSet.id && (
+                    <Button variant="outline" size="sm" onClick={() => handleSave(true)} disabled={disabled || isSaving}>
+                      <Copy className="h-4 w-4 mr-1" />
+                      Save copy
+                    </Button>
+                  )}
+                  <Button variant="outline" size="sm" onClick={handleExport}>
+                    <Download className="h-4 w-4 mr-1" />
+                    Export JSON
+                  </Button>
+                  {ruleSet.id && !ruleSet.builtIn && (
+                    <Button variant="ghost" size="sm" onClick={handleDelete} disabled={disabled} className="text-destructive">
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      Delete
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </CollapsibleContent>
+      </Collapsible>
+    </Card>
+  )
+}
@@ -2,29 +2,67 @@
 
 import { useCallback, useState } from "react"
 import { useDropzone } from "react-dropzone"
-import { Upload, FileSpreadsheet, X, AlertCircle, CheckCircle } from "lucide-react"
+import { Upload, FileSpreadsheet, X, AlertCircle, CheckCircle, Columns, Layers } from "lucide-react"
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { formatFileSize } from "@/lib/utils"
-import type { KeywordData } from "@/types"
+import type {
+  KeywordColumn,
+  KeywordColumnMapping,
+  KeywordData,
+  KeywordExportSource,
+  KeywordUrlGroup,
+  ParsedKeywordFile,
+} from "@/types"
+
+const columnLabels: Record<KeywordColumn, string> = {
+  keyword: "Keyword",
+  url: "Target URL",
+  volume: "Volume",
+  difficulty: "KD",
+  cpc: "CPC",
+  intent: "Intent",
+  position: "Position",
+}
+
+const sourceLabels: Record<KeywordExportSource, string> = {
+  ahrefs: "Ahrefs",
+  semrush: "Semrush",
+  gsc: "Google Search Console",
+  "keyword-planner": "Google Keyword Planner",
+}
+
+const NOT_MAPPED = "none"
 
 interface KeywordUploadProps {
   onKeywordsLoaded: (keywords: KeywordData) => void
+  // Receives one keyword set per URL when the file maps keywords to target pages
+  onPagesLoaded?: (pages: KeywordUrlGroup[]) => void
   keywords: KeywordData | null
   disabled?: boolean
 }
 
-export function KeywordUpload({ onKeywordsLoaded, keywords, disabled }: KeywordUploadProps) {
+export function KeywordUpload({ onKeywordsLoaded, onPagesLoaded, keywords, disabled }: KeywordUploadProps) {
   const [file, setFile] = useState<File | null>(null)
   const [error, setError] = useState("")
   const [isProcessing, setIsProcessing] = useState(false)
+  // Parsed file awaiting confirmation of its column mapping
+  const [parsed, setParsed] = useState<ParsedKeywordFile | null>(null)
+  const [isConfirmed, setIsConfirmed] = useState(false)
 
-  const processFile = async (file: File) => {
+  const processFile = async (file: File, options: { mapping?: KeywordColumnMapping; sheet?: string } = {}) => {
     setIsProcessing(true)
     setError("")
 
     const formData = new FormData()
     formData.append('file', file)
+    if (options.mapping) {
+      formData.append('mapping', JSON.stringify(options.mapping))
+    }
+    if (options.sheet) {
+      formData.append('sheet', options.sheet)
+    }
 
     try {
       const response = await fetch('/api/parse-keywords', {
@@ -35,7 +73,8 @@ export function KeywordUpload({ onKeywordsLoaded, keywords, disabled }: KeywordU
       const result = await response.json()
 
       if (result.success) {
-        onKeywordsLoaded(result.data)
+        setParsed(result.data)
+        setIsConfirmed(false)
       } else {
         setError(result.error || "Failed to process keywords file")
         setFile(null)
@@ -86,8 +125,38 @@ export function KeywordUpload({ onKeywordsLoaded, keywords, disabled }: KeywordU
     disabled: disabled || isProcessing,
   })
 
+  const updateMapping = (column: KeywordColumn, value: string) => {
+    if (!file || !parsed) return
+    const mapping = { ...parsed.preview.mapping }
+    if (value === NOT_MAPPED) {
+      delete mapping[column]
+    } else {
+      mapping[column] = parseInt(value)
+    }
+    processFile(file, { mapping, sheet: parsed.preview.sheet })
+  }
+
+  // Columns differ between sheets, so the mapping is detected afresh
+  const selectSheet = (sheet: string) => {
+    if (!file) return
+    processFile(file, { sheet })
+  }
+
+  const sendPagesToBatch = () => {
+    if (!parsed?.pages || !onPagesLoaded) return
+    onPagesLoaded(parsed.pages)
+  }
+
+  const confirmMapping = () => {
+    if (!parsed) return
+    onKeywordsLoaded(parsed.keywords)
+    setIsConfirmed(true)
+  }
+
   const removeFile = () => {
     setFile(null)
+    setParsed(null)
+    setIsConfirmed(false)
     setError("")
     onKeywordsLoaded({
       primary: [],
@@ -165,7 +234,132 @@ export function KeywordUpload({ onKeywordsLoaded, keywords, disabled }: KeywordU
               </div>
             )}
 
-            {keywords && totalKeywords > 0 && (
+            {parsed && !isConfirmed && (
+              <div className="space-y-3">
+                <div className="flex items-center gap-2 text-sm font-medium">
+                  <Columns className="h-4 w-4 text-muted-foreground" />
+                  Column mapping
+                  {parsed.preview.source && (
+                    <span className="text-xs font-normal text-muted-foreground">
+                      ({sourceLabels[parsed.preview.source]} export detected)
+                    </span>
+                  )}
+                </div>
+
+                {parsed.preview.sheets.length > 1 && (
+                  <div className="flex items-center gap-2">
+                    <span className="w-16 text-xs text-muted-foreground">Sheet</span>
+                    <Select
+                      value={parsed.preview.sheet}
+                      onValueChange={selectSheet}
+                      disabled={disabled || isProcessing}
+                    >
+                      <SelectTrigger className="h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {parsed.preview.sheets.map((sheet) => (
+                          <SelectItem key={sheet} value={sheet}>{sheet}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                <div className="grid grid-cols-2 gap-2">
+                  {(Object.keys(columnLabels) as KeywordColumn[]).map((column) => (
+                    <div key={column} className="flex items-center gap-2">
+                      <span className="w-16 text-xs text-muted-foreground">{columnLabels[column]}</span>
+                      <Select
+                        value={parsed.preview.mapping[column] !== undefined ? String(parsed.preview.mapping[column]) : NOT_MAPPED}
+                        onValueChange={(value) => updateMapping(column, value)}
+                        disabled={disabled || isProcessing}
+                      >
+                        <SelectTrigger className="h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NOT_MAPPED}>Not mapped</SelectItem>
+                          {parsed.preview.headers.map((header, index) => (
+                            <SelectItem key={index} value={String(index)}>{header}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="overflow-x-auto rounded-lg border">
+                  <table className="w-full text-xs">
+                    <thead className="bg-muted/50">
+                      <tr>
+                        {parsed.preview.headers.map((header, index) => {
+                          const mappedTo = (Object.keys(columnLabels) as KeywordColumn[])
+                            .find((column) => parsed.preview.mapping[column] === index)
+                          return (
+                            <th key={index} className="px-2 py-1.5 text-left font-medium whitespace-nowrap">
+                              {header}
+                              {mappedTo && (
+                                <span className="ml-1 px-1 rounded bg-primary/10 text-primary">{columnLabels[mappedTo]}</span>
+                              )}
+                            </th>
+                          )
+                        })}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {parsed.preview.rows.map((row, rowIndex) => (
+                        <tr key={rowIndex} className="border-t">
+                          {row.map((cell, cellIndex) => (
+                            <td key={cellIndex} className="px-2 py-1 whitespace-nowrap max-w-[180px] truncate">
+                              {cell}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                {parsed.pages && parsed.pages.length > 0 && (
+                  <div className="flex items-center justify-between gap-2 p-3 rounded-lg bg-muted/50">
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground min-w-0">
+                      <Layers className="h-4 w-4 flex-shrink-0" />
+                      <span className="truncate">
+                        {parsed.pages.length} target page{parsed.pages.length !== 1 ? 's' : ''} with their own keywords
+                      </span>
+                    </div>
+                    {onPagesLoaded && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={sendPagesToBatch}
+                        disabled={disabled || isProcessing}
+                      >
+                        Send to Batch Analysis
+                      </Button>
+                    )}
+                  </div>
+                )}
+
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-xs text-muted-foreground">
+                    {parsed.keywords.all.length > 0
+                      ? `${parsed.keywords.all.length} keywords from ${parsed.preview.totalRows} rows`
+                      : "No keywords found in the selected keyword column"}
+                  </p>
+                  <Button
+                    size="sm"
+                    onClick={confirmMapping}
+                    disabled={disabled || isProcessing || parsed.keywords.all.length === 0}
+                  >
+                    Use these keywords
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {isConfirmed && keywords && totalKeywords > 0 && (
               <div className="space-y-3">
                 <div className="flex items-center gap-2 text-sm text-success">
                   <CheckCircle className="h-4 w-4" />
@@ -198,6 +392,14 @@ export function KeywordUpload({ onKeywordsLoaded, keywords, disabled }: KeywordU
                     {keywords.primary.length > 3 && ` +${keywords.primary.length - 3} more`}
                   </div>
                 )}
+
+                <button
+                  onClick={() => setIsConfirmed(false)}
+                  className="text-xs text-primary hover:underline"
+                  disabled={disabled}
+                >
+                  Edit column mapping
+                </button>
               </div>
             )}
           </div>
@@ -0,0 +1,248 @@
+"use client"
+
+import { useState } from "react"
+import { RefreshCw, Loader2, TrendingUp, TrendingDown, Minus, CheckCircle, XCircle, CircleDot } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import type { AdoptionStatus, AnalysisResult, ReauditResult } from "@/types"
+
+interface ReauditPanelProps {
+  results: AnalysisResult
+  // When set, the re-audit is stored with the saved analysis
+  savedAnalysisId: string | null
+  reaudit: ReauditResult | null
+  onReauditComplete: (reaudit: ReauditResult) => void
+  includeInReport: boolean
+  onIncludeInReportChange: (include: boolean) => void
+  disabled?: boolean
+}
+
+const elementLabels: Record<ReauditResult['adoption'][number]['element'], string> = {
+  title: 'Meta Title',
+  description: 'Meta Description',
+  h1: 'H1 Heading',
+}
+
+const adoptionLabels: Record<AdoptionStatus, string> = {
+  adopted: 'Adopted',
+  partial: 'Partially adopted',
+  not_adopted: 'Not adopted',
+}
+
+export function ReauditPanel({
+  results,
+  savedAnalysisId,
+  reaudit,
+  onReauditComplete,
+  includeInReport,
+  onIncludeInReportChange,
+  disabled,
+}: ReauditPanelProps) {
+  const [isRunning, setIsRunning] = useState(false)
+  const [error, setError] = useState("")
+
+  const handleReaudit = async () => {
+    setIsRunning(true)
+    setError("")
+
+    try {
+      const response = await fetch('/api/reaudit', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(
+          savedAnalysisId ? { savedAnalysisId } : { analysisResult: results }
+        ),
+      })
+      const data = await response.json()
+
+      if (!data.success) {
+        throw new Error(data.error || 'Re-audit failed')
+      }
+
+      onReauditComplete(data.data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Re-audit failed')
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  const getAdoptionIcon = (status: AdoptionStatus) => {
+    switch (status) {
+      case 'adopted':
+        return <CheckCircle className="h-4 w-4 text-success flex-shrink-0" />
+      case 'partial':
+        return <CircleDot className="h-4 w-4 text-warning flex-shrink-0" />
+      default:
+        return <XCircle className="h-4 w-4 text-destructive flex-shrink-0" />
+    }
+  }
+
+  const DeltaIcon = !reaudit || reaudit.scoreDelta === 0 ? Minus : reaudit.scoreDelta > 0 ? TrendingUp : TrendingDown
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center justify-between">
+          <span>Implementation Check</span>
+          <Button
+            variant="outline"
+            onClick={handleReaudit}
+            disabled={disabled || isRunning || !results.crawledData.url}
+          >
+            {isRunning ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <RefreshCw className="mr-2 h-4 w-4" />
+            )}
+            {reaudit ? 'Re-audit Again' : 'Re-audit Live Page'}
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!results.crawledData.url ? (
+          <p className="text-sm text-muted-foreground">
+            This analysis was made from pasted content. Re-audits need a published URL.
+          </p>
+        ) : !reaudit && (
+          <p className="text-sm text-muted-foreground">
+            Once the client has published the recommendations, crawl the page again to see what changed.
+            The same keywords are used so the scores are comparable.
+          </p>
+        )}
+
+        {error && (
+          <div className="p-3 rounded-md bg-destructive/10 text-destructive text-sm">
+            {error}
+          </div>
+        )}
+
+        {reaudit && (
+          <>
+            {/* Score comparison */}
+            <div className="flex items-center justify-between p-3 rounded-lg bg-muted/30">
+              <div className="text-sm">
+                <span className="text-muted-foreground">SEO Score: </span>
+                <span className="font-medium">{reaudit.previousScore}</span>
+                <span className="text-muted-foreground"> → </span>
+                <span className="font-semibold">{reaudit.currentScore}</span>
+              </div>
+              <span className={`flex items-center gap-1 text-sm font-semibold ${
+                reaudit.scoreDelta > 0 ? 'text-success' :
+                reaudit.scoreDelta < 0 ? 'text-destructive' :
+                'text-muted-foreground'
+              }`}>
+                <DeltaIcon className="h-4 w-4" />
+                {reaudit.scoreDelta > 0 ? '+' : ''}{reaudit.scoreDelta}
+              </span>
+            </div>
+
+            {/* Recommendation adoption */}
+            <div className="space-y-2">
+              <div className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+                Recommendations
+              </div>
+              {reaudit.adoption.map((item) => (
+                <div key={item.element} className="flex items-start gap-3 p-2 rounded-md bg-muted/30">
+                  {getAdoptionIcon(item.status)}
+                  <div className="min-w-0 flex-1 text-sm">
+                    <p className="font-medium">
+                      {elementLabels[item.element]}
+                      <span className="ml-2 text-xs font-normal text-muted-foreground">
+                        {adoptionLabels[item.status]} ({Math.round(item.similarity * 100)}% match)
+                      </span>
+                    </p>
+                    <p className="text-xs text-muted-foreground truncate" title={item.current}>
+                      Live: {item.current || <span className="italic">Not set</span>}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {/* Issues resolved / introduced */}
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-1">
+                <div className="text-xs font-medium text-success uppercase tracking-wide">
+                  Resolved ({reaudit.resolvedIssues.length})
+                </div>
+                <ul className="space-y-1 text-xs">
+                  {reaudit.resolvedIssues.map((issue, i) => (
+                    <li key={i} className="text-muted-foreground line-through">{issue.message}</li>
+                  ))}
+                  {reaudit.resolvedIssues.length === 0 && (
+                    <li className="italic text-muted-foreground">None</li>
+                  )}
+                </ul>
+              </div>
+              <div className="space-y-1">
+                <div className="text-xs font-medium text-destructive uppercase tracking-wide">
+                  Introduced ({reaudit.introducedIssues.length})
+                </div>
+                <ul className="space-y-1 text-xs">
+                  {reaudit.introducedIssues.map((issue, i) => (
+                    <li key={i} className="text-destructive">{issue.message}</li>
+                  ))}
+                  {reaudit.introducedIssues.length === 0 && (
+                    <li className="italic text-muted-foreground">None</li>
+                  )}
+                </ul>
+              </div>
+            </div>
+
+            {/* Keyword density changes */}
+            {reaudit.densityChanges.length > 0 && (
+              <div className="space-y-1">
+                <div className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+                  Keyword Density Changes
+                </div>
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-muted-foreground text-left">
+                      <th className="font-medium py-1">Keyword</th>
+                      <th className="font-medium py-1 text-right">Before</th>
+                      <th className="font-medium py-1 text-right">After</th>
+                      <th className="font-medium py-1 text-right">Change</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {reaudit.densityChanges.slice(0, 10).map((change) => (
+                      <tr key={change.keyword} className="border-t">
+                        <td className="py-1 truncate max-w-[200px]">{change.keyword}</td>
+                        <td className="py-1 text-right tabular-nums">{change.before.toFixed(2)}%</td>
+                        <td className="py-1 text-right tabular-nums">{change.after.toFixed(2)}%</td>
+                        <td className={`py-1 text-right tabular-nums ${change.delta > 0 ? 'text-success' : 'text-warning'}`}>
+                          {change.delta > 0 ? '+' : ''}{change.delta.toFixed(2)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            <div className="flex items-center justify-between pt-2 border-t">
+              <div className="space-y-0.5">
+                <Label htmlFor="includeImplementationCheck">Include in report</Label>
+                <p className="text-xs text-muted-foreground">
+                  Adds an &quot;Implementation Check&quot; section to the exported report
+                </p>
+              </div>
+              <Switch
+                id="includeImplementationCheck"
+                checked={includeInReport}
+                onCheckedChange={onIncludeInReportChange}
+              />
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              Re-audited {new Date(reaudit.auditedAt).toLocaleString()}
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -7,26 +7,40 @@ import {
   Copy,
   Check,
   Download,
+  FileDown,
   Tag,
   FileText,
   Heading1,
   ListTree,
   Code2,
-  MessageSquare
+  MessageSquare,
+  ShieldCheck
 } from "lucide-react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
-import type { AnalysisResult, Settings } from "@/types"
+import type { AnalysisResult, MetaVariant, ReportFormat, Settings } from "@/types"
+import { COMPLIANCE_RULE_LABELS } from "@/lib/compliance-checker"
+import { META_VARIANT_CRITERION_LABELS } from "@/lib/meta-variant-scorer"
 import { getCharacterCountColor } from "@/lib/utils"
 
 interface ResultsPreviewProps {
   results: AnalysisResult
   settings: Settings
-  onDownload: () => void
+  onDownload: (format?: ReportFormat) => void
   isGenerating: boolean
+  // Use another scored title or description as the recommendation (and in the report)
+  onSelectMetaVariant?: (field: 'metaTitle' | 'metaDescription', text: string) => void
 }
 
+// Secondary export formats; the Word report is the main download button
+const exportFormats: { format: ReportFormat; label: string }[] = [
+  { format: 'pdf', label: 'PDF' },
+  { format: 'html', label: 'HTML' },
+  { format: 'markdown', label: 'Markdown' },
+  { format: 'html-clean', label: 'Paste-ready HTML' },
+]
+
 interface CollapsibleSectionProps {
   title: string
   icon: React.ReactNode
@@ -34,6 +48,9 @@ interface CollapsibleSectionProps {
   recommended: string
   charLimits?: { min: number; max: number }
   defaultOpen?: boolean
+  // Scored candidates, best first; the one matching recommended is marked as chosen
+  variants?: MetaVariant[]
+  onSelectVariant?: (text: string) => void
 }
 
 function CollapsibleSection({
@@ -42,7 +59,9 @@ function CollapsibleSection({
   current,
   recommended,
   charLimits,
-  defaultOpen = false
+  defaultOpen = false,
+  variants,
+  onSelectVariant
 }: CollapsibleSectionProps) {
   const [isOpen, setIsOpen] = useState(defaultOpen)
   const [copiedCurrent, setCopiedCurrent] = useState(false)
@@ -136,21 +155,61 @@ function CollapsibleSection({
               {recommended || <span className="text-muted-foreground italic">No recommendation</span>}
             </div>
           </div>
+
+          {/* Scored variants */}
+          {variants && variants.length > 1 && (
+            <div className="space-y-2">
+              <span className="text-sm font-medium text-muted-foreground">
+                {variants.length} variants{onSelectVariant ? ' - click one to use it' : ''}
+              </span>
+              <div className="space-y-1">
+                {variants.map((variant) => {
+                  const isChosen = variant.text === recommended
+                  const missed = variant.checks.filter((check) => !check.passed)
+                  return (
+                    <button
+                      key={variant.text}
+                      type="button"
+                      onClick={() => onSelectVariant?.(variant.text)}
+                      disabled={!onSelectVariant || isChosen}
+                      className={`w-full text-left p-2 rounded-lg border text-sm transition-colors ${
+                        isChosen ? 'border-success/40 bg-success/5' : 'border-border hover:bg-muted/50'
+                      }`}
+                    >
+                      <div className="flex items-start justify-between gap-2">
+                        <span>{variant.text}</span>
+                        <span className={`shrink-0 px-2 py-0.5 text-xs rounded ${variant.score >= 80 ? 'bg-success/10 text-success' : 'bg-warning/10 text-warning'}`}>
+                          {variant.score}/100
+                        </span>
+                      </div>
+                      <p className="mt-1 text-xs text-muted-foreground">
+                        {isChosen && 'In use · '}
+                        {missed.length === 0
+                          ? 'Passes every check'
+                          : missed.map((check) => `${META_VARIANT_CRITERION_LABELS[check.criterion]}: ${check.detail}`).join(' · ')}
+                      </p>
+                    </button>
+                  )
+                })}
+              </div>
+            </div>
+          )}
         </div>
       </CollapsibleContent>
     </Collapsible>
   )
 }
 
-export function ResultsPreview({ results, settings, onDownload, isGenerating }: ResultsPreviewProps) {
-  const { crawledData, seoAnalysis, optimizedContent } = results
+export function ResultsPreview({ results, settings, onDownload, isGenerating, onSelectMetaVariant }: ResultsPreviewProps) {
+  const { crawledData, seoAnalysis, optimizedContent, compliance } = results
+  const passedChecks = compliance?.checks.filter((check) => check.passed).length ?? 0
 
   return (
     <Card>
       <CardHeader>
         <CardTitle className="text-lg flex items-center justify-between">
           <span>Analysis Results</span>
-          <Button onClick={onDownload} disabled={isGenerating}>
+          <Button onClick={() => onDownload('docx')} disabled={isGenerating}>
             {isGenerating ? (
               <>
                 <div className="mr-2 h-4 w-4 animate-spin rounded-full border-2 border-current border-t-transparent" />
@@ -164,6 +223,21 @@ export function ResultsPreview({ results, settings, onDownload, isGenerating }:
             )}
           </Button>
         </CardTitle>
+        <div className="flex flex-wrap items-center gap-2 pt-2">
+          <span className="text-xs text-muted-foreground">Also export as:</span>
+          {exportFormats.map(({ format, label }) => (
+            <Button
+              key={format}
+              variant="outline"
+              size="sm"
+              onClick={() => onDownload(format)}
+              disabled={isGenerating}
+            >
+              <FileDown className="mr-1 h-3.5 w-3.5" />
+              {label}
+            </Button>
+          ))}
+        </div>
       </CardHeader>
       <CardContent className="space-y-2">
         <CollapsibleSection
@@ -173,6 +247,8 @@ export function ResultsPreview({ results, settings, onDownload, isGenerating }:
           recommended={optimizedContent.metaTitle}
           charLimits={{ min: 50, max: 60 }}
           defaultOpen={true}
+          variants={optimizedContent.metaTitleVariants}
+          onSelectVariant={onSelectMetaVariant && ((text) => onSelectMetaVariant('metaTitle', text))}
         />
 
         <CollapsibleSection
@@ -182,6 +258,8 @@ export function ResultsPreview({ results, settings, onDownload, isGenerating }:
           recommended={optimizedContent.metaDescription}
           charLimits={{ min: 150, max: 160 }}
           defaultOpen={true}
+          variants={optimizedContent.metaDescriptionVariants}
+          onSelectVariant={onSelectMetaVariant && ((text) => onSelectMetaVariant('metaDescription', text))}
         />
 
         <CollapsibleSection
@@ -301,6 +379,50 @@ export function ResultsPreview({ results, settings, onDownload, isGenerating }:
           </CollapsibleContent>
         </Collapsible>
 
+        {/* Rule Compliance (absent for analyses saved before it was measured) */}
+        {compliance && (
+          <Collapsible>
+            <CollapsibleTrigger asChild>
+              <button className="w-full flex items-center justify-between p-4 hover:bg-muted/50 rounded-lg transition-colors">
+                <div className="flex items-center gap-3">
+                  <ShieldCheck className="h-4 w-4 text-muted-foreground" />
+                  <span className="font-medium">Rule Compliance</span>
+                  <span className={`px-2 py-0.5 text-xs rounded ${compliance.passed ? 'bg-success/10 text-success' : 'bg-warning/10 text-warning'}`}>
+                    {passedChecks}/{compliance.checks.length} passed
+                  </span>
+                </div>
+                <ChevronDown className="h-4 w-4 text-muted-foreground" />
+              </button>
+            </CollapsibleTrigger>
+            <CollapsibleContent>
+              <div className="px-4 pb-4 space-y-2">
+                {compliance.checks.map((check) => (
+                  <div key={check.rule} className="text-sm">
+                    <div className="flex items-center justify-between gap-4">
+                      <span className="font-medium">{COMPLIANCE_RULE_LABELS[check.rule]}</span>
+                      <span className={check.passed ? 'text-success' : 'text-warning'}>
+                        {check.actual} <span className="text-muted-foreground">(target: {check.expected})</span>
+                      </span>
+                    </div>
+                    {check.examples && check.examples.length > 0 && (
+                      <ul className="ml-4 mt-1 text-xs text-muted-foreground">
+                        {check.examples.map((example, i) => (
+                          <li key={i} className="italic">{example}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                ))}
+                {compliance.reprompts > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    The AI was asked {compliance.reprompts === 1 ? 'once' : `${compliance.reprompts} times`} to fix rule violations.
+                  </p>
+                )}
+              </div>
+            </CollapsibleContent>
+          </Collapsible>
+        )}
+
         {/* Keyword Summary */}
         {results.keywords.all.length > 0 && (
           <Collapsible>
@@ -0,0 +1,227 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { FolderOpen, Pencil, Trash2, Check, X, Loader2, RefreshCw } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import type { SavedAnalysis, SavedAnalysisSummary } from "@/types"
+
+interface SavedAnalysesProps {
+  // Bump to reload the list (e.g. after a new analysis was saved)
+  refreshKey: number
+  activeId: string | null
+  onOpen: (analysis: SavedAnalysis) => void
+  onDeleted?: (id: string) => void
+  disabled?: boolean
+}
+
+export function SavedAnalyses({ refreshKey, activeId, onOpen, onDeleted, disabled }: SavedAnalysesProps) {
+  const [analyses, setAnalyses] = useState<SavedAnalysisSummary[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState("")
+  const [openingId, setOpeningId] = useState<string | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editName, setEditName] = useState("")
+  const [editProject, setEditProject] = useState("")
+  const [reloadCount, setReloadCount] = useState(0)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const load = async () => {
+      setIsLoading(true)
+      try {
+        const response = await fetch('/api/analyses')
+        const data = await response.json()
+        if (cancelled) return
+        if (!data.success) {
+          throw new Error(data.error || 'Failed to load saved analyses')
+        }
+        setAnalyses(data.data)
+        setError("")
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load saved analyses')
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+
+    load()
+    return () => { cancelled = true }
+  }, [refreshKey, reloadCount])
+
+  const handleOpen = async (id: string) => {
+    setOpeningId(id)
+    setError("")
+    try {
+      const response = await fetch(`/api/analyses/${id}`)
+      const data = await response.json()
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to open analysis')
+      }
+      onOpen(data.data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open analysis')
+    } finally {
+      setOpeningId(null)
+    }
+  }
+
+  const startEditing = (analysis: SavedAnalysisSummary) => {
+    setEditingId(analysis.id)
+    setEditName(analysis.name)
+    setEditProject(analysis.project)
+  }
+
+  const handleRename = async () => {
+    if (!editingId) return
+    try {
+      const response = await fetch(`/api/analyses/${editingId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: editName, project: editProject }),
+      })
+      const data = await response.json()
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to rename analysis')
+      }
+      setAnalyses(prev => prev.map(a => a.id === editingId ? data.data : a))
+      setEditingId(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to rename analysis')
+    }
+  }
+
+  const handleDelete = async (analysis: SavedAnalysisSummary) => {
+    if (!window.confirm(`Delete "${analysis.name}"? This cannot be undone.`)) return
+    try {
+      const response = await fetch(`/api/analyses/${analysis.id}`, { method: 'DELETE' })
+      const data = await response.json()
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to delete analysis')
+      }
+      setAnalyses(prev => prev.filter(a => a.id !== analysis.id))
+      onDeleted?.(analysis.id)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete analysis')
+    }
+  }
+
+  // Group by client/project, keeping the most recently updated first
+  const projects = analyses.reduce<Record<string, SavedAnalysisSummary[]>>((groups, analysis) => {
+    (groups[analysis.project] ||= []).push(analysis)
+    return groups
+  }, {})
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <FolderOpen className="h-4 w-4 text-primary" />
+            Saved Analyses
+          </span>
+          <button
+            onClick={() => setReloadCount(count => count + 1)}
+            className="text-muted-foreground hover:text-foreground transition-colors"
+            aria-label="Reload saved analyses"
+          >
+            <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="p-2 rounded-md bg-destructive/10 text-destructive text-xs">
+            {error}
+          </div>
+        )}
+
+        {!isLoading && analyses.length === 0 && !error && (
+          <p className="text-sm text-muted-foreground">
+            Completed analyses are saved here automatically so you can reopen them and download the report again.
+          </p>
+        )}
+
+        {Object.entries(projects).map(([project, items]) => (
+          <div key={project} className="space-y-1">
+            <div className="text-xs font-medium text-muted-foreground uppercase tracking-wide truncate" title={project}>
+              {project}
+            </div>
+            {items.map((analysis) => (
+              editingId === analysis.id ? (
+                <div key={analysis.id} className="space-y-2 p-2 rounded-md bg-muted/30">
+                  <Input
+                    value={editName}
+                    onChange={(e) => setEditName(e.target.value)}
+                    placeholder="Name"
+                    className="h-8 text-sm"
+                  />
+                  <Input
+                    value={editProject}
+                    onChange={(e) => setEditProject(e.target.value)}
+                    placeholder="Client / project"
+                    className="h-8 text-sm"
+                  />
+                  <div className="flex justify-end gap-1">
+                    <Button size="sm" variant="ghost" onClick={() => setEditingId(null)} aria-label="Cancel rename">
+                      <X className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" onClick={handleRename} disabled={!editName.trim()} aria-label="Save name">
+                      <Check className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <div
+                  key={analysis.id}
+                  className={`group flex items-center gap-2 p-2 rounded-md transition-colors ${
+                    activeId === analysis.id ? 'bg-primary/10' : 'hover:bg-muted/50'
+                  }`}
+                >
+                  <button
+                    onClick={() => handleOpen(analysis.id)}
+                    disabled={disabled || openingId !== null}
+                    className="flex-1 min-w-0 text-left disabled:cursor-not-allowed"
+                    title={analysis.url || analysis.name}
+                  >
+                    <p className="text-sm font-medium truncate">{analysis.name}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      Score {analysis.score}
+                      {analysis.latestScore !== undefined && ` → ${analysis.latestScore}`}
+                      {analysis.primaryKeyword && ` • ${analysis.primaryKeyword}`}
+                      {` • ${new Date(analysis.updatedAt).toLocaleDateString()}`}
+                    </p>
+                  </button>
+                  {openingId === analysis.id ? (
+                    <Loader2 className="h-4 w-4 animate-spin text-primary flex-shrink-0" />
+                  ) : (
+                    <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                      <button
+                        onClick={() => startEditing(analysis)}
+                        className="text-muted-foreground hover:text-foreground"
+                        aria-label="Rename analysis"
+                      >
+                        <Pencil className="h-3.5 w-3.5" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(analysis)}
+                        className="text-muted-foreground hover:text-destructive"
+                        aria-label="Delete analysis"
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )
+            ))}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
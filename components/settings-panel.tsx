@@ -8,7 +8,24 @@ import { Switch } from "@/components/ui/switch"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
 import { useState } from "react"
-import type { Settings } from "@/types"
+import type { KeywordLimits, LLMProviderName, RelevanceScorerName, Settings } from "@/types"
+import { DEFAULT_KEYWORD_LIMITS, MIN_KEYWORD_LIMITS } from "@/lib/keyword-processor"
+
+// Keyword limit inputs, in display order
+const keywordLimitFields: { key: keyof KeywordLimits; label: string }[] = [
+  { key: 'display', label: 'Target keywords' },
+  { key: 'primary', label: 'Brief primary' },
+  { key: 'secondary', label: 'Brief secondary' },
+  { key: 'nlpTerms', label: 'Brief NLP terms' },
+  { key: 'questions', label: 'Brief questions' },
+]
+
+// AI providers (see lib/llm-provider.ts) and the model each uses when none is entered
+const llmProviderOptions: { value: LLMProviderName; label: string; defaultModel: string }[] = [
+  { value: 'anthropic', label: 'Anthropic Claude', defaultModel: 'claude-sonnet-4-20250514' },
+  { value: 'openai', label: 'OpenAI-compatible endpoint', defaultModel: 'gpt-4o' },
+  { value: 'mock', label: 'Offline mock (fixtures)', defaultModel: 'fixtures' },
+]
 
 interface SettingsPanelProps {
   settings: Settings
@@ -18,11 +35,33 @@ interface SettingsPanelProps {
 
 export function SettingsPanel({ settings, onSettingsChange, disabled }: SettingsPanelProps) {
   const [isOpen, setIsOpen] = useState(false)
+  // What is typed in a limit field, so it can be cleared while editing without snapping back
+  const [limitDrafts, setLimitDrafts] = useState<Partial<Record<keyof KeywordLimits, string>>>({})
 
   const updateSetting = <K extends keyof Settings>(key: K, value: Settings[K]) => {
     onSettingsChange({ ...settings, [key]: value })
   }
 
+  const keywordLimits = settings.keywordLimits || DEFAULT_KEYWORD_LIMITS
+
+  const updateKeywordLimit = (key: keyof KeywordLimits, text: string) => {
+    setLimitDrafts((prev) => ({ ...prev, [key]: text }))
+    const value = parseInt(text, 10)
+    if (!Number.isNaN(value) && value >= MIN_KEYWORD_LIMITS[key]) {
+      updateSetting('keywordLimits', { ...keywordLimits, [key]: value })
+    }
+  }
+
+  // Leaving a field shows the saved limit again (a blank field keeps the last valid one)
+  const clearKeywordLimitDraft = (key: keyof KeywordLimits) => {
+    setLimitDrafts((prev) => {
+      const next = { ...prev }
+      delete next[key]
+      return next
+    })
+  }
+  const llmProvider = llmProviderOptions.find((option) => option.value === settings.llmProvider) || llmProviderOptions[0]
+
   return (
     <Card>
       <Collapsible open={isOpen} onOpenChange={setIsOpen}>
@@ -107,6 +146,88 @@ export function SettingsPanel({ settings, onSettingsChange, disabled }: Settings
               </Select>
             </div>
 
+            {/* Keyword Relevance Scoring */}
+            <div className="space-y-2">
+              <Label htmlFor="relevanceScorer">Keyword Ranking</Label>
+              <Select
+                value={settings.relevanceScorer}
+                onValueChange={(value: RelevanceScorerName) => updateSetting('relevanceScorer', value)}
+                disabled={disabled}
+              >
+                <SelectTrigger id="relevanceScorer">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="tfidf">Page content match (semantic)</SelectItem>
+                  <SelectItem value="heuristic">URL &amp; title match only</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                How target keywords are picked from your list for this page
+              </p>
+            </div>
+
+            {/* AI Provider */}
+            <div className="space-y-2">
+              <Label htmlFor="llmProvider">AI Provider</Label>
+              <Select
+                value={llmProvider.value}
+                onValueChange={(value: LLMProviderName) => updateSetting('llmProvider', value)}
+                disabled={disabled}
+              >
+                <SelectTrigger id="llmProvider">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {llmProviderOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                id="llmModel"
+                aria-label="Model"
+                placeholder={`Model (default: ${llmProvider.defaultModel})`}
+                value={settings.llmModel || ''}
+                onChange={(e) => updateSetting('llmModel', e.target.value)}
+                disabled={disabled || llmProvider.value === 'mock'}
+              />
+              <p className="text-xs text-muted-foreground">
+                {llmProvider.value === 'openai'
+                  ? 'Uses OPENAI_BASE_URL (and OPENAI_MODEL when no model is entered), so it can point at a local model server'
+                  : llmProvider.value === 'mock'
+                    ? 'Returns fixture content without network access, for tests and demos'
+                    : 'Requires ANTHROPIC_API_KEY'}
+              </p>
+            </div>
+
+            {/* Keyword Limits */}
+            <div className="space-y-2">
+              <Label>Keyword Limits</Label>
+              <div className="grid grid-cols-3 gap-3">
+                {keywordLimitFields.map(({ key, label }) => (
+                  <div key={key} className="space-y-1">
+                    <Label htmlFor={`keywordLimit-${key}`} className="text-xs text-muted-foreground">
+                      {label}
+                    </Label>
+                    <Input
+                      id={`keywordLimit-${key}`}
+                      type="number"
+                      min={MIN_KEYWORD_LIMITS[key]}
+                      max={100}
+                      value={limitDrafts[key] ?? keywordLimits[key]}
+                      onChange={(e) => updateKeywordLimit(key, e.target.value)}
+                      onBlur={() => clearKeywordLimitDraft(key)}
+                      disabled={disabled}
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Raise these for long pillar pages, or set a brief limit to 0 to leave that category out. Brief limits apply to content briefs imported afterwards.
+              </p>
+            </div>
+
             {/* Schema Recommendations Toggle */}
             <div className="flex items-center justify-between">
               <div className="space-y-0.5">
@@ -122,6 +243,22 @@ export function SettingsPanel({ settings, onSettingsChange, disabled }: Settings
                 disabled={disabled}
               />
             </div>
+
+            {/* Word Tracked Changes Toggle */}
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor="trackChangesToggle">Word Tracked Changes</Label>
+                <p className="text-xs text-muted-foreground">
+                  Record edits as Word revisions (Accept/Reject) instead of green highlights
+                </p>
+              </div>
+              <Switch
+                id="trackChangesToggle"
+                checked={settings.trackChangesInWord}
+                onCheckedChange={(checked) => updateSetting('trackChangesInWord', checked)}
+                disabled={disabled}
+              />
+            </div>
           </CardContent>
         </CollapsibleContent>
       </Collapsible>
@@ -1,22 +1,28 @@
 "use client"
 
 import { useState } from "react"
-import { Globe, AlertCircle, CheckCircle } from "lucide-react"
+import { Globe, AlertCircle, CheckCircle, ClipboardPaste } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Card, CardContent } from "@/components/ui/card"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { isValidUrl } from "@/lib/utils"
+import type { PastedContent, PastedContentFormat } from "@/types"
 
 interface UrlInputProps {
-  onAnalyze: (url: string) => void
+  onAnalyze: (url: string, pastedContent?: PastedContent) => void
   isAnalyzing: boolean
   disabled?: boolean
 }
 
 export function UrlInput({ onAnalyze, isAnalyzing, disabled }: UrlInputProps) {
+  const [mode, setMode] = useState<'url' | 'paste'>('url')
   const [url, setUrl] = useState("")
   const [error, setError] = useState("")
   const [isValid, setIsValid] = useState<boolean | null>(null)
+  const [pastedText, setPastedText] = useState("")
+  const [pastedFormat, setPastedFormat] = useState<PastedContentFormat>('auto')
 
   const validateUrl = (value: string) => {
     if (!value) {
@@ -42,67 +48,128 @@ export function UrlInput({ onAnalyze, isAnalyzing, disabled }: UrlInputProps) {
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
+    if (mode === 'paste') {
+      // The intended URL is optional, but must be valid if given
+      if (pastedText.trim() && isValid !== false) {
+        onAnalyze(url, { content: pastedText, format: pastedFormat })
+      }
+      return
+    }
     if (isValid && url) {
       onAnalyze(url)
     }
   }
 
+  const canSubmit = mode === 'paste'
+    ? pastedText.trim().length > 0 && isValid !== false
+    : !!isValid
+
   return (
     <Card>
       <CardContent className="pt-6">
         <form onSubmit={handleSubmit}>
-          <div className="flex flex-col gap-4">
-            <div className="flex flex-col gap-2">
-              <label className="text-sm font-medium flex items-center gap-2">
-                <Globe className="h-4 w-4 text-muted-foreground" />
-                Page URL to Analyze
-              </label>
-              <div className="relative">
-                <Input
-                  type="text"
-                  placeholder="Enter the page URL to analyze..."
-                  value={url}
-                  onChange={handleChange}
+          <Tabs value={mode} onValueChange={(value) => setMode(value as 'url' | 'paste')}>
+            <TabsList>
+              <TabsTrigger value="url" disabled={isAnalyzing || disabled}>
+                <Globe className="h-4 w-4 mr-2" />
+                Page URL
+              </TabsTrigger>
+              <TabsTrigger value="paste" disabled={isAnalyzing || disabled}>
+                <ClipboardPaste className="h-4 w-4 mr-2" />
+                Paste content
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="paste">
+              <div className="flex flex-col gap-2">
+                <div className="flex items-center justify-between gap-4">
+                  <label htmlFor="pastedContent" className="text-sm font-medium flex items-center gap-2">
+                    <ClipboardPaste className="h-4 w-4 text-muted-foreground" />
+                    Page Content
+                  </label>
+                  <Select
+                    value={pastedFormat}
+                    onValueChange={(value: PastedContentFormat) => setPastedFormat(value)}
+                    disabled={isAnalyzing || disabled}
+                  >
+                    <SelectTrigger className="w-40 h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="auto">Auto-detect</SelectItem>
+                      <SelectItem value="html">HTML</SelectItem>
+                      <SelectItem value="markdown">Markdown</SelectItem>
+                      <SelectItem value="text">Plain text</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <textarea
+                  id="pastedContent"
+                  value={pastedText}
+                  onChange={(e) => setPastedText(e.target.value)}
+                  placeholder="Paste the page HTML, Markdown or plain text (e.g. a staging draft or Google Doc)..."
+                  className="w-full min-h-[200px] rounded-md border border-input bg-background px-3 py-2 text-sm font-mono placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 resize-y"
                   disabled={isAnalyzing || disabled}
-                  className={`pr-10 h-12 text-base ${
-                    isValid === false ? "border-destructive focus-visible:ring-destructive" :
-                    isValid === true ? "border-success focus-visible:ring-success" : ""
-                  }`}
                 />
-                {isValid !== null && (
-                  <div className="absolute right-3 top-1/2 -translate-y-1/2">
-                    {isValid ? (
-                      <CheckCircle className="h-5 w-5 text-success" />
-                    ) : (
-                      <AlertCircle className="h-5 w-5 text-destructive" />
-                    )}
-                  </div>
+                <p className="text-xs text-muted-foreground">
+                  Paste a full HTML document to keep its title, meta description and schema. Markdown and plain text are analyzed as body content only.
+                </p>
+              </div>
+            </TabsContent>
+
+            <div className="flex flex-col gap-4 mt-4">
+              <div className="flex flex-col gap-2">
+                <label className="text-sm font-medium flex items-center gap-2">
+                  <Globe className="h-4 w-4 text-muted-foreground" />
+                  {mode === 'paste' ? 'Intended Page URL (Optional)' : 'Page URL to Analyze'}
+                </label>
+                <div className="relative">
+                  <Input
+                    type="text"
+                    placeholder={mode === 'paste' ? "Where this page will be published..." : "Enter the page URL to analyze..."}
+                    value={url}
+                    onChange={handleChange}
+                    disabled={isAnalyzing || disabled}
+                    className={`pr-10 h-12 text-base ${
+                      isValid === false ? "border-destructive focus-visible:ring-destructive" :
+                      isValid === true ? "border-success focus-visible:ring-success" : ""
+                    }`}
+                  />
+                  {isValid !== null && (
+                    <div className="absolute right-3 top-1/2 -translate-y-1/2">
+                      {isValid ? (
+                        <CheckCircle className="h-5 w-5 text-success" />
+                      ) : (
+                        <AlertCircle className="h-5 w-5 text-destructive" />
+                      )}
+                    </div>
+                  )}
+                </div>
+                {error && (
+                  <p className="text-sm text-destructive flex items-center gap-1">
+                    <AlertCircle className="h-3 w-3" />
+                    {error}
+                  </p>
                 )}
               </div>
-              {error && (
-                <p className="text-sm text-destructive flex items-center gap-1">
-                  <AlertCircle className="h-3 w-3" />
-                  {error}
-                </p>
-              )}
-            </div>
 
-            <Button
-              type="submit"
-              size="xl"
-              disabled={!isValid || isAnalyzing || disabled}
-              className="w-full sm:w-auto sm:self-start"
-            >
-              {isAnalyzing ? (
-                <>
-                  <div className="mr-2 h-4 w-4 animate-spin rounded-full border-2 border-current border-t-transparent" />
-                  Analyzing...
-                </>
-              ) : (
-                "Analyze Page"
-              )}
-            </Button>
-          </div>
+              <Button
+                type="submit"
+                size="xl"
+                disabled={!canSubmit || isAnalyzing || disabled}
+                className="w-full sm:w-auto sm:self-start"
+              >
+                {isAnalyzing ? (
+                  <>
+                    <div className="mr-2 h-4 w-4 animate-spin rounded-full border-2 border-current border-t-transparent" />
+                    Analyzing...
+                  </>
+                ) : (
+                  mode === 'paste' ? "Analyze Content" : "Analyze Page"
+                )}
+              </Button>
+            </div>
+          </Tabs>
         </form>
       </CardContent>
     </Card>
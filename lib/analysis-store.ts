@@ -0,0 +1,149 @@
+/**
+ * Analysis Store - Persists analyses so they survive a page refresh
+ *
+ * Saved analyses are grouped by client/project. Storage sits behind the
+ * AnalysisRepository interface; the default implementation writes one JSON
+ * file per analysis to ANALYSIS_STORE_DIR (defaults to ./.data/analyses).
+ */
+
+import path from 'path';
+import type {
+  ReauditResult,
+  SaveAnalysisRequest,
+  SavedAnalysis,
+  SavedAnalysisSummary,
+  UpdateSavedAnalysisRequest,
+} from '@/types';
+import { applyMetaSelection } from './compliance-checker';
+import { createJsonFileStore, createRecordId } from './json-file-store';
+import { emptyKeywordData } from './keyword-parser';
+import { extractDomain } from './utils';
+
+export interface AnalysisRepository {
+  list(project?: string): Promise<SavedAnalysisSummary[]>;
+  get(id: string): Promise<SavedAnalysis | null>;
+  create(input: SaveAnalysisRequest): Promise<SavedAnalysis>;
+  update(id: string, changes: UpdateSavedAnalysisRequest): Promise<SavedAnalysis | null>;
+  addReaudit(id: string, reaudit: ReauditResult): Promise<SavedAnalysis | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+const DEFAULT_STORE_DIR = path.join(process.cwd(), '.data', 'analyses');
+
+// IDs double as filenames, so only allow what createRecordId('analysis') produces
+const ID_PATTERN = /^analysis_[a-z0-9]+_[a-z0-9]+$/;
+
+/**
+ * Repository storing each analysis as <id>.json in a directory
+ */
+export function createJsonFileRepository(directory: string): AnalysisRepository {
+  const store = createJsonFileStore<SavedAnalysis>(directory, { idPattern: ID_PATTERN });
+
+  return {
+    async list(project) {
+      return (await store.readAll())
+        .filter((analysis) => !project || analysis.project === project)
+        .map(summarizeAnalysis)
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    },
+
+    get: store.read,
+
+    async create(input) {
+      const now = new Date().toISOString();
+      const url = input.analysisResult.crawledData.url;
+      const analysis: SavedAnalysis = {
+        id: createRecordId('analysis'),
+        name: input.name?.trim() || defaultAnalysisName(input),
+        project: input.project?.trim() || defaultProjectName(input),
+        url,
+        createdAt: now,
+        updatedAt: now,
+        analysisResult: input.analysisResult,
+        settings: input.settings,
+        customInstructions: input.customInstructions || {
+          thingsToAvoid: '',
+          focusAreas: '',
+          toneAndStyle: '',
+          additionalInstructions: '',
+        },
+        keywords: input.keywords || input.analysisResult.keywords || emptyKeywordData(),
+        surferReport: input.surferReport || null,
+      };
+
+      await store.write(analysis);
+      console.log(`[analysis-store] Saved ${analysis.id} (${analysis.project} / ${analysis.name})`);
+      return analysis;
+    },
+
+    // Updates and re-audits of one analysis run one after another, so neither overwrites the other
+    update(id, changes) {
+      const metaTitle = changes.metaTitle?.trim();
+      const metaDescription = changes.metaDescription?.trim();
+
+      return store.update(id, (analysis) => ({
+        ...analysis,
+        name: changes.name?.trim() || analysis.name,
+        project: changes.project?.trim() || analysis.project,
+        analysisResult: metaTitle || metaDescription
+          ? applyMetaSelection(analysis.analysisResult, { metaTitle, metaDescription }, analysis.settings)
+          : analysis.analysisResult,
+        updatedAt: new Date().toISOString(),
+      }));
+    },
+
+    addReaudit(id, reaudit) {
+      return store.update(id, (analysis) => ({
+        ...analysis,
+        reaudits: [...(analysis.reaudits || []), reaudit],
+        updatedAt: new Date().toISOString(),
+      }));
+    },
+
+    delete: store.delete,
+  };
+}
+
+let repository: AnalysisRepository | null = null;
+
+/**
+ * The repository used by the API routes
+ */
+export function getAnalysisRepository(): AnalysisRepository {
+  if (!repository) {
+    repository = createJsonFileRepository(process.env.ANALYSIS_STORE_DIR || DEFAULT_STORE_DIR);
+  }
+  return repository;
+}
+
+export function summarizeAnalysis(analysis: SavedAnalysis): SavedAnalysisSummary {
+  return {
+    id: analysis.id,
+    name: analysis.name,
+    project: analysis.project,
+    url: analysis.url,
+    createdAt: analysis.createdAt,
+    updatedAt: analysis.updatedAt,
+    score: analysis.analysisResult.seoAnalysis.score,
+    primaryKeyword: analysis.keywords.primary[0] || '',
+    latestScore: analysis.reaudits?.[analysis.reaudits.length - 1]?.currentScore,
+  };
+}
+
+function defaultProjectName(input: SaveAnalysisRequest): string {
+  const url = input.analysisResult.crawledData.url;
+  return input.settings.brandName || (url ? extractDomain(url) : '') || 'Unsorted';
+}
+
+function defaultAnalysisName(input: SaveAnalysisRequest): string {
+  const { crawledData } = input.analysisResult;
+  if (crawledData.url) {
+    try {
+      const pathname = new URL(crawledData.url).pathname;
+      return pathname === '/' ? 'Homepage' : pathname;
+    } catch {
+      return crawledData.url;
+    }
+  }
+  return crawledData.title || crawledData.h1[0] || 'Pasted content';
+}
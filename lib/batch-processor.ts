@@ -0,0 +1,412 @@
+/**
+ * Batch Processor - Runs many URLs through crawl → analyze → optimize → document
+ *
+ * Jobs are kept in the batch store (batch-store.ts) and processed inside API
+ * requests: each call to advanceBatchJob claims the next pages up to the job's
+ * concurrency and returns once they are done, so nothing runs after a response
+ * is sent (serverless functions are frozen at that point). Each URL is tracked
+ * separately so one failure doesn't stop the batch. Once every page is done,
+ * pages of the same domain are checked for keyword cannibalization; reports
+ * are generated with the findings when the ZIP is downloaded, alongside a
+ * summary index sheet.
+ */
+
+import JSZip from 'jszip';
+import * as XLSX from 'xlsx';
+import type {
+  BatchItemInput,
+  BatchItemSummary,
+  BatchJobSummary,
+  CannibalizationReport,
+  CrawlerProviderName,
+  CustomInstructions,
+  Settings,
+} from '@/types';
+import { crawlPage } from './crawler';
+import { analyzeSEO } from './seo-analyzer';
+import { optimizeContent } from './content-optimizer';
+import { generateDocument } from './doc-generator';
+import { categorizeKeywords } from './keyword-parser';
+import { detectCannibalization, includesPage } from './cannibalization';
+import { getBatchJobRepository, type BatchItemRecord, type BatchJobRecord } from './batch-store';
+import { createRecordId } from './json-file-store';
+import { extractDomain, isValidUrl } from './utils';
+
+// Limits to keep a single batch from exhausting API quotas or memory
+export const MAX_BATCH_ITEMS = 100;
+export const DEFAULT_CONCURRENCY = 3;
+export const MAX_CONCURRENCY = 5;
+
+// Finished jobs are dropped after this long
+const JOB_TTL_MS = 2 * 60 * 60 * 1000;
+
+// A page claimed this long ago whose request died (timeout, redeploy) is queued again;
+// longer than the advance route's maxDuration
+const STALE_ITEM_MS = 6 * 60 * 1000;
+
+const IN_PROGRESS = ['crawling', 'analyzing', 'optimizing'];
+
+export interface BatchInputParseResult {
+  items: BatchItemInput[];
+  errors: string[];
+}
+
+/**
+ * Parse pasted text or CSV into batch items.
+ * Each line is "url, keyword; keyword; ..." - keywords may also be spread
+ * across further CSV/TSV columns. A header row is skipped automatically.
+ */
+export function parseBatchInput(input: string): BatchInputParseResult {
+  const items: BatchItemInput[] = [];
+  const errors: string[] = [];
+  const lines = input.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+
+  lines.forEach((line, index) => {
+    const fields = splitBatchLine(line);
+    const url = (fields[0] || '').trim();
+
+    // Header row, e.g. "URL,Keywords"
+    if (index === 0 && !isValidUrl(url) && /url|page/i.test(url)) {
+      return;
+    }
+
+    if (!isValidUrl(url)) {
+      errors.push(`Line ${index + 1}: "${url}" is not a valid URL`);
+      return;
+    }
+
+    const keywords = fields
+      .slice(1)
+      .flatMap((field) => field.split(/[;|]/))
+      .map((keyword) => keyword.trim())
+      .filter((keyword) => keyword.length > 1);
+
+    items.push({ url, keywords: categorizeKeywords(keywords) });
+  });
+
+  return { items, errors };
+}
+
+function splitBatchLine(line: string): string[] {
+  if (line.includes('\t')) {
+    return line.split('\t');
+  }
+
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (const char of line) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === ',' && !inQuotes) {
+      fields.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current);
+
+  return fields;
+}
+
+/**
+ * Create and store a batch job. Nothing is processed until advanceBatchJob is called.
+ */
+export async function createBatchJob(
+  items: BatchItemInput[],
+  settings: Settings,
+  customInstructions: CustomInstructions,
+  options: { concurrency?: number; crawler?: CrawlerProviderName } = {}
+): Promise<BatchJobSummary> {
+  const repository = getBatchJobRepository();
+  await repository.prune(JOB_TTL_MS);
+
+  const concurrency = Math.min(
+    MAX_CONCURRENCY,
+    Math.max(1, Math.floor(options.concurrency || DEFAULT_CONCURRENCY))
+  );
+
+  const job: BatchJobRecord = {
+    id: createRecordId('batch'),
+    createdAt: new Date().toISOString(),
+    concurrency,
+    settings,
+    customInstructions,
+    crawler: options.crawler,
+    items: items.map((item, index) => ({
+      index,
+      url: item.url,
+      keywords: item.keywords,
+      primaryKeyword: item.keywords.primary[0] || '',
+      status: 'queued',
+    })),
+  };
+
+  await repository.create(job);
+  console.log(`[batch] Created job ${job.id} with ${items.length} URLs (concurrency ${concurrency})`);
+
+  return summarizeJob(job);
+}
+
+export async function getBatchJob(jobId: string): Promise<BatchJobSummary | null> {
+  const job = await getBatchJobRepository().get(jobId);
+  return job ? summarizeJob(job) : null;
+}
+
+/**
+ * Process the job's next pages: claims queued pages up to the job's
+ * concurrency (counting pages other requests are working on) and returns
+ * once they are done. The request that finishes the last page also runs the
+ * cannibalization check. Returns null if the job doesn't exist.
+ */
+export async function advanceBatchJob(jobId: string): Promise<BatchJobSummary | null> {
+  const repository = getBatchJobRepository();
+  const claimed: number[] = [];
+  const now = new Date();
+
+  const job = await repository.update(jobId, (job) => {
+    if (job.finishedAt) return;
+
+    for (const item of job.items) {
+      if (IN_PROGRESS.includes(item.status) && item.startedAt && now.getTime() - new Date(item.startedAt).getTime() > STALE_ITEM_MS) {
+        console.warn(`[batch] ${job.id} item ${item.index} stalled, queueing it again`);
+        item.status = 'queued';
+      }
+    }
+
+    const active = job.items.filter((item) => IN_PROGRESS.includes(item.status)).length;
+    for (const item of job.items) {
+      if (claimed.length >= job.concurrency - active) break;
+      if (item.status !== 'queued') continue;
+      item.status = 'crawling';
+      item.startedAt = now.toISOString();
+      claimed.push(item.index);
+    }
+  });
+  if (!job) return null;
+
+  await Promise.all(claimed.map((index) => processItem(job, index)));
+
+  const latest = await repository.update(jobId, (job) => {
+    if (!job.finishedAt && job.items.every((item) => item.status === 'completed' || item.status === 'failed')) {
+      job.cannibalization = checkCannibalization(job);
+      job.finishedAt = new Date().toISOString();
+      const failed = job.items.filter((item) => item.status === 'failed').length;
+      console.log(`[batch] Job ${job.id} finished: ${job.items.length - failed} completed, ${failed} failed`);
+    }
+  });
+
+  return latest ? summarizeJob(latest) : null;
+}
+
+/**
+ * Bundle all finished reports of a job into a ZIP with an index.xlsx summary.
+ * Reports are generated here, with the job's cannibalization findings.
+ * Returns null if the job doesn't exist.
+ */
+export async function buildBatchZip(jobId: string): Promise<Buffer | null> {
+  const job = await getBatchJobRepository().get(jobId);
+  if (!job) return null;
+
+  const zip = new JSZip();
+
+  for (const item of job.items) {
+    if (item.status !== 'completed' || !item.analysisResult || !item.filename) continue;
+
+    try {
+      const docBuffer = await generateDocument({
+        analysisResult: item.analysisResult,
+        settings: job.settings,
+        clientName: item.clientName || getClientName(item.url, job.settings),
+        pageName: item.pageName || buildReportSlug(item.url),
+        cannibalization: job.cannibalization?.find((report) => includesPage(report, item.url)),
+      });
+      zip.file(item.filename, docBuffer);
+    } catch (error) {
+      console.error(`[batch] ${job.id} report for item ${item.index} (${item.url}) failed:`, error);
+    }
+  }
+
+  zip.file('index.xlsx', buildIndexSheet(job));
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+async function processItem(job: BatchJobRecord, index: number): Promise<void> {
+  const item = job.items[index];
+  const repository = getBatchJobRepository();
+
+  // Progress is written to the store so status requests see it
+  const save = (changes: Partial<BatchItemRecord>) =>
+    repository.update(job.id, (stored) => {
+      Object.assign(stored.items[index], changes);
+    });
+
+  try {
+    const crawledData = await crawlPage(item.url, job.crawler);
+
+    await save({ status: 'analyzing' });
+    const seoAnalysis = analyzeSEO(crawledData, item.keywords);
+    await save({ status: 'optimizing', score: seoAnalysis.score, issueCount: seoAnalysis.issues.length });
+
+    const { optimizedContent, compliance } = await optimizeContent(
+      crawledData,
+      item.keywords,
+      job.settings,
+      job.customInstructions,
+      undefined,
+      { seoAnalysis }
+    );
+
+    const clientName = getClientName(item.url, job.settings);
+    const pageName = buildReportSlug(item.url);
+    const analysisResult = {
+      crawledData,
+      seoAnalysis,
+      optimizedContent,
+      keywords: item.keywords,
+      compliance,
+    };
+
+    await repository.update(job.id, (stored) => {
+      Object.assign(stored.items[index], {
+        status: 'completed',
+        analysisResult,
+        clientName,
+        pageName,
+        recommendedTitle: optimizedContent.metaTitle,
+        recommendedDescription: optimizedContent.metaDescription,
+        filename: uniqueFilename(stored, `${sanitizeFilename(clientName)}_${pageName}_Content_Improvement.docx`),
+        finishedAt: new Date().toISOString(),
+      });
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`[batch] ${job.id} item ${index} (${item.url}) failed:`, message);
+    await save({ status: 'failed', error: message, finishedAt: new Date().toISOString() });
+  }
+}
+
+/**
+ * Check each domain's completed pages against each other
+ */
+function checkCannibalization(job: BatchJobRecord): CannibalizationReport[] {
+  const byDomain = new Map<string, BatchItemRecord[]>();
+  for (const item of job.items) {
+    if (item.status !== 'completed' || !item.analysisResult) continue;
+    const domain = extractDomain(item.url).replace(/^www\./, '');
+    byDomain.set(domain, [...(byDomain.get(domain) || []), item]);
+  }
+
+  const reports: CannibalizationReport[] = [];
+  for (const items of byDomain.values()) {
+    if (items.length < 2) continue;
+
+    try {
+      reports.push(detectCannibalization(items.map((item) => item.analysisResult!)));
+    } catch (error) {
+      // The reports without the section are still valid
+      console.error(`[batch] ${job.id} cannibalization check failed:`, error);
+    }
+  }
+
+  return reports;
+}
+
+function getClientName(url: string, settings: Settings): string {
+  return settings.brandName || extractDomain(url).split('.')[0] || 'Client';
+}
+
+/**
+ * URL path as a filename-safe slug (same scheme as single-page downloads)
+ */
+export function buildReportSlug(url: string): string {
+  let slug = 'homepage';
+  try {
+    const cleanPath = new URL(url).pathname.replace(/^\/+|\/+$/g, '');
+    if (cleanPath) {
+      slug = cleanPath.replace(/\//g, '-').toLowerCase();
+    }
+  } catch {
+    // Keep default
+  }
+  return slug.replace(/[^a-zA-Z0-9_-]/g, '-').replace(/-+/g, '-');
+}
+
+function sanitizeFilename(name: string): string {
+  return name.replace(/[^a-zA-Z0-9_-]/g, '_');
+}
+
+function uniqueFilename(job: BatchJobRecord, filename: string): string {
+  const taken = new Set(job.items.map((item) => item.filename).filter(Boolean));
+  if (!taken.has(filename)) return filename;
+
+  const base = filename.replace(/\.docx$/, '');
+  let counter = 2;
+  while (taken.has(`${base}_${counter}.docx`)) counter++;
+  return `${base}_${counter}.docx`;
+}
+
+function buildIndexSheet(job: BatchJobRecord): Buffer {
+  const rows = job.items.map((item) => ({
+    '#': item.index + 1,
+    URL: item.url,
+    Status: item.status,
+    'Primary Keyword': item.primaryKeyword,
+    'SEO Score': item.score ?? '',
+    Issues: item.issueCount ?? '',
+    'Recommended Title': item.recommendedTitle ?? '',
+    'Recommended Description': item.recommendedDescription ?? '',
+    Report: item.filename ?? '',
+    Error: item.error ?? '',
+  }));
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(rows), 'Summary');
+
+  const cannibalizationRows = (job.cannibalization || []).flatMap((report) =>
+    report.issues.map((issue) => ({
+      Domain: report.domain,
+      Keyword: issue.keyword,
+      Severity: issue.severity,
+      'Should Own': issue.ownerUrl,
+      'Owner Signals': issue.ownerReason,
+      'Competing Pages': issue.recommendations.map((rec) => rec.url).join('\n'),
+      Recommendations: issue.recommendations.map((rec) => `${rec.url}: ${rec.action}`).join('\n'),
+    }))
+  );
+  if (cannibalizationRows.length > 0) {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(cannibalizationRows), 'Cannibalization');
+  }
+  return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }) as Buffer;
+}
+
+function summarizeJob(job: BatchJobRecord): BatchJobSummary {
+  const items: BatchItemSummary[] = job.items.map((item) => ({
+    index: item.index,
+    url: item.url,
+    status: item.status,
+    primaryKeyword: item.primaryKeyword,
+    score: item.score,
+    issueCount: item.issueCount,
+    filename: item.filename,
+    error: item.error,
+    startedAt: item.startedAt,
+    finishedAt: item.finishedAt,
+  }));
+
+  return {
+    id: job.id,
+    status: job.finishedAt ? 'completed' : 'running',
+    createdAt: job.createdAt,
+    finishedAt: job.finishedAt,
+    concurrency: job.concurrency,
+    total: items.length,
+    completed: items.filter((item) => item.status === 'completed').length,
+    failed: items.filter((item) => item.status === 'failed').length,
+    items,
+    cannibalization: job.cannibalization,
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * Batch Store - Persists batch jobs between the requests that run them
+ *
+ * Batches are processed a few pages at a time inside API requests, so the
+ * job has to outlive any one request or server instance. Storage sits behind
+ * the BatchJobRepository interface; the default implementation writes one JSON
+ * file per job to BATCH_STORE_DIR (defaults to ./.data/batches). Deployments
+ * with several instances need a directory (or repository) they all share.
+ */
+
+import path from 'path';
+import type {
+  AnalysisResult,
+  BatchItemSummary,
+  CannibalizationReport,
+  CrawlerProviderName,
+  CustomInstructions,
+  KeywordData,
+  Settings,
+} from '@/types';
+import { createJsonFileStore } from './json-file-store';
+
+export interface BatchItemRecord extends BatchItemSummary {
+  keywords: KeywordData;
+  analysisResult?: AnalysisResult;
+  clientName?: string;
+  pageName?: string;
+  recommendedTitle?: string;
+  recommendedDescription?: string;
+}
+
+export interface BatchJobRecord {
+  id: string;
+  createdAt: string;
+  finishedAt?: string;
+  concurrency: number;
+  settings: Settings;
+  customInstructions: CustomInstructions;
+  crawler?: CrawlerProviderName;
+  items: BatchItemRecord[];
+  // One report per domain with two or more completed pages
+  cannibalization?: CannibalizationReport[];
+}
+
+export interface BatchJobRepository {
+  get(id: string): Promise<BatchJobRecord | null>;
+  create(job: BatchJobRecord): Promise<void>;
+  // Read the latest copy, apply change and write it back; returns null if the job is gone
+  update(id: string, change: (job: BatchJobRecord) => void): Promise<BatchJobRecord | null>;
+  // Delete finished jobs older than maxAgeMs
+  prune(maxAgeMs: number): Promise<number>;
+}
+
+const DEFAULT_STORE_DIR = path.join(process.cwd(), '.data', 'batches');
+
+// IDs double as filenames, so only allow what createBatchJob produces
+const ID_PATTERN = /^batch_[a-z0-9]+_[a-z0-9]+$/;
+
+/**
+ * Repository storing each job as <id>.json in a directory
+ */
+export function createJsonFileBatchRepository(directory: string): BatchJobRepository {
+  const store = createJsonFileStore<BatchJobRecord>(directory, { idPattern: ID_PATTERN });
+
+  return {
+    get: store.read,
+
+    create: store.write,
+
+    // Updates to one job run one after another, so concurrent items don't overwrite each other
+    update: store.update,
+
+    async prune(maxAgeMs) {
+      let pruned = 0;
+      const now = Date.now();
+      for (const job of await store.readAll()) {
+        if (job.finishedAt && now - new Date(job.finishedAt).getTime() > maxAgeMs) {
+          await store.delete(job.id).catch(() => undefined);
+          pruned++;
+        }
+      }
+      return pruned;
+    },
+  };
+}
+
+let repository: BatchJobRepository | null = null;
+
+/**
+ * The repository used by the batch processor
+ */
+export function getBatchJobRepository(): BatchJobRepository {
+  if (!repository) {
+    repository = createJsonFileBatchRepository(process.env.BATCH_STORE_DIR || DEFAULT_STORE_DIR);
+  }
+  return repository;
+}
@@ -0,0 +1,242 @@
+/**
+ * Cannibalization - Finds keywords that several pages of one site compete for
+ *
+ * A page competes for a keyword when the keyword is one of its primary
+ * keywords, or when the live page already claims it strongly (title, H1,
+ * URL slug, body density). Keywords with two or more competing pages are
+ * reported with the page that should own them and what the others should change.
+ */
+
+import type {
+  AnalysisResult,
+  CannibalizationIssue,
+  CannibalizationPage,
+  CannibalizationReport,
+} from '@/types';
+import { calculateKeywordDensity, extractDomain } from './utils';
+
+// Strength points per signal (they add up to 100)
+const SIGNAL_POINTS = {
+  title: 30,
+  h1: 25,
+  slug: 20,
+  mainPrimary: 10,
+  // Density earns 10 points per percent, up to this cap
+  densityMax: 15,
+};
+
+// Pages that don't target a keyword still compete at this strength (e.g. title + H1)
+const STRONG_PRESENCE = 45;
+
+/**
+ * Compare the analyses of one domain's pages. Throws if they span several domains.
+ */
+export function detectCannibalization(results: AnalysisResult[]): CannibalizationReport {
+  const pages = new Map(uniquePages(results).map((result) => [normalizeUrl(result.crawledData.url), result]));
+
+  const domains = [...new Set([...pages.values()].map((result) => siteDomain(result.crawledData.url)))];
+  if (domains.length > 1) {
+    throw new Error(`All pages must be on the same domain (found ${domains.join(', ')})`);
+  }
+
+  const keywords = collectKeywords([...pages.values()]);
+  const issues: CannibalizationIssue[] = [];
+
+  for (const keyword of keywords) {
+    const competing = [...pages.values()]
+      .map((result) => ({ result, signal: measurePage(result, keyword) }))
+      .filter(({ signal }) => signal.targeted || signal.strength >= STRONG_PRESENCE);
+
+    if (competing.length < 2) continue;
+
+    // Strongest claim wins; ties go to the better-scoring page, then the shorter (more general) URL
+    competing.sort((a, b) =>
+      b.signal.strength - a.signal.strength ||
+      b.result.seoAnalysis.score - a.result.seoAnalysis.score ||
+      a.signal.url.length - b.signal.url.length
+    );
+
+    const owner = competing[0].signal;
+    const others = competing.slice(1).map(({ signal }) => signal);
+    const prominent = competing.filter(({ signal }) => signal.mainPrimary || signal.inTitle).length;
+
+    issues.push({
+      keyword,
+      severity: prominent >= 2 ? 'high' : 'medium',
+      ownerUrl: owner.url,
+      ownerReason: describeSignals(owner),
+      pages: competing.map(({ signal }) => signal),
+      recommendations: others.map((page) => ({ url: page.url, action: recommendAction(page, keyword, owner.url) })),
+    });
+  }
+
+  issues.sort((a, b) =>
+    (a.severity === b.severity ? 0 : a.severity === 'high' ? -1 : 1) || b.pages.length - a.pages.length
+  );
+
+  console.log(`[cannibalization] ${domains[0] || 'no domain'}: ${issues.length} contested keywords across ${pages.size} pages`);
+
+  return {
+    domain: domains[0] || '',
+    checkedAt: new Date().toISOString(),
+    urls: [...pages.values()].map((result) => result.crawledData.url),
+    keywordCount: keywords.length,
+    issues,
+  };
+}
+
+/**
+ * The analyses that can be compared: pasted content has no URL to compete with,
+ * and a page analyzed twice counts once (latest wins)
+ */
+export function uniquePages(results: AnalysisResult[]): AnalysisResult[] {
+  const pages = new Map<string, AnalysisResult>();
+  for (const result of results) {
+    if (result.crawledData?.url) {
+      pages.set(normalizeUrl(result.crawledData.url), result);
+    }
+  }
+  return [...pages.values()];
+}
+
+/**
+ * Whether an uploaded value has the parts of an analysis the comparison reads
+ */
+export function isComparableAnalysis(value: unknown): value is AnalysisResult {
+  const result = value as Partial<AnalysisResult> | null;
+  return (
+    typeof result === 'object' && result !== null &&
+    typeof result.crawledData === 'object' && result.crawledData !== null &&
+    typeof result.crawledData.url === 'string' &&
+    Array.isArray(result.crawledData.h1) &&
+    typeof result.seoAnalysis === 'object' && result.seoAnalysis !== null &&
+    typeof result.seoAnalysis.score === 'number'
+  );
+}
+
+/**
+ * Whether the page was one of the pages compared
+ */
+export function includesPage(report: CannibalizationReport, url: string): boolean {
+  const target = normalizeUrl(url);
+  return report.urls.some((checked) => normalizeUrl(checked) === target);
+}
+
+/**
+ * Issues the given page is involved in
+ */
+export function getIssuesForPage(report: CannibalizationReport, url: string): CannibalizationIssue[] {
+  const target = normalizeUrl(url);
+  return report.issues.filter((issue) => issue.pages.some((page) => normalizeUrl(page.url) === target));
+}
+
+/**
+ * What the given page should do about an issue: keep the keyword or give it up
+ */
+export function getPageAction(issue: CannibalizationIssue, url: string): string {
+  const target = normalizeUrl(url);
+  if (normalizeUrl(issue.ownerUrl) === target) {
+    return 'Keep - this page should own the keyword.';
+  }
+  return issue.recommendations.find((rec) => normalizeUrl(rec.url) === target)?.action || '';
+}
+
+// Primary and secondary keywords of every page, de-duplicated case-insensitively
+function collectKeywords(results: AnalysisResult[]): string[] {
+  const keywords = new Map<string, string>();
+  for (const { keywords: data } of results) {
+    for (const keyword of [...(data?.primary || []), ...(data?.secondary || [])]) {
+      const key = keyword.toLowerCase().trim();
+      if (key.length >= 3 && !keywords.has(key)) {
+        keywords.set(key, keyword.trim());
+      }
+    }
+  }
+  return [...keywords.values()];
+}
+
+function measurePage(result: AnalysisResult, keyword: string): CannibalizationPage {
+  const { crawledData, keywords } = result;
+  const keywordLower = keyword.toLowerCase();
+  const primary = (keywords?.primary || []).map((k) => k.toLowerCase().trim());
+
+  const targeted = primary.includes(keywordLower);
+  const mainPrimary = primary[0] === keywordLower;
+  const inTitle = containsPhrase(crawledData.title, keywordLower);
+  const inH1 = crawledData.h1.some((h1) => containsPhrase(h1, keywordLower));
+  const inSlug = slugOf(crawledData.url).includes(keywordLower.replace(/\s+/g, '-'));
+  const density = calculateKeywordDensity(crawledData.bodyContent || '', keywordLower);
+
+  const strength =
+    (inTitle ? SIGNAL_POINTS.title : 0) +
+    (inH1 ? SIGNAL_POINTS.h1 : 0) +
+    (inSlug ? SIGNAL_POINTS.slug : 0) +
+    (mainPrimary ? SIGNAL_POINTS.mainPrimary : 0) +
+    Math.min(SIGNAL_POINTS.densityMax, Math.round(density * 10));
+
+  return {
+    url: crawledData.url,
+    targeted,
+    mainPrimary,
+    inTitle,
+    inH1,
+    inSlug,
+    density: Math.round(density * 100) / 100,
+    strength,
+  };
+}
+
+function describeSignals(page: CannibalizationPage): string {
+  const placements = [page.inTitle && 'title', page.inH1 && 'H1', page.inSlug && 'URL'].filter(Boolean) as string[];
+  const parts = [
+    placements.length > 0 ? `keyword in ${joinList(placements)}` : '',
+    page.density > 0 ? `${page.density.toFixed(2)}% density` : '',
+    page.mainPrimary ? 'main primary keyword' : page.targeted ? 'assigned primary keyword' : '',
+  ].filter(Boolean);
+  return parts.length > 0 ? `Strongest signals: ${parts.join('; ')}` : 'Best overall page score';
+}
+
+function recommendAction(page: CannibalizationPage, keyword: string, ownerUrl: string): string {
+  const placements = [page.inTitle && 'title', page.inH1 && 'H1'].filter(Boolean) as string[];
+  const steps = [
+    placements.length > 0 ? `Retarget the ${joinList(placements)} to a different keyword` : '',
+    page.targeted ? `Drop "${keyword}" from this page's primary keywords` : '',
+    `Link to ${pathOf(ownerUrl)} with "${keyword}" as anchor text`,
+  ].filter(Boolean);
+  return `${steps.join('. ')}.`;
+}
+
+function containsPhrase(text: string, phrase: string): boolean {
+  const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`\\b${escaped}\\b`, 'i').test(text || '');
+}
+
+function joinList(items: string[]): string {
+  return items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+}
+
+function siteDomain(url: string): string {
+  return extractDomain(url).replace(/^www\./, '');
+}
+
+function slugOf(url: string): string {
+  return pathOf(url).toLowerCase();
+}
+
+function pathOf(url: string): string {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return url;
+  }
+}
+
+// Same page regardless of protocol, www. prefix, trailing slash or query string
+function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.hostname.replace(/^www\./, '')}${parsed.pathname.replace(/\/+$/, '')}`.toLowerCase();
+  } catch {
+    return url.toLowerCase();
+  }
+}
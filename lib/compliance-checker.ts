@@ -0,0 +1,265 @@
+/**
+ * Compliance Checker - Measures the optimizer's hard rules on its output
+ *
+ * The system prompt asks for one [H1], 85-95% of the original wording kept,
+ * one keyword per sentence, a capped number of insertions, a title that
+ * differs from the H1 and meta lengths within the configured limits. These
+ * checks measure each rule on what actually came back: failures are sent back
+ * to the AI once as a re-prompt, and the final report is stored with the analysis.
+ */
+
+import * as Diff from 'diff';
+import type { AnalysisResult, ComplianceCheck, ComplianceReport, ComplianceRule, Settings } from '@/types';
+import { parseMarkedContent } from './content-differ';
+
+export const COMPLIANCE_RULE_LABELS: Record<ComplianceRule, string> = {
+  single_h1: 'One H1',
+  preservation: 'Original content preserved',
+  one_keyword_per_sentence: 'One keyword per sentence',
+  max_insertions: 'Keyword insertion limit',
+  title_differs_from_h1: 'Title differs from H1',
+  title_length: 'Title length',
+  description_length: 'Meta description length',
+};
+
+// Share of the original words that must be kept unchanged
+export const MIN_PRESERVATION = 0.85;
+
+// Shortest lengths the SEO audit accepts (seo-analyzer.ts); the maximum comes from Settings
+const MIN_TITLE_LENGTH = 30;
+const MIN_DESCRIPTION_LENGTH = 120;
+
+// Offending sentences listed per check
+const MAX_EXAMPLES = 3;
+
+export interface ComplianceInput {
+  // Meta elements; absent when checking a later section of a long page
+  metaTitle?: string;
+  metaDescription?: string;
+  h1?: string;
+  fullContent: string;
+  // The page content (or section) the AI was given
+  originalContent: string;
+  maxInsertions: number;
+  // Settings.titleMaxLength and Settings.descriptionMaxLength
+  titleMaxLength: number;
+  descriptionMaxLength: number;
+}
+
+/**
+ * Measure every rule that applies to the input
+ *
+ * @param reprompts - Times the AI was already asked to fix violations, recorded in the report
+ */
+export function checkCompliance(input: ComplianceInput, reprompts = 0): ComplianceReport {
+  // The report drops everything from the FAQ marker on; FAQs are rendered from the faqs field
+  const faqIndex = input.fullContent.search(/\[\[NEW FAQ SECTION\]\]/i);
+  const content = faqIndex >= 0 ? input.fullContent.substring(0, faqIndex) : input.fullContent;
+  const checks: ComplianceCheck[] = [];
+
+  // The page (or its first section) needs its H1; later sections of a long page may not repeat it
+  const h1Lines = content.split('\n').filter((line) => /^\s*\[H1\]/i.test(line));
+  const needsH1 = input.h1 !== undefined;
+  checks.push({
+    rule: 'single_h1',
+    passed: needsH1 ? h1Lines.length === 1 : h1Lines.length <= 1,
+    actual: `${h1Lines.length} [H1]`,
+    expected: needsH1 ? 'exactly 1' : 'at most 1',
+    examples: h1Lines.length > 1 ? h1Lines.map((line) => toPlainText(line)).slice(0, MAX_EXAMPLES) : undefined,
+  });
+
+  const ratio = measurePreservation(input.originalContent, content);
+  checks.push({
+    rule: 'preservation',
+    passed: ratio >= MIN_PRESERVATION,
+    actual: `${Math.round(ratio * 100)}%`,
+    expected: `at least ${Math.round(MIN_PRESERVATION * 100)}%`,
+  });
+
+  const stacked = findStackedSentences(content);
+  checks.push({
+    rule: 'one_keyword_per_sentence',
+    passed: stacked.length === 0,
+    actual: stacked.length === 0 ? 'none stacked' : `${stacked.length} sentence${stacked.length !== 1 ? 's' : ''} with 2+`,
+    expected: '1 per sentence',
+    examples: stacked.length > 0 ? stacked.slice(0, MAX_EXAMPLES) : undefined,
+  });
+
+  const insertions = (content.match(/\[\[KEYWORD:/gi) || []).length;
+  checks.push({
+    rule: 'max_insertions',
+    passed: insertions <= input.maxInsertions,
+    actual: `${insertions} insertion${insertions !== 1 ? 's' : ''}`,
+    expected: `at most ${input.maxInsertions}`,
+  });
+
+  if (input.metaTitle !== undefined && input.h1 !== undefined) {
+    checks.push(checkTitleDiffersFromH1(input.metaTitle, input.h1));
+  }
+
+  if (input.metaTitle !== undefined) {
+    checks.push(checkMetaLength('title_length', input.metaTitle, MIN_TITLE_LENGTH, input.titleMaxLength));
+  }
+
+  if (input.metaDescription !== undefined) {
+    checks.push(checkMetaLength('description_length', input.metaDescription, MIN_DESCRIPTION_LENGTH, input.descriptionMaxLength));
+  }
+
+  return {
+    passed: checks.every((check) => check.passed),
+    preservationRatio: Math.round(ratio * 100) / 100,
+    checks,
+    reprompts,
+  };
+}
+
+/**
+ * Swap in a picked title tag or meta description (one of the scored variants)
+ * and re-run the checks on them; the content checks stand as they were.
+ */
+export function applyMetaSelection(
+  result: AnalysisResult,
+  selection: { metaTitle?: string; metaDescription?: string },
+  settings: Pick<Settings, 'titleMaxLength' | 'descriptionMaxLength'>
+): AnalysisResult {
+  const optimizedContent = {
+    ...result.optimizedContent,
+    ...(selection.metaTitle ? { metaTitle: selection.metaTitle } : {}),
+    ...(selection.metaDescription ? { metaDescription: selection.metaDescription } : {}),
+  };
+  if (!result.compliance) {
+    return { ...result, optimizedContent };
+  }
+
+  const { metaTitle, metaDescription, h1 } = optimizedContent;
+  const rechecked: Partial<Record<ComplianceRule, ComplianceCheck>> = {
+    title_differs_from_h1: checkTitleDiffersFromH1(metaTitle, h1),
+    title_length: checkMetaLength('title_length', metaTitle, MIN_TITLE_LENGTH, settings.titleMaxLength),
+    description_length: checkMetaLength('description_length', metaDescription, MIN_DESCRIPTION_LENGTH, settings.descriptionMaxLength),
+  };
+  const checks = result.compliance.checks.map((check) => rechecked[check.rule] ?? check);
+
+  return {
+    ...result,
+    optimizedContent,
+    compliance: { ...result.compliance, checks, passed: checks.every((check) => check.passed) },
+  };
+}
+
+/**
+ * Failed checks phrased as instructions for the re-prompt
+ */
+export function describeViolations(checks: ComplianceCheck[]): string[] {
+  return checks
+    .filter((check) => !check.passed)
+    .map((check) => {
+      const examples = check.examples?.length ? ` (${check.examples.map((example) => `"${example}"`).join('; ')})` : '';
+      switch (check.rule) {
+        case 'single_h1':
+          return check.actual.startsWith('0 ')
+            ? 'fullContent has no [H1]; start it with the h1 as an [H1] line'
+            : `fullContent has ${check.actual}; keep exactly one and make the others [H2]${examples}`;
+        case 'preservation':
+          return `Only ${check.actual} of the original wording was kept; restore original sentences so ${check.expected} is unchanged`;
+        case 'one_keyword_per_sentence':
+          return `Some sentences contain more than one [[KEYWORD:]] insertion; keep one per sentence${examples}`;
+        case 'max_insertions':
+          return `There are ${check.actual}; use ${check.expected}`;
+        case 'title_differs_from_h1':
+          return 'metaTitle and h1 have the same wording; reword the h1';
+        default:
+          return `${COMPLIANCE_RULE_LABELS[check.rule]} is ${check.actual}; keep it ${check.expected}`;
+      }
+    });
+}
+
+/**
+ * Share of the original words that survive unchanged, in order
+ */
+function measurePreservation(originalContent: string, markedContent: string): number {
+  const original = toWords(stripMarkdown(originalContent));
+  if (original.length === 0) return 1;
+
+  const optimized = toWords(toPlainText(markedContent));
+  const kept = Diff.diffArrays(original, optimized)
+    .filter((part) => !part.added && !part.removed)
+    .reduce((total, part) => total + part.value.length, 0);
+
+  return kept / original.length;
+}
+
+function checkTitleDiffersFromH1(metaTitle: string, h1: string): ComplianceCheck {
+  const sameAsH1 = normalizeTitle(metaTitle) === normalizeHeading(h1);
+  return {
+    rule: 'title_differs_from_h1',
+    passed: !sameAsH1,
+    actual: sameAsH1 ? 'same wording' : 'different',
+    expected: 'different wording',
+  };
+}
+
+/**
+ * Check a title tag or meta description against the configured maximum. A
+ * maximum below the audit's minimum lowers the minimum with it.
+ */
+function checkMetaLength(
+  rule: 'title_length' | 'description_length',
+  markedText: string,
+  minLength: number,
+  maxLength: number
+): ComplianceCheck {
+  const text = toPlainText(markedText);
+  const min = Math.min(minLength, maxLength);
+  return {
+    rule,
+    passed: text.length >= min && text.length <= maxLength,
+    actual: `${text.length} characters`,
+    expected: `${min}-${maxLength} characters`,
+  };
+}
+
+// Sentences with two or more [[KEYWORD:]] insertions, as plain text
+function findStackedSentences(markedContent: string): string[] {
+  const stacked: string[] = [];
+
+  for (const line of markedContent.split('\n')) {
+    const sentences = line.replace(/^\s*\[(H[1-6]|PARA|BULLET)\]\s*/i, '').match(/(?:\[\[[^\]]*\]\]|[^.!?])+(?:[.!?]+|$)/g) || [];
+    for (const sentence of sentences) {
+      if ((sentence.match(/\[\[KEYWORD:/gi) || []).length > 1) {
+        const text = toPlainText(sentence);
+        stacked.push(text.length > 120 ? `${text.substring(0, 117)}...` : text);
+      }
+    }
+  }
+
+  return stacked;
+}
+
+// Marked-up optimizer text without change or structure markers
+function toPlainText(markedContent: string): string {
+  return parseMarkedContent(markedContent).cleanContent
+    .replace(/\[(H[1-6]|PARA|BULLET)\]/gi, '')
+    .replace(/[^\S\n]+/g, ' ')
+    .trim();
+}
+
+function stripMarkdown(text: string): string {
+  return text
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^#{1,6}\s+/gm, '')
+    .replace(/[*_`~]/g, '');
+}
+
+function toWords(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9]+(?:['’][a-z0-9]+)*/g) || [];
+}
+
+function normalizeHeading(text: string): string {
+  return toWords(toPlainText(text)).join(' ');
+}
+
+// Brand suffixes ("... | Acme", "... - Acme") don't make a title differ from the H1
+function normalizeTitle(title: string): string {
+  return normalizeHeading(toPlainText(title).replace(/\s+[|–—-]\s+[^|–—-]+$/, ''));
+}
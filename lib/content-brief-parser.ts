@@ -0,0 +1,404 @@
+/**
+ * Content Brief Parser - Reads term exports from content-optimization tools
+ *
+ * Supports CSV/XLSX/JSON exports from Surfer, Clearscope, MarketMuse, Frase
+ * and NeuronWriter. Every tool exports one row per term with some mix of
+ * usage range, current count, importance or relevance, so all of them are
+ * read into the same SurferReportData shape the Surfer audit scraper returns.
+ * Columns are found by header name: each tool has its own header names
+ * (checked first), then the shared patterns apply. No browser is needed.
+ */
+
+import type { ContentBriefSource } from '@/types';
+import type { SurferReportData, SurferTerm } from './surfer-parser';
+import { readRows } from './keyword-parser';
+import { CONTENT_BRIEF_SOURCE_LABELS } from './surfer-report';
+
+type BriefColumn =
+  | 'term'
+  | 'nlp'
+  | 'current'
+  | 'suggested'
+  | 'suggestedMin'
+  | 'suggestedMax'
+  | 'competitors'
+  | 'relevance'
+  | 'importance'
+  | 'action';
+
+type ColumnPatterns = Array<{ column: BriefColumn; patterns: RegExp[] }>;
+
+// Shared header patterns, matched in this order; each header is claimed once,
+// so "Suggested min" becomes suggestedMin rather than the suggested range
+const COLUMN_PATTERNS: ColumnPatterns = [
+  { column: 'suggestedMin', patterns: [/^(suggested|recommended|target) ?(usage )?min/, /^min(imum)?$/] },
+  { column: 'suggestedMax', patterns: [/^(suggested|recommended|target) ?(usage )?max/, /^max(imum)?$/] },
+  { column: 'suggested', patterns: [/suggest/, /recommend/, /^target/, /range/] },
+  { column: 'current', patterns: [/^(you|your|yours|current|content)\b/, /^(usage|uses|count|occurrences)$/] },
+  { column: 'competitors', patterns: [/competitor/, /^examples?$/] },
+  { column: 'relevance', patterns: [/relevan/, /^score$/] },
+  { column: 'importance', patterns: [/importance/, /priority/] },
+  // "group" holds the JSON section a term came from (see jsonToRows)
+  { column: 'nlp', patterns: [/nlp/, /^type$/, /^group$/] },
+  { column: 'action', patterns: [/action/, /^(recommendation|to do)$/] },
+  { column: 'term', patterns: [/^(terms?|phrases?|keywords?|words?|topics?)$/, /term|phrase|keyword|topic/] },
+];
+
+interface SourceProfile {
+  // Tool name as it appears in export filenames
+  filename: RegExp;
+  // Headers that identify the tool's export
+  signatures: RegExp[];
+  // Tool-specific header names, checked before the shared patterns
+  columns: ColumnPatterns;
+}
+
+const SOURCE_PROFILES: Record<ContentBriefSource, SourceProfile> = {
+  surfer: {
+    filename: /surfer/,
+    signatures: [/^nlp$/, /^suggested$/],
+    columns: [],
+  },
+  clearscope: {
+    filename: /clearscope/,
+    signatures: [/typical uses/, /^importance$/],
+    columns: [
+      { column: 'suggested', patterns: [/typical uses/] },
+      { column: 'current', patterns: [/^uses$/] },
+    ],
+  },
+  marketmuse: {
+    filename: /marketmuse|market muse/,
+    signatures: [/suggested distribution/, /^variants?$/, /relevance score/],
+    columns: [
+      { column: 'suggested', patterns: [/suggested distribution/] },
+      { column: 'current', patterns: [/^(current |your )?distribution$/] },
+    ],
+  },
+  frase: {
+    filename: /frase/,
+    signatures: [/topic score/, /(avg\.?|average) frequency/],
+    columns: [
+      { column: 'suggested', patterns: [/(avg\.?|average|serp) frequency/, /^frequency$/] },
+      { column: 'current', patterns: [/^(your|current) (usage|frequency|count)/] },
+      { column: 'relevance', patterns: [/topic score/] },
+    ],
+  },
+  neuronwriter: {
+    filename: /neuron/,
+    signatures: [/sugg_usage/, /usage_pc/],
+    columns: [
+      { column: 'term', patterns: [/^t$/] },
+      { column: 'suggested', patterns: [/sugg_usage/, /suggested usage/] },
+      { column: 'relevance', patterns: [/usage_pc/, /usage %/] },
+    ],
+  },
+};
+
+// Group/type values that mark secondary topical terms (Surfer NLP, NeuronWriter extended terms, entities)
+const NLP_GROUP_PATTERN = /(^|[^a-z])(nlp|extended|entit(y|ies))/i;
+
+// Word importance levels, as 0-1 scores
+const IMPORTANCE_LEVELS: Array<{ pattern: RegExp; score: number }> = [
+  { pattern: /essential|critical|very high|highest/, score: 1 },
+  { pattern: /high/, score: 0.8 },
+  { pattern: /medium|moderate|normal/, score: 0.5 },
+  { pattern: /low/, score: 0.25 },
+];
+
+// Rows searched for the header (some exports put a report title above it)
+const HEADER_SEARCH_ROWS = 5;
+
+type BriefMapping = Partial<Record<BriefColumn, number>>;
+
+export interface ContentBriefOptions {
+  // Target keyword of the brief; taken from a JSON export or the most relevant term when omitted
+  mainKeyword?: string;
+  // Tool the export came from; detected from the headers and filename when omitted
+  source?: ContentBriefSource;
+}
+
+export interface ParsedContentBrief {
+  // Null when the source couldn't be detected and wasn't given
+  source: ContentBriefSource | null;
+  data: SurferReportData;
+}
+
+/**
+ * Parse a content tool's term export into the same shape the Surfer audit scraper returns
+ */
+export function parseContentBrief(buffer: Buffer, filename: string, options: ContentBriefOptions = {}): ParsedContentBrief {
+  const table = filename.toLowerCase().endsWith('.json')
+    ? jsonToRows(JSON.parse(buffer.toString('utf-8').replace(/^\uFEFF/, '')))
+    : { rows: readRows(buffer, filename).rows, questions: [] as string[], mainKeyword: undefined };
+  const { rows } = table;
+
+  // Title lines above the header fill a single cell; any tool's term header counts
+  const sources = Object.keys(SOURCE_PROFILES) as ContentBriefSource[];
+  const headerIndex = rows.slice(0, HEADER_SEARCH_ROWS).findIndex((row) =>
+    row.filter((cell) => cell.trim()).length >= 2 &&
+    sources.some((source) => detectMapping(row, source).term !== undefined)
+  );
+
+  if (headerIndex < 0) {
+    return { source: options.source || null, data: failedReport(filename, 'No term column found. Please upload the terms table exported from your content tool.') };
+  }
+
+  const headers = rows[headerIndex];
+  const source = options.source || detectSource(headers, filename);
+  if (!source) {
+    return { source: null, data: failedReport(filename, 'Could not tell which tool this export is from. Please choose the source and upload it again.') };
+  }
+
+  const mapping = detectMapping(headers, source);
+  const seen = new Set<string>();
+  const terms: SurferTerm[] = [];
+  const questions: string[] = [...table.questions];
+
+  for (const row of rows.slice(headerIndex + 1)) {
+    const term = readTerm(row, mapping);
+    if (!term || seen.has(term.term.toLowerCase())) continue;
+    seen.add(term.term.toLowerCase());
+
+    if (term.term.endsWith('?')) {
+      questions.push(term.term);
+    } else {
+      terms.push(term);
+    }
+  }
+
+  // Most relevant terms first, which also picks the fallback main keyword below
+  if (terms.some((term) => term.relevance !== null)) {
+    terms.sort((a, b) => (b.relevance ?? 0) - (a.relevance ?? 0));
+  }
+
+  if (terms.length === 0) {
+    return { source, data: failedReport(filename, 'The export contains no terms') };
+  }
+
+  // Without a keyword, the most relevant regular term; NLP terms are supporting entities
+  const fallbackKeyword = (terms.find((term) => !term.isNLP) || terms[0]).term;
+  const mainKeyword = options.mainKeyword?.trim() || table.mainKeyword || fallbackKeyword;
+  if (process.env.SURFER_DEBUG) {
+    console.log(`[Content Brief] ${CONTENT_BRIEF_SOURCE_LABELS[source]} ${filename}: ${terms.length} terms, ${questions.length} questions, main keyword "${mainKeyword}"`);
+  }
+
+  return {
+    source,
+    data: {
+      success: true,
+      mainKeyword,
+      url: filename,
+      auditedUrl: '',
+      contentScore: null,
+      wordCount: null,
+      terms: terms.filter((term) => !term.isNLP),
+      nlpTerms: terms.filter((term) => term.isNLP),
+      questions: [...new Set(questions)],
+      headings: [],
+      debug: { extractionMethod: `export:${source}` },
+    },
+  };
+}
+
+/**
+ * Tool whose signatures match the most headers; a tool named in the filename wins outright
+ */
+export function detectSource(headers: string[], filename = ''): ContentBriefSource | null {
+  const name = filename.toLowerCase();
+  const normalized = headers.map((header) => header.trim().toLowerCase());
+  let best: ContentBriefSource | null = null;
+  let bestScore = 0;
+
+  for (const [source, profile] of Object.entries(SOURCE_PROFILES) as [ContentBriefSource, SourceProfile][]) {
+    if (profile.filename.test(name)) return source;
+
+    const score = profile.signatures.filter((signature) => normalized.some((header) => signature.test(header))).length;
+    if (score > bestScore) {
+      best = source;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+function detectMapping(headers: string[], source?: ContentBriefSource): BriefMapping {
+  const normalized = headers.map((header) => header.trim().toLowerCase());
+  const mapping: BriefMapping = {};
+  const claimed = new Set<number>();
+  const patterns = [...(source ? SOURCE_PROFILES[source].columns : []), ...COLUMN_PATTERNS];
+
+  for (const { column, patterns: columnPatterns } of patterns) {
+    if (mapping[column] !== undefined) continue;
+    for (const pattern of columnPatterns) {
+      const index = normalized.findIndex((header, i) => header && !claimed.has(i) && pattern.test(header));
+      if (index >= 0) {
+        mapping[column] = index;
+        claimed.add(index);
+        break;
+      }
+    }
+  }
+
+  return mapping;
+}
+
+function readTerm(row: string[], mapping: BriefMapping): SurferTerm | null {
+  const cell = (column: BriefColumn) => (mapping[column] === undefined ? '' : (row[mapping[column]!] || '').trim());
+
+  // Terms copied from the Surfer editor can carry the "NLP" badge text
+  const rawTerm = cell('term');
+  const term = rawTerm.replace(/\s*NLP\s*$/i, '').trim();
+  if (term.length < 2 || term.length > 100 || /^\d+$/.test(term)) return null;
+
+  const suggested = parseRange(cell('suggested'));
+  const recommendedMin = parseCount(cell('suggestedMin')) ?? suggested?.min ?? null;
+  const recommendedMax = parseCount(cell('suggestedMax')) ?? suggested?.max ?? null;
+  const competitors = parseRange(cell('competitors'));
+  const currentCount = parseCount(cell('current'));
+
+  return {
+    term,
+    isNLP: term !== rawTerm || isFlagSet(cell('nlp')),
+    currentCount,
+    recommendedMin,
+    recommendedMax,
+    competitorMin: competitors?.min ?? null,
+    competitorMax: competitors?.max ?? null,
+    relevance: parseRelevance(cell('relevance')) ?? parseImportance(cell('importance')),
+    action: cell('action') || null,
+    status: termStatus(currentCount, recommendedMin, recommendedMax),
+  };
+}
+
+// "yes", "true", "1", "x", "✓" or a type/group column naming an NLP-style term group
+function isFlagSet(value: string): boolean {
+  return /^(yes|y|true|1|x|✓|✔)$/i.test(value) || NLP_GROUP_PATTERN.test(value);
+}
+
+function parseCount(value: string): number | null {
+  const match = value.match(/\d+/);
+  return match ? parseInt(match[0], 10) : null;
+}
+
+// "2-7", "2 – 7", "2 to 7" or a single "3"
+function parseRange(value: string): { min: number; max: number } | null {
+  const range = value.match(/(\d+)\s*(?:-|–|—|to)\s*(\d+)/i);
+  if (range) {
+    return { min: parseInt(range[1], 10), max: parseInt(range[2], 10) };
+  }
+  const single = parseCount(value);
+  return single === null ? null : { min: single, max: single };
+}
+
+// "85%", "85" and "0.85" are all 0.85
+function parseRelevance(value: string): number | null {
+  const match = value.replace(',', '.').match(/[\d.]+/);
+  if (!match) return null;
+  const number = parseFloat(match[0]);
+  if (isNaN(number)) return null;
+  return number > 1 ? number / 100 : number;
+}
+
+// "Essential"/"High"/"Low", a 1-10 grade or a percentage, as a 0-1 score
+function parseImportance(value: string): number | null {
+  const text = value.toLowerCase();
+  const level = IMPORTANCE_LEVELS.find(({ pattern }) => pattern.test(text));
+  if (level) return level.score;
+
+  const number = parseFloat(text.replace(',', '.'));
+  if (isNaN(number)) return null;
+  if (number > 10) return Math.min(1, number / 100);
+  return number > 1 ? number / 10 : number;
+}
+
+function termStatus(current: number | null, min: number | null, max: number | null): SurferTerm['status'] {
+  if (current === null) return 'unknown';
+  if (current === 0) return 'missing';
+  if (min !== null && current < min) return 'low';
+  if (max !== null && current > max) return 'overused';
+  return 'good';
+}
+
+interface BriefTable {
+  rows: string[][];
+  questions: string[];
+  mainKeyword?: string;
+}
+
+// Object keys that name a term inside JSON exports
+const JSON_TERM_KEYS = ['t', 'term', 'topic', 'keyword', 'phrase', 'name'];
+
+/**
+ * Flatten a JSON export into header + rows. Every array of term objects becomes
+ * rows tagged with the key it was found under (NeuronWriter nests terms as
+ * terms.content_basic / terms.content_extended); arrays under question-like keys
+ * become questions.
+ */
+function jsonToRows(json: unknown): BriefTable {
+  const records: Array<Record<string, unknown>> = [];
+  const questions: string[] = [];
+
+  const visit = (value: unknown, key: string, depth: number) => {
+    if (depth > 4 || value === null || typeof value !== 'object') return;
+
+    if (Array.isArray(value)) {
+      if (/question|people_also_ask|paa/i.test(key)) {
+        for (const item of value) {
+          const text = typeof item === 'string' ? item : item?.q ?? item?.question ?? item?.text;
+          if (typeof text === 'string' && text.trim()) questions.push(text.trim());
+        }
+        return;
+      }
+      for (const item of value) {
+        if (item && typeof item === 'object' && JSON_TERM_KEYS.some((termKey) => typeof item[termKey] === 'string')) {
+          records.push({ group: key, ...item });
+        } else {
+          visit(item, key, depth + 1);
+        }
+      }
+      return;
+    }
+
+    for (const [childKey, child] of Object.entries(value)) {
+      visit(child, childKey, depth + 1);
+    }
+  };
+
+  visit(json, '', 0);
+
+  const root = json && typeof json === 'object' && !Array.isArray(json) ? json as Record<string, unknown> : {};
+  const mainKeyword = ['keyword', 'query', 'main_keyword', 'target_keyword', 'topic']
+    .map((key) => root[key])
+    .find((value): value is string => typeof value === 'string' && value.trim().length > 0);
+
+  const headers = [...new Set(records.flatMap((record) => Object.keys(record)))];
+  const rows = records.map((record) => headers.map((header) => jsonCell(record[header])));
+
+  return { rows: records.length > 0 ? [headers, ...rows] : [], questions, mainKeyword };
+}
+
+// Ranges come as [min, max] arrays; nested objects carry nothing tabular
+function jsonCell(value: unknown): string {
+  if (Array.isArray(value)) return value.filter((item) => typeof item !== 'object').join('-');
+  if (typeof value === 'boolean') return value ? 'yes' : '';
+  if (value === null || value === undefined || typeof value === 'object') return '';
+  return String(value);
+}
+
+function failedReport(filename: string, error: string): SurferReportData {
+  return {
+    success: false,
+    mainKeyword: '',
+    url: filename,
+    auditedUrl: '',
+    contentScore: null,
+    wordCount: null,
+    terms: [],
+    nlpTerms: [],
+    questions: [],
+    headings: [],
+    error,
+  };
+}
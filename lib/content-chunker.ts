@@ -0,0 +1,189 @@
+/**
+ * Content Chunker - Splits long pages into heading-bounded sections for the optimizer
+ *
+ * Pages longer than one optimizer request are optimized section by section
+ * instead of being truncated. Sections break at Markdown headings and are
+ * packed together up to the character limit; a single section longer than the
+ * limit is split between paragraphs (or sentences, as a last resort). The
+ * optimized sections are stitched back into one marked-up fullContent.
+ */
+
+import { countWords } from './utils';
+
+export interface ContentChunk {
+  text: string;
+  wordCount: number;
+  // Headings that open or appear in this chunk, for the page outline
+  headings: string[];
+}
+
+const HEADING_LINE = /^#{1,6}\s+(.+)$/;
+
+// A piece of content and the whitespace that joined it to the piece before
+interface Piece {
+  text: string;
+  separator: string;
+}
+
+/**
+ * Split Markdown content into chunks of at most maxChars, breaking at headings
+ * where possible
+ */
+export function splitContentIntoChunks(content: string, maxChars: number): ContentChunk[] {
+  const chunks: string[] = [];
+  let current = '';
+  const add = (piece: Piece) => {
+    if (current && current.length + piece.separator.length + piece.text.length > maxChars) {
+      chunks.push(current);
+      current = piece.text;
+    } else {
+      current = current ? current + piece.separator + piece.text : piece.text;
+    }
+  };
+
+  for (const section of splitSections(content.trim())) {
+    const pieces = splitToFit(section, maxChars, '\n\n');
+    // A section that has to be split starts its own chunk, so breaks stay at headings where possible
+    if (pieces.length > 1 && current) {
+      chunks.push(current);
+      current = '';
+    }
+    pieces.forEach(add);
+  }
+  if (current) chunks.push(current);
+
+  return chunks.map((text) => ({
+    text,
+    wordCount: countWords(text),
+    headings: text
+      .split('\n')
+      .map((line) => line.trim().match(HEADING_LINE)?.[1].trim())
+      .filter((heading): heading is string => Boolean(heading)),
+  }));
+}
+
+/**
+ * Split an insertion range across chunks in proportion to their word counts.
+ * Largest remainders round up, so the shares add up to the page range.
+ */
+export function splitInsertionRange(
+  range: { min: number; max: number },
+  wordCounts: number[]
+): Array<{ min: number; max: number }> {
+  const mins = apportion(range.min, wordCounts);
+  const maxes = apportion(range.max, wordCounts);
+  return wordCounts.map((_, i) => ({ min: mins[i], max: maxes[i] }));
+}
+
+/**
+ * Count [[KEYWORD: term]] insertions per target keyword. A marker counts for a
+ * target when it matches it exactly or contains it.
+ */
+export function countKeywordInsertions(markedContent: string, keywords: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  const targets = [...keywords].sort((a, b) => b.length - a.length);
+
+  const keywordPattern = /\[\[KEYWORD:\s*([^\]]+)\]\]/g;
+  let match;
+  while ((match = keywordPattern.exec(markedContent)) !== null) {
+    const inserted = match[1].trim().toLowerCase();
+    const target = targets.find((keyword) => inserted === keyword.toLowerCase())
+      || targets.find((keyword) => inserted.includes(keyword.toLowerCase()));
+    if (target) {
+      counts.set(target, (counts.get(target) || 0) + 1);
+    }
+  }
+
+  return counts;
+}
+
+/**
+ * Stitch optimized sections into one fullContent with a single [H1]: later
+ * [H1] lines become [H2], and FAQ sections are dropped (the page's FAQs come
+ * from the optimizer's faqs field)
+ */
+export function joinOptimizedSections(sections: string[]): string {
+  let hasH1 = false;
+
+  return sections
+    .map((section) => {
+      const faqIndex = section.search(/\[\[NEW FAQ SECTION\]\]/i);
+      const content = faqIndex >= 0 ? section.substring(0, faqIndex) : section;
+
+      return content
+        .split('\n')
+        .map((line) => {
+          if (!/^\s*\[H1\]/i.test(line)) return line;
+          if (!hasH1) {
+            hasH1 = true;
+            return line;
+          }
+          return line.replace(/\[H1\]/i, '[H2]');
+        })
+        .join('\n')
+        .trim();
+    })
+    .filter(Boolean)
+    .join('\n');
+}
+
+// Each section starts at a heading line; text before the first heading is its own section
+function splitSections(content: string): string[] {
+  const sections: string[] = [];
+  let current: string[] = [];
+
+  for (const line of content.split('\n')) {
+    if (HEADING_LINE.test(line.trim()) && current.some((l) => l.trim())) {
+      sections.push(current.join('\n').trim());
+      current = [];
+    }
+    current.push(line);
+  }
+  if (current.some((l) => l.trim())) sections.push(current.join('\n').trim());
+
+  return sections;
+}
+
+// Paragraphs, then sentences, then hard cuts until every piece fits
+function splitToFit(text: string, maxChars: number, separator: string): Piece[] {
+  if (text.length <= maxChars) return [{ text, separator }];
+
+  const splits: Array<[(text: string) => string[], string]> = [
+    [(t) => t.split(/\n\s*\n/), '\n\n'],
+    [(t) => t.split('\n'), '\n'],
+    [(t) => t.match(/[^.!?]+(?:[.!?]+|$)/g) || [t], ' '],
+  ];
+  for (const [split, joiner] of splits) {
+    const parts = split(text).map((part) => part.trim()).filter(Boolean);
+    if (parts.length > 1) {
+      return parts.flatMap((part, i) => splitToFit(part, maxChars, i === 0 ? separator : joiner));
+    }
+  }
+
+  const pieces: Piece[] = [];
+  for (let start = 0; start < text.length; start += maxChars) {
+    pieces.push({ text: text.substring(start, start + maxChars), separator: start === 0 ? separator : '' });
+  }
+  return pieces;
+}
+
+// Largest remainder apportionment of total by weight
+function apportion(total: number, weights: number[]): number[] {
+  const sum = weights.reduce((a, b) => a + b, 0);
+  if (sum === 0) return weights.map((_, i) => (i === 0 ? total : 0));
+
+  const exact = weights.map((weight) => (total * weight) / sum);
+  const shares = exact.map(Math.floor);
+  let remaining = total - shares.reduce((a, b) => a + b, 0);
+
+  const byRemainder = exact
+    .map((value, i) => ({ i, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (const { i } of byRemainder) {
+    if (remaining <= 0) break;
+    shares[i]++;
+    remaining--;
+  }
+
+  return shares;
+}
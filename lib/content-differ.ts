@@ -9,6 +9,7 @@
  */
 
 import * as Diff from 'diff';
+import type { ChangeRationale } from '@/types';
 
 export interface ContentChange {
   type: 'keyword' | 'adjusted' | 'new' | 'faq';
@@ -27,10 +28,17 @@ export interface ParsedContent {
 
 /**
  * Parse content with AI change markers and extract changes
+ *
+ * @param rationales - Optimizer rationales; matched changes carry them as `reason`
  */
-export function parseMarkedContent(markedContent: string): ParsedContent {
+export function parseMarkedContent(markedContent: string, rationales: ChangeRationale[] = []): ParsedContent {
   const changes: ContentChange[] = [];
   const highlightSegments: string[] = [];
+  const findRationale = createRationaleMatcher(rationales);
+  const reasonFor = (type: ChangeRationale['type'], text: string) => {
+    const rationale = findRationale(type, text);
+    return rationale ? formatChangeRationale(rationale) : undefined;
+  };
 
   let cleanContent = markedContent;
 
@@ -40,7 +48,7 @@ export function parseMarkedContent(markedContent: string): ParsedContent {
 
   while ((match = keywordPattern.exec(markedContent)) !== null) {
     const keyword = match[1].trim();
-    changes.push({ type: 'keyword', text: keyword });
+    changes.push({ type: 'keyword', text: keyword, reason: reasonFor('keyword', keyword) });
     highlightSegments.push(keyword);
   }
   cleanContent = cleanContent.replace(keywordPattern, '$1');
@@ -52,17 +60,21 @@ export function parseMarkedContent(markedContent: string): ParsedContent {
     changes.push({
       type: 'adjusted',
       text: newText,
-      reason: `Changed from "${match[1].trim()}" to "${newText}"`
+      reason: reasonFor('adjusted', newText) || `Changed from "${match[1].trim()}" to "${newText}"`
     });
     highlightSegments.push(newText);
   }
   cleanContent = cleanContent.replace(adjustedPattern, '$2');
 
-  // Pattern for [[NEW]] markers (the sentence before [[NEW]])
-  const newPattern = /([^.!?]*[.!?])\s*\[\[NEW\]\]/g;
+  // Pattern for [[NEW]] markers (the sentence before [[NEW]], on the same line)
+  const newPattern = /([^.!?\n]*[.!?])[^\S\n]*\[\[NEW\]\]/g;
   while ((match = newPattern.exec(markedContent)) !== null) {
-    const newSentence = match[1].trim();
-    changes.push({ type: 'new', text: newSentence });
+    // Drop the line's structure marker and any earlier [[NEW]] so the text matches the report's segment
+    const newSentence = match[1]
+      .replace(/\[\[NEW\]\]/gi, '')
+      .replace(/^\s*\[(?:H[1-6]|PARA|BULLET)\]/i, '')
+      .trim();
+    changes.push({ type: 'new', text: newSentence, reason: reasonFor('new', newSentence) });
     highlightSegments.push(newSentence);
   }
   cleanContent = cleanContent.replace(/\[\[NEW\]\]/g, '');
@@ -90,6 +102,68 @@ export function parseMarkedContent(markedContent: string): ParsedContent {
   };
 }
 
+/**
+ * Match changes to their rationales by type and text. Each rationale is used
+ * once while unused matches remain, so repeated insertions of the same keyword
+ * pick up their own reasons in order.
+ */
+export function createRationaleMatcher(
+  rationales: ChangeRationale[]
+): (type: ChangeRationale['type'], text: string) => ChangeRationale | undefined {
+  const used = new Set<ChangeRationale>();
+
+  return (type, text) => {
+    const key = normalizeChangeText(text);
+    if (!key) return undefined;
+
+    const candidates = rationales.filter((rationale) =>
+      normalizeChangeText(rationale.text) === key ||
+      (type === 'keyword' && rationale.targetKeyword && normalizeChangeText(rationale.targetKeyword) === key)
+    );
+    if (candidates.length === 0) return undefined;
+
+    const sameType = candidates.filter((rationale) => rationale.type === type);
+    const pool = sameType.length > 0 ? sameType : candidates;
+    const match = pool.find((rationale) => !used.has(rationale)) || pool[pool.length - 1];
+    used.add(match);
+    return match;
+  };
+}
+
+/**
+ * Readable explanation of a change, e.g. for a Word comment
+ */
+export function formatChangeRationale(rationale: ChangeRationale): string {
+  const parts: string[] = [];
+
+  const reason = rationale.reason.trim();
+  if (reason) {
+    parts.push(/[.!?]$/.test(reason) ? reason : `${reason}.`);
+  }
+  if (rationale.targetKeyword && !reason.toLowerCase().includes(rationale.targetKeyword.toLowerCase())) {
+    parts.push(`Target keyword: "${rationale.targetKeyword}".`);
+  }
+  if (rationale.surferTarget) {
+    const { min, max, current, source } = rationale.surferTarget;
+    const target = min === max ? `${max}` : `${min}–${max}`;
+    parts.push(`${source || 'Surfer'} target: ${target} uses${current !== undefined ? `, page had ${current}` : ''}.`);
+  }
+  if (rationale.issue) {
+    parts.push(`Fixes: ${rationale.issue}`);
+  }
+
+  return parts.join(' ');
+}
+
+function normalizeChangeText(text: string): string {
+  return text
+    .replace(/\[\[KEYWORD:\s*([^\]]+)\]\]/g, '$1')
+    .replace(/\[\[ADJUSTED:[^\]]*→\s*([^\]]+)\]\]/g, '$1')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
 /**
  * Check if a text segment should be highlighted based on the highlight segments list
  */
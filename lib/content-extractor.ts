@@ -0,0 +1,276 @@
+/**
+ * Content Extractor - Readability-style main content extraction from raw HTML
+ *
+ * Used by crawler providers that fetch pages directly (no Firecrawl).
+ * Strips navigation, footer, sidebar and other boilerplate, picks the
+ * densest main-content container and converts it to Markdown so the
+ * result matches what Firecrawl returns for `onlyMainContent`.
+ */
+
+export interface ExtractedContent {
+  // Main-content HTML (boilerplate removed)
+  html: string;
+  // Markdown rendering of the main content
+  markdown: string;
+}
+
+// Tags that never contain page content
+const STRIP_TAGS = [
+  'script',
+  'style',
+  'noscript',
+  'iframe',
+  'svg',
+  'template',
+  'nav',
+  'footer',
+  'header',
+  'aside',
+  'form',
+];
+
+// Class/id names that mark boilerplate containers (optionally with one
+// prefix segment, e.g. "site-footer"). Mirrors the excludeTags list sent to Firecrawl
+const BOILERPLATE_PATTERN = /^(?:[a-z0-9]+[-_])?(nav|navbar|navigation|menu|footer|header|sidebar|widget|breadcrumbs?|social-share|social-links|cookie-notice|cookie-banner|popup|modal|advertisement|ads?)$/i;
+
+// ARIA roles that mark boilerplate containers
+const BOILERPLATE_ROLES = ['navigation', 'banner', 'contentinfo', 'complementary'];
+
+// Containers that may hold the main content, in order of preference
+const MAIN_CONTENT_PATTERNS = [
+  /<main\b[^>]*>/gi,
+  /<[a-z]+\b[^>]*role=["']main["'][^>]*>/gi,
+  /<article\b[^>]*>/gi,
+];
+
+/**
+ * Extract the main content of an HTML page as cleaned HTML and Markdown
+ */
+export function extractMainContent(html: string): ExtractedContent {
+  const bodyMatch = html.match(/<body[^>]*>([\s\S]*)<\/body>/i);
+  let content = bodyMatch ? bodyMatch[1] : html;
+
+  // Remove comments and non-content tags
+  content = content.replace(/<!--[\s\S]*?-->/g, '');
+  for (const tag of STRIP_TAGS) {
+    content = removeElements(content, (openTag, tagName) => tagName === tag);
+  }
+
+  // Remove elements whose class, id or role marks them as boilerplate
+  content = removeElements(content, (openTag) => isBoilerplateTag(openTag));
+
+  const mainHtml = pickMainContainer(content) || content;
+
+  return {
+    html: mainHtml,
+    markdown: htmlToMarkdown(mainHtml),
+  };
+}
+
+/**
+ * Convert an HTML fragment to Markdown (headings, paragraphs, lists, links, emphasis)
+ */
+export function htmlToMarkdown(html: string): string {
+  let md = html;
+
+  // Headings
+  md = md.replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, text: string) => {
+    const clean = inlineText(text);
+    return clean ? `\n\n${'#'.repeat(Number(level))} ${clean}\n\n` : '';
+  });
+
+  // List items
+  md = md.replace(/<li[^>]*>([\s\S]*?)<\/li>/gi, (_, text: string) => {
+    const clean = inlineText(text);
+    return clean ? `\n- ${clean}` : '';
+  });
+
+  // Block-level boundaries become paragraph breaks
+  md = md.replace(/<br\s*\/?>/gi, '\n');
+  md = md.replace(/<\/?(p|div|section|article|main|ul|ol|table|tr|blockquote|figure|figcaption)[^>]*>/gi, '\n\n');
+
+  md = inlineText(md, true);
+
+  return md
+    .split('\n')
+    .map((line) => line.replace(/[^\S\n]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Decode the HTML entities that commonly appear in page text
+ */
+export function decodeHtmlEntities(text: string): string {
+  const named: Record<string, string> = {
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    apos: "'",
+    nbsp: ' ',
+    ndash: '–',
+    mdash: '—',
+    lsquo: '‘',
+    rsquo: '’',
+    ldquo: '“',
+    rdquo: '”',
+    hellip: '…',
+    copy: '©',
+    reg: '®',
+    trade: '™',
+  };
+
+  return text
+    .replace(/&#(\d+);/g, (entity, code: string) => fromCodePoint(Number(code)) ?? entity)
+    .replace(/&#x([0-9a-f]+);/gi, (entity, code: string) => fromCodePoint(parseInt(code, 16)) ?? entity)
+    .replace(/&([a-z]+);/gi, (entity, name: string) => named[name.toLowerCase()] ?? entity);
+}
+
+// Character for a numeric entity; out-of-range code points are left as the entity
+function fromCodePoint(code: number): string | undefined {
+  return Number.isInteger(code) && code >= 0 && code <= 0x10ffff ? String.fromCodePoint(code) : undefined;
+}
+
+/**
+ * Convert inline HTML (links, bold, italic) to Markdown and strip remaining tags
+ */
+function inlineText(html: string, keepNewlines: boolean = false): string {
+  let text = html
+    .replace(/<a[^>]*href=["']([^"']*)["'][^>]*>([\s\S]*?)<\/a>/gi, (_, href: string, label: string) => {
+      const cleanLabel = label.replace(/<[^>]*>/g, '').replace(/\s+/g, ' ').trim();
+      if (!cleanLabel) return '';
+      if (!href || href.startsWith('#') || href.startsWith('javascript:')) return cleanLabel;
+      return `[${cleanLabel}](${href})`;
+    })
+    .replace(/<(strong|b)\b[^>]*>([\s\S]*?)<\/\1>/gi, (_, __, inner: string) => {
+      const clean = inner.trim();
+      return clean ? `**${clean}**` : '';
+    })
+    .replace(/<(em|i)\b[^>]*>([\s\S]*?)<\/\1>/gi, (_, __, inner: string) => {
+      const clean = inner.trim();
+      return clean ? `*${clean}*` : '';
+    })
+    .replace(/<[^>]*>/g, '');
+
+  text = decodeHtmlEntities(text);
+
+  return keepNewlines ? text : text.replace(/\s+/g, ' ').trim();
+}
+
+function isBoilerplateTag(openTag: string): boolean {
+  const classMatch = openTag.match(/\bclass=["']([^"']*)["']/i);
+  const idMatch = openTag.match(/\bid=["']([^"']*)["']/i);
+  const roleMatch = openTag.match(/\brole=["']([^"']*)["']/i);
+
+  if (roleMatch && BOILERPLATE_ROLES.includes(roleMatch[1].toLowerCase())) {
+    return true;
+  }
+
+  // Match whole class names so "menu-item-content" etc. don't take out
+  // the whole article body
+  const classNames = classMatch ? classMatch[1].split(/\s+/) : [];
+  const names = idMatch ? [...classNames, idMatch[1]] : classNames;
+  return names.some((name) => name && BOILERPLATE_PATTERN.test(name));
+}
+
+/**
+ * Pick the main-content container, preferring <main>, [role=main] then the
+ * <article> with the most text
+ */
+function pickMainContainer(html: string): string | null {
+  for (const pattern of MAIN_CONTENT_PATTERNS) {
+    const candidates: string[] = [];
+    pattern.lastIndex = 0;
+    let match;
+
+    while ((match = pattern.exec(html)) !== null) {
+      const tagName = match[0].match(/^<([a-z0-9]+)/i)?.[1].toLowerCase() || '';
+      const end = findClosingTag(html, match.index + match[0].length, tagName);
+      candidates.push(html.substring(match.index + match[0].length, end.contentEnd));
+    }
+
+    if (candidates.length > 0) {
+      candidates.sort((a, b) => textLength(b) - textLength(a));
+      // Ignore near-empty containers (e.g. a <main> wrapping only a hero image)
+      if (textLength(candidates[0]) >= 200) {
+        return candidates[0];
+      }
+    }
+  }
+
+  return null;
+}
+
+function textLength(html: string): number {
+  return html.replace(/<[^>]*>/g, '').replace(/\s+/g, ' ').trim().length;
+}
+
+/**
+ * Remove every element whose opening tag matches the predicate, including
+ * all of its nested children
+ */
+function removeElements(
+  html: string,
+  predicate: (openTag: string, tagName: string) => boolean
+): string {
+  const openTagPattern = /<([a-z][a-z0-9]*)\b[^>]*>/gi;
+  let result = '';
+  let lastIndex = 0;
+  let match;
+
+  while ((match = openTagPattern.exec(html)) !== null) {
+    const tagName = match[1].toLowerCase();
+    if (!predicate(match[0], tagName)) continue;
+
+    result += html.substring(lastIndex, match.index);
+
+    if (match[0].endsWith('/>') || VOID_TAGS.has(tagName)) {
+      lastIndex = match.index + match[0].length;
+    } else {
+      lastIndex = findClosingTag(html, match.index + match[0].length, tagName).elementEnd;
+    }
+    openTagPattern.lastIndex = lastIndex;
+  }
+
+  return result + html.substring(lastIndex);
+}
+
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+
+/**
+ * Find the closing tag matching an opening tag, accounting for nesting.
+ * Unclosed elements run to the end of the document.
+ */
+function findClosingTag(
+  html: string,
+  from: number,
+  tagName: string
+): { contentEnd: number; elementEnd: number } {
+  // Raw-text elements can't nest, so jump straight to their end tag
+  if (['script', 'style', 'noscript', 'template', 'iframe'].includes(tagName)) {
+    const closeIndex = html.toLowerCase().indexOf(`</${tagName}`, from);
+    if (closeIndex === -1) return { contentEnd: html.length, elementEnd: html.length };
+    const closeEnd = html.indexOf('>', closeIndex);
+    return { contentEnd: closeIndex, elementEnd: closeEnd === -1 ? html.length : closeEnd + 1 };
+  }
+
+  const tagPattern = new RegExp(`<(/?)${tagName}\\b[^>]*>`, 'gi');
+  tagPattern.lastIndex = from;
+  let depth = 1;
+  let match;
+
+  while ((match = tagPattern.exec(html)) !== null) {
+    if (match[1] === '/') {
+      depth--;
+      if (depth === 0) {
+        return { contentEnd: match.index, elementEnd: match.index + match[0].length };
+      }
+    } else if (!match[0].endsWith('/>')) {
+      depth++;
+    }
+  }
+
+  return { contentEnd: html.length, elementEnd: html.length };
+}
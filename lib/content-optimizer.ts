@@ -1,20 +1,111 @@
-import Anthropic from '@anthropic-ai/sdk';
-import type { CrawledData, KeywordData, Settings, OptimizedContent, FAQ, SchemaRecommendation, CustomInstructions } from '@/types';
+import type { CrawledData, KeywordData, KeywordIntent, Settings, OptimizedContent, FAQ, SchemaRecommendation, CustomInstructions, OptimizerProgressEvent, ChangeRationale, SEOAnalysis, SurferSEOReport, ComplianceReport } from '@/types';
 import { filterAndLimitKeywords } from './keyword-processor';
+import { createRationaleMatcher, parseMarkedContent } from './content-differ';
+import { getBriefSourceLabel } from './surfer-report';
+import {
+  OPTIMIZATION_TOOL,
+  OPTIMIZATION_TOOL_NAME,
+  SECTION_TOOL,
+  SECTION_TOOL_NAME,
+  OptimizationOutputError,
+  validateOptimizationOutput,
+  validateSectionOutput,
+  type AIChangeRationale,
+  type OptimizationOutput,
+  type SectionOptimizationOutput,
+  type ValidationResult,
+} from './optimizer-schema';
+import {
+  countKeywordInsertions,
+  joinOptimizedSections,
+  splitContentIntoChunks,
+  splitInsertionRange,
+  type ContentChunk,
+} from './content-chunker';
+import { checkCompliance, describeViolations, type ComplianceInput } from './compliance-checker';
+import { scoreMetaVariants } from './meta-variant-scorer';
+import { countWords } from './utils';
+import { getLLMProvider, type LLMMessage, type LLMProvider, type LLMTool, type LLMToolResponse } from './llm-provider';
+
+// Output token cap per AI request
+const MAX_OUTPUT_TOKENS = 8000;
+
+// Minimum characters between 'receiving' progress events
+const PROGRESS_INTERVAL_CHARS = 400;
+
+// Content brief (Surfer, Clearscope...) keyword targets listed in the prompt
+const MAX_SURFER_TARGETS = 15;
+
+// Requests per optimization: the first answer plus one repair attempt if it fails validation
+const MAX_OUTPUT_ATTEMPTS = 2;
+
+// Re-prompts per request when a valid answer breaks the prompt's rules
+const MAX_RULE_REPROMPTS = 1;
+
+// Characters of page content per AI request; longer pages are optimized in sections
+const MAX_CONTENT_CHARS = 8000;
+
+// Uses of each target keyword across the page, as the prompt asks for them
+const PRIMARY_KEYWORD_USES = { min: 2, max: 3 };
+const SECONDARY_KEYWORD_USES = { min: 1, max: 2 };
+
+// How the content should serve each search intent of the primary keyword
+const INTENT_GUIDANCE: Record<KeywordIntent, string> = {
+  informational: 'searchers want answers - favor clear explanations and keep helpful detail',
+  commercial: 'searchers are comparing options - favor benefits, differentiators and proof points',
+  transactional: 'searchers are ready to act - favor clear next steps, pricing/quote cues and calls to action',
+  navigational: 'searchers are looking for this brand or page - keep brand and page names prominent',
+  local: 'searchers want a nearby provider - keep locations and service areas explicit',
+};
+
+/**
+ * Audit data the optimizer cites when explaining its changes
+ */
+export interface OptimizationContext {
+  seoAnalysis?: SEOAnalysis;
+  surferReport?: SurferSEOReport | null;
+}
+
+export interface OptimizationResult {
+  optimizedContent: OptimizedContent;
+  // Rule checks on the final output
+  compliance: ComplianceReport;
+}
 
-const anthropicApiKey = process.env.ANTHROPIC_API_KEY;
+// Output fields the rule checks read
+type RuleCheckedOutput = Pick<ComplianceInput, 'fullContent' | 'metaTitle' | 'metaDescription' | 'h1'>;
+
+// The provider and model every request of one optimization goes to
+interface LLMTarget {
+  provider: LLMProvider;
+  model: string;
+}
+
+// One section of a long page and its share of the page's keyword budget
+interface SectionRequest {
+  index: number;
+  chunks: ContentChunk[];
+  insertions: { min: number; max: number };
+  // Insertions of each target keyword in the sections already optimized
+  keywordUses: Map<string, number>;
+}
 
 export async function optimizeContent(
   crawledData: CrawledData,
   keywords: KeywordData,
   settings: Settings,
-  customInstructions?: CustomInstructions
-): Promise<OptimizedContent> {
-  if (!anthropicApiKey) {
-    throw new Error('ANTHROPIC_API_KEY is not configured');
-  }
-
-  const client = new Anthropic({ apiKey: anthropicApiKey });
+  customInstructions?: CustomInstructions,
+  onProgress?: (event: OptimizerProgressEvent) => void,
+  context: OptimizationContext = {}
+): Promise<OptimizationResult> {
+  const provider = getLLMProvider(settings.llmProvider);
+  const llm: LLMTarget = { provider, model: settings.llmModel?.trim() || provider.defaultModel };
+  console.log(`[content-optimizer] Using ${provider.name} provider (${llm.model})`);
+
+  const pageContent = crawledData.bodyContent;
+  const chunks = pageContent.length > MAX_CONTENT_CHARS ? splitContentIntoChunks(pageContent, MAX_CONTENT_CHARS) : [];
+  const isChunked = chunks.length > 1;
+  const insertions = getInsertionRange(countWords(pageContent));
 
   // The key change: Prompt focuses on PRESERVING original content with MINIMAL changes
   // Output uses structured markers for clean document generation
@@ -37,7 +128,7 @@ export async function optimizeContent(
 ### Rule 3: ONE KEYWORD PER SENTENCE
 - Do NOT stack multiple keywords in one sentence
 - Distribute keywords throughout the content naturally
-- Maximum 10-15 keyword insertions total
+- Maximum ${insertions.min}-${insertions.max} keyword insertions total${isChunked ? ' across the whole page (each section request states its share)' : ''}
 
 ### Rule 4: VARIATIONS OVER REPETITION
 - Use synonyms and variations of keywords
@@ -128,129 +219,498 @@ Brand Name: ${settings.brandName || 'The business'}`;
   // Filter keywords to only those relevant to this page BEFORE sending to AI
   const filteredKeywords = filterAndLimitKeywords(
     keywords,
-    crawledData.url,
-    crawledData.title
+    crawledData,
+    { ruleSet: settings.keywordRuleSet, scorer: settings.relevanceScorer, limit: settings.keywordLimits?.display }
   );
 
-  // Get primary keyword (first one) and secondary keywords (rest)
+  // Get primary keyword (first one); secondary keywords are the rest
   const primaryKeyword = filteredKeywords[0]?.keyword || keywords.primary[0] || '';
-  const secondaryKeywords = filteredKeywords.slice(1).map(k => k.keyword);
+  const primaryIntent = filteredKeywords[0]?.intent;
+  const withIntent = (kw: { keyword: string; intent?: KeywordIntent }) => (kw.intent ? `${kw.keyword} (${kw.intent})` : kw.keyword);
+
+  // Clustered variants of the targets count as the same keyword, not extra insertions
+  const targetSet = new Set(filteredKeywords.map((k) => k.keyword.toLowerCase()));
+  const targetVariants = (keywords.clusters || [])
+    .filter((cluster) => targetSet.has(cluster.head.toLowerCase()))
+    .flatMap((cluster) => cluster.variants);
+  const intentSection = primaryIntent
+    ? `\n## SEARCH INTENT\nThe primary keyword is ${primaryIntent}: ${INTENT_GUIDANCE[primaryIntent]}. Adjust wording to match, without restructuring the page.${
+        targetVariants.length > 0
+          ? `\nVariants of the target keywords (count as the same keyword; only use where they read more naturally): ${targetVariants.join(', ')}`
+          : ''
+      }\n`
+    : '';
 
   console.log('[content-optimizer] Filtered keywords for AI:', filteredKeywords.map(k => k.keyword));
 
-  // First, send the original content to get the preserved + optimized version
-  const contentOptimizationPrompt = `Optimize this webpage content with MINIMAL, GRAMMATICALLY CORRECT changes.
+  // Numbered audit issues and Surfer targets, so each change can say what it serves
+  const issues = context.seoAnalysis?.issues || [];
+  const issuesSection = issues.length > 0
+    ? `\n## SEO ISSUES FOUND (cite the number in "changes" when a change addresses one)\n${issues.map((issue, i) => `${i + 1}. ${issue.message}`).join('\n')}\n`
+    : '';
+
+  const surferTargets = getSurferTargets(context.surferReport);
+  const surferSection = surferTargets.length > 0
+    ? `\n## ${getBriefSourceLabel(context.surferReport).toUpperCase()} KEYWORD TARGETS (term: current uses / target uses)\n${surferTargets
+        .slice(0, MAX_SURFER_TARGETS)
+        .map((t) => `- ${t.term}: ${t.current ?? '?'} / ${t.min === t.max ? t.max : `${t.min}-${t.max}`}`)
+        .join('\n')}\n`
+    : '';
+
+  const keywordTargets = (keywordUses?: Map<string, number>) => {
+    if (!keywordUses) {
+      return `PRIMARY KEYWORD (integrate 2-3 times): ${filteredKeywords[0] ? withIntent(filteredKeywords[0]) : primaryKeyword || 'None provided'}
+SECONDARY KEYWORDS (integrate 1-2 times each): ${filteredKeywords.slice(1).map(withIntent).join(', ') || 'None provided'}`;
+    }
+
+    // Shared budget: uses in earlier sections count against the page totals
+    const [primary, ...secondary] = filteredKeywords;
+    const exhausted = filteredKeywords
+      .filter((kw) => (keywordUses.get(kw.keyword) || 0) >= (kw === primary ? PRIMARY_KEYWORD_USES : SECONDARY_KEYWORD_USES).max)
+      .map((kw) => kw.keyword);
+    const describe = (kw: { keyword: string; intent?: KeywordIntent }) =>
+      exhausted.includes(kw.keyword) ? null : `${withIntent(kw)} [used ${keywordUses.get(kw.keyword) || 0}x so far]`;
+
+    return `PRIMARY KEYWORD (${PRIMARY_KEYWORD_USES.min}-${PRIMARY_KEYWORD_USES.max} times across the whole page): ${primary ? describe(primary) || 'Already used enough' : primaryKeyword || 'None provided'}
+SECONDARY KEYWORDS (${SECONDARY_KEYWORD_USES.min}-${SECONDARY_KEYWORD_USES.max} times each across the whole page): ${secondary.map(describe).filter(Boolean).join(', ') || 'None left to insert'}${
+      exhausted.length > 0 ? `\nALREADY USED ENOUGH IN EARLIER SECTIONS (do NOT insert again): ${exhausted.join(', ')}` : ''
+    }`;
+  };
+
+  const sectionContent = (section: SectionRequest) => {
+    const { index, chunks: sections } = section;
+    const isFirst = index === 0;
+    return `## LONG PAGE - SECTION ${index + 1} OF ${sections.length}
+This page is too long for one request, so it is optimized section by section and stitched back together. fullContent must cover ONLY the section below, keeping its headings.
+${isFirst
+  ? 'This is the first section: it carries the page\'s only [H1]. Write metaTitle, metaDescription, h1 and faqs for the WHOLE page, using the outline.'
+  : 'Do NOT output an [H1] or a FAQ section - the first section already has them.'}
+${isFirst ? `
+## PAGE OUTLINE (all sections)
+${sections.flatMap((chunk, i) => chunk.headings.map((heading) => `- [section ${i + 1}] ${heading}`)).join('\n') || 'No headings'}
+` : ''}
+## ORIGINAL CONTENT - SECTION ${index + 1} OF ${sections.length}
+"""
+${sections[index].text}
+"""`;
+  };
+
+  // Prompt for the whole page, or for one section of a long page
+  const buildPrompt = (section?: SectionRequest) => {
+    const isFirst = !section || section.index === 0;
+    const range = section ? section.insertions : insertions;
+    const scope = section ? 'in this section' : 'total';
+
+    return `Optimize this webpage content with MINIMAL, GRAMMATICALLY CORRECT changes.
 
 ## PAGE CONTEXT
 URL: ${crawledData.url}
 Page Topic: ${crawledData.title}
 
-## ORIGINAL PAGE CONTENT
+${section ? sectionContent(section) : `## ORIGINAL PAGE CONTENT
 """
-${crawledData.bodyContent.substring(0, 8000)}
-"""
-
+${pageContent}
+"""`}
+${isFirst ? `
 ## CURRENT META ELEMENTS
 - Title: ${crawledData.title}
 - Description: ${crawledData.metaDescription}
 - H1: ${crawledData.h1.join(', ') || 'None'}
-
-## TARGET KEYWORDS (Pre-filtered for this page)
-PRIMARY KEYWORD (integrate 2-3 times): ${primaryKeyword || 'None provided'}
-SECONDARY KEYWORDS (integrate 1-2 times each): ${secondaryKeywords.join(', ') || 'None provided'}
+` : ''}
+## TARGET KEYWORDS (Pre-filtered for this page; search intent in parentheses)
+${keywordTargets(section?.keywordUses)}
 
 Note: These keywords have been pre-filtered to match this specific page. Do NOT use other keywords.
-${customInstructionsSection}
+${intentSection}${issuesSection}${surferSection}${customInstructionsSection}
 
 ## YOUR TASK
 1. Read through the original content carefully
 2. Insert keywords into existing sentences WITH PROPER GRAMMAR
 3. Do NOT append keywords to sentence ends
 4. Do NOT stack multiple keywords in one sentence
-5. Aim for 10-15 total keyword insertions maximum
+5. Aim for ${range.min}-${range.max} keyword insertions ${scope} maximum
 6. Mark changes with [[KEYWORD: term]], [[ADJUSTED:]], or [[NEW]]
+7. List every marked change in "changes" with a one-sentence reason
 
-## RESPOND WITH JSON
+${isFirst ? `## RESPOND BY CALLING THE ${OPTIMIZATION_TOOL_NAME} TOOL
+Fill in its fields like this:
 {
-  "metaTitle": "50-60 chars, primary keyword in first 30 chars${settings.brandName ? `, end with ' | ${settings.brandName}'` : ''}",
-  "metaDescription": "150-160 chars, include primary keyword and a call-to-action",
+  "metaTitle": "${settings.titleMaxLength - 10}-${settings.titleMaxLength} chars, primary keyword in first 30 chars${settings.brandName ? `, end with ' | ${settings.brandName}'` : ''}",
+  "metaTitleAlternatives": ["2-4 more title tags following the same rules, each from a different angle"],
+  "metaDescription": "${settings.descriptionMaxLength - 10}-${settings.descriptionMaxLength} chars, include primary keyword and a call-to-action",
+  "metaDescriptionAlternatives": ["2-4 more meta descriptions following the same rules, each with a different call-to-action"],
   "h1": "Similar to original H1 with primary keyword added naturally (must differ from title)",
-  "fullContent": "Structured content using [H1], [H2], [H3], [PARA], [BULLET]. Only ONE [H1]. Keep 85-95% identical to original.",
+  "fullContent": "Structured content using [H1], [H2], [H3], [PARA], [BULLET]. Only ONE [H1]. Keep 85-95% identical to original.",` : `## RESPOND BY CALLING THE ${SECTION_TOOL_NAME} TOOL
+Fill in its fields like this:
+{
+  "fullContent": "This section only, structured with [H2], [H3], [PARA], [BULLET]. No [H1]. Keep 85-95% identical to original.",`}
   "changesSummary": "List of specific changes made",
+  "changes": [
+    {"type": "keyword | adjusted | new", "text": "Exact text inside the marker (ADJUSTED: the new wording; NEW: the new sentence)", "targetKeyword": "Keyword this change serves", "issue": 1, "reason": "One sentence on why this change helps (omit issue if none applies)"}
+  ]${isFirst ? `,
   "faqs": [
     {"question": "Relevant FAQ?", "answer": "Answer based on page content"}
-  ]
+  ]` : ''}
 }
 
 ## VALIDATION CHECKLIST (verify before responding)
-- [ ] Only ONE [H1] in fullContent
+- [ ] ${isFirst ? 'Only ONE [H1] in fullContent' : 'No [H1] in fullContent'}
 - [ ] No duplicate FAQ sections
 - [ ] All keyword insertions are grammatically correct
 - [ ] No keywords appended to sentence ends
 - [ ] No multiple keywords in same sentence
-- [ ] No markdown or HTML
-- [ ] Title tag differs from H1`;
-
-  console.log('[content-optimizer] Sending preservation-focused prompt to Claude...');
-
-  const response = await client.messages.create({
-    model: 'claude-sonnet-4-20250514',
-    max_tokens: 8000,
-    messages: [
-      {
-        role: 'user',
-        content: contentOptimizationPrompt,
-      },
-    ],
-    system: systemPrompt,
-  });
-
-  // Extract text content from response
-  const textContent = response.content.find((block) => block.type === 'text');
-  if (!textContent || textContent.type !== 'text') {
-    throw new Error('No text response from AI');
-  }
+- [ ] No markdown or HTML${isFirst ? '\n- [ ] Title tag differs from H1' : ''}`;
+  };
 
-  // Parse JSON response
-  let optimizedData;
-  try {
-    let jsonString = textContent.text.trim();
-    if (jsonString.startsWith('```json')) {
-      jsonString = jsonString.slice(7);
-    }
-    if (jsonString.startsWith('```')) {
-      jsonString = jsonString.slice(3);
+  // Violations of the prompt's rules, measured against the content the AI was given
+  const metaLengths = { titleMaxLength: settings.titleMaxLength, descriptionMaxLength: settings.descriptionMaxLength };
+  const ruleCheck = (originalContent: string, maxInsertions: number) => (data: RuleCheckedOutput) =>
+    describeViolations(checkCompliance({ ...data, originalContent, maxInsertions, ...metaLengths }).checks);
+
+  let optimizedData: OptimizationOutput;
+  let reprompts = 0;
+
+  if (!isChunked) {
+    console.log('[content-optimizer] Sending preservation-focused prompt...');
+    const output = await requestToolOutput(
+      llm, systemPrompt, buildPrompt(), OPTIMIZATION_TOOL, validateOptimizationOutput, onProgress,
+      ruleCheck(pageContent, insertions.max)
+    );
+    optimizedData = output.data;
+    reprompts = output.reprompts;
+  } else {
+    console.log(`[content-optimizer] Long page (${pageContent.length} chars): optimizing ${chunks.length} sections`);
+
+    const shares = splitInsertionRange(insertions, chunks.map((chunk) => chunk.wordCount));
+    const targets = filteredKeywords.map((k) => k.keyword);
+    const keywordUses = new Map<string, number>();
+    const allowed = { min: 0, max: 0 };
+    let inserted = 0;
+    let first: OptimizationOutput | undefined;
+    const sections: SectionOptimizationOutput[] = [];
+
+    for (let index = 0; index < chunks.length; index++) {
+      onProgress?.({ type: 'section', section: index + 1, sections: chunks.length });
+
+      // Shares accumulate, so a section that inserted less leaves room for the next one
+      allowed.min += shares[index].min;
+      allowed.max += shares[index].max;
+      const max = Math.max(0, allowed.max - inserted);
+      const prompt = buildPrompt({
+        index,
+        chunks,
+        insertions: { min: Math.min(max, Math.max(0, allowed.min - inserted)), max },
+        keywordUses,
+      });
+      const checkRules = ruleCheck(chunks[index].text, max);
+
+      let output: SectionOptimizationOutput;
+      if (index === 0) {
+        const response = await requestToolOutput(llm, systemPrompt, prompt, OPTIMIZATION_TOOL, validateOptimizationOutput, onProgress, checkRules);
+        output = first = response.data;
+        reprompts += response.reprompts;
+      } else {
+        const response = await requestToolOutput(llm, systemPrompt, prompt, SECTION_TOOL, validateSectionOutput, onProgress, checkRules);
+        output = response.data;
+        reprompts += response.reprompts;
+      }
+      sections.push(output);
+
+      countKeywordInsertions(output.fullContent, targets).forEach((count, keyword) => {
+        keywordUses.set(keyword, (keywordUses.get(keyword) || 0) + count);
+      });
+      inserted += (output.fullContent.match(/\[\[KEYWORD:/g) || []).length;
     }
-    if (jsonString.endsWith('```')) {
-      jsonString = jsonString.slice(0, -3);
-    }
-    optimizedData = JSON.parse(jsonString.trim());
 
-    console.log('[content-optimizer] Changes summary:', optimizedData.changesSummary);
-  } catch {
-    console.error('Failed to parse AI response:', textContent.text);
-    throw new Error('Failed to parse AI optimization response');
+    optimizedData = {
+      ...first!,
+      fullContent: joinOptimizedSections(sections.map((section) => section.fullContent)),
+      changesSummary: sections.map((section) => section.changesSummary.trim()).filter(Boolean).join('\n'),
+      changes: sections.flatMap((section) => section.changes),
+    };
+    console.log(`[content-optimizer] Stitched ${sections.length} sections (${inserted} keyword insertions)`);
   }
 
+  console.log('[content-optimizer] Changes summary:', optimizedData.changesSummary);
+  onProgress?.({ type: 'parsed' });
+
   // Clean the change markers from fullContent for display
   // But store them for the document generator to use for highlighting
-  const fullContentWithMarkers = optimizedData.fullContent || '';
+  const fullContentWithMarkers = optimizedData.fullContent;
 
   // Generate schema recommendations
   const schemaRecommendations = settings.includeSchemaRecommendations
     ? generateSchemaRecommendations(crawledData, optimizedData)
     : [];
 
-  return {
-    metaTitle: optimizedData.metaTitle || '',
-    metaDescription: optimizedData.metaDescription || '',
-    h1: optimizedData.h1 || '',
+  // The best-scoring title and description become the recommendation; the rest are alternates
+  const variantContext = { primaryKeyword, brandName: settings.brandName, h1: optimizedData.h1 };
+  const metaTitleVariants = scoreMetaVariants(
+    'title',
+    [optimizedData.metaTitle, ...optimizedData.metaTitleAlternatives],
+    { ...variantContext, maxLength: settings.titleMaxLength }
+  );
+  const metaDescriptionVariants = scoreMetaVariants(
+    'description',
+    [optimizedData.metaDescription, ...optimizedData.metaDescriptionAlternatives],
+    { ...variantContext, maxLength: settings.descriptionMaxLength }
+  );
+  const metaTitle = metaTitleVariants[0]?.text || optimizedData.metaTitle;
+  const metaDescription = metaDescriptionVariants[0]?.text || optimizedData.metaDescription;
+  console.log(`[content-optimizer] Meta variants: ${metaTitleVariants.length} titles (best ${metaTitleVariants[0]?.score ?? 0}), ${metaDescriptionVariants.length} descriptions (best ${metaDescriptionVariants[0]?.score ?? 0})`);
+
+  const changeRationales = buildChangeRationales(
+    [optimizedData.h1, fullContentWithMarkers].join('\n'),
+    optimizedData.changes,
+    context
+  );
+
+  const compliance = checkCompliance({
+    metaTitle,
+    metaDescription,
+    h1: optimizedData.h1,
     fullContent: fullContentWithMarkers,
-    faqs: optimizedData.faqs || [],
-    schemaRecommendations,
+    originalContent: pageContent,
+    maxInsertions: insertions.max,
+    ...metaLengths,
+  }, reprompts);
+  console.log(`[content-optimizer] Rule compliance: ${compliance.checks.filter((check) => check.passed).length}/${compliance.checks.length} passed (${reprompts} re-prompt${reprompts !== 1 ? 's' : ''})`);
+
+  return {
+    optimizedContent: {
+      metaTitle,
+      metaDescription,
+      h1: optimizedData.h1,
+      fullContent: fullContentWithMarkers,
+      faqs: optimizedData.faqs,
+      schemaRecommendations,
+      changeRationales,
+      chunking: isChunked ? { sections: chunks.length, characters: pageContent.length } : undefined,
+      metaTitleVariants,
+      metaDescriptionVariants,
+    },
+    compliance,
+  };
+}
+
+/**
+ * Ask for a tool call and validate its input. Validation errors are sent back
+ * once for the model to repair; an OptimizationOutputError is thrown if the
+ * repaired answer still fails. A valid answer that breaks the prompt's rules
+ * is re-prompted once with the violations, keeping whichever answer breaks fewer.
+ */
+async function requestToolOutput<T>(
+  llm: LLMTarget,
+  systemPrompt: string,
+  prompt: string,
+  tool: LLMTool,
+  validate: (input: unknown) => ValidationResult<T>,
+  onProgress?: (event: OptimizerProgressEvent) => void,
+  checkRules?: (data: T) => string[]
+): Promise<{ data: T; reprompts: number }> {
+  const messages: LLMMessage[] = [{ role: 'user', content: prompt }];
+  let failedAttempts = 0;
+  let reprompts = 0;
+  let best: { data: T; violations: string[] } | undefined;
+
+  for (;;) {
+    const response = await requestOptimization(llm, systemPrompt, messages, tool, onProgress);
+    const toolUse = response.toolCall?.name === tool.name ? response.toolCall : null;
+
+    const result = toolUse
+      ? validate(toolUse.input)
+      : { data: null, errors: [`Respond by calling the ${tool.name} tool`] };
+
+    let problems: string[];
+    let feedback: string;
+    if (result.data) {
+      const violations = checkRules?.(result.data) || [];
+      if (!best || violations.length <= best.violations.length) {
+        best = { data: result.data, violations };
+      }
+      if (best.violations.length === 0 || reprompts >= MAX_RULE_REPROMPTS) {
+        return { data: best.data, reprompts };
+      }
+
+      reprompts++;
+      console.warn(`[content-optimizer] Output breaks ${violations.length} rule${violations.length !== 1 ? 's' : ''}, re-prompting:`, violations);
+      problems = violations;
+      feedback = `The submission breaks these rules:\n${violations.map((violation) => `- ${violation}`).join('\n')}\nCall ${tool.name} again with these problems fixed and everything else unchanged.`;
+    } else {
+      failedAttempts++;
+      console.warn(`[content-optimizer] Attempt ${failedAttempts} failed validation:`, result.errors);
+
+      // A rule re-prompt that comes back malformed doesn't lose the valid answer
+      if (best) return { data: best.data, reprompts };
+      if (failedAttempts >= MAX_OUTPUT_ATTEMPTS) {
+        throw new OptimizationOutputError(result.errors, MAX_OUTPUT_ATTEMPTS);
+      }
+
+      problems = result.errors;
+      feedback = `The submission failed validation:\n${result.errors.map((error) => `- ${error}`).join('\n')}\nCall ${tool.name} again with every field corrected.`;
+    }
+
+    // Feed the problems back so the model can repair its own answer
+    onProgress?.({ type: 'repairing', errors: problems });
+    if (toolUse) {
+      messages.push({ role: 'assistant', toolCall: toolUse });
+      messages.push({ role: 'tool', toolCallId: toolUse.id, isError: true, content: feedback });
+    } else {
+      messages.push({ role: 'assistant', text: response.text });
+      messages.push({ role: 'user', content: `${problems.join('. ')}.` });
+    }
+  }
+}
+
+/**
+ * Stream one optimizer request that must answer with the given tool,
+ * reporting progress as the tool input arrives
+ */
+async function requestOptimization(
+  llm: LLMTarget,
+  systemPrompt: string,
+  messages: LLMMessage[],
+  tool: LLMTool,
+  onProgress?: (event: OptimizerProgressEvent) => void
+): Promise<LLMToolResponse> {
+  let characters = 0;
+  let lastReportedLength = 0;
+  const request = llm.provider.callTool({
+    model: llm.model,
+    system: systemPrompt,
+    messages,
+    tool,
+    maxTokens: MAX_OUTPUT_TOKENS,
+    onInputDelta: (delta) => {
+      characters += delta.length;
+      if (characters - lastReportedLength >= PROGRESS_INTERVAL_CHARS) {
+        lastReportedLength = characters;
+        onProgress?.({ type: 'receiving', characters });
+      }
+    },
+  });
+
+  onProgress?.({ type: 'request_sent' });
+
+  const response = await request;
+
+  onProgress?.({
+    type: 'received',
+    characters,
+    outputTokens: response.outputTokens,
+  });
+
+  return response;
+}
+
+/**
+ * One rationale per marked change in the content. The AI's reasons are kept
+ * where they match a marker; Surfer counts and issue text are filled in locally
+ * so the citations can be trusted, and changes the AI didn't explain get a
+ * default reason.
+ */
+function buildChangeRationales(
+  markedContent: string,
+  aiChanges: AIChangeRationale[],
+  context: OptimizationContext
+): ChangeRationale[] {
+  const issues = context.seoAnalysis?.issues || [];
+  const surferTargets = getSurferTargets(context.surferReport);
+
+  const aiRationales: ChangeRationale[] = aiChanges
+    .filter((change) => change && typeof change.text === 'string' && change.text.trim())
+    .map((change) => ({
+      type: change.type === 'adjusted' || change.type === 'new' ? change.type : 'keyword',
+      text: change.text!.trim(),
+      reason: typeof change.reason === 'string' ? change.reason.trim() : '',
+      targetKeyword: typeof change.targetKeyword === 'string' ? change.targetKeyword.trim() || undefined : undefined,
+      // The prompt numbers issues from 1; anything else is ignored
+      issue: typeof change.issue === 'number' ? issues[change.issue - 1]?.message : undefined,
+    }));
+  const findRationale = createRationaleMatcher(aiRationales);
+
+  const { changes } = parseMarkedContent(markedContent);
+  const rationales = changes
+    .filter((change) => change.type !== 'faq')
+    .map((change): ChangeRationale => {
+      const type = change.type as ChangeRationale['type'];
+      const ai = findRationale(type, change.text);
+      const targetKeyword = ai?.targetKeyword || (type === 'keyword' ? change.text : undefined);
+      const surfer = targetKeyword
+        ? surferTargets.find((t) => t.term.toLowerCase() === targetKeyword.toLowerCase())
+        : undefined;
+
+      return {
+        type,
+        text: change.text,
+        reason: ai?.reason || defaultChangeReason(type, change.text, change.reason),
+        targetKeyword,
+        surferTarget: surfer
+          ? { min: surfer.min, max: surfer.max, current: surfer.current, source: getBriefSourceLabel(context.surferReport) }
+          : undefined,
+        issue: ai?.issue,
+      };
+    });
+
+  console.log(`[content-optimizer] Change rationales: ${rationales.length} (${aiRationales.length} from AI)`);
+  return rationales;
+}
+
+function defaultChangeReason(type: ChangeRationale['type'], text: string, differReason?: string): string {
+  switch (type) {
+    case 'keyword':
+      return `Inserted the target keyword "${text}"`;
+    case 'adjusted':
+      return differReason ? `${differReason} to work in a target keyword` : 'Rephrased to work in a target keyword';
+    default:
+      return 'New sentence to cover the topic more fully';
+  }
+}
+
+/**
+ * Keyword insertions scale with content length: about one per 100-150 words
+ * (10-15 for a 1,500-word page)
+ */
+function getInsertionRange(wordCount: number): { min: number; max: number } {
+  return {
+    min: Math.max(3, Math.round(wordCount / 150)),
+    max: Math.max(5, Math.round(wordCount / 100)),
   };
 }
 
+/**
+ * Content brief keyword and NLP term usage targets, terms the page is missing or
+ * underusing first
+ */
+function getSurferTargets(
+  surferReport: SurferSEOReport | null | undefined
+): Array<{ term: string; min: number; max: number; current?: number; needsWork: boolean }> {
+  if (!surferReport) return [];
+
+  const needsWork = (status?: string) => status === 'missing' || status === 'low';
+  const current = (count?: number | null, usage?: number) =>
+    typeof count === 'number' ? count : usage;
+
+  const targets = [
+    ...surferReport.keywords.map((k) => ({
+      term: k.term,
+      min: k.usageTarget.min,
+      max: k.usageTarget.max,
+      current: current(k.currentCount, k.currentUsage),
+      needsWork: needsWork(k.status),
+    })),
+    ...surferReport.nlpTerms.map((t) => ({
+      term: t.term,
+      min: t.usageTarget,
+      max: t.usageTarget,
+      current: current(t.currentCount, t.currentUsage),
+      needsWork: needsWork(t.status),
+    })),
+  ];
+
+  return targets.sort((a, b) => Number(b.needsWork) - Number(a.needsWork));
+}
+
 function generateSchemaRecommendations(
   crawledData: CrawledData,
   optimizedData: { faqs?: FAQ[] }
@@ -1,8 +1,23 @@
 import Firecrawl from '@mendable/firecrawl-js';
-import type { CrawledData, SchemaMarkup, ImageData } from '@/types';
+import type { CrawledData, CrawlerProviderName, SchemaMarkup, ImageData } from '@/types';
+import { extractMainContent, decodeHtmlEntities } from './content-extractor';
 
 const firecrawlApiKey = process.env.FIRECRAWL_API_KEY;
 
+// Timeout for direct page fetches (Firecrawl has its own)
+const FETCH_TIMEOUT_MS = 30000;
+
+/**
+ * A crawler backend turns a URL into CrawledData.
+ * Select one with getCrawlerProvider() or the CRAWLER_PROVIDER env variable.
+ */
+export interface CrawlerProvider {
+  name: CrawlerProviderName;
+  crawl(url: string): Promise<CrawledData>;
+}
+
+export const CRAWLER_PROVIDERS: CrawlerProviderName[] = ['firecrawl', 'fetch'];
+
 interface FirecrawlMetadata {
   title?: string;
   description?: string;
@@ -21,7 +36,47 @@ interface FirecrawlDocument {
   metadata?: FirecrawlMetadata;
 }
 
-export async function crawlPage(url: string): Promise<CrawledData> {
+/**
+ * Firecrawl-backed provider (requires FIRECRAWL_API_KEY)
+ */
+export const firecrawlProvider: CrawlerProvider = {
+  name: 'firecrawl',
+  crawl: crawlWithFirecrawl,
+};
+
+/**
+ * Built-in provider: fetches the page directly and extracts the main content
+ * locally. Needs no API key, so it also works against local fixture servers.
+ */
+export const fetchProvider: CrawlerProvider = {
+  name: 'fetch',
+  crawl: crawlWithFetch,
+};
+
+export function isCrawlerProviderName(value: unknown): value is CrawlerProviderName {
+  return typeof value === 'string' && (CRAWLER_PROVIDERS as string[]).includes(value);
+}
+
+/**
+ * Resolve a crawler provider. Precedence: explicit name, CRAWLER_PROVIDER env,
+ * then Firecrawl if an API key is configured, otherwise the fetch provider.
+ */
+export function getCrawlerProvider(name?: CrawlerProviderName): CrawlerProvider {
+  const envName = process.env.CRAWLER_PROVIDER;
+  const resolved = name
+    || (isCrawlerProviderName(envName) ? envName : undefined)
+    || (firecrawlApiKey ? 'firecrawl' : 'fetch');
+
+  return resolved === 'firecrawl' ? firecrawlProvider : fetchProvider;
+}
+
+export async function crawlPage(url: string, providerName?: CrawlerProviderName): Promise<CrawledData> {
+  const provider = getCrawlerProvider(providerName);
+  console.log(`[crawler] Crawling ${url} with ${provider.name} provider`);
+  return provider.crawl(url);
+}
+
+async function crawlWithFirecrawl(url: string): Promise<CrawledData> {
   if (!firecrawlApiKey) {
     throw new Error('FIRECRAWL_API_KEY is not configured');
   }
@@ -84,10 +139,10 @@ export async function crawlPage(url: string): Promise<CrawledData> {
     const metadata = scrapeResult.metadata || {};
 
     // Extract data from HTML
-    const extractedData = extractFromHtml(html);
+    const extractedData = extractFromHtml(html, url);
 
     // Calculate word count from markdown (cleaner text)
-    const wordCount = countWords(markdown);
+    const wordCount = countMarkdownWords(markdown);
 
     return {
       url,
@@ -115,7 +170,67 @@ export async function crawlPage(url: string): Promise<CrawledData> {
   }
 }
 
-function extractFromHtml(html: string): {
+async function crawlWithFetch(url: string): Promise<CrawledData> {
+  try {
+    const response = await fetch(url, {
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (compatible; SEOContentOptimizer/1.0)',
+        'Accept': 'text/html,application/xhtml+xml',
+      },
+      redirect: 'follow',
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Page returned HTTP ${response.status}`);
+    }
+
+    const rawHtml = await response.text();
+    return buildCrawledDataFromHtml(rawHtml, url);
+  } catch (error) {
+    console.error('Crawl error:', error);
+    if (error instanceof Error && error.name === 'TimeoutError') {
+      throw new Error(`Timed out after ${FETCH_TIMEOUT_MS / 1000}s fetching ${url}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Build CrawledData from a full HTML document using local main-content
+ * extraction. Page-level metadata comes from the whole document, headings
+ * and body content from the main-content area only (matching Firecrawl's
+ * onlyMainContent behaviour).
+ */
+export function buildCrawledDataFromHtml(rawHtml: string, url: string): CrawledData {
+  const pageData = extractFromHtml(rawHtml);
+  const mainContent = extractMainContent(rawHtml);
+  const contentData = extractFromHtml(mainContent.html, url);
+
+  return {
+    url,
+    title: decodeHtmlEntities(pageData.title),
+    metaDescription: decodeHtmlEntities(pageData.metaDescription),
+    // Page H1s often sit in a <header> that main-content extraction drops
+    h1: contentData.h1.length > 0 ? contentData.h1 : pageData.h1,
+    h2: contentData.h2,
+    h3: contentData.h3,
+    h4: contentData.h4,
+    h5: contentData.h5,
+    h6: contentData.h6,
+    bodyContent: mainContent.markdown,
+    schemaMarkup: pageData.schemaMarkup,
+    canonicalUrl: pageData.canonicalUrl,
+    ogTitle: decodeHtmlEntities(extractMetaProperty(rawHtml, 'og:title')),
+    ogDescription: decodeHtmlEntities(extractMetaProperty(rawHtml, 'og:description')),
+    wordCount: countMarkdownWords(mainContent.markdown),
+    internalLinks: contentData.internalLinks,
+    externalLinks: contentData.externalLinks,
+    images: contentData.images,
+  };
+}
+
+function extractFromHtml(html: string, pageUrl: string = ''): {
   title: string;
   metaDescription: string;
   h1: string[];
@@ -155,7 +270,7 @@ function extractFromHtml(html: string): {
   const canonicalUrl = canonicalMatch ? canonicalMatch[1] : '';
 
   // Extract links
-  const { internalLinks, externalLinks } = extractLinks(html);
+  const { internalLinks, externalLinks } = extractLinks(html, pageUrl);
 
   // Extract images
   const images = extractImages(html);
@@ -177,6 +292,13 @@ function extractFromHtml(html: string): {
   };
 }
 
+function extractMetaProperty(html: string, property: string): string {
+  const escaped = property.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const match = html.match(new RegExp(`<meta[^>]*property=["']${escaped}["'][^>]*content=["']([^"']*)["'][^>]*>`, 'i'))
+    || html.match(new RegExp(`<meta[^>]*content=["']([^"']*)["'][^>]*property=["']${escaped}["'][^>]*>`, 'i'));
+  return match ? match[1].trim() : '';
+}
+
 function extractHeadings(html: string, tag: string): string[] {
   // More robust regex that handles multi-line content and nested tags
   const regex = new RegExp(`<${tag}[^>]*>([\\s\\S]*?)<\\/${tag}>`, 'gi');
@@ -239,7 +361,31 @@ function extractSchemaMarkup(html: string): SchemaMarkup[] {
   return schemas;
 }
 
-function extractLinks(html: string): { internalLinks: string[]; externalLinks: string[] } {
+/**
+ * Classify a link as internal or external relative to the page it appears on.
+ * Absolute links to the page's own host count as internal. Returns null for
+ * links that are neither (mailto:, tel:, relative paths without a slash).
+ */
+export function classifyLink(href: string, pageUrl: string = ''): 'internal' | 'external' | null {
+  if (href.startsWith('http://') || href.startsWith('https://')) {
+    const pageHost = getHostname(pageUrl);
+    return pageHost && getHostname(href) === pageHost ? 'internal' : 'external';
+  }
+  if (href.startsWith('/') || href.startsWith('#')) {
+    return 'internal';
+  }
+  return null;
+}
+
+function getHostname(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '').toLowerCase();
+  } catch {
+    return '';
+  }
+}
+
+function extractLinks(html: string, pageUrl: string): { internalLinks: string[]; externalLinks: string[] } {
   const internalLinks: string[] = [];
   const externalLinks: string[] = [];
   const linkRegex = /<a[^>]*href=["']([^"']*)["'][^>]*>/gi;
@@ -247,9 +393,10 @@ function extractLinks(html: string): { internalLinks: string[]; externalLinks: s
 
   while ((match = linkRegex.exec(html)) !== null) {
     const href = match[1];
-    if (href.startsWith('http://') || href.startsWith('https://')) {
+    const kind = classifyLink(href, pageUrl);
+    if (kind === 'external') {
       externalLinks.push(href);
-    } else if (href.startsWith('/') || href.startsWith('#')) {
+    } else if (kind === 'internal') {
       internalLinks.push(href);
     }
   }
@@ -282,7 +429,7 @@ function extractImages(html: string): ImageData[] {
   return images;
 }
 
-function countWords(text: string): number {
+export function countMarkdownWords(text: string): number {
   // Remove markdown syntax and count words
   const cleanText = text
     .replace(/#{1,6}\s/g, '') // Remove heading markers
@@ -16,9 +16,33 @@ import {
   INumberingOptions,
   ExternalHyperlink,
   VerticalAlign,
+  InsertedTextRun,
+  DeletedTextRun,
+  CommentRangeStart,
+  CommentRangeEnd,
+  CommentReference,
+  type ICommentOptions,
+  type ParagraphChild,
 } from 'docx';
-import type { AnalysisResult, Settings, FAQ, SchemaRecommendation } from '@/types';
-import { filterAndLimitKeywords, formatKeywordsForDocument } from './keyword-processor';
+import type { FAQ, SchemaRecommendation, ReauditResult, AdoptionStatus, ComplianceReport } from '@/types';
+import { COMPLIANCE_RULE_LABELS } from './compliance-checker';
+import { formatKeywordsForDocument, formatVolume, type KeywordWithVolume } from './keyword-processor';
+import {
+  ADOPTION_ELEMENT_LABELS,
+  ADOPTION_STATUS_LABELS,
+  CANNIBALIZATION_SEVERITY_LABELS,
+  buildReportModel,
+  describeChunking,
+  describeCompliance,
+  formatMetaAlternate,
+  type CannibalizationSection,
+  type ContentBlock,
+  type ContentSegment,
+  type MetaAlternate,
+  type MetaComparisonRow,
+  type ReportModel,
+  type ReportOptions,
+} from './report-model';
 
 // Font constant for easy updates
 const FONT = 'Poppins';
@@ -46,138 +70,6 @@ const COLORS = {
   GREEN_BORDER: '22C55E',
 };
 
-interface DocGeneratorOptions {
-  analysisResult: AnalysisResult;
-  settings: Settings;
-  clientName: string;
-  pageName: string;
-}
-
-// Module-level H1 tracking to prevent duplicates
-let processedH1s: Set<string> = new Set();
-
-/**
- * Clean markers from text for display (removes [[KEYWORD:]], [[ADJUSTED:]], [[NEW]])
- * Used for metadata fields where we want clean text without markers
- */
-function cleanMarkersForDisplay(text: string): string {
-  if (!text) return '';
-
-  let clean = text;
-
-  // Remove [[KEYWORD: text]] -> text
-  clean = clean.replace(/\[\[KEYWORD:\s*([^\]]+)\]\]/g, '$1');
-
-  // Remove [[ADJUSTED: old → new]] -> new
-  clean = clean.replace(/\[\[ADJUSTED:\s*[^→]*→\s*([^\]]+)\]\]/g, '$1');
-  clean = clean.replace(/\[\[ADJUSTED:\s*([^\]]+)\]\]/g, '$1');
-
-  // Remove [[NEW...]] markers entirely
-  clean = clean.replace(/\[\[NEW[^\]]*\]\]/g, '');
-
-  // Remove any corrupted GREEN markers from previous approach
-  clean = clean.replace(/<<<GREEN>>>/g, '');
-  clean = clean.replace(/<<\/GREEN>>>/g, '');
-  clean = clean.replace(/<<<\/?GREEN>>>/g, '');
-  clean = clean.replace(/<<</g, '');
-  clean = clean.replace(/>>>/g, '');
-  clean = clean.replace(/>>/g, '');
-  clean = clean.replace(/<</g, '');
-  clean = clean.replace(/\\</g, '');
-
-  // Remove structural markers (with or without brackets)
-  clean = clean.replace(/^\[?H[123]\]?\s*/gim, '');
-  clean = clean.replace(/\[?H[123]\]?\s+/gi, '');
-  clean = clean.replace(/^\[?PARA\]?\s*/gim, '');
-  clean = clean.replace(/\[?PARA\]?\s+/gi, '');
-  clean = clean.replace(/^\[?BULLET\]?\s*/gim, '');
-  clean = clean.replace(/\[?BULLET\]?\s+/gi, '');
-
-  // Clean up extra spaces
-  clean = clean.replace(/\s+/g, ' ').trim();
-
-  return clean;
-}
-
-/**
- * Reset H1 tracking - call at start of each document generation
- */
-function resetH1Tracking(): void {
-  processedH1s = new Set();
-}
-
-/**
- * Check if an H1 is a duplicate (case-insensitive, normalized)
- */
-function isDuplicateH1(content: string): boolean {
-  const normalized = cleanMarkersForDisplay(content)
-    .toLowerCase()
-    .replace(/\s+/g, ' ')
-    .trim();
-
-  if (processedH1s.has(normalized)) {
-    console.log('[doc-generator] Skipping duplicate H1:', normalized);
-    return true;
-  }
-
-  processedH1s.add(normalized);
-  return false;
-}
-
-/**
- * Filter out footer content that shouldn't appear in the document
- */
-function filterFooterContent(content: string): string {
-  // Patterns that indicate footer/non-content areas
-  const footerPatterns = [
-    /©.*All Rights Reserved.*/gi,
-    /©\s*\d{4}.*/gi,
-    /Privacy Policy.*/gi,
-    /Terms of Service.*/gi,
-    /Cookie Policy.*/gi,
-    /\| All Rights Reserved \|/gi,
-    /Follow us on.*/gi,
-    /Connect with us.*/gi,
-    /^\s*©.*/gm,
-  ];
-
-  let filtered = content;
-  for (const pattern of footerPatterns) {
-    filtered = filtered.replace(pattern, '');
-  }
-
-  // Split into lines and filter aggressively in the last portion
-  const lines = filtered.split('\n');
-  const cutoffIndex = Math.floor(lines.length * 0.85);
-
-  const cleanedLines = lines.filter((line, index) => {
-    const trimmedLine = line.trim();
-
-    // Always filter these patterns regardless of position
-    if (trimmedLine.includes('©') ||
-        trimmedLine.includes('All Rights Reserved') ||
-        /Privacy Policy/i.test(trimmedLine) ||
-        /Terms of (Service|Use)/i.test(trimmedLine)) {
-      return false;
-    }
-
-    // More aggressive filtering for bottom 15% of content
-    if (index > cutoffIndex) {
-      // Skip very short lines at the end (likely footer links)
-      if (trimmedLine.length < 20 && trimmedLine.length > 0) {
-        // Check if it looks like a footer link
-        if (/^[A-Z][a-z]+(\s[A-Z][a-z]+)*$/.test(trimmedLine)) {
-          return false;
-        }
-      }
-    }
-
-    return true;
-  });
-
-  return cleanedLines.join('\n').trim();
-}
-
 // Numbering configuration for bullet lists
 const numberingConfig: INumberingOptions = {
   config: [
@@ -267,35 +159,6 @@ function createHighlightedParagraph(
   });
 }
 
-// Helper to create highlighted heading for new/changed sections
-function createHighlightedHeading(
-  text: string,
-  level: 1 | 2 | 3,
-  isNew: boolean = false
-): Paragraph {
-  const headingLevel = level === 1 ? HeadingLevel.HEADING_1
-    : level === 2 ? HeadingLevel.HEADING_2
-    : HeadingLevel.HEADING_3;
-
-  const sizes = { 1: FONT_SIZES.HEADING1, 2: FONT_SIZES.HEADING2, 3: FONT_SIZES.HEADING3 };
-  const colors = { 1: COLORS.PRIMARY, 2: COLORS.SECONDARY, 3: COLORS.TERTIARY };
-
-  return new Paragraph({
-    heading: headingLevel,
-    children: [
-      new TextRun({
-        text,
-        font: FONT,
-        size: sizes[level],
-        bold: true,
-        color: colors[level],
-        highlight: isNew ? "green" : undefined,
-      })
-    ],
-    spacing: { before: level === 1 ? 360 : level === 2 ? 280 : 240, after: level === 1 ? 200 : level === 2 ? 160 : 120 },
-  });
-}
-
 // Helper to create bullet point with optional highlighting
 function createHighlightedBullet(
   text: string,
@@ -317,10 +180,7 @@ function displayText(text: string): string {
 }
 
 // Create comparison table for current vs optimized meta elements
-function createComparisonTable(
-  crawledData: AnalysisResult['crawledData'],
-  optimizedContent: AnalysisResult['optimizedContent']
-): Table {
+function createComparisonTable(metaRows: MetaComparisonRow[]): Table {
   const headerShading = { type: ShadingType.CLEAR, fill: '1E40AF' }; // Dark blue header
   const labelShading = { type: ShadingType.CLEAR, fill: 'F9CB9C' }; // Orange/peach for labels
   const tableBorder = {
@@ -376,8 +236,8 @@ function createComparisonTable(
       width: width ? { size: width, type: WidthType.DXA } : undefined,
     });
 
-  // Helper to create optimized cell with green highlight
-  const createOptimizedCell = (text: string, width?: number): TableCell =>
+  // Helper to create optimized cell with green highlight, listing any scored alternates below
+  const createOptimizedCell = (text: string, alternates: MetaAlternate[] = [], width?: number): TableCell =>
     new TableCell({
       children: [
         new Paragraph({
@@ -388,6 +248,19 @@ function createComparisonTable(
             highlight: "green",
           })],
         }),
+        ...(alternates.length > 0
+          ? [
+              new Paragraph({
+                children: [new TextRun({ text: 'Alternatives:', bold: true, size: 16, color: '4B5563', font: FONT })],
+                spacing: { before: 80 },
+              }),
+              ...alternates.map((alternate) =>
+                new Paragraph({
+                  children: [new TextRun({ text: `• ${formatMetaAlternate(alternate)}`, size: 16, color: '4B5563', font: FONT })],
+                })
+              ),
+            ]
+          : []),
       ],
       borders: cellBorders,
       verticalAlign: VerticalAlign.CENTER,
@@ -419,49 +292,322 @@ function createComparisonTable(
           createHeaderCell('Why Changed'),
         ],
       }),
-      // Title Tag row
-      new TableRow({
-        children: [
-          createLabelCell('Title Tag'),
-          createContentCell(displayText(crawledData.title)),
-          createOptimizedCell(displayText(cleanMarkersForDisplay(optimizedContent.metaTitle))),
-          createWhyCell('Primary keyword in first 30 chars, optimal length'),
-        ],
-      }),
-      // Meta Description row
-      new TableRow({
-        children: [
-          createLabelCell('Meta Description'),
-          createContentCell(displayText(crawledData.metaDescription)),
-          createOptimizedCell(displayText(cleanMarkersForDisplay(optimizedContent.metaDescription))),
-          createWhyCell('Added CTA, included target keyword, compelling copy'),
-        ],
-      }),
-      // H1 row - strip markers for clean display
-      new TableRow({
-        children: [
-          createLabelCell('H1'),
-          createContentCell(crawledData.h1[0] || 'Not set'),
-          createOptimizedCell(cleanMarkersForDisplay(optimizedContent.h1)),
-          createWhyCell('Differentiated from title, natural keyword placement'),
-        ],
-      }),
+      // Title Tag, Meta Description and H1 rows
+      ...metaRows.map((row) =>
+        new TableRow({
+          children: [
+            createLabelCell(row.element),
+            createContentCell(displayText(row.current)),
+            createOptimizedCell(displayText(row.optimized), row.alternates),
+            createWhyCell(row.why),
+          ],
+        })
+      ),
+    ],
+  });
+}
+
+function hasKeywordMetrics(keywords: KeywordWithVolume[]): boolean {
+  return keywords.some((kw) => kw.volume !== null || kw.metrics);
+}
+
+// Keyword table columns; a column is shown only if some keyword has a value for it
+const KEYWORD_TABLE_COLUMNS: { label: string; value: (kw: KeywordWithVolume) => string | undefined }[] = [
+  { label: 'Keyword', value: (kw) => kw.keyword },
+  { label: 'Monthly Volume', value: (kw) => (kw.volume !== null ? formatVolume(kw.volume) : undefined) },
+  { label: 'KD', value: (kw) => kw.metrics?.difficulty?.toString() },
+  { label: 'CPC', value: (kw) => (kw.metrics?.cpc !== undefined ? `$${kw.metrics.cpc.toFixed(2)}` : undefined) },
+  { label: 'Intent', value: (kw) => (kw.intent ? kw.intent.charAt(0).toUpperCase() + kw.intent.slice(1) : kw.metrics?.intent) },
+  { label: 'Position', value: (kw) => (kw.metrics?.position !== undefined ? String(Math.round(kw.metrics.position)) : undefined) },
+];
+
+// Target keywords with the metrics from the uploaded keyword file
+function createKeywordTable(keywords: KeywordWithVolume[]): Table {
+  const tableBorder = { style: BorderStyle.SINGLE, size: 1, color: 'CCCCCC' };
+  const cellBorders = { top: tableBorder, bottom: tableBorder, left: tableBorder, right: tableBorder };
+  const columns = KEYWORD_TABLE_COLUMNS.filter((column) => keywords.some((kw) => column.value(kw) !== undefined));
+
+  const createCell = (text: string, header = false): TableCell =>
+    new TableCell({
+      children: [
+        new Paragraph({
+          children: [new TextRun({ text, bold: header, size: FONT_SIZES.CODE, color: header ? 'FFFFFF' : undefined, font: FONT })],
+        }),
+      ],
+      shading: header ? { type: ShadingType.CLEAR, fill: '1E40AF' } : undefined,
+      borders: cellBorders,
+      verticalAlign: VerticalAlign.CENTER,
+    });
+
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [
+      new TableRow({ children: columns.map((column) => createCell(column.label, true)) }),
+      ...keywords.map((kw) =>
+        new TableRow({ children: columns.map((column) => createCell(column.value(kw) ?? '–')) })
+      ),
     ],
   });
 }
 
-export async function generateDocument(options: DocGeneratorOptions): Promise<Buffer> {
+export async function generateDocument(options: ReportOptions): Promise<Buffer> {
   console.log('[doc-generator] Starting document generation...');
+  console.log('[doc-generator] Content length:', options.analysisResult.optimizedContent?.fullContent?.length || 0);
+
+  return renderDocx(buildReportModel(options));
+}
+
+/**
+ * Render a report model as a Word document
+ */
+export async function renderDocx(model: ReportModel): Promise<Buffer> {
+  // Collects a comment per explained change; in tracked-changes mode edits
+  // become Word revisions instead of highlights
+  const markup = createChangeMarkup(model.revisionAuthor, model.trackChanges);
+
+  const children: (Paragraph | Table)[] = [
+    // Document Title
+    new Paragraph({
+      heading: HeadingLevel.TITLE,
+      children: [
+        new TextRun({
+          text: model.title,
+          font: FONT,
+          size: FONT_SIZES.TITLE,
+          bold: true,
+        }),
+      ],
+      spacing: { after: 120 },
+    }),
+
+    // Target URL (right below title)
+    new Paragraph({
+      style: 'URL',
+      children: [
+        new TextRun({
+          text: 'Target Page: ',
+          font: FONT,
+          size: FONT_SIZES.SMALL,
+          bold: true,
+          color: COLORS.TEXT_LIGHT,
+        }),
+        // Pasted content may not have a URL yet
+        model.targetUrl
+          ? new ExternalHyperlink({
+              children: [
+                new TextRun({
+                  text: model.targetUrl,
+                  font: FONT,
+                  size: FONT_SIZES.SMALL,
+                  color: COLORS.LINK,
+                  underline: {},
+                }),
+              ],
+              link: model.targetUrl,
+            })
+          : new TextRun({
+              text: 'Not yet published (analyzed from pasted content)',
+              font: FONT,
+              size: FONT_SIZES.SMALL,
+              italics: true,
+              color: COLORS.TEXT_LIGHT,
+            }),
+      ],
+      spacing: { after: model.targetKeywords.length > 0 ? 80 : 300 },
+    }),
+
+    // Target keywords: a table when the keyword file had metrics, otherwise one line
+    ...(hasKeywordMetrics(model.targetKeywords)
+      ? [
+          new Paragraph({
+            children: [
+              new TextRun({
+                text: 'Target Keywords',
+                font: FONT,
+                size: FONT_SIZES.SMALL,
+                bold: true,
+                color: COLORS.TEXT_LIGHT,
+              }),
+            ],
+            spacing: { after: 80 },
+          }),
+          createKeywordTable(model.targetKeywords),
+          new Paragraph({ children: [], spacing: { after: 200 } }),
+        ]
+      : model.targetKeywords.length > 0
+      ? [
+          new Paragraph({
+            style: 'URL',
+            children: [
+              new TextRun({
+                text: 'Target Keywords: ',
+                font: FONT,
+                size: FONT_SIZES.SMALL,
+                bold: true,
+                color: COLORS.TEXT_LIGHT,
+              }),
+              new TextRun({
+                text: formatKeywordsForDocument(model.targetKeywords),
+                font: FONT,
+                size: FONT_SIZES.SMALL,
+              }),
+            ],
+            spacing: { after: 300 },
+          }),
+        ]
+      : []),
+
+    // Legend for green highlighting (or tracked changes)
+    new Paragraph({
+      spacing: { before: 200, after: 300 },
+      shading: { fill: 'F0FDF4', type: ShadingType.CLEAR },  // Very light green background
+      border: {
+        left: { style: BorderStyle.SINGLE, size: 24, color: COLORS.GREEN_BORDER },
+      },
+      indent: { left: 200, right: 200 },
+      children: [
+        new TextRun({
+          text: '📝 Reading Guide: ',
+          font: FONT,
+          size: 22,
+          bold: true,
+        }),
+        ...(markup.trackChanges
+          ? [
+              new TextRun({
+                text: `Keyword insertions and small adjustments are recorded as tracked changes by ${model.revisionAuthor}. Use Review → Accept or Reject in Word to apply them one by one. The rest of the content remains unchanged from the original page.`,
+                font: FONT,
+                size: 22,
+              }),
+            ]
+          : [
+              new TextRun({
+                text: 'Words highlighted in ',
+                font: FONT,
+                size: 22,
+              }),
+              new TextRun({
+                text: 'green',
+                font: FONT,
+                size: 22,
+                bold: true,
+                highlight: "green",
+              }),
+              new TextRun({
+                text: ' are keyword insertions or small adjustments. The rest of the content remains unchanged from the original page.',
+                font: FONT,
+                size: 22,
+              }),
+            ]),
+        ...(model.chunking
+          ? [
+              new TextRun({
+                text: ` ${describeChunking(model.chunking)}`,
+                font: FONT,
+                size: 22,
+              }),
+            ]
+          : []),
+      ],
+    }),
+
+    // Section Header - Comparison Table
+    new Paragraph({
+      children: [
+        new TextRun({
+          text: 'Current vs Optimized Meta Elements',
+          bold: true,
+          size: FONT_SIZES.HEADING2,
+          font: FONT,
+          color: COLORS.SECONDARY,
+        }),
+      ],
+      heading: HeadingLevel.HEADING_2,
+      spacing: { before: 300, after: 200 },
+    }),
+
+    // Comparison Table
+    createComparisonTable(model.metaRows),
+
+    // Optimized Content Section Header
+    new Paragraph({
+      children: [
+        new TextRun({
+          text: 'OPTIMIZED CONTENT',
+          bold: true,
+          size: FONT_SIZES.HEADING2,
+          font: FONT,
+          color: COLORS.LINK,
+        }),
+      ],
+      spacing: { before: 400, after: 200 },
+    }),
+
+    // H1 as main heading (a copy inside the content is dropped by the model)
+    new Paragraph({
+      children: segmentsToTextRuns(model.h1, {
+        bold: true,
+        size: FONT_SIZES.HEADING1,
+        color: COLORS.PRIMARY,
+      }, markup),
+      heading: HeadingLevel.HEADING_1,
+      spacing: { before: 100, after: 200 },
+    }),
+
+    // Full Content (with green highlighting for new content)
+    ...blocksToParagraphs(model.blocks, markup),
+
+    // FAQs Section (if any) - with green highlight since these are new
+    ...(model.faqs.length > 0
+      ? [
+          new Paragraph({
+            children: segmentsToTextRuns(
+              [{ text: 'Frequently Asked Questions', highlight: true, change: 'new' }],
+              { bold: true, size: FONT_SIZES.HEADING2, color: COLORS.SECONDARY },
+              markup
+            ),
+            heading: HeadingLevel.HEADING_2,
+            spacing: { before: 300, after: 200 },
+          }),
+          ...generateFAQParagraphs(model.faqs, true, markup),  // true = highlight as new
+        ]
+      : []),
+
+    // Schema Recommendations (if any) - with green highlight since these are new
+    ...(model.schemaRecommendations.length > 0
+      ? [
+          new Paragraph({
+            children: [
+              new TextRun({
+                text: 'Schema Markup Recommendations',
+                bold: true,
+                size: FONT_SIZES.HEADING2,
+                font: FONT,
+                color: COLORS.SECONDARY,
+                highlight: "green",
+              }),
+            ],
+            heading: HeadingLevel.HEADING_2,
+            spacing: { before: 300, after: 200 },
+          }),
+          ...generateSchemaParagraphs(model.schemaRecommendations),
+        ]
+      : []),
+
+    // Implementation Check (if the page was re-audited)
+    ...(model.reaudit ? generateImplementationCheck(model.reaudit) : []),
 
-  // Reset H1 tracking for each new document
-  resetH1Tracking();
+    // Keyword Cannibalization (if the page was part of a site-wide check)
+    ...(model.cannibalization ? generateCannibalizationSection(model.cannibalization) : []),
 
-  const { analysisResult, settings, clientName, pageName } = options;
-  const { crawledData, optimizedContent, keywords } = analysisResult;
-  console.log('[doc-generator] Content length:', optimizedContent?.fullContent?.length || 0);
-  console.log('[doc-generator] Content sample:', optimizedContent?.fullContent?.substring(0, 200));
+    // Optimization Rule Check (analyses made since the rules were measured)
+    ...(model.compliance ? generateRuleCheckSection(model.compliance) : []),
+  ];
 
   const doc = new Document({
+    // Keep tracking on so the client's own edits are recorded too
+    ...(markup.trackChanges ? { features: { trackRevisions: true } } : {}),
+    ...(markup.comments.length > 0 ? { comments: { children: markup.comments } } : {}),
     numbering: numberingConfig,
     styles: {
       default: {
@@ -592,1022 +738,165 @@ export async function generateDocument(options: DocGeneratorOptions): Promise<Bu
             },
           },
         },
-        children: [
-          // Document Title
-          new Paragraph({
-            heading: HeadingLevel.TITLE,
-            children: [
-              new TextRun({
-                text: `${clientName} - ${pageName} | Content Improvement`,
-                font: FONT,
-                size: FONT_SIZES.TITLE,
-                bold: true,
-              }),
-            ],
-            spacing: { after: 120 },
-          }),
+        children,
+      },
+    ],
+  });
 
-          // Target URL (right below title)
-          new Paragraph({
-            style: 'URL',
-            children: [
-              new TextRun({
-                text: 'Target Page: ',
-                font: FONT,
-                size: FONT_SIZES.SMALL,
-                bold: true,
-                color: COLORS.TEXT_LIGHT,
-              }),
-              new ExternalHyperlink({
-                children: [
-                  new TextRun({
-                    text: crawledData.url,
-                    font: FONT,
-                    size: FONT_SIZES.SMALL,
-                    color: COLORS.LINK,
-                    underline: {},
-                  }),
-                ],
-                link: crawledData.url,
-              }),
-            ],
-            spacing: { after: 300 },
-          }),
+  console.log('[doc-generator] Document structure created, starting Packer.toBuffer...');
+  const buffer = await Packer.toBuffer(doc);
+  console.log('[doc-generator] Buffer created, size:', buffer.length);
+  return Buffer.from(buffer);
+}
 
-          // Legend for green highlighting
-          new Paragraph({
-            spacing: { before: 200, after: 300 },
-            shading: { fill: 'F0FDF4', type: ShadingType.CLEAR },  // Very light green background
-            border: {
-              left: { style: BorderStyle.SINGLE, size: 24, color: COLORS.GREEN_BORDER },
-            },
-            indent: { left: 200, right: 200 },
-            children: [
-              new TextRun({
-                text: '📝 Reading Guide: ',
-                font: FONT,
-                size: 22,
-                bold: true,
-              }),
-              new TextRun({
-                text: 'Words highlighted in ',
-                font: FONT,
-                size: 22,
-              }),
-              new TextRun({
-                text: 'green',
-                font: FONT,
-                size: 22,
-                bold: true,
-                highlight: "green",
-              }),
-              new TextRun({
-                text: ' are keyword insertions or small adjustments. The rest of the content remains unchanged from the original page.',
-                font: FONT,
-                size: 22,
-              }),
-            ],
-          }),
-
-          // Section Header - Comparison Table
-          new Paragraph({
-            children: [
-              new TextRun({
-                text: 'Current vs Optimized Meta Elements',
-                bold: true,
-                size: FONT_SIZES.HEADING2,
-                font: FONT,
-                color: COLORS.SECONDARY,
-              }),
-            ],
-            heading: HeadingLevel.HEADING_2,
-            spacing: { before: 300, after: 200 },
-          }),
-
-          // Comparison Table
-          createComparisonTable(crawledData, optimizedContent),
-
-          // Optimized Content Section Header
-          new Paragraph({
-            children: [
-              new TextRun({
-                text: 'OPTIMIZED CONTENT',
-                bold: true,
-                size: FONT_SIZES.HEADING2,
-                font: FONT,
-                color: COLORS.LINK,
-              }),
-            ],
-            spacing: { before: 400, after: 200 },
-          }),
-
-          // H1 as main heading - parse [[KEYWORD:]] markers directly
-          // IMPORTANT: Register this H1 to prevent duplicates in fullContent
-          ...(() => {
-            // Track this H1 so it won't be duplicated if it appears in fullContent
-            isDuplicateH1(optimizedContent.h1);
-            return [new Paragraph({
-              // SIMPLE DIRECT APPROACH - parse [[KEYWORD:]] directly to TextRuns
-              children: convertLineToTextRuns(optimizedContent.h1, {
-                bold: true,
-                size: FONT_SIZES.HEADING1,
-                color: COLORS.PRIMARY,
-              }),
-              heading: HeadingLevel.HEADING_1,
-              spacing: { before: 100, after: 200 },
-            })];
-          })(),
-
-          // Full Content (with green highlighting for new content)
-          ...parseContentToParagraphs(optimizedContent.fullContent, crawledData.bodyContent),
-
-          // FAQs Section (if any) - with green highlight since these are new
-          ...(optimizedContent.faqs.length > 0
-            ? [
-                new Paragraph({
-                  children: [
-                    new TextRun({
-                      text: 'Frequently Asked Questions',
-                      bold: true,
-                      size: FONT_SIZES.HEADING2,
-                      font: FONT,
-                      color: COLORS.SECONDARY,
-                      highlight: "green",
-                    }),
-                  ],
-                  heading: HeadingLevel.HEADING_2,
-                  spacing: { before: 300, after: 200 },
-                }),
-                ...generateFAQParagraphs(optimizedContent.faqs, true),  // true = highlight as new
-              ]
-            : []),
-
-          // Schema Recommendations (if any) - with green highlight since these are new
-          ...(settings.includeSchemaRecommendations && optimizedContent.schemaRecommendations.length > 0
-            ? [
-                new Paragraph({
-                  children: [
-                    new TextRun({
-                      text: 'Schema Markup Recommendations',
-                      bold: true,
-                      size: FONT_SIZES.HEADING2,
-                      font: FONT,
-                      color: COLORS.SECONDARY,
-                      highlight: "green",
-                    }),
-                  ],
-                  heading: HeadingLevel.HEADING_2,
-                  spacing: { before: 300, after: 200 },
-                }),
-                ...generateSchemaParagraphs(optimizedContent.schemaRecommendations),
-              ]
-            : []),
-        ],
-      },
-    ],
-  });
-
-  console.log('[doc-generator] Document structure created, starting Packer.toBuffer...');
-  const buffer = await Packer.toBuffer(doc);
-  console.log('[doc-generator] Buffer created, size:', buffer.length);
-  return Buffer.from(buffer);
-}
-
-// Type for inline elements that can be TextRun or ExternalHyperlink
-type InlineElement = TextRun | ExternalHyperlink;
-
-/**
- * Comprehensive content cleaning for Word document output
- * Strips ALL markdown/HTML artifacts that shouldn't appear in final document
- */
-function cleanContentForDocument(text: string): string {
-  let cleaned = text;
-
-  // 1. Remove escaped markdown characters
-  cleaned = cleaned
-    .replace(/\\\*/g, '*')      // \* -> *
-    .replace(/\\\[/g, '[')      // \[ -> [
-    .replace(/\\\]/g, ']')      // \] -> ]
-    .replace(/\\\(/g, '(')      // \( -> (
-    .replace(/\\\)/g, ')')      // \) -> )
-    .replace(/\\"/g, '"')       // \" -> "
-    .replace(/\\_/g, '_')       // \_ -> _
-    .replace(/\\#/g, '#')       // \# -> #
-    .replace(/\\>/g, '>')       // \> -> >
-    .replace(/\\-/g, '-')       // \- -> -
-    .replace(/\\`/g, '`');      // \` -> `
-
-  // 2. Convert markdown links to plain text: [text](url) -> text
-  cleaned = cleaned.replace(/\[([^\]]+)\]\([^)]+\)/g, '$1');
-
-  // 3. Remove bold/italic markdown: **text** or *text* -> text
-  cleaned = cleaned.replace(/\*\*([^*]+)\*\*/g, '$1');  // **bold**
-  cleaned = cleaned.replace(/\*([^*]+)\*/g, '$1');       // *italic*
-  cleaned = cleaned.replace(/__([^_]+)__/g, '$1');       // __bold__
-  cleaned = cleaned.replace(/_([^_]+)_/g, '$1');         // _italic_
-
-  // 4. Remove inline code: `code` -> code
-  cleaned = cleaned.replace(/`([^`]+)`/g, '$1');
-
-  // 5. Remove HTML tags that might slip through
-  cleaned = cleaned.replace(/<[^>]+>/g, '');
-
-  // 6. Remove markdown heading prefixes that weren't properly parsed
-  // Only remove if at start of line (after processing)
-  cleaned = cleaned.replace(/^#{1,6}\s+/gm, '');
-
-  // 7. Remove markdown horizontal rules
-  cleaned = cleaned.replace(/^[-*_]{3,}$/gm, '');
-
-  // 8. Remove markdown blockquote prefix
-  cleaned = cleaned.replace(/^>\s*/gm, '');
-
-  // 9. Clean up multiple spaces and normalize whitespace
-  cleaned = cleaned.replace(/  +/g, ' ');
-
-  // 10. Clean up multiple newlines (keep max 2)
-  cleaned = cleaned.replace(/\n{3,}/g, '\n\n');
-
-  // IMPORTANT: Do NOT trim here - we need to preserve leading/trailing spaces
-  // for proper spacing between TextRuns when parsing [[KEYWORD:]] markers.
-  // The calling code is responsible for trimming where appropriate.
-  return cleaned;
-}
-
-/**
- * Clean up escaped markdown and normalize text (legacy function for compatibility)
- */
-function cleanMarkdownEscapes(text: string): string {
-  return cleanContentForDocument(text);
-}
-
-/**
- * Parse inline markdown formatting (bold, italic, links) into docx elements
- */
-function parseInlineFormatting(text: string): InlineElement[] {
-  const elements: InlineElement[] = [];
-
-  // Clean escaped markdown first
-  let cleanedText = cleanMarkdownEscapes(text);
-
-  // Combined regex to match: **bold**, *italic*, [link](url), or plain text
-  // Order matters: **bold** before *italic* to handle properly
-  const inlinePattern = /(\*\*(.+?)\*\*|\*([^*]+)\*|\[([^\]]+)\]\(([^)]+)\))/g;
-
-  let lastIndex = 0;
-  let match;
-
-  while ((match = inlinePattern.exec(cleanedText)) !== null) {
-    // Add plain text before this match
-    if (match.index > lastIndex) {
-      const plainText = cleanedText.substring(lastIndex, match.index);
-      if (plainText) {
-        elements.push(
-          new TextRun({
-            text: plainText,
-            size: FONT_SIZES.BODY,
-            font: FONT,
-          })
-        );
-      }
-    }
-
-    const fullMatch = match[0];
-
-    // Bold: **text**
-    if (fullMatch.startsWith('**') && fullMatch.endsWith('**')) {
-      const boldContent = match[2];
-      // Check if bold content contains a link
-      const linkInBold = boldContent.match(/\[([^\]]+)\]\(([^)]+)\)/);
-      if (linkInBold) {
-        // Bold link
-        elements.push(
-          new ExternalHyperlink({
-            children: [
-              new TextRun({
-                text: linkInBold[1],
-                bold: true,
-                size: FONT_SIZES.BODY,
-                font: FONT,
-                color: COLORS.LINK,
-                underline: { type: 'single' },
-              }),
-            ],
-            link: linkInBold[2],
-          })
-        );
-      } else {
-        elements.push(
-          new TextRun({
-            text: boldContent,
-            bold: true,
-            size: FONT_SIZES.BODY,
-            font: FONT,
-          })
-        );
-      }
-    }
-    // Italic: *text* (but not **)
-    else if (fullMatch.startsWith('*') && !fullMatch.startsWith('**') && fullMatch.endsWith('*')) {
-      elements.push(
-        new TextRun({
-          text: match[3],
-          italics: true,
-          size: FONT_SIZES.BODY,
-          font: FONT,
-        })
-      );
-    }
-    // Link: [text](url)
-    else if (fullMatch.startsWith('[')) {
-      const linkText = match[4];
-      const linkUrl = match[5];
-      elements.push(
-        new ExternalHyperlink({
-          children: [
-            new TextRun({
-              text: linkText,
-              size: FONT_SIZES.BODY,
-              font: FONT,
-              color: COLORS.LINK,
-              underline: { type: 'single' },
-            }),
-          ],
-          link: linkUrl,
-        })
-      );
-    }
-
-    lastIndex = match.index + fullMatch.length;
-  }
-
-  // Add remaining plain text after last match
-  if (lastIndex < cleanedText.length) {
-    const remainingText = cleanedText.substring(lastIndex);
-    if (remainingText) {
-      elements.push(
-        new TextRun({
-          text: remainingText,
-          size: FONT_SIZES.BODY,
-          font: FONT,
-        })
-      );
-    }
-  }
-
-  // If no matches found, return the whole text as a single TextRun
-  if (elements.length === 0) {
-    elements.push(
-      new TextRun({
-        text: cleanedText,
-        size: FONT_SIZES.BODY,
-        font: FONT,
-      })
-    );
-  }
-
-  return elements;
-}
-
-/**
- * Parse inline markdown formatting with optional green highlighting for new content
- */
-function parseInlineFormattingWithHighlight(text: string, isNew: boolean = false): InlineElement[] {
-  const elements: InlineElement[] = [];
-
-  // Clean escaped markdown first
-  let cleanedText = cleanMarkdownEscapes(text);
-
-  // Combined regex to match: **bold**, *italic*, [link](url), or plain text
-  const inlinePattern = /(\*\*(.+?)\*\*|\*([^*]+)\*|\[([^\]]+)\]\(([^)]+)\))/g;
-
-  let lastIndex = 0;
-  let match;
-
-  while ((match = inlinePattern.exec(cleanedText)) !== null) {
-    // Add plain text before this match
-    if (match.index > lastIndex) {
-      const plainText = cleanedText.substring(lastIndex, match.index);
-      if (plainText) {
-        elements.push(
-          new TextRun({
-            text: plainText,
-            size: FONT_SIZES.BODY,
-            font: FONT,
-            highlight: isNew ? "green" : undefined,
-          })
-        );
-      }
-    }
-
-    const fullMatch = match[0];
-
-    // Bold: **text**
-    if (fullMatch.startsWith('**') && fullMatch.endsWith('**')) {
-      const boldContent = match[2];
-      const linkInBold = boldContent.match(/\[([^\]]+)\]\(([^)]+)\)/);
-      if (linkInBold) {
-        elements.push(
-          new ExternalHyperlink({
-            children: [
-              new TextRun({
-                text: linkInBold[1],
-                bold: true,
-                size: FONT_SIZES.BODY,
-                font: FONT,
-                color: COLORS.LINK,
-                underline: { type: 'single' },
-                highlight: isNew ? "green" : undefined,
-              }),
-            ],
-            link: linkInBold[2],
-          })
-        );
-      } else {
-        elements.push(
-          new TextRun({
-            text: boldContent,
-            bold: true,
-            size: FONT_SIZES.BODY,
-            font: FONT,
-            highlight: isNew ? "green" : undefined,
-          })
-        );
-      }
-    }
-    // Italic: *text*
-    else if (fullMatch.startsWith('*') && !fullMatch.startsWith('**') && fullMatch.endsWith('*')) {
-      elements.push(
-        new TextRun({
-          text: match[3],
-          italics: true,
-          size: FONT_SIZES.BODY,
-          font: FONT,
-          highlight: isNew ? "green" : undefined,
-        })
-      );
-    }
-    // Link: [text](url)
-    else if (fullMatch.startsWith('[')) {
-      const linkText = match[4];
-      const linkUrl = match[5];
-      elements.push(
-        new ExternalHyperlink({
-          children: [
-            new TextRun({
-              text: linkText,
-              size: FONT_SIZES.BODY,
-              font: FONT,
-              color: COLORS.LINK,
-              underline: { type: 'single' },
-              highlight: isNew ? "green" : undefined,
-            }),
-          ],
-          link: linkUrl,
-        })
-      );
-    }
-
-    lastIndex = match.index + fullMatch.length;
-  }
-
-  // Add remaining plain text after last match
-  if (lastIndex < cleanedText.length) {
-    const remainingText = cleanedText.substring(lastIndex);
-    if (remainingText) {
-      elements.push(
-        new TextRun({
-          text: remainingText,
-          size: FONT_SIZES.BODY,
-          font: FONT,
-          highlight: isNew ? "green" : undefined,
-        })
-      );
-    }
-  }
-
-  // If no matches found, return the whole text as a single TextRun
-  if (elements.length === 0) {
-    elements.push(
-      new TextRun({
-        text: cleanedText,
-        size: FONT_SIZES.BODY,
-        font: FONT,
-        highlight: isNew ? "green" : undefined,
-      })
-    );
-  }
-
-  return elements;
-}
-
-/**
- * Parse structured content with [H1], [H2], [H3], [PARA], [BULLET] markers
- * Also handles legacy markdown format for backwards compatibility
- * The AI marks changes with [[KEYWORD: term]], [[ADJUSTED: old → new]], [[NEW]]
- *
- * IMPORTANT: This function now processes [[KEYWORD:]] markers INLINE to create
- * green highlighted text, rather than stripping them first.
- */
-function parseContentToParagraphs(content: string, originalContent?: string): Paragraph[] {
-  const paragraphs: Paragraph[] = [];
-
-  // First filter out footer content
-  let processedContent = filterFooterContent(content);
-
-  // CRITICAL: Strip FAQ section from fullContent since FAQs are handled separately
-  // The AI sometimes includes FAQs in fullContent with [[NEW FAQ SECTION]] marker
-  // We need to remove everything from [[NEW FAQ SECTION]] onwards to prevent duplicates
-  const faqSectionIndex = processedContent.search(/\[\[NEW FAQ SECTION\]\]/i);
-  if (faqSectionIndex !== -1) {
-    console.log('[doc-generator] Found FAQ section in content at index', faqSectionIndex, '- stripping to prevent duplicate');
-    processedContent = processedContent.substring(0, faqSectionIndex).trim();
-  }
-
-  // Also check for "Frequently Asked Questions" heading that might indicate embedded FAQ
-  const faqHeadingMatch = processedContent.match(/\[H2\]\s*Frequently Asked Questions/i);
-  if (faqHeadingMatch && faqHeadingMatch.index !== undefined) {
-    console.log('[doc-generator] Found FAQ heading in content - stripping to prevent duplicate');
-    processedContent = processedContent.substring(0, faqHeadingMatch.index).trim();
-  }
-
-  // Clean residual markdown/HTML but KEEP the [[KEYWORD:]] markers
-  // We only clean markdown/HTML, not our custom markers
-  processedContent = processedContent
-    // Remove escaped markdown characters
-    .replace(/\\\*/g, '*')
-    .replace(/\\\[/g, '[')
-    .replace(/\\\]/g, ']')
-    // Remove markdown image syntax: ![alt](url) or ![alt]
-    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '')      // ![alt](url)
-    .replace(/!\[[^\]]*\]/g, '')                  // ![alt]
-    .replace(/^!([A-Za-z][A-Za-z0-9 ]*)/gm, '')   // !AltText at start of line
-    // Remove markdown links: [text](url) -> text
-    .replace(/\[([^\]]+)\]\([^)]+\)/g, '$1')
-    // Remove orphan brackets (but not our [[KEYWORD:]] markers)
-    .replace(/(?<!\[)\[(?!\[)([^\]]*)\](?!\])/g, '$1')  // Single [text] but not [[
-    // Remove bold/italic markdown
-    .replace(/\*\*([^*]+)\*\*/g, '$1')
-    .replace(/\*([^*]+)\*/g, '$1')
-    // Remove HTML tags
-    .replace(/<[^>]+>/g, '')
-    // Remove "Get a Quote" button text that might be captured
-    .replace(/^Get a Quote$/gm, '');
-
-  // CRITICAL: Split structured markers onto their own lines if AI didn't add newlines
-  // This handles cases where AI outputs: "[H1] Title [PARA] Content [H2] Heading"
-  // or "H1 Title PARA Content H2 Heading" (without brackets)
-  // and converts it to separate lines
-  processedContent = processedContent
-    // With brackets
-    .replace(/\s*\[H1\]/g, '\n[H1]')
-    .replace(/\s*\[H2\]/g, '\n[H2]')
-    .replace(/\s*\[H3\]/g, '\n[H3]')
-    .replace(/\s*\[PARA\]/g, '\n[PARA]')
-    .replace(/\s*\[BULLET\]/g, '\n[BULLET]')
-    // Without brackets - handle "H1 text" format (word boundary to avoid matching "H1" in middle of text)
-    .replace(/^H1\s+/gm, '\n[H1] ')
-    .replace(/^H2\s+/gm, '\n[H2] ')
-    .replace(/^H3\s+/gm, '\n[H3] ')
-    .replace(/^PARA\s+/gm, '\n[PARA] ')
-    .replace(/^BULLET\s+/gm, '\n[BULLET] ')
-    // Also handle inline without brackets (e.g., "... text H1 heading ...")
-    .replace(/\s+H1\s+/g, '\n[H1] ')
-    .replace(/\s+H2\s+/g, '\n[H2] ')
-    .replace(/\s+H3\s+/g, '\n[H3] ')
-    .replace(/\s+PARA\s+/g, '\n[PARA] ')
-    .replace(/\s+BULLET\s+/g, '\n[BULLET] ')
-    .trim();
-
-  console.log('[doc-generator] Processing content with inline marker parsing');
-
-  // Split by lines for processing - keep the [[KEYWORD:]] markers intact
-  const lines = processedContent.split('\n');
-
-  for (const line of lines) {
-    const trimmedLine = line.trim();
-
-    // CRITICAL: Skip empty lines entirely - DO NOT create empty paragraphs
-    // Empty paragraphs were causing large gaps in the document
-    if (!trimmedLine) {
-      continue;
-    }
-
-    // JUNK LINE FILTERS - Skip lines that are stray markers or button text
-    const junkPatterns = [
-      /^PARA$/i,                    // Stray "PARA" text
-      /^BULLET$/i,                  // Stray "BULLET" text
-      /^H[123]$/i,                  // Stray "H1", "H2", "H3" text
-      /^Get a Quote$/i,             // Button text
-      /^Get a quote$/i,             // Button text (lowercase)
-      /^Learn More$/i,              // Button text
-      /^Read More$/i,               // Button text
-      /^Contact Us$/i,              // Button text
-      /^Submit$/i,                  // Button text
-      /^Sign Up$/i,                 // Button text
-      /^Apply Now$/i,               // Button text
-      /^Request a Quote$/i,         // Button text
-      /^Privacy Policy$/i,          // Footer text
-      /^Terms of Service$/i,        // Footer text
-      /^©/,                         // Copyright text
-      /^\[PARA\]$/i,                // Empty PARA marker
-      /^\[BULLET\]$/i,              // Empty BULLET marker
-      /^\[H[123]\]$/i,              // Empty heading marker
-      /^\[\[NEW\]\]$/i,             // Standalone [[NEW]] marker
-      /^\[\[NEW FAQ SECTION\]\]/i,  // FAQ section marker (FAQs handled separately)
-      /^\[PARA\s*\(/i,              // [PARA (http... junk
-      /^\(https?:\/\//i,            // Bare URLs starting with (http
-      /^https?:\/\/[^\s]+$/i,       // Standalone URLs
-    ];
-
-    if (junkPatterns.some(pattern => pattern.test(trimmedLine))) {
-      console.log('[doc-generator] Filtering junk line:', trimmedLine);
-      continue;
-    }
-
-    // Remove [[NEW]] marker from beginning of lines but keep the content
-    let cleanedLine = trimmedLine.replace(/^\[\[NEW\]\]\s*/g, '');
-    // Also remove [[NEW]] from anywhere in the line
-    cleanedLine = cleanedLine.replace(/\[\[NEW\]\]\s*/g, '');
-
-    // If line became empty after removing [[NEW]], skip it
-    if (!cleanedLine.trim()) {
-      continue;
-    }
-
-    // NEW STRUCTURED FORMAT: [H1] Heading
-    if (cleanedLine.startsWith('[H1]')) {
-      const headingText = cleanedLine.replace('[H1]', '').trim();
-      // Check for duplicate H1 using module-level tracking
-      if (isDuplicateH1(headingText)) {
-        continue; // Skip duplicate H1
-      }
-
-      paragraphs.push(
-        new Paragraph({
-          children: createTextRunsWithHighlighting(headingText, [], {
-            bold: true,
-            size: FONT_SIZES.HEADING1,
-            color: COLORS.PRIMARY,
-          }),
-          heading: HeadingLevel.HEADING_1,
-          spacing: { before: 200, after: 100 },
-        })
-      );
-      continue;
-    }
-
-    // NEW STRUCTURED FORMAT: [H2] Subheading
-    if (cleanedLine.startsWith('[H2]')) {
-      const headingText = cleanedLine.replace('[H2]', '').trim();
-      paragraphs.push(
-        new Paragraph({
-          children: createTextRunsWithHighlighting(headingText, [], {
-            bold: true,
-            size: FONT_SIZES.HEADING2,
-            color: COLORS.SECONDARY,
-          }),
-          heading: HeadingLevel.HEADING_2,
-          spacing: { before: 160, after: 80 },
-        })
-      );
-      continue;
-    }
-
-    // NEW STRUCTURED FORMAT: [H3] Sub-subheading
-    if (cleanedLine.startsWith('[H3]')) {
-      const headingText = cleanedLine.replace('[H3]', '').trim();
-      paragraphs.push(
-        new Paragraph({
-          children: createTextRunsWithHighlighting(headingText, [], {
-            bold: true,
-            size: FONT_SIZES.HEADING3,
-            color: COLORS.TERTIARY,
-          }),
-          heading: HeadingLevel.HEADING_3,
-          spacing: { before: 120, after: 60 },
-        })
-      );
-      continue;
-    }
-
-    // NEW STRUCTURED FORMAT: [PARA] Paragraph text
-    if (cleanedLine.startsWith('[PARA]')) {
-      const paraText = cleanedLine.replace('[PARA]', '').trim();
-      paragraphs.push(
-        new Paragraph({
-          children: createTextRunsWithHighlighting(paraText, []),
-          spacing: { before: 0, after: 120 },
-        })
-      );
-      continue;
-    }
-
-    // NEW STRUCTURED FORMAT: [BULLET] Bullet point
-    if (cleanedLine.startsWith('[BULLET]')) {
-      const bulletContent = cleanedLine.replace('[BULLET]', '').trim();
-      paragraphs.push(
-        new Paragraph({
-          numbering: { reference: 'bullet-list', level: 0 },
-          children: createTextRunsWithHighlighting(bulletContent, []),
-          spacing: { before: 0, after: 0, line: 276 },
-        })
-      );
-      continue;
-    }
-
-    // LEGACY FORMAT: # H1 heading (markdown)
-    if (cleanedLine.startsWith('# ') && !cleanedLine.startsWith('## ')) {
-      const headingText = cleanedLine.replace('# ', '');
-      // Check for duplicate H1 using module-level tracking
-      if (isDuplicateH1(headingText)) {
-        continue; // Skip duplicate H1
-      }
-
-      paragraphs.push(
-        new Paragraph({
-          children: createTextRunsWithHighlighting(headingText, [], {
-            bold: true,
-            size: FONT_SIZES.HEADING1,
-            color: COLORS.PRIMARY,
-          }),
-          heading: HeadingLevel.HEADING_1,
-          spacing: { before: 200, after: 100 },
-        })
-      );
-      continue;
-    }
-
-    // LEGACY FORMAT: ## H2 heading (markdown)
-    if (cleanedLine.startsWith('## ') && !cleanedLine.startsWith('### ')) {
-      const headingText = cleanedLine.replace('## ', '');
-      paragraphs.push(
-        new Paragraph({
-          children: createTextRunsWithHighlighting(headingText, [], {
-            bold: true,
-            size: FONT_SIZES.HEADING2,
-            color: COLORS.SECONDARY,
-          }),
-          heading: HeadingLevel.HEADING_2,
-          spacing: { before: 160, after: 80 },
-        })
-      );
-      continue;
-    }
-
-    // LEGACY FORMAT: ### H3 heading (markdown)
-    if (cleanedLine.startsWith('### ')) {
-      const headingText = cleanedLine.replace('### ', '');
-      paragraphs.push(
-        new Paragraph({
-          children: createTextRunsWithHighlighting(headingText, [], {
-            bold: true,
-            size: FONT_SIZES.HEADING3,
-            color: COLORS.TERTIARY,
-          }),
-          heading: HeadingLevel.HEADING_3,
-          spacing: { before: 120, after: 60 },
-        })
-      );
-      continue;
-    }
-
-    // LEGACY FORMAT: Bullet point (- or *)
-    if (cleanedLine.startsWith('- ') || cleanedLine.startsWith('* ')) {
-      const bulletContent = cleanedLine.substring(2);
-      paragraphs.push(
-        new Paragraph({
-          numbering: { reference: 'bullet-list', level: 0 },
-          children: createTextRunsWithHighlighting(bulletContent, []),
-          spacing: { before: 0, after: 0, line: 276 },
-        })
-      );
-      continue;
-    }
-
-    // LEGACY FORMAT: Numbered list
-    const numberMatch = cleanedLine.match(/^(\d+)\.\s(.+)/);
-    if (numberMatch) {
-      paragraphs.push(
-        new Paragraph({
-          numbering: { reference: 'numbered-list', level: 0 },
-          children: createTextRunsWithHighlighting(numberMatch[2], []),
-          spacing: { before: 0, after: 0, line: 276 },
-        })
-      );
-      continue;
-    }
-
-    // Regular paragraph (no marker - treat as paragraph)
-    // This handles content that doesn't have any markers
-    paragraphs.push(
-      new Paragraph({
-        children: createTextRunsWithHighlighting(cleanedLine, []),
-        spacing: { before: 0, after: 120 },
-      })
-    );
-  }
-
-  return paragraphs;
-}
-
-// ============================================================================
-// SIMPLE DIRECT APPROACH - No Intermediate Markers
-// Process [[KEYWORD:]] directly to TextRuns in a single step
-// ============================================================================
-
-/**
- * Clean metadata fields by removing ALL marker types
- * Used for table cells and other places where we need plain text
- */
-function cleanMetadataField(text: string): string {
-  if (!text) return '';
-
-  let clean = text;
-
-  // Remove [[KEYWORD: text]] -> text
-  clean = clean.replace(/\[\[KEYWORD:\s*([^\]]+)\]\]/g, '$1');
-
-  // Remove [[ADJUSTED: old → new]] -> new
-  clean = clean.replace(/\[\[ADJUSTED:\s*[^→]*→\s*([^\]]+)\]\]/g, '$1');
-  clean = clean.replace(/\[\[ADJUSTED:\s*([^\]]+)\]\]/g, '$1');
-
-  // Remove [[NEW...]] markers entirely
-  clean = clean.replace(/\[\[NEW[^\]]*\]\]/g, '');
-
-  // Remove any corrupted GREEN markers from previous approach
-  clean = clean.replace(/<<<GREEN>>>/g, '');
-  clean = clean.replace(/<<\/GREEN>>>/g, '');
-  clean = clean.replace(/<<</g, '');
-  clean = clean.replace(/>>>/g, '');
-  clean = clean.replace(/>>/g, '');
-  clean = clean.replace(/<</g, '');
-
-  // Remove structural markers
-  clean = clean.replace(/^\[?H[123]\]?\s*/gim, '');
-  clean = clean.replace(/\[?H[123]\]?\s+/gi, '');
-  clean = clean.replace(/^\[?PARA\]?\s*/gim, '');
-  clean = clean.replace(/\[?PARA\]?\s+/gi, '');
-  clean = clean.replace(/^\[?BULLET\]?\s*/gim, '');
-  clean = clean.replace(/\[?BULLET\]?\s+/gi, '');
-
-  // Clean up extra spaces
-  clean = clean.replace(/\s+/g, ' ').trim();
-
-  return clean;
-}
-
-/**
- * Convert a single line of text to TextRuns, highlighting [[KEYWORD:]] markers DIRECTLY
- * NO intermediate markers - this is the SIMPLE approach
- */
-function convertLineToTextRuns(
-  line: string,
-  baseStyle: { bold?: boolean; size?: number; color?: string } = {}
-): TextRun[] {
-  const runs: TextRun[] = [];
-
-  if (!line || !line.trim()) {
-    return runs;
-  }
-
-  // DEBUG: Log if line contains keyword markers
-  if (line.includes('[[KEYWORD:') || line.includes('[[ADJUSTED:')) {
-    console.log('[doc-generator] Found markers in line:', line.substring(0, 100) + (line.length > 100 ? '...' : ''));
-  }
-
-  let processedLine = line;
-
-  // Step 0: Strip any [[...]] markers that aren't KEYWORD or ADJUSTED
-  // This catches [[NEW]], [[NEW FAQ SECTION]], and any other internal markers
-  processedLine = processedLine.replace(/\[\[NEW[^\]]*\]\]/gi, '');  // [[NEW]], [[NEW FAQ SECTION]], etc.
-  processedLine = processedLine.replace(/\[\[(?!KEYWORD:|ADJUSTED:)[^\]]*\]\]/g, '');  // Any other [[...]] markers
-
-  // Step 1: Fix spacing around [[KEYWORD:]] and [[ADJUSTED:]] markers
-  // Add space BEFORE [[ if preceded by word character
-  processedLine = processedLine.replace(/(\w)(\[\[(?:KEYWORD|ADJUSTED):)/g, '$1 $2');
-
-  // Add space AFTER ]] if followed by word character
-  processedLine = processedLine.replace(/(\]\])(\w)/g, '$1 $2');
-
-  // Handle comma/apostrophe cases
-  processedLine = processedLine.replace(/,(\[\[(?:KEYWORD|ADJUSTED):)/g, ', $1');
-  processedLine = processedLine.replace(/'(\[\[(?:KEYWORD|ADJUSTED):)/g, "' $1");
-
-  // Step 2: Parse [[KEYWORD: text]] and [[ADJUSTED: old → new]] markers DIRECTLY
-  // Combined pattern for both types
-  const markerRegex = /\[\[(KEYWORD|ADJUSTED):\s*([^\]]+)\]\]/g;
-
-  let lastIndex = 0;
-  let match;
+/**
+ * Convert parsed content blocks into Word paragraphs, keeping the green
+ * highlighting of keyword insertions and adjustments
+ */
+function blocksToParagraphs(blocks: ContentBlock[], markup?: ChangeMarkup): Paragraph[] {
+  const headingStyles = {
+    1: { heading: HeadingLevel.HEADING_1, size: FONT_SIZES.HEADING1, color: COLORS.PRIMARY, spacing: { before: 200, after: 100 } },
+    2: { heading: HeadingLevel.HEADING_2, size: FONT_SIZES.HEADING2, color: COLORS.SECONDARY, spacing: { before: 160, after: 80 } },
+    3: { heading: HeadingLevel.HEADING_3, size: FONT_SIZES.HEADING3, color: COLORS.TERTIARY, spacing: { before: 120, after: 60 } },
+  };
 
-  while ((match = markerRegex.exec(processedLine)) !== null) {
-    // Text before this marker (not highlighted)
-    if (match.index > lastIndex) {
-      const beforeText = processedLine.substring(lastIndex, match.index);
-      if (beforeText) {
-        runs.push(new TextRun({
-          text: beforeText,
-          font: FONT,
-          size: baseStyle.size || FONT_SIZES.BODY,
-          bold: baseStyle.bold,
-          color: baseStyle.color,
-        }));
+  return blocks.map((block) => {
+    switch (block.type) {
+      case 'heading': {
+        const style = headingStyles[block.level];
+        return new Paragraph({
+          children: segmentsToTextRuns(block.segments, {
+            bold: true,
+            size: style.size,
+            color: style.color,
+          }, markup),
+          heading: style.heading,
+          spacing: style.spacing,
+        });
       }
+      case 'bullet':
+      case 'numbered':
+        return new Paragraph({
+          numbering: { reference: block.type === 'bullet' ? 'bullet-list' : 'numbered-list', level: 0 },
+          children: segmentsToTextRuns(block.segments, {}, markup),
+          spacing: { before: 0, after: 0, line: 276 },
+        });
+      default:
+        return new Paragraph({
+          children: segmentsToTextRuns(block.segments, {}, markup),
+          spacing: { before: 0, after: 120 },
+        });
     }
+  });
+}
 
-    // Extract the text to highlight
-    const markerType = match[1].toUpperCase();
-    let highlightText = match[2].trim();
-
-    // For ADJUSTED, get only the NEW part (after the arrow)
-    if (markerType === 'ADJUSTED' && highlightText.includes('→')) {
-      const parts = highlightText.split('→');
-      highlightText = parts[parts.length - 1].trim();
-    }
-
-    // The keyword/adjusted text - GREEN HIGHLIGHTED
-    if (highlightText) {
-      console.log(`[doc-generator] Creating GREEN highlight for: "${highlightText}"`);
-      runs.push(new TextRun({
-        text: highlightText,
-        font: FONT,
-        size: baseStyle.size || FONT_SIZES.BODY,
-        bold: baseStyle.bold,
-        color: baseStyle.color,
-        highlight: "green",
-      }));
-    }
-
-    lastIndex = match.index + match[0].length;
-  }
-
-  // Text after the last marker
-  if (lastIndex < processedLine.length) {
-    const afterText = processedLine.substring(lastIndex);
-    if (afterText) {
-      runs.push(new TextRun({
-        text: afterText,
-        font: FONT,
-        size: baseStyle.size || FONT_SIZES.BODY,
-        bold: baseStyle.bold,
-        color: baseStyle.color,
-      }));
-    }
-  }
+// ============================================================================
+// SIMPLE DIRECT APPROACH - No Intermediate Markers
+// Process [[KEYWORD:]] directly to TextRuns in a single step
+// ============================================================================
 
-  // If no markers found, return the whole line as a single run
-  if (runs.length === 0 && processedLine.trim()) {
-    runs.push(new TextRun({
-      text: processedLine,
+/**
+ * Convert parsed segments to TextRuns - highlighted segments get the green highlight
+ */
+function segmentsToTextRuns(
+  segments: ContentSegment[],
+  baseStyle: { bold?: boolean; size?: number; color?: string } = {},
+  markup?: ChangeMarkup
+): ParagraphChild[] {
+  return segments.flatMap((segment) => {
+    const runOptions = {
+      text: segment.text,
       font: FONT,
       size: baseStyle.size || FONT_SIZES.BODY,
       bold: baseStyle.bold,
       color: baseStyle.color,
-    }));
-  }
+    };
+
+    if (!segment.highlight) {
+      return [new TextRun(runOptions)];
+    }
 
-  return runs;
+    const runs: ParagraphChild[] = [];
+    if (markup?.trackChanges) {
+      // Tracked changes: an adjustment deletes the original phrase and inserts the new one
+      if (segment.change === 'adjusted' && segment.original) {
+        runs.push(new DeletedTextRun({ ...runOptions, text: segment.original, ...markup.nextRevision() }));
+      }
+      runs.push(new InsertedTextRun({ ...runOptions, ...markup.nextRevision() }));
+    } else {
+      runs.push(new TextRun({ ...runOptions, highlight: "green" }));
+    }
+
+    // Anchor a comment with the reason for the change to its runs
+    if (markup && segment.reason) {
+      const commentId = markup.addComment(segment.reason);
+      return [
+        new CommentRangeStart(commentId),
+        ...runs,
+        new CommentRangeEnd(commentId),
+        new TextRun({ children: [new CommentReference(commentId)] }),
+      ];
+    }
+    return runs;
+  });
 }
 
 /**
- * Create TextRun array with inline highlighting for [[KEYWORD:]] markers
- * SIMPLE DIRECT APPROACH - no intermediate conversion
+ * Per-document state for marking up changes: the Word comments explaining
+ * them and, in tracked-changes mode, revision attribution
  */
-function createTextRunsWithHighlighting(
-  text: string,
-  highlightSegments: string[],
-  baseStyle: { bold?: boolean; size?: number; color?: string } = {}
-): TextRun[] {
-  return convertLineToTextRuns(text, baseStyle);
+interface ChangeMarkup {
+  trackChanges: boolean;
+  comments: ICommentOptions[];
+  nextRevision: () => { id: number; author: string; date: string };
+  addComment: (text: string) => number;
 }
 
-/**
- * LEGACY compatibility wrapper
- */
-function parseKeywordMarkersToTextRuns(
-  content: string,
-  baseStyle: { bold?: boolean; size?: number; color?: string } = {}
-): TextRun[] {
-  return convertLineToTextRuns(content, baseStyle);
+function createChangeMarkup(author: string, trackChanges: boolean): ChangeMarkup {
+  const date = new Date();
+  const initials = author.split(/\s+/).map((word) => word[0]).join('').slice(0, 3).toUpperCase();
+  const comments: ICommentOptions[] = [];
+  // Comments and revisions share one id sequence so annotation ids never clash
+  let annotationId = 0;
+
+  return {
+    trackChanges,
+    comments,
+    nextRevision: () => ({ id: ++annotationId, author, date: date.toISOString() }),
+    addComment: (text) => {
+      const id = ++annotationId;
+      comments.push({
+        id,
+        author,
+        initials,
+        date,
+        children: [
+          new Paragraph({
+            children: [new TextRun({ text, font: FONT, size: FONT_SIZES.SMALL })],
+          }),
+        ],
+      });
+      return id;
+    },
+  };
 }
 
-function generateFAQParagraphs(faqs: FAQ[], highlightAsNew: boolean = false): Paragraph[] {
+function generateFAQParagraphs(
+  faqs: FAQ[],
+  highlightAsNew: boolean = false,
+  markup?: ChangeMarkup
+): Paragraph[] {
   const paragraphs: Paragraph[] = [];
 
   faqs.forEach((faq) => {
     // Question
     paragraphs.push(
       new Paragraph({
-        children: [
-          new TextRun({
-            text: `Q: ${faq.question}`,
-            bold: true,
-            size: FONT_SIZES.BODY,
-            font: FONT,
-            highlight: highlightAsNew ? "green" : undefined,
-          }),
-        ],
+        children: segmentsToTextRuns(
+          [{ text: `Q: ${faq.question}`, highlight: highlightAsNew, change: 'new' }],
+          { bold: true, size: FONT_SIZES.BODY },
+          markup
+        ),
         spacing: { before: 200, after: 100 },
       })
     );
@@ -1615,14 +904,11 @@ function generateFAQParagraphs(faqs: FAQ[], highlightAsNew: boolean = false): Pa
     // Answer
     paragraphs.push(
       new Paragraph({
-        children: [
-          new TextRun({
-            text: `A: ${faq.answer}`,
-            size: FONT_SIZES.BODY,
-            font: FONT,
-            highlight: highlightAsNew ? "green" : undefined,
-          }),
-        ],
+        children: segmentsToTextRuns(
+          [{ text: `A: ${faq.answer}`, highlight: highlightAsNew, change: 'new' }],
+          { size: FONT_SIZES.BODY },
+          markup
+        ),
         spacing: { after: 150 },
         indent: { left: convertInchesToTwip(0.25) },
       })
@@ -1708,238 +994,268 @@ function generateSchemaParagraphs(recommendations: SchemaRecommendation[]): Para
   return paragraphs;
 }
 
-function createMetadataTable(
-  crawledData: AnalysisResult['crawledData'],
-  optimizedContent: AnalysisResult['optimizedContent'],
-  keywords: AnalysisResult['keywords'],
-  settings: Settings
-): Table {
-  // Orange/peach shading for left column as per requirements
-  const headerShading = { type: ShadingType.CLEAR, fill: 'f9cb9c' };
-  const tableBorder = {
-    style: BorderStyle.SINGLE,
-    size: 1,
-    color: 'CCCCCC',
-  };
-  const cellBorders = {
-    top: tableBorder,
-    bottom: tableBorder,
-    left: tableBorder,
-    right: tableBorder,
-  };
-
-  // Column widths in DXA: left ~30% (2800), right ~70% (6560)
-  const leftColWidth = { size: 2800, type: WidthType.DXA };
-  const rightColWidth = { size: 6560, type: WidthType.DXA };
+/**
+ * "Implementation Check" section - compares a re-audit of the live page with the original audit
+ */
+function generateImplementationCheck(reaudit: ReauditResult): (Paragraph | Table)[] {
+  const tableBorder = { style: BorderStyle.SINGLE, size: 1, color: 'CCCCCC' };
+  const cellBorders = { top: tableBorder, bottom: tableBorder, left: tableBorder, right: tableBorder };
 
-  // Filter and limit keywords to 5 most relevant for this page
-  const filteredKeywords = filterAndLimitKeywords(
-    keywords,
-    crawledData.url,
-    crawledData.title
-  );
+  const createCell = (text: string, options: { header?: boolean; bold?: boolean; color?: string } = {}): TableCell =>
+    new TableCell({
+      children: [
+        new Paragraph({
+          children: [new TextRun({
+            text,
+            bold: options.header || options.bold,
+            size: FONT_SIZES.CODE,
+            color: options.header ? 'FFFFFF' : options.color,
+            font: FONT,
+          })],
+        }),
+      ],
+      shading: options.header ? { type: ShadingType.CLEAR, fill: '1E40AF' } : undefined,
+      borders: cellBorders,
+      verticalAlign: VerticalAlign.CENTER,
+    });
 
-  // Format filtered keywords with volume for display
-  const keywordText = formatKeywordsForDocument(filteredKeywords);
+  const adoptionColor = (status: AdoptionStatus) =>
+    status === 'adopted' ? '15803D' : status === 'partial' ? 'B45309' : 'B91C1C';
 
-  const rows: TableRow[] = [
-    // Target Keywords
-    new TableRow({
+  const delta = reaudit.scoreDelta;
+  const elements: (Paragraph | Table)[] = [
+    new Paragraph({
       children: [
-        new TableCell({
-          children: [
-            new Paragraph({
-              children: [
-                new TextRun({ text: 'Target Keyword(s)', bold: true, size: 22, font: FONT }),
-              ],
-            }),
-          ],
-          width: leftColWidth,
-          shading: headerShading,
-          borders: cellBorders,
-        }),
-        new TableCell({
-          children: [
-            new Paragraph({
-              children: [
-                new TextRun({ text: keywordText, size: 22, font: FONT }),
-              ],
-            }),
-          ],
-          width: rightColWidth,
-          borders: cellBorders,
+        new TextRun({
+          text: 'Implementation Check',
+          bold: true,
+          size: FONT_SIZES.HEADING2,
+          font: FONT,
+          color: COLORS.SECONDARY,
         }),
       ],
+      heading: HeadingLevel.HEADING_2,
+      spacing: { before: 400, after: 200 },
     }),
-
-    // Target Page URL
-    new TableRow({
+    new Paragraph({
       children: [
-        new TableCell({
-          children: [
-            new Paragraph({
-              children: [
-                new TextRun({ text: 'Target Page URL', bold: true, size: 22, font: FONT }),
-              ],
-            }),
-          ],
-          width: leftColWidth,
-          shading: headerShading,
-          borders: cellBorders,
+        new TextRun({
+          text: `Live page re-audited on ${new Date(reaudit.auditedAt).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}. `,
+          font: FONT,
+          size: FONT_SIZES.BODY,
         }),
-        new TableCell({
-          children: [
-            new Paragraph({
-              children: [
-                new TextRun({ text: crawledData.url, size: 22, font: FONT, color: COLORS.LINK }),
-              ],
-            }),
-          ],
-          width: rightColWidth,
-          borders: cellBorders,
+        new TextRun({
+          text: `SEO score: ${reaudit.previousScore} → ${reaudit.currentScore} (${delta > 0 ? '+' : ''}${delta})`,
+          font: FONT,
+          size: FONT_SIZES.BODY,
+          bold: true,
+          color: delta > 0 ? '15803D' : delta < 0 ? 'B91C1C' : COLORS.TEXT,
         }),
       ],
+      spacing: { after: 200 },
     }),
-
-    // Updated Title Tag
-    new TableRow({
-      children: [
-        new TableCell({
-          children: [
-            new Paragraph({
-              children: [
-                new TextRun({ text: 'Updated Title Tag', bold: true, size: 22, font: FONT }),
-              ],
-            }),
-          ],
-          width: leftColWidth,
-          shading: headerShading,
-          borders: cellBorders,
-        }),
-        new TableCell({
-          children: [
-            new Paragraph({
-              children: [
-                new TextRun({
-                  text: `${cleanMarkersForDisplay(optimizedContent.metaTitle)} (${cleanMarkersForDisplay(optimizedContent.metaTitle).length} chars)`,
-                  size: 22,
-                  font: FONT,
-                  highlight: "green",
-                }),
-              ],
-            }),
-          ],
-          width: rightColWidth,
-          borders: cellBorders,
+    new Table({
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      rows: [
+        new TableRow({
+          children: ['Element', 'Recommended', 'Live Page', 'Status'].map((text) => createCell(text, { header: true })),
         }),
+        ...reaudit.adoption.map((item) =>
+          new TableRow({
+            children: [
+              createCell(ADOPTION_ELEMENT_LABELS[item.element], { bold: true }),
+              createCell(displayText(item.recommended)),
+              createCell(displayText(item.current)),
+              createCell(ADOPTION_STATUS_LABELS[item.status], { bold: true, color: adoptionColor(item.status) }),
+            ],
+          })
+        ),
       ],
     }),
+  ];
 
-    // Updated Meta Description
-    new TableRow({
-      children: [
-        new TableCell({
-          children: [
-            new Paragraph({
-              children: [
-                new TextRun({ text: 'Updated Meta Description', bold: true, size: 22, font: FONT }),
-              ],
-            }),
-          ],
-          width: leftColWidth,
-          shading: headerShading,
-          borders: cellBorders,
-        }),
-        new TableCell({
-          children: [
-            new Paragraph({
+  const issueList = (title: string, issues: ReauditResult['resolvedIssues']) => [
+    new Paragraph({
+      children: [new TextRun({ text: `${title} (${issues.length})`, bold: true, font: FONT, size: FONT_SIZES.BODY })],
+      spacing: { before: 240, after: 100 },
+    }),
+    ...(issues.length > 0
+      ? issues.map((issue) => createHighlightedBullet(issue.message))
+      : [createHighlightedParagraph('None', false, { italics: true })]),
+  ];
+
+  elements.push(
+    ...issueList('Issues Resolved', reaudit.resolvedIssues),
+    ...issueList('New Issues', reaudit.introducedIssues)
+  );
+
+  if (reaudit.densityChanges.length > 0) {
+    elements.push(
+      new Paragraph({
+        children: [new TextRun({ text: 'Keyword Density Changes', bold: true, font: FONT, size: FONT_SIZES.BODY })],
+        spacing: { before: 240, after: 100 },
+      }),
+      new Table({
+        width: { size: 100, type: WidthType.PERCENTAGE },
+        rows: [
+          new TableRow({
+            children: ['Keyword', 'Before', 'After', 'Change'].map((text) => createCell(text, { header: true })),
+          }),
+          ...reaudit.densityChanges.slice(0, 15).map((change) =>
+            new TableRow({
               children: [
-                new TextRun({
-                  text: `${cleanMarkersForDisplay(optimizedContent.metaDescription)} (${cleanMarkersForDisplay(optimizedContent.metaDescription).length} chars)`,
-                  size: 22,
-                  font: FONT,
-                  highlight: "green",
-                }),
+                createCell(change.keyword),
+                createCell(`${change.before.toFixed(2)}%`),
+                createCell(`${change.after.toFixed(2)}%`),
+                createCell(`${change.delta > 0 ? '+' : ''}${change.delta.toFixed(2)}`),
               ],
-            }),
-          ],
-          width: rightColWidth,
-          borders: cellBorders,
+            })
+          ),
+        ],
+      })
+    );
+  }
+
+  return elements;
+}
+
+/**
+ * "Keyword Cannibalization" section - keywords this page shares with other checked pages
+ */
+function generateCannibalizationSection(section: CannibalizationSection): (Paragraph | Table)[] {
+  const tableBorder = { style: BorderStyle.SINGLE, size: 1, color: 'CCCCCC' };
+  const cellBorders = { top: tableBorder, bottom: tableBorder, left: tableBorder, right: tableBorder };
+
+  const createCell = (text: string, options: { header?: boolean; bold?: boolean; color?: string } = {}): TableCell =>
+    new TableCell({
+      children: text.split('\n').map((line) =>
+        new Paragraph({
+          children: [new TextRun({
+            text: line,
+            bold: options.header || options.bold,
+            size: FONT_SIZES.CODE,
+            color: options.header ? 'FFFFFF' : options.color,
+            font: FONT,
+          })],
+        })
+      ),
+      shading: options.header ? { type: ShadingType.CLEAR, fill: '1E40AF' } : undefined,
+      borders: cellBorders,
+      verticalAlign: VerticalAlign.CENTER,
+    });
+
+  const elements: (Paragraph | Table)[] = [
+    new Paragraph({
+      children: [
+        new TextRun({
+          text: 'Keyword Cannibalization',
+          bold: true,
+          size: FONT_SIZES.HEADING2,
+          font: FONT,
+          color: COLORS.SECONDARY,
         }),
       ],
+      heading: HeadingLevel.HEADING_2,
+      spacing: { before: 400, after: 200 },
     }),
+    createHighlightedParagraph(
+      `Checked against ${section.pageCount - 1} other analyzed page${section.pageCount === 2 ? '' : 's'} on ${section.domain}.`,
+      false
+    ),
+  ];
 
-    // Current H1
-    new TableRow({
-      children: [
-        new TableCell({
-          children: [
-            new Paragraph({
-              children: [
-                new TextRun({ text: 'Current H1', bold: true, size: 22, font: FONT }),
-              ],
-            }),
-          ],
-          width: leftColWidth,
-          shading: headerShading,
-          borders: cellBorders,
+  if (section.rows.length === 0) {
+    elements.push(createHighlightedParagraph("No other checked page competes for this page's keywords.", false, { italics: true }));
+    return elements;
+  }
+
+  elements.push(
+    new Table({
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      rows: [
+        new TableRow({
+          children: ['Keyword', 'Severity', 'Should Own', 'Competing Pages', 'Action for This Page'].map((text) =>
+            createCell(text, { header: true })
+          ),
         }),
-        new TableCell({
-          children: [
-            new Paragraph({
-              children: [
-                new TextRun({
-                  text: crawledData.h1[0] || 'No H1 found',
-                  size: 22,
-                  font: FONT,
-                  italics: !crawledData.h1[0],
-                }),
-              ],
-            }),
-          ],
-          width: rightColWidth,
-          borders: cellBorders,
+        ...section.rows.map((row) =>
+          new TableRow({
+            children: [
+              createCell(row.keyword, { bold: true }),
+              createCell(CANNIBALIZATION_SEVERITY_LABELS[row.severity], {
+                bold: true,
+                color: row.severity === 'high' ? 'B91C1C' : 'B45309',
+              }),
+              createCell(row.ownerUrl),
+              createCell(row.competingUrls.join('\n')),
+              createCell(row.action),
+            ],
+          })
+        ),
+      ],
+    })
+  );
+
+  return elements;
+}
+
+function generateRuleCheckSection(compliance: ComplianceReport): (Paragraph | Table)[] {
+  const tableBorder = { style: BorderStyle.SINGLE, size: 1, color: 'CCCCCC' };
+  const cellBorders = { top: tableBorder, bottom: tableBorder, left: tableBorder, right: tableBorder };
+
+  const createCell = (text: string, options: { header?: boolean; bold?: boolean; color?: string } = {}): TableCell =>
+    new TableCell({
+      children: [
+        new Paragraph({
+          children: [new TextRun({
+            text,
+            bold: options.header || options.bold,
+            size: FONT_SIZES.CODE,
+            color: options.header ? 'FFFFFF' : options.color,
+            font: FONT,
+          })],
         }),
       ],
-    }),
+      shading: options.header ? { type: ShadingType.CLEAR, fill: '1E40AF' } : undefined,
+      borders: cellBorders,
+      verticalAlign: VerticalAlign.CENTER,
+    });
 
-    // New H1 - strip any [[KEYWORD:]] markers for clean display
-    new TableRow({
+  return [
+    new Paragraph({
       children: [
-        new TableCell({
-          children: [
-            new Paragraph({
-              children: [
-                new TextRun({ text: 'New H1', bold: true, size: 22, font: FONT }),
-              ],
-            }),
-          ],
-          width: leftColWidth,
-          shading: headerShading,
-          borders: cellBorders,
+        new TextRun({
+          text: 'Optimization Rule Check',
+          bold: true,
+          size: FONT_SIZES.HEADING2,
+          font: FONT,
+          color: COLORS.SECONDARY,
         }),
-        new TableCell({
-          children: [
-            new Paragraph({
-              children: [
-                new TextRun({
-                  text: cleanMarkersForDisplay(optimizedContent.h1),
-                  size: 22,
-                  font: FONT,
-                  highlight: "green",
-                }),
-              ],
-            }),
-          ],
-          width: rightColWidth,
-          borders: cellBorders,
+      ],
+      heading: HeadingLevel.HEADING_2,
+      spacing: { before: 400, after: 200 },
+    }),
+    createHighlightedParagraph(describeCompliance(compliance), false),
+    new Table({
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      rows: [
+        new TableRow({
+          children: ['Rule', 'Result', 'Measured', 'Target'].map((text) => createCell(text, { header: true })),
         }),
+        ...compliance.checks.map((check) =>
+          new TableRow({
+            children: [
+              createCell(COMPLIANCE_RULE_LABELS[check.rule], { bold: true }),
+              createCell(check.passed ? 'Passed' : 'Failed', {
+                bold: true,
+                color: check.passed ? '15803D' : 'B91C1C',
+              }),
+              createCell(check.actual),
+              createCell(check.expected),
+            ],
+          })
+        ),
       ],
     }),
   ];
-
-  return new Table({
-    width: { size: 100, type: WidthType.PERCENTAGE },
-    rows,
-  });
 }
@@ -0,0 +1,318 @@
+/**
+ * HTML Renderer - Renders the report model as HTML
+ *
+ * Two variants:
+ * - Standalone report: full HTML page with the meta table, changes in <mark>
+ * - Paste-ready: bare content markup for CMS editors, no highlights or styling
+ */
+
+import type { ComplianceReport, ReauditResult } from '@/types';
+import { COMPLIANCE_RULE_LABELS } from './compliance-checker';
+import { formatKeywordsForDocument } from './keyword-processor';
+import {
+  ADOPTION_ELEMENT_LABELS,
+  ADOPTION_STATUS_LABELS,
+  CANNIBALIZATION_SEVERITY_LABELS,
+  describeChunking,
+  describeCompliance,
+  formatMetaAlternate,
+  type CannibalizationSection,
+  type ContentBlock,
+  type ContentSegment,
+  type ReportModel,
+} from './report-model';
+
+const REPORT_STYLES = `
+  body { font-family: Poppins, -apple-system, "Segoe UI", sans-serif; color: #1a1a1a; max-width: 860px; margin: 40px auto; padding: 0 24px; line-height: 1.6; }
+  h1.report-title { font-size: 28px; margin-bottom: 4px; }
+  h1, h2, h3 { color: #1e3a5f; line-height: 1.3; }
+  h2 { color: #2c5282; }
+  h3 { color: #3c6997; }
+  a { color: #2563eb; }
+  mark { background: #c6efce; padding: 0 2px; }
+  .target-url { font-size: 14px; color: #374151; margin-bottom: 24px; }
+  .reading-guide { background: #f0fdf4; border-left: 4px solid #22c55e; padding: 12px 16px; margin: 16px 0 24px; font-size: 14px; }
+  table { border-collapse: collapse; width: 100%; margin: 12px 0 24px; font-size: 13px; }
+  th { background: #1e40af; color: #fff; text-align: left; }
+  th, td { border: 1px solid #ccc; padding: 8px; vertical-align: top; }
+  td.label { background: #f9cb9c; font-weight: 600; white-space: nowrap; }
+  td.why { font-style: italic; color: #4b5563; font-size: 12px; }
+  .alternates { color: #4b5563; font-size: 12px; margin-top: 8px; }
+  .alternates ul { margin: 2px 0 0; padding-left: 16px; }
+  .section-label { color: #2563eb; font-weight: 700; letter-spacing: 0.05em; margin-top: 32px; }
+  .faq-question { font-weight: 600; margin-bottom: 4px; }
+  .faq-answer { margin-top: 0; padding-left: 16px; }
+  .schema-reason { font-style: italic; color: #4b5563; margin-top: 0; }
+  pre { background: #f3f4f6; padding: 12px; overflow-x: auto; font-size: 12px; }
+  .adopted { color: #15803d; font-weight: 600; }
+  .partial { color: #b45309; font-weight: 600; }
+  .not_adopted { color: #b91c1c; font-weight: 600; }
+`;
+
+/**
+ * Standalone HTML report with highlighted changes
+ */
+export function renderHtmlReport(model: ReportModel): string {
+  const parts: string[] = [];
+
+  parts.push(`<h1 class="report-title">${escapeHtml(model.title)}</h1>`);
+  parts.push(
+    `<p class="target-url"><strong>Target Page:</strong> ${
+      model.targetUrl
+        ? `<a href="${escapeAttribute(model.targetUrl)}">${escapeHtml(model.targetUrl)}</a>`
+        : '<em>Not yet published (analyzed from pasted content)</em>'
+    }</p>`
+  );
+  if (model.targetKeywords.length > 0) {
+    parts.push(
+      `<p class="target-url"><strong>Target Keywords:</strong> ${escapeHtml(formatKeywordsForDocument(model.targetKeywords))}</p>`
+    );
+  }
+  parts.push(
+    `<div class="reading-guide"><strong>Reading Guide:</strong> Words highlighted in <mark>green</mark> are keyword insertions or small adjustments. The rest of the content remains unchanged from the original page.${
+      model.chunking ? ` ${escapeHtml(describeChunking(model.chunking))}` : ''
+    }</div>`
+  );
+
+  parts.push('<h2>Current vs Optimized Meta Elements</h2>');
+  parts.push('<table>');
+  parts.push('<thead><tr><th>Element</th><th>Current</th><th>Optimized</th><th>Why Changed</th></tr></thead>');
+  parts.push('<tbody>');
+  for (const row of model.metaRows) {
+    parts.push(
+      `<tr><td class="label">${escapeHtml(row.element)}</td><td>${escapeHtml(row.current || 'Not set')}</td><td><mark>${escapeHtml(row.optimized || 'Not set')}</mark>${
+        row.alternates
+          ? `<div class="alternates"><strong>Alternatives:</strong><ul>${row.alternates.map((alternate) => `<li>${escapeHtml(formatMetaAlternate(alternate))}</li>`).join('')}</ul></div>`
+          : ''
+      }</td><td class="why">${escapeHtml(row.why)}</td></tr>`
+    );
+  }
+  parts.push('</tbody></table>');
+
+  parts.push('<p class="section-label">OPTIMIZED CONTENT</p>');
+  parts.push(renderContent(model, true));
+
+  if (model.faqs.length > 0) {
+    parts.push('<h2><mark>Frequently Asked Questions</mark></h2>');
+    for (const faq of model.faqs) {
+      parts.push(`<p class="faq-question"><mark>Q: ${escapeHtml(faq.question)}</mark></p>`);
+      parts.push(`<p class="faq-answer"><mark>A: ${escapeHtml(faq.answer)}</mark></p>`);
+    }
+  }
+
+  if (model.schemaRecommendations.length > 0) {
+    parts.push('<h2><mark>Schema Markup Recommendations</mark></h2>');
+    for (const recommendation of model.schemaRecommendations) {
+      parts.push(`<h3><mark>${escapeHtml(recommendation.type)}</mark></h3>`);
+      parts.push(`<p class="schema-reason">${escapeHtml(recommendation.reason)}</p>`);
+      parts.push(`<pre><code>${escapeHtml(formatJsonLd(recommendation.jsonLd))}</code></pre>`);
+    }
+  }
+
+  if (model.reaudit) {
+    parts.push(renderImplementationCheck(model.reaudit));
+  }
+
+  if (model.cannibalization) {
+    parts.push(renderCannibalization(model.cannibalization));
+  }
+
+  if (model.compliance) {
+    parts.push(renderRuleCheck(model.compliance));
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(model.title)}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+${parts.join('\n')}
+</body>
+</html>
+`;
+}
+
+/**
+ * Paste-ready HTML: the optimized page content only, without highlights,
+ * with FAQs and schema JSON-LD script tags ready for a CMS
+ */
+export function renderPasteReadyHtml(model: ReportModel): string {
+  const [title, description] = model.metaRows;
+  const parts: string[] = [
+    `<!-- Meta title: ${escapeComment(title?.optimized || '')} -->`,
+    `<!-- Meta description: ${escapeComment(description?.optimized || '')} -->`,
+    renderContent(model, false),
+  ];
+
+  if (model.faqs.length > 0) {
+    parts.push('<h2>Frequently Asked Questions</h2>');
+    for (const faq of model.faqs) {
+      parts.push(`<h3>${escapeHtml(faq.question)}</h3>`);
+      parts.push(`<p>${escapeHtml(faq.answer)}</p>`);
+    }
+  }
+
+  for (const recommendation of model.schemaRecommendations) {
+    parts.push(
+      `<script type="application/ld+json">\n${formatJsonLd(recommendation.jsonLd).replace(/<\/script/gi, '<\\/script')}\n</script>`
+    );
+  }
+
+  return parts.join('\n') + '\n';
+}
+
+function renderContent(model: ReportModel, highlight: boolean): string {
+  const lines = [`<h1>${renderSegments(model.h1, highlight)}</h1>`];
+  let openList: 'ul' | 'ol' | null = null;
+
+  const closeList = () => {
+    if (openList) {
+      lines.push(`</${openList}>`);
+      openList = null;
+    }
+  };
+
+  for (const block of model.blocks) {
+    const listTag = listTagFor(block);
+    if (listTag !== openList) {
+      closeList();
+      if (listTag) {
+        lines.push(`<${listTag}>`);
+        openList = listTag;
+      }
+    }
+
+    const html = renderSegments(block.segments, highlight);
+    switch (block.type) {
+      case 'heading':
+        lines.push(`<h${block.level}>${html}</h${block.level}>`);
+        break;
+      case 'bullet':
+      case 'numbered':
+        lines.push(`<li>${html}</li>`);
+        break;
+      default:
+        lines.push(`<p>${html}</p>`);
+    }
+  }
+  closeList();
+
+  return lines.join('\n');
+}
+
+function listTagFor(block: ContentBlock): 'ul' | 'ol' | null {
+  if (block.type === 'bullet') return 'ul';
+  if (block.type === 'numbered') return 'ol';
+  return null;
+}
+
+function renderSegments(segments: ContentSegment[], highlight: boolean): string {
+  return segments
+    .map((segment) =>
+      highlight && segment.highlight
+        ? `<mark${segment.reason ? ` title="${escapeAttribute(segment.reason)}"` : ''}>${escapeHtml(segment.text)}</mark>`
+        : escapeHtml(segment.text)
+    )
+    .join('')
+    .trim();
+}
+
+function renderImplementationCheck(reaudit: ReauditResult): string {
+  const delta = `${reaudit.scoreDelta > 0 ? '+' : ''}${reaudit.scoreDelta}`;
+
+  const issueList = (issues: ReauditResult['resolvedIssues']) =>
+    issues.length > 0
+      ? `<ul>${issues.map((issue) => `<li>${escapeHtml(issue.message)}</li>`).join('')}</ul>`
+      : '<p><em>None</em></p>';
+
+  const parts = [
+    '<h2>Implementation Check</h2>',
+    `<p>Live page re-audited on ${escapeHtml(new Date(reaudit.auditedAt).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' }))}. <strong>SEO score: ${reaudit.previousScore} → ${reaudit.currentScore} (${delta})</strong></p>`,
+    '<table><thead><tr><th>Element</th><th>Recommended</th><th>Live Page</th><th>Status</th></tr></thead><tbody>',
+    ...reaudit.adoption.map((item) =>
+      `<tr><td class="label">${ADOPTION_ELEMENT_LABELS[item.element]}</td><td>${escapeHtml(item.recommended || 'Not set')}</td><td>${escapeHtml(item.current || 'Not set')}</td><td class="${item.status}">${ADOPTION_STATUS_LABELS[item.status]}</td></tr>`
+    ),
+    '</tbody></table>',
+    `<h3>Issues Resolved (${reaudit.resolvedIssues.length})</h3>`,
+    issueList(reaudit.resolvedIssues),
+    `<h3>New Issues (${reaudit.introducedIssues.length})</h3>`,
+    issueList(reaudit.introducedIssues),
+  ];
+
+  if (reaudit.densityChanges.length > 0) {
+    parts.push(
+      '<h3>Keyword Density Changes</h3>',
+      '<table><thead><tr><th>Keyword</th><th>Before</th><th>After</th><th>Change</th></tr></thead><tbody>',
+      ...reaudit.densityChanges.slice(0, 15).map((change) =>
+        `<tr><td>${escapeHtml(change.keyword)}</td><td>${change.before.toFixed(2)}%</td><td>${change.after.toFixed(2)}%</td><td>${change.delta > 0 ? '+' : ''}${change.delta.toFixed(2)}</td></tr>`
+      ),
+      '</tbody></table>'
+    );
+  }
+
+  return parts.join('\n');
+}
+
+function renderCannibalization(section: CannibalizationSection): string {
+  const parts = [
+    '<h2>Keyword Cannibalization</h2>',
+    `<p>Checked against ${section.pageCount - 1} other analyzed page${section.pageCount === 2 ? '' : 's'} on ${escapeHtml(section.domain)}.</p>`,
+  ];
+
+  if (section.rows.length === 0) {
+    parts.push('<p><em>No other checked page competes for this page&#39;s keywords.</em></p>');
+    return parts.join('\n');
+  }
+
+  parts.push(
+    '<table><thead><tr><th>Keyword</th><th>Severity</th><th>Should Own</th><th>Competing Pages</th><th>Action for This Page</th></tr></thead><tbody>',
+    ...section.rows.map((row) =>
+      `<tr><td class="label">${escapeHtml(row.keyword)}</td><td>${CANNIBALIZATION_SEVERITY_LABELS[row.severity]}</td><td>${escapeHtml(row.ownerUrl)}</td><td>${row.competingUrls.map(escapeHtml).join('<br>')}</td><td>${escapeHtml(row.action)}</td></tr>`
+    ),
+    '</tbody></table>'
+  );
+
+  return parts.join('\n');
+}
+
+function renderRuleCheck(compliance: ComplianceReport): string {
+  return [
+    '<h2>Optimization Rule Check</h2>',
+    `<p>${escapeHtml(describeCompliance(compliance))}</p>`,
+    '<table><thead><tr><th>Rule</th><th>Result</th><th>Measured</th><th>Target</th></tr></thead><tbody>',
+    ...compliance.checks.map((check) =>
+      `<tr><td class="label">${COMPLIANCE_RULE_LABELS[check.rule]}</td><td>${check.passed ? 'Passed' : '<strong>Failed</strong>'}</td><td>${escapeHtml(check.actual)}</td><td>${escapeHtml(check.expected)}</td></tr>`
+    ),
+    '</tbody></table>',
+  ].join('\n');
+}
+
+/**
+ * Pretty-print JSON-LD, falling back to the original text if it doesn't parse
+ */
+export function formatJsonLd(jsonLd: string): string {
+  try {
+    return JSON.stringify(JSON.parse(jsonLd), null, 2);
+  } catch {
+    return jsonLd;
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+function escapeAttribute(text: string): string {
+  return escapeHtml(text).replace(/"/g, '&quot;');
+}
+
+function escapeComment(text: string): string {
+  return text.replace(/--/g, '- -');
+}
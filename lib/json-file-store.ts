@@ -0,0 +1,121 @@
+/**
+ * JSON File Store - Shared file handling for the JSON-backed repositories
+ *
+ * Each record is stored as <id>.json in one directory. Writes go through a
+ * temp file and a rename so a crash never leaves a half-written record, and
+ * updates to one record run one after another so concurrent requests in this
+ * process don't overwrite each other's changes.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface JsonFileStore<T extends { id: string }> {
+  // Whether the ID could belong to this store (IDs double as filenames)
+  isValidId(id: string): boolean;
+  read(id: string): Promise<T | null>;
+  // Every record in the directory, in no particular order
+  readAll(): Promise<T[]>;
+  write(record: T): Promise<void>;
+  // Read the latest copy, apply change and write the result back; returns null if the record is gone.
+  // change may edit the record in place or return a replacement.
+  update(id: string, change: (record: T) => T | void): Promise<T | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+export interface JsonFileStoreOptions {
+  // Only IDs matching this pattern are read or written
+  idPattern: RegExp;
+  // Indent the JSON so files are easy to edit by hand
+  pretty?: boolean;
+}
+
+/**
+ * Create a store for records saved as <id>.json in directory
+ */
+export function createJsonFileStore<T extends { id: string }>(
+  directory: string,
+  { idPattern, pretty = false }: JsonFileStoreOptions
+): JsonFileStore<T> {
+  const filePath = (id: string) => path.join(directory, `${id}.json`);
+  const pending = new Map<string, Promise<unknown>>();
+
+  const read = async (id: string): Promise<T | null> => {
+    if (!idPattern.test(id)) return null;
+    try {
+      return JSON.parse(await fs.readFile(filePath(id), 'utf-8')) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  };
+
+  const write = async (record: T): Promise<void> => {
+    await fs.mkdir(directory, { recursive: true });
+    const tempPath = `${filePath(record.id)}.tmp`;
+    await fs.writeFile(tempPath, pretty ? JSON.stringify(record, null, 2) : JSON.stringify(record), 'utf-8');
+    await fs.rename(tempPath, filePath(record.id));
+  };
+
+  return {
+    isValidId: (id) => idPattern.test(id),
+
+    read,
+
+    async readAll() {
+      let files: string[];
+      try {
+        files = await fs.readdir(directory);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw error;
+      }
+
+      const records: T[] = [];
+      for (const file of files) {
+        if (!file.endsWith('.json')) continue;
+        const record = await read(file.replace(/\.json$/, ''));
+        if (record) records.push(record);
+      }
+      return records;
+    },
+
+    write,
+
+    update(id, change) {
+      const run = (pending.get(id) || Promise.resolve()).then(async () => {
+        const record = await read(id);
+        if (!record) return null;
+        const updated = change(record) || record;
+        await write(updated);
+        return updated;
+      });
+
+      const settled = run.catch(() => undefined);
+      pending.set(id, settled);
+      settled.then(() => {
+        if (pending.get(id) === settled) pending.delete(id);
+      });
+
+      return run;
+    },
+
+    async delete(id) {
+      if (!idPattern.test(id)) return false;
+      try {
+        await fs.unlink(filePath(id));
+        return true;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+        throw error;
+      }
+    },
+  };
+}
+
+/**
+ * Create an ID of the form <prefix>_<time>_<random> for a new record
+ */
+export function createRecordId(prefix: string): string {
+  return `${prefix}_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+}
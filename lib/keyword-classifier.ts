@@ -0,0 +1,131 @@
+/**
+ * Keyword Classifier - Search intent tagging and near-duplicate clustering
+ *
+ * Intent comes from the export's own intent column when it has one (Semrush),
+ * otherwise from modifier words ("best", "price", "near me", "how to"...).
+ * Clusters group plurals, reordered words and stop-word variants
+ * ("teacher insurance", "insurance for teachers") under one head keyword so
+ * they don't compete with each other as separate targets. Keywords with
+ * different intents, or a question or "near me" on one side only, stay apart.
+ */
+
+import type { KeywordCluster, KeywordIntent, KeywordMetrics } from '@/types';
+import { tokenize } from './relevance-scorer';
+
+export const KEYWORD_INTENTS: KeywordIntent[] = ['informational', 'commercial', 'transactional', 'navigational', 'local'];
+
+const US_STATES = [
+  'alabama', 'alaska', 'arizona', 'arkansas', 'california', 'colorado', 'connecticut', 'delaware', 'florida',
+  'georgia', 'hawaii', 'idaho', 'illinois', 'indiana', 'iowa', 'kansas', 'kentucky', 'louisiana', 'maine',
+  'maryland', 'massachusetts', 'michigan', 'minnesota', 'mississippi', 'missouri', 'montana', 'nebraska',
+  'nevada', 'new hampshire', 'new jersey', 'new mexico', 'new york', 'north carolina', 'north dakota', 'ohio',
+  'oklahoma', 'oregon', 'pennsylvania', 'rhode island', 'south carolina', 'south dakota', 'tennessee', 'texas',
+  'utah', 'vermont', 'virginia', 'washington', 'west virginia', 'wisconsin', 'wyoming',
+];
+
+// Checked in this order; the first match wins. Unmatched keywords are informational.
+const INTENT_PATTERNS: Array<{ intent: KeywordIntent; patterns: RegExp[] }> = [
+  {
+    intent: 'navigational',
+    patterns: [/\b(login|log in|sign in|portal|my account|official (site|website)|customer service|phone number|contact)\b/],
+  },
+  {
+    intent: 'local',
+    patterns: [/\bnear (me|by)\b|\bnearby\b|\bin my area\b|\blocal\b/, /\b\d{5}\b/, new RegExp(`\\b(${US_STATES.join('|')})\\b`)],
+  },
+  {
+    intent: 'transactional',
+    patterns: [/\b(buy|purchase|order|prices?|pricing|costs?|quotes?|cheap(est)?|affordable|discount|coupon|deals?|for sale|apply|enroll(ment)?|sign up|register|hire|book|subscribe|download)\b/],
+  },
+  {
+    intent: 'commercial',
+    patterns: [/\b(best|top|reviews?|vs|versus|compare|comparison|alternatives?|rated|companies|providers|brands|options)\b/],
+  },
+  {
+    intent: 'informational',
+    patterns: [/^(who|what|when|where|why|how|is|are|can|do|does)\b/, /\?/, /\b(guide|tutorial|tips|examples?|definition|meaning|ideas|benefits|requirements|types of)\b/],
+  },
+];
+
+// Stop words that change what the searcher is after, kept in cluster keys: a question
+// ("what is teacher insurance") wants an answer, "near me" a local provider
+const INTENT_STOP_WORDS = new Set(['who', 'what', 'when', 'where', 'which', 'why', 'how', 'is', 'are', 'can', 'do', 'near', 'me', 'my']);
+
+// Semrush writes intents as words or single letters ("Commercial, Transactional" or "C, T")
+const EXPORT_INTENT_CODES: Record<string, KeywordIntent> = {
+  i: 'informational',
+  c: 'commercial',
+  t: 'transactional',
+  n: 'navigational',
+  l: 'local',
+};
+
+/**
+ * Search intent for a keyword; an intent value from the keyword export takes precedence
+ */
+export function classifyIntent(keyword: string, exportIntent?: string): KeywordIntent {
+  const fromExport = exportIntent ? parseExportIntent(exportIntent) : null;
+  if (fromExport) return fromExport;
+
+  const text = keyword.toLowerCase().trim();
+  for (const { intent, patterns } of INTENT_PATTERNS) {
+    if (patterns.some((pattern) => pattern.test(text))) {
+      return intent;
+    }
+  }
+  return 'informational';
+}
+
+function parseExportIntent(value: string): KeywordIntent | null {
+  // Multi-intent cells list the dominant intent first
+  const first = value.toLowerCase().split(/[,;/|]/)[0].trim();
+  if (EXPORT_INTENT_CODES[first]) return EXPORT_INTENT_CODES[first];
+  return KEYWORD_INTENTS.find((intent) => first.startsWith(intent)) ?? null;
+}
+
+/**
+ * Group keywords with the same intent whose stemmed terms (stop words dropped,
+ * apart from question and local modifiers) are the same set. Returns every
+ * cluster (including single keywords) in order of first appearance.
+ */
+export function clusterKeywords(keywords: string[], metrics?: Record<string, KeywordMetrics>): KeywordCluster[] {
+  const groups = new Map<string, string[]>();
+
+  for (const keyword of keywords) {
+    const key = clusterKey(keyword, classifyIntent(keyword, metrics?.[keyword.toLowerCase()]?.intent));
+    const members = groups.get(key) || [];
+    members.push(keyword);
+    groups.set(key, members);
+  }
+
+  return [...groups.values()].map((members) => {
+    const head = pickHead(members, metrics);
+    return {
+      head,
+      variants: members.filter((member) => member !== head),
+      intent: classifyIntent(head, metrics?.[head.toLowerCase()]?.intent),
+    };
+  });
+}
+
+function clusterKey(keyword: string, intent: KeywordIntent): string {
+  const modifiers = keyword.toLowerCase().split(/[^a-z0-9]+/).filter((word) => INTENT_STOP_WORDS.has(word));
+  const terms = [...new Set([...tokenize(keyword), ...modifiers])].sort();
+  return `${intent}:${terms.length > 0 ? terms.join(' ') : keyword.toLowerCase().trim()}`;
+}
+
+// Highest search volume wins; without volumes (or on a tie) the first listed keyword
+function pickHead(members: string[], metrics?: Record<string, KeywordMetrics>): string {
+  let head = members[0];
+  let headVolume = metrics?.[head.toLowerCase()]?.volume ?? -1;
+
+  for (const member of members.slice(1)) {
+    const volume = metrics?.[member.toLowerCase()]?.volume ?? -1;
+    if (volume > headVolume) {
+      head = member;
+      headVolume = volume;
+    }
+  }
+
+  return head;
+}
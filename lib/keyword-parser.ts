@@ -1,139 +1,390 @@
+/**
+ * Keyword Parser - Reads keyword lists from CSV/Excel exports
+ *
+ * Works with plain keyword lists and with Ahrefs, Semrush, Google Search
+ * Console and Keyword Planner exports. Columns are auto-detected from the
+ * header row; the caller can override the mapping after checking the preview.
+ * Volume, difficulty, CPC, intent and position are kept per keyword; intent
+ * tagging and clustering happen in categorizeKeywords (see keyword-classifier.ts).
+ *
+ * Workbooks can hold one sheet per page, so any sheet can be chosen. Research
+ * sheets laid out as "URL | keyword" are grouped into one KeywordData per URL.
+ */
+
 import * as XLSX from 'xlsx';
-import type { KeywordData } from '@/types';
+import type {
+  KeywordCluster,
+  KeywordColumn,
+  KeywordColumnMapping,
+  KeywordData,
+  KeywordExportSource,
+  KeywordIntent,
+  KeywordMetrics,
+  KeywordSheetPreview,
+  KeywordUrlGroup,
+  ParsedKeywordFile,
+} from '@/types';
+import { classifyIntent, clusterKeywords } from './keyword-classifier';
+import { isValidUrl } from './utils';
+
+// Data rows included in the mapping preview
+const PREVIEW_ROWS = 8;
+
+// Keywords picked as primary and secondary targets; the rest become NLP terms
+const PRIMARY_KEYWORD_COUNT = 5;
+const SECONDARY_KEYWORD_COUNT = 10;
+
+// Searchers after another site's page (login, contact, brand portals) can't be won by optimizing this one
+const NON_TARGET_INTENTS: KeywordIntent[] = ['navigational'];
+
+// Rows searched for the header (Keyword Planner puts a title and date range above it)
+const HEADER_SEARCH_ROWS = 5;
+
+// Header patterns per column. Columns are matched in this order and each
+// header can only be claimed once, so "Keyword Difficulty" becomes difficulty,
+// not keyword. Within a column, earlier patterns win.
+const COLUMN_PATTERNS: Array<{ column: KeywordColumn; patterns: RegExp[] }> = [
+  { column: 'difficulty', patterns: [/^kd( ?%)?$/, /keyword difficulty/, /^difficulty$/] },
+  { column: 'intent', patterns: [/intent/] },
+  // GSC exports have no volume; impressions are the closest proxy
+  { column: 'volume', patterns: [/search volume/, /^(global |monthly )?volume$/, /avg\.? monthly searches/, /^sv$/, /^impressions$/] },
+  { column: 'cpc', patterns: [/^cpc/, /cost per click/, /top of page bid \(high/] },
+  { column: 'position', patterns: [/^(current |avg\.? |average )?position$/, /^pos\.?$/, /^rank(ing)?$/] },
+  { column: 'url', patterns: [/^(target |landing )?(url|page)$/, /^(target|landing) page url$/, /^page url$/] },
+  { column: 'keyword', patterns: [/^keywords?$/, /^(top )?quer(y|ies)$/, /^search (term|query)$/, /^terms?$/, /keyword/] },
+];
+
+export const KEYWORD_COLUMNS: KeywordColumn[] = ['keyword', 'url', 'volume', 'difficulty', 'cpc', 'intent', 'position'];
+
+export interface KeywordParseOptions {
+  // Column mapping chosen in the preview; auto-detected when omitted
+  mapping?: KeywordColumnMapping;
+  // Worksheet to read; the first sheet when omitted or not found
+  sheet?: string;
+}
 
 export function parseKeywordsFromBuffer(buffer: Buffer, filename: string): KeywordData {
-  const extension = filename.toLowerCase().split('.').pop();
+  return parseKeywordFile(buffer, filename).keywords;
+}
 
-  if (extension === 'csv') {
-    return parseCSV(buffer.toString('utf-8'));
-  } else if (extension === 'xlsx' || extension === 'xls') {
-    return parseExcel(buffer);
+/**
+ * Parse a keyword file with the given sheet and column mapping (auto-detected when omitted)
+ */
+export function parseKeywordFile(buffer: Buffer, filename: string, options: KeywordParseOptions = {}): ParsedKeywordFile {
+  const { mapping } = options;
+  const { rows, sheets, sheet } = readRows(buffer, filename, options.sheet);
+  const columnCount = Math.max(0, ...rows.map((row) => row.length));
+  const headerIndex = findHeaderRow(rows, columnCount);
+
+  const headers = headerIndex >= 0
+    ? Array.from({ length: columnCount }, (_, i) => rows[headerIndex][i]?.trim() || `Column ${i + 1}`)
+    : Array.from({ length: columnCount }, (_, i) => `Column ${i + 1}`);
+  const dataRows = rows.slice(headerIndex + 1).filter((row) => row.some((cell) => cell.trim()));
+
+  const resolvedMapping = mapping ? validateMapping(mapping, columnCount) : detectColumnMapping(headers);
+  if (!mapping && resolvedMapping.url === undefined && headerIndex < 0) {
+    resolvedMapping.url = guessUrlColumn(dataRows, columnCount);
+  }
+  if (!mapping && resolvedMapping.keyword === undefined) {
+    resolvedMapping.keyword = guessKeywordColumn(dataRows, columnCount, resolvedMapping.url);
   }
 
-  throw new Error('Unsupported file format. Please upload .xlsx, .xls, or .csv files.');
+  const preview: KeywordSheetPreview = {
+    headers,
+    rows: dataRows.slice(0, PREVIEW_ROWS).map((row) => headers.map((_, i) => row[i] ?? '')),
+    totalRows: dataRows.length,
+    mapping: resolvedMapping,
+    source: headerIndex >= 0 ? detectExportSource(headers) : null,
+    sheets,
+    sheet,
+  };
+
+  const keywords = extractKeywords(dataRows, resolvedMapping);
+  if (resolvedMapping.url === undefined) {
+    return { keywords, preview };
+  }
+
+  return { keywords, preview, pages: groupKeywordsByUrl(dataRows, resolvedMapping) };
 }
 
-function parseCSV(content: string): KeywordData {
-  const lines = content.split(/\r?\n/).filter((line) => line.trim());
-  const keywords: string[] = [];
+/**
+ * One KeywordData per target URL, in the order URLs first appear. Rows with an
+ * empty URL cell belong to the URL above them (merged cells export that way).
+ */
+function groupKeywordsByUrl(rows: string[][], mapping: KeywordColumnMapping): KeywordUrlGroup[] {
+  const urlColumn = mapping.url;
+  if (urlColumn === undefined) return [];
+
+  const rowsByUrl = new Map<string, string[][]>();
+  let currentUrl: string | null = null;
+
+  for (const row of rows) {
+    const cell = (row[urlColumn] || '').trim();
+    if (cell) {
+      currentUrl = normalizeTargetUrl(cell);
+    }
+    if (!currentUrl) continue;
 
-  // Skip header if it looks like one
-  const startIndex = isHeaderRow(lines[0]) ? 1 : 0;
+    const urlRows = rowsByUrl.get(currentUrl) || [];
+    urlRows.push(row);
+    rowsByUrl.set(currentUrl, urlRows);
+  }
 
-  for (let i = startIndex; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
+  return [...rowsByUrl]
+    .map(([url, urlRows]) => ({ url, keywords: extractKeywords(urlRows, mapping) }))
+    .filter((group) => group.keywords.all.length > 0);
+}
 
-    // Split by comma but handle quoted fields
-    const fields = parseCSVLine(line);
+// Accept bare "example.com/page" cells; anything else that isn't an http(s) URL is skipped
+function normalizeTargetUrl(value: string): string | null {
+  if (isValidUrl(value)) return value;
+  if (/^[\w-]+(\.[\w-]+)+(\/\S*)?$/.test(value) && isValidUrl(`https://${value}`)) {
+    return `https://${value}`;
+  }
+  return null;
+}
 
-    // Try to find the keyword column (first non-empty, non-numeric column)
-    for (const field of fields) {
-      const cleaned = field.trim().replace(/^["']|["']$/g, '');
-      if (cleaned && !isNumericOnly(cleaned) && cleaned.length > 1) {
-        keywords.push(cleaned);
+/**
+ * Map header names to keyword columns
+ */
+export function detectColumnMapping(headers: string[]): KeywordColumnMapping {
+  const normalized = headers.map((header) => header.toLowerCase().replace(/\s+/g, ' ').trim());
+  const claimed = new Set<number>();
+  const mapping: KeywordColumnMapping = {};
+
+  for (const { column, patterns } of COLUMN_PATTERNS) {
+    for (const pattern of patterns) {
+      const index = normalized.findIndex((header, i) => !claimed.has(i) && pattern.test(header));
+      if (index >= 0) {
+        mapping[column] = index;
+        claimed.add(index);
         break;
       }
     }
   }
 
-  return categorizeKeywords(keywords);
+  return mapping;
 }
 
-function parseCSVLine(line: string): string[] {
-  const result: string[] = [];
-  let current = '';
-  let inQuotes = false;
+function detectExportSource(headers: string[]): KeywordExportSource | null {
+  const normalized = headers.map((header) => header.toLowerCase().trim());
+  const has = (pattern: RegExp) => normalized.some((header) => pattern.test(header));
 
-  for (const char of line) {
-    if (char === '"' || char === "'") {
-      inQuotes = !inQuotes;
-    } else if (char === ',' && !inQuotes) {
-      result.push(current);
-      current = '';
-    } else {
-      current += char;
+  if (has(/avg\.? monthly searches/)) return 'keyword-planner';
+  if (has(/^(top )?quer(y|ies)$/) && has(/^impressions$/)) return 'gsc';
+  if (has(/keyword intents?/) || (has(/search volume/) && has(/keyword difficulty/))) return 'semrush';
+  if (has(/^(kd|difficulty)$/) && has(/^volume$/)) return 'ahrefs';
+  return null;
+}
+
+function validateMapping(mapping: KeywordColumnMapping, columnCount: number): KeywordColumnMapping {
+  const valid: KeywordColumnMapping = {};
+  for (const column of KEYWORD_COLUMNS) {
+    const index = mapping[column];
+    if (typeof index === 'number' && Number.isInteger(index) && index >= 0 && index < columnCount) {
+      valid[column] = index;
     }
   }
-  result.push(current);
-
-  return result;
+  return valid;
 }
 
-function parseExcel(buffer: Buffer): KeywordData {
-  const workbook = XLSX.read(buffer, { type: 'buffer' });
-  const keywords: string[] = [];
+function extractKeywords(rows: string[][], mapping: KeywordColumnMapping): KeywordData {
+  const keywordColumn = mapping.keyword;
+  if (keywordColumn === undefined) {
+    return emptyKeywordData();
+  }
 
-  // Process first sheet
-  const sheetName = workbook.SheetNames[0];
-  const sheet = workbook.Sheets[sheetName];
-  const data = XLSX.utils.sheet_to_json(sheet, { header: 1 }) as unknown[][];
+  const keywords: string[] = [];
+  const metrics: Record<string, KeywordMetrics> = {};
+
+  for (const row of rows) {
+    const keyword = (row[keywordColumn] || '').trim().replace(/^["']|["']$/g, '');
+    if (!keyword || keyword.length < 2 || isNumericOnly(keyword)) continue;
+
+    keywords.push(keyword);
+
+    const key = keyword.toLowerCase();
+    if (metrics[key]) continue;
+
+    const entry: KeywordMetrics = {
+      volume: readNumber(row, mapping.volume),
+      difficulty: readNumber(row, mapping.difficulty),
+      cpc: readNumber(row, mapping.cpc),
+      position: readNumber(row, mapping.position),
+      intent: mapping.intent !== undefined ? row[mapping.intent]?.trim() || undefined : undefined,
+    };
+    // Drop empty fields so keywords without metrics don't get an entry
+    const filled = Object.fromEntries(Object.entries(entry).filter(([, value]) => value !== undefined));
+    if (Object.keys(filled).length > 0) {
+      metrics[key] = filled;
+    }
+  }
 
-  if (data.length === 0) {
-    return emptyKeywordData();
+  if (Object.keys(metrics).length === 0) {
+    return categorizeKeywords(keywords);
   }
+  return { ...categorizeKeywords(keywords, metrics), metrics };
+}
 
-  // Find the keyword column
-  let keywordColIndex = 0;
-  const firstRow = data[0];
+function readNumber(row: string[], index: number | undefined): number | undefined {
+  return index === undefined ? undefined : parseMetricNumber(row[index] || '');
+}
 
-  if (Array.isArray(firstRow)) {
-    // Check if first row is a header
-    const headerKeywords = ['keyword', 'keywords', 'term', 'terms', 'query', 'search term'];
-    for (let i = 0; i < firstRow.length; i++) {
-      const cell = String(firstRow[i] || '').toLowerCase().trim();
-      if (headerKeywords.some((h) => cell.includes(h))) {
-        keywordColIndex = i;
-        break;
-      }
+/**
+ * Read "1,900", "$2.35", "12%", "1.2K" and ranges like "1K – 10K" (lower bound)
+ */
+export function parseMetricNumber(value: string): number | undefined {
+  const text = value.trim().toLowerCase().replace(/[$€£,\s%<>]/g, '');
+  const match = text.match(/^(\d+(?:\.\d+)?)([km])?/);
+  if (!match) return undefined;
+
+  const multiplier = match[2] === 'k' ? 1_000 : match[2] === 'm' ? 1_000_000 : 1;
+  return parseFloat(match[1]) * multiplier;
+}
+
+// The first row within HEADER_SEARCH_ROWS that names a keyword column or two known columns.
+// Title lines above the header fill a single cell, so multi-column files need two filled cells.
+function findHeaderRow(rows: string[][], columnCount: number): number {
+  for (let i = 0; i < Math.min(rows.length, HEADER_SEARCH_ROWS); i++) {
+    if (rows[i].filter((cell) => cell.trim()).length < Math.min(2, columnCount)) continue;
+    const mapping = detectColumnMapping(rows[i]);
+    if (mapping.keyword !== undefined || Object.keys(mapping).length >= 2) {
+      return i;
     }
   }
+  return -1;
+}
 
-  // Determine start row (skip header if present)
-  const startRow = isHeaderRow(String(data[0]?.[keywordColIndex] || '')) ? 1 : 0;
-
-  // Extract keywords
-  for (let i = startRow; i < data.length; i++) {
-    const row = data[i];
-    if (Array.isArray(row)) {
-      const value = row[keywordColIndex];
-      if (value && typeof value === 'string' && value.trim()) {
-        keywords.push(value.trim());
-      } else if (value && typeof value === 'number') {
-        // Skip numeric-only values
-      } else if (typeof value === 'string') {
-        const trimmed = String(value).trim();
-        if (trimmed && !isNumericOnly(trimmed)) {
-          keywords.push(trimmed);
-        }
+// Without a header, use the first column (other than the URL column) that mostly holds text
+function guessKeywordColumn(rows: string[][], columnCount: number, urlColumn?: number): number | undefined {
+  const sample = rows.slice(0, 20);
+  for (let i = 0; i < columnCount; i++) {
+    if (i === urlColumn) continue;
+    const textCells = sample.filter((row) => {
+      const cell = (row[i] || '').trim();
+      return cell.length > 1 && !isNumericOnly(cell) && !normalizeTargetUrl(cell);
+    });
+    if (textCells.length > sample.length / 2) return i;
+  }
+  return undefined;
+}
+
+// Without a header, a column whose filled cells are all URLs
+function guessUrlColumn(rows: string[][], columnCount: number): number | undefined {
+  const sample = rows.slice(0, 20);
+  for (let i = 0; i < columnCount; i++) {
+    const filled = sample.map((row) => (row[i] || '').trim()).filter(Boolean);
+    if (filled.length > 0 && filled.every((cell) => isValidUrl(cell))) return i;
+  }
+  return undefined;
+}
+
+export interface SheetRows {
+  rows: string[][];
+  sheets: string[];
+  sheet?: string;
+}
+
+/**
+ * Raw cell rows of a CSV/TSV file or of one worksheet (the first when not given)
+ */
+export function readRows(buffer: Buffer, filename: string, sheetName?: string): SheetRows {
+  const extension = filename.toLowerCase().split('.').pop();
+
+  if (extension === 'csv' || extension === 'tsv') {
+    const text = decodeText(buffer);
+    return { rows: parseDelimited(text, detectDelimiter(text)), sheets: [] };
+  } else if (extension === 'xlsx' || extension === 'xls') {
+    const workbook = XLSX.read(buffer, { type: 'buffer' });
+    const sheet = sheetName && workbook.SheetNames.includes(sheetName) ? sheetName : workbook.SheetNames[0];
+    const data = XLSX.utils.sheet_to_json(workbook.Sheets[sheet], { header: 1, defval: '' }) as unknown[][];
+    return {
+      rows: data.map((row) => row.map((cell) => String(cell ?? ''))),
+      sheets: workbook.SheetNames,
+      sheet,
+    };
+  }
+
+  throw new Error('Unsupported file format. Please upload .xlsx, .xls, or .csv files.');
+}
+
+// Keyword Planner exports UTF-16 with a BOM; everything else is UTF-8
+function decodeText(buffer: Buffer): string {
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return buffer.subarray(2).toString('utf16le');
+  }
+  if (buffer[0] === 0xfe && buffer[1] === 0xff) {
+    const swapped = Buffer.from(buffer.subarray(2));
+    swapped.swap16();
+    return swapped.toString('utf16le');
+  }
+  return buffer.toString('utf-8').replace(/^\uFEFF/, '');
+}
+
+function detectDelimiter(text: string): string {
+  const sample = text.split(/\r?\n/).slice(0, HEADER_SEARCH_ROWS + 1).join('\n');
+  const counts = ['\t', ';', ','].map((delimiter) => ({
+    delimiter,
+    count: sample.split(delimiter).length - 1,
+  }));
+  return counts.reduce((best, current) => (current.count > best.count ? current : best)).delimiter;
+}
+
+// RFC 4180-style parsing: double quotes wrap fields, "" is an escaped quote
+function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
       }
+    } else if (char === '"' && !field.trim()) {
+      inQuotes = true;
+      field = '';
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
     }
   }
 
-  return categorizeKeywords(keywords);
-}
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
 
-function isHeaderRow(value: string): boolean {
-  const headerIndicators = [
-    'keyword',
-    'keywords',
-    'term',
-    'query',
-    'search',
-    'volume',
-    'difficulty',
-    'kd',
-    'cpc',
-  ];
-  const lowerValue = value.toLowerCase().trim();
-  return headerIndicators.some((indicator) => lowerValue.includes(indicator));
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
 }
 
 function isNumericOnly(value: string): boolean {
   return /^\d+([.,]\d+)?$/.test(value.trim());
 }
 
-function categorizeKeywords(keywords: string[]): KeywordData {
+/**
+ * Sort keywords into primary/secondary/NLP/question/long-tail lists.
+ * Near-duplicates are clustered first and only each cluster's head is placed;
+ * its variants become NLP terms, so "teacher insurance" and "teachers insurance"
+ * never both end up primary. The remaining clusters are ranked by their total
+ * search volume (list order without volumes), and navigational ones are never primary.
+ */
+export function categorizeKeywords(keywords: string[], metrics?: Record<string, KeywordMetrics>): KeywordData {
   // Remove duplicates and empty values
   const uniqueKeywords = [...new Set(keywords.filter((k) => k.trim()))];
 
@@ -141,47 +392,69 @@ function categorizeKeywords(keywords: string[]): KeywordData {
     return emptyKeywordData();
   }
 
+  const clusters = clusterKeywords(uniqueKeywords, metrics);
+  const isTarget = (keyword: string) => {
+    const cluster = clusters.find((item) => item.head === keyword);
+    return !cluster || !NON_TARGET_INTENTS.includes(cluster.intent);
+  };
+
   const primary: string[] = [];
   const secondary: string[] = [];
   const nlpTerms: string[] = [];
   const questions: string[] = [];
   const longTail: string[] = [];
+  const ranked: KeywordCluster[] = [];
 
   const questionStarters = ['who', 'what', 'when', 'where', 'why', 'how', 'is', 'are', 'can', 'do', 'does'];
 
-  uniqueKeywords.forEach((keyword, index) => {
-    const lowerKeyword = keyword.toLowerCase().trim();
-    const wordCount = lowerKeyword.split(/\s+/).length;
+  clusters.forEach((cluster) => {
+    const { head, variants } = cluster;
+    const lowerKeyword = head.toLowerCase().trim();
+    // A head like "insurance for teachers" isn't long-tail when "teacher insurance" is in its cluster
+    const wordCount = Math.min(...[head, ...variants].map((keyword) => keyword.trim().split(/\s+/).length));
     const firstWord = lowerKeyword.split(/\s+/)[0];
 
-    // Categorize based on position and characteristics
     if (questionStarters.some((q) => firstWord === q) || lowerKeyword.includes('?')) {
-      questions.push(keyword);
+      questions.push(head);
     } else if (wordCount >= 4) {
-      longTail.push(keyword);
-    } else if (index < 5) {
-      // First 5 non-question keywords are primary
-      primary.push(keyword);
-    } else if (index < 15) {
-      // Next 10 are secondary
-      secondary.push(keyword);
+      longTail.push(head);
     } else {
-      // Rest are NLP/related terms
-      nlpTerms.push(keyword);
+      ranked.push(cluster);
     }
   });
 
-  // Ensure we have at least some primary keywords
-  if (primary.length === 0 && secondary.length > 0) {
-    primary.push(...secondary.splice(0, 3));
-  }
+  // Highest total volume first; the sort is stable, so without volumes the list order stands
+  const clusterVolume = ({ head, variants }: KeywordCluster) =>
+    [head, ...variants].reduce((total, keyword) => total + (metrics?.[keyword.toLowerCase()]?.volume ?? 0), 0);
+  ranked.sort((a, b) => clusterVolume(b) - clusterVolume(a));
 
-  if (primary.length === 0 && longTail.length > 0) {
-    primary.push(...longTail.splice(0, 3));
+  for (const { head } of ranked) {
+    if (primary.length < PRIMARY_KEYWORD_COUNT && isTarget(head)) {
+      primary.push(head);
+    } else if (secondary.length < SECONDARY_KEYWORD_COUNT) {
+      secondary.push(head);
+    } else {
+      // Rest are NLP/related terms
+      nlpTerms.push(head);
+    }
   }
 
-  if (primary.length === 0 && questions.length > 0) {
-    primary.push(...questions.splice(0, 2));
+  // Variants are worth using naturally but shouldn't compete with their head
+  nlpTerms.push(...clusters.flatMap((cluster) => cluster.variants));
+
+  // Ensure we have at least some primary keywords
+  const promote = (list: string[], count: number) => {
+    const picked = list.filter(isTarget).slice(0, count);
+    primary.push(...picked);
+    list.splice(0, list.length, ...list.filter((keyword) => !picked.includes(keyword)));
+  };
+
+  if (primary.length === 0) promote(longTail, 3);
+  if (primary.length === 0) promote(questions, 2);
+
+  const intents: Record<string, KeywordIntent> = {};
+  for (const keyword of uniqueKeywords) {
+    intents[keyword.toLowerCase()] = classifyIntent(keyword, metrics?.[keyword.toLowerCase()]?.intent);
   }
 
   return {
@@ -191,10 +464,12 @@ function categorizeKeywords(keywords: string[]): KeywordData {
     questions,
     longTail,
     all: uniqueKeywords,
+    intents,
+    clusters: clusters.filter((cluster) => cluster.variants.length > 0),
   };
 }
 
-function emptyKeywordData(): KeywordData {
+export function emptyKeywordData(): KeywordData {
   return {
     primary: [],
     secondary: [],
@@ -2,60 +2,83 @@
  * Keyword Processor - Filters and limits keywords for document output
  *
  * Ensures only relevant keywords are shown based on page context,
- * with a maximum of 5 keywords displayed with their search volumes.
+ * with a configurable maximum (5 by default) displayed with their search volumes.
+ * Client-specific exclusions and boosts come from a KeywordRuleSet; ranking
+ * uses a KeywordRelevanceScorer (see relevance-scorer.ts).
  */
 
+import type {
+  CrawledData,
+  KeywordCluster,
+  KeywordIntent,
+  KeywordLimits,
+  KeywordMetrics,
+  KeywordRule,
+  KeywordRuleSet,
+  RelevanceScorerName,
+} from '@/types';
+import { classifyIntent } from './keyword-classifier';
+import { DEFAULT_KEYWORD_RULE_SET, findExcludedTerm, getMatchingRules } from './keyword-rules';
+import { getRelevanceScorer } from './relevance-scorer';
+
 export interface KeywordWithVolume {
   keyword: string;
   volume: number | null;
   relevance?: number;
+  // Difficulty, CPC, intent and position from the uploaded spreadsheet
+  metrics?: KeywordMetrics;
+  intent?: KeywordIntent;
+}
+
+// The page keywords are filtered for; body content and headings feed the semantic scorer
+export type KeywordPageContext = Pick<CrawledData, 'url' | 'title'> &
+  Partial<Pick<CrawledData, 'bodyContent' | 'h1' | 'h2' | 'h3'>>;
+
+export interface KeywordFilterOptions {
+  // Client-specific exclusions and boosts: DEFAULT_KEYWORD_RULE_SET when omitted, generic filtering only when null
+  ruleSet?: KeywordRuleSet | null;
+  // Defaults to 'tfidf'
+  scorer?: RelevanceScorerName;
+  // Maximum keywords returned (defaults to DEFAULT_KEYWORD_LIMITS.display)
+  limit?: number;
+  // Keyword (lowercase) -> search volume; defaults to the volumes in keywords.metrics
+  searchVolumes?: Map<string, number>;
 }
 
-// Maximum keywords to display in document
-const MAX_DISPLAY_KEYWORDS = 5;
-
-// Page-specific exclusion patterns
-// These terms are excluded when they don't match the page's primary topic
-const EXCLUDED_KEYWORDS_BY_PAGE: Record<string, string[]> = {
-  // Educators page shouldn't show booster club/PTA terms
-  'educators-professional-liability': [
-    'booster club',
-    'band booster',
-    'pta ',
-    'pto ',
-    'raffle',
-    'embezzlement',
-    'fidelity bond',
-    'nonprofit event',
-    'volunteer organization',
-    'parent organization',
-  ],
-  // Booster club page shouldn't show teacher/educator terms
-  'booster-club-insurance': [
-    'teacher liability',
-    'educator',
-    'classroom',
-    'student teacher',
-    'principal',
-    'school administrator',
-  ],
-  // PTA page exclusions
-  'pta-insurance': [
-    'teacher liability',
-    'educator professional',
-    'classroom',
-    'band booster',
-  ],
-  // Nonprofit event exclusions
-  'nonprofit-event-insurance': [
-    'teacher liability',
-    'educator',
-    'classroom',
-    'pta ',
-    'pto ',
-  ],
+// Keyword caps used when Settings.keywordLimits is not set
+export const DEFAULT_KEYWORD_LIMITS: KeywordLimits = {
+  display: 5,
+  primary: 5,
+  secondary: 10,
+  nlpTerms: 15,
+  questions: 5,
 };
 
+// Smallest accepted limits: a brief category can be turned off, but at least one target keyword is kept
+export const MIN_KEYWORD_LIMITS: KeywordLimits = {
+  display: 1,
+  primary: 0,
+  secondary: 0,
+  nlpTerms: 0,
+  questions: 0,
+};
+
+/**
+ * Fill in missing or invalid limits with the defaults
+ */
+export function resolveKeywordLimits(limits?: Partial<KeywordLimits> | null): KeywordLimits {
+  const resolved = { ...DEFAULT_KEYWORD_LIMITS };
+  for (const key of Object.keys(resolved) as (keyof KeywordLimits)[]) {
+    const raw: unknown = limits?.[key];
+    // Blank values count as missing rather than 0
+    const value = typeof raw === 'number' || (typeof raw === 'string' && raw.trim()) ? Number(raw) : NaN;
+    if (Number.isFinite(value) && value >= MIN_KEYWORD_LIMITS[key]) {
+      resolved[key] = Math.floor(value);
+    }
+  }
+  return resolved;
+}
+
 // Generic exclusion patterns that should never appear in keywords
 const GENERIC_EXCLUSIONS = [
   'http://',
@@ -94,7 +117,7 @@ function extractPageSlug(url: string): string {
 /**
  * Check if a keyword should be excluded based on page context
  */
-function shouldExcludeKeyword(keyword: string, pageSlug: string): boolean {
+function shouldExcludeKeyword(keyword: string, pageSlug: string, rules: KeywordRule[]): boolean {
   const keywordLower = keyword.toLowerCase().trim();
 
   // Check for invalid keyword patterns (IP addresses, pure numbers, etc.)
@@ -112,98 +135,43 @@ function shouldExcludeKeyword(keyword: string, pageSlug: string): boolean {
     }
   }
 
-  // Check page-specific exclusions
-  for (const [slugPattern, exclusions] of Object.entries(EXCLUDED_KEYWORDS_BY_PAGE)) {
-    if (pageSlug.includes(slugPattern) || slugPattern.includes(pageSlug)) {
-      for (const exclusion of exclusions) {
-        if (keywordLower.includes(exclusion.toLowerCase())) {
-          console.log(`[keyword-processor] Excluding wrong-page keyword: "${keyword}" (page: ${pageSlug})`);
-          return true;
-        }
-      }
-    }
+  // Check the rule set's page-specific exclusions
+  const excludedTerm = findExcludedTerm(keyword, rules);
+  if (excludedTerm) {
+    console.log(`[keyword-processor] Excluding wrong-page keyword: "${keyword}" (page: ${pageSlug}, rule: "${excludedTerm.trim()}")`);
+    return true;
   }
 
   return false;
 }
 
-/**
- * Score a keyword for relevance based on page context
- * Higher score = more relevant
- */
-function scoreKeywordRelevance(keyword: string, pageSlug: string, pageTitle?: string): number {
-  const keywordLower = keyword.toLowerCase();
-  const slugLower = pageSlug.toLowerCase();
-  const titleLower = (pageTitle || '').toLowerCase();
-
-  let score = 50; // Base score
-
-  // Boost if keyword appears in slug
-  if (slugLower.includes(keywordLower.replace(/\s+/g, '-'))) {
-    score += 30;
-  }
-
-  // Boost if keyword appears in page title
-  if (titleLower.includes(keywordLower)) {
-    score += 20;
-  }
-
-  // Boost for key insurance terms on insurance pages
-  if (slugLower.includes('insurance') || slugLower.includes('liability')) {
-    if (keywordLower.includes('insurance') || keywordLower.includes('liability') || keywordLower.includes('coverage')) {
-      score += 15;
-    }
-  }
-
-  // Boost for page-specific terms
-  if (slugLower.includes('educator') && keywordLower.includes('educator')) {
-    score += 25;
-  }
-  if (slugLower.includes('teacher') && keywordLower.includes('teacher')) {
-    score += 25;
-  }
-  if (slugLower.includes('booster') && keywordLower.includes('booster')) {
-    score += 25;
-  }
-  if (slugLower.includes('pta') && keywordLower.includes('pta')) {
-    score += 25;
-  }
-
-  // Penalize very short keywords (likely too generic)
-  if (keyword.length < 5) {
-    score -= 10;
-  }
-
-  // Boost for longer, more specific keywords
-  if (keyword.split(' ').length >= 3) {
-    score += 10;
-  }
-
-  return score;
-}
-
 /**
  * Filter and limit keywords for document display
  *
  * @param keywords - All available keywords from SurferSEO or manual input
- * @param pageUrl - The URL of the page being optimized
- * @param pageTitle - Optional page title for additional context
- * @param searchVolumes - Optional map of keyword -> search volume
- * @returns Array of max 5 relevant keywords with volumes
+ * @param page - The page being optimized (URL, title and, for semantic scoring, its content)
+ * @param options - Rule set, relevance scorer and search volumes
+ * @returns The most relevant keywords (at most options.limit) with volumes
  */
 export function filterAndLimitKeywords(
   keywords: {
     primary: string[];
     secondary: string[];
     nlpTerms: string[];
+    metrics?: Record<string, KeywordMetrics>;
+    intents?: Record<string, KeywordIntent>;
+    clusters?: KeywordCluster[];
   },
-  pageUrl: string,
-  pageTitle?: string,
-  searchVolumes?: Map<string, number>
+  page: KeywordPageContext,
+  options: KeywordFilterOptions = {}
 ): KeywordWithVolume[] {
-  const pageSlug = extractPageSlug(pageUrl);
+  const { ruleSet = DEFAULT_KEYWORD_RULE_SET, searchVolumes } = options;
+  const pageSlug = extractPageSlug(page.url);
+  const rules = getMatchingRules(ruleSet, pageSlug);
+  const scorer = getRelevanceScorer(options.scorer);
+  const limit = resolveKeywordLimits({ display: options.limit }).display;
 
-  console.log(`[keyword-processor] Filtering keywords for page: ${pageSlug}`);
+  console.log(`[keyword-processor] Filtering keywords for page: ${pageSlug} (${scorer.name} scoring${ruleSet ? `, rule set: ${ruleSet.name}, ${rules.length} matching rules` : ''})`);
 
   // Combine all keywords, prioritizing primary > secondary > nlp
   const allKeywords: Array<{ keyword: string; priority: number }> = [];
@@ -232,50 +200,64 @@ export function filterAndLimitKeywords(
     }
   }
 
-  // Filter out excluded keywords and score remaining
-  const scoredKeywords: Array<{
-    keyword: string;
-    priority: number;
-    relevanceScore: number;
-    volume: number | null;
-  }> = [];
+  // Variants of a clustered keyword are represented by its head
+  const variants = new Set(
+    (keywords.clusters || []).flatMap((cluster) => cluster.variants.map((variant) => variant.toLowerCase().trim()))
+  );
+
+  // Filter out excluded keywords
+  const candidates = [...seen.values()].filter((item) => {
+    if (variants.has(item.keyword.toLowerCase().trim())) {
+      return false;
+    }
 
-  for (const [, item] of seen) {
     // Skip if keyword should be excluded for this page
-    if (shouldExcludeKeyword(item.keyword, pageSlug)) {
+    if (shouldExcludeKeyword(item.keyword, pageSlug, rules)) {
       console.log(`[keyword-processor] Excluding: "${item.keyword}" (not relevant to ${pageSlug})`);
-      continue;
+      return false;
     }
 
     // Skip very short or empty keywords
-    if (!item.keyword || item.keyword.trim().length < 3) {
-      continue;
-    }
+    return Boolean(item.keyword) && item.keyword.trim().length >= 3;
+  });
 
-    const relevanceScore = scoreKeywordRelevance(item.keyword, pageSlug, pageTitle);
-    const volume = searchVolumes?.get(item.keyword.toLowerCase()) ?? null;
+  // Score the remaining keywords against the page
+  const relevanceScores = scorer.score(
+    candidates.map((item) => item.keyword),
+    {
+      pageSlug,
+      pageTitle: page.title,
+      bodyContent: page.bodyContent,
+      headings: [...(page.h1 || []), ...(page.h2 || []), ...(page.h3 || [])],
+      rules,
+    }
+  );
 
-    scoredKeywords.push({
+  const scoredKeywords = candidates.map((item, index) => {
+    const key = item.keyword.toLowerCase();
+    const metrics = keywords.metrics?.[key];
+    return {
       keyword: item.keyword,
       priority: item.priority,
-      relevanceScore,
-      volume,
-    });
-  }
-
-  // Sort by combined score (relevance + priority)
-  scoredKeywords.sort((a, b) => {
-    const scoreA = a.relevanceScore + a.priority;
-    const scoreB = b.relevanceScore + b.priority;
-    return scoreB - scoreA;
+      relevanceScore: relevanceScores[index],
+      volume: searchVolumes ? searchVolumes.get(key) ?? null : metrics?.volume ?? null,
+      metrics,
+      // Keywords from Surfer or pasted lists haven't been classified yet
+      intent: keywords.intents?.[key] ?? classifyIntent(item.keyword, metrics?.intent),
+    };
   });
 
-  // Take top MAX_DISPLAY_KEYWORDS
-  const topKeywords = scoredKeywords.slice(0, MAX_DISPLAY_KEYWORDS);
+  // Sort by combined score (relevance + priority + search demand)
+  const combinedScore = (kw: (typeof scoredKeywords)[number]) =>
+    kw.relevanceScore + kw.priority + scoreVolume(kw.volume);
+  scoredKeywords.sort((a, b) => combinedScore(b) - combinedScore(a));
+
+  // Take the top keywords up to the display limit
+  const topKeywords = scoredKeywords.slice(0, limit);
 
   console.log(`[keyword-processor] Selected ${topKeywords.length} keywords from ${scoredKeywords.length} candidates`);
   topKeywords.forEach((kw, idx) => {
-    console.log(`  ${idx + 1}. "${kw.keyword}" (score: ${kw.relevanceScore + kw.priority}, vol: ${kw.volume ?? 'N/A'})`);
+    console.log(`  ${idx + 1}. "${kw.keyword}" (score: ${combinedScore(kw)}, vol: ${kw.volume ?? 'N/A'})`);
   });
 
   // Return in KeywordWithVolume format
@@ -283,15 +265,31 @@ export function filterAndLimitKeywords(
     keyword: kw.keyword,
     volume: kw.volume,
     relevance: kw.relevanceScore,
+    intent: kw.intent,
+    ...(kw.metrics ? { metrics: kw.metrics } : {}),
   }));
 }
 
+/**
+ * Ranking points for search volume: logarithmic, so 10 searches add 5 and 100k add 25
+ */
+function scoreVolume(volume: number | null): number {
+  return volume && volume > 0 ? Math.round(5 * Math.log10(volume + 1)) : 0;
+}
+
 /**
  * Format keywords for display in document
- * Returns a comma-separated string of keywords
+ * Returns a comma-separated string of keywords, with monthly volume and intent when known
  */
 export function formatKeywordsForDocument(keywords: KeywordWithVolume[]): string {
   return keywords
-    .map(kw => kw.keyword)
+    .map((kw) => {
+      const details = [kw.volume !== null ? `${formatVolume(kw.volume)}/mo` : '', kw.intent || ''].filter(Boolean);
+      return details.length > 0 ? `${kw.keyword} (${details.join(', ')})` : kw.keyword;
+    })
     .join(', ');
 }
+
+export function formatVolume(volume: number): string {
+  return Math.round(volume).toLocaleString('en-US');
+}
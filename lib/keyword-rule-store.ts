@@ -0,0 +1,86 @@
+/**
+ * Keyword Rule Store - Persists per-client keyword rule sets
+ *
+ * Rule sets are stored one JSON file each in KEYWORD_RULES_DIR (defaults to
+ * ./.data/keyword-rules). The built-in rule sets from keyword-rules.ts are
+ * always listed and can be copied, but never written.
+ */
+
+import path from 'path';
+import type { KeywordRuleSet, SaveKeywordRuleSetRequest } from '@/types';
+import { createJsonFileStore, createRecordId } from './json-file-store';
+import { BUILT_IN_KEYWORD_RULE_SETS } from './keyword-rules';
+
+export interface KeywordRuleSetRepository {
+  list(): Promise<KeywordRuleSet[]>;
+  get(id: string): Promise<KeywordRuleSet | null>;
+  create(input: SaveKeywordRuleSetRequest): Promise<KeywordRuleSet>;
+  update(id: string, input: SaveKeywordRuleSetRequest): Promise<KeywordRuleSet | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+const DEFAULT_STORE_DIR = path.join(process.cwd(), '.data', 'keyword-rules');
+
+// IDs double as filenames, so only allow what createRecordId('rules') produces
+const ID_PATTERN = /^rules_[a-z0-9]+_[a-z0-9]+$/;
+
+/**
+ * Repository storing each rule set as <id>.json in a directory
+ */
+export function createJsonFileRuleSetRepository(directory: string): KeywordRuleSetRepository {
+  const store = createJsonFileStore<KeywordRuleSet>(directory, { idPattern: ID_PATTERN, pretty: true });
+
+  const read = async (id: string): Promise<KeywordRuleSet | null> => {
+    const builtIn = BUILT_IN_KEYWORD_RULE_SETS.find((ruleSet) => ruleSet.id === id);
+    return builtIn || store.read(id);
+  };
+
+  return {
+    async list() {
+      const ruleSets = await store.readAll();
+      ruleSets.sort((a, b) => a.client.localeCompare(b.client) || a.name.localeCompare(b.name));
+      return [...ruleSets, ...BUILT_IN_KEYWORD_RULE_SETS];
+    },
+
+    get: read,
+
+    async create(input) {
+      const ruleSet: KeywordRuleSet = {
+        id: createRecordId('rules'),
+        name: input.name,
+        client: input.client || '',
+        rules: input.rules,
+        updatedAt: new Date().toISOString(),
+      };
+
+      await store.write(ruleSet);
+      console.log(`[keyword-rule-store] Saved ${ruleSet.id} (${ruleSet.client || 'no client'} / ${ruleSet.name})`);
+      return ruleSet;
+    },
+
+    // Built-in rule sets never match ID_PATTERN, so they can't be updated or deleted
+    update(id, input) {
+      return store.update(id, (existing) => ({
+        ...existing,
+        name: input.name,
+        client: input.client ?? existing.client,
+        rules: input.rules,
+        updatedAt: new Date().toISOString(),
+      }));
+    },
+
+    delete: store.delete,
+  };
+}
+
+let repository: KeywordRuleSetRepository | null = null;
+
+/**
+ * The repository used by the API routes
+ */
+export function getKeywordRuleSetRepository(): KeywordRuleSetRepository {
+  if (!repository) {
+    repository = createJsonFileRuleSetRepository(process.env.KEYWORD_RULES_DIR || DEFAULT_STORE_DIR);
+  }
+  return repository;
+}
@@ -0,0 +1,193 @@
+/**
+ * Keyword Rules - Per-client keyword exclusions and boosts
+ *
+ * A rule set is plain data (see KeywordRuleSet) so it can be edited in the UI,
+ * saved per client and shared as JSON. Each rule applies to pages whose slug
+ * contains one of its patterns, or is part of one (so "booster-club" matches the
+ * pattern "booster-club-insurance"): keywords containing an excluded term are
+ * dropped, and keywords containing a boosted term rank higher.
+ */
+
+import type { KeywordRule, KeywordRuleSet, SaveKeywordRuleSetRequest } from '@/types';
+
+// The rules that used to be hardcoded in keyword-processor.ts; used when no rule set is chosen
+export const EDUCATION_INSURANCE_RULE_SET: KeywordRuleSet = {
+  id: 'builtin_education_insurance',
+  name: 'Education & nonprofit insurance',
+  client: 'Example',
+  builtIn: true,
+  rules: [
+    {
+      // Educators page shouldn't show booster club/PTA terms
+      slugPatterns: ['educators-professional-liability'],
+      excludedTerms: [
+        'booster club',
+        'band booster',
+        'pta ',
+        'pto ',
+        'raffle',
+        'embezzlement',
+        'fidelity bond',
+        'nonprofit event',
+        'volunteer organization',
+        'parent organization',
+      ],
+      boostedTerms: [],
+    },
+    {
+      // Booster club page shouldn't show teacher/educator terms
+      slugPatterns: ['booster-club-insurance'],
+      excludedTerms: ['teacher liability', 'educator', 'classroom', 'student teacher', 'principal', 'school administrator'],
+      boostedTerms: [],
+    },
+    {
+      slugPatterns: ['pta-insurance'],
+      excludedTerms: ['teacher liability', 'educator professional', 'classroom', 'band booster'],
+      boostedTerms: [],
+    },
+    {
+      slugPatterns: ['nonprofit-event-insurance'],
+      excludedTerms: ['teacher liability', 'educator', 'classroom', 'pta ', 'pto '],
+      boostedTerms: [],
+    },
+    {
+      // Key insurance terms on insurance pages
+      slugPatterns: ['insurance', 'liability'],
+      excludedTerms: [],
+      boostedTerms: [
+        { term: 'insurance', weight: 15 },
+        { term: 'liability', weight: 15 },
+        { term: 'coverage', weight: 15 },
+      ],
+    },
+    { slugPatterns: ['educator'], excludedTerms: [], boostedTerms: [{ term: 'educator', weight: 25 }] },
+    { slugPatterns: ['teacher'], excludedTerms: [], boostedTerms: [{ term: 'teacher', weight: 25 }] },
+    { slugPatterns: ['booster'], excludedTerms: [], boostedTerms: [{ term: 'booster', weight: 25 }] },
+    { slugPatterns: ['pta'], excludedTerms: [], boostedTerms: [{ term: 'pta', weight: 25 }] },
+  ],
+};
+
+export const BUILT_IN_KEYWORD_RULE_SETS: KeywordRuleSet[] = [EDUCATION_INSURANCE_RULE_SET];
+
+export const DEFAULT_KEYWORD_RULE_SET = EDUCATION_INSURANCE_RULE_SET;
+
+export function isBuiltInRuleSetId(id: string): boolean {
+  return BUILT_IN_KEYWORD_RULE_SETS.some((ruleSet) => ruleSet.id === id);
+}
+
+/**
+ * Rules whose slug patterns match the page slug. A pattern matches when the slug
+ * contains it or it contains the slug; pages without a slug (the homepage) match no rules.
+ */
+export function getMatchingRules(ruleSet: KeywordRuleSet | null | undefined, pageSlug: string): KeywordRule[] {
+  const slugLower = pageSlug.trim().toLowerCase();
+  if (!ruleSet || !slugLower) return [];
+  return ruleSet.rules.filter((rule) =>
+    rule.slugPatterns.some((pattern) => {
+      const patternLower = pattern.trim().toLowerCase();
+      return patternLower && (slugLower.includes(patternLower) || patternLower.includes(slugLower));
+    })
+  );
+}
+
+/**
+ * The excluded term a keyword contains, if any of the rules exclude it
+ */
+export function findExcludedTerm(keyword: string, rules: KeywordRule[]): string | null {
+  const keywordLower = keyword.toLowerCase();
+  for (const rule of rules) {
+    // Terms are not trimmed: a trailing space ("pta ") limits the match to whole words
+    const term = rule.excludedTerms.find((excluded) => excluded.trim() && keywordLower.includes(excluded.toLowerCase()));
+    if (term) return term;
+  }
+  return null;
+}
+
+/**
+ * Total boost for a keyword: the largest matching boost of each rule, summed over rules
+ */
+export function getKeywordBoost(keyword: string, rules: KeywordRule[]): number {
+  const keywordLower = keyword.toLowerCase();
+  return rules.reduce((total, rule) => {
+    const weights = rule.boostedTerms
+      .filter((boost) => boost.term.trim() && keywordLower.includes(boost.term.trim().toLowerCase()))
+      .map((boost) => boost.weight);
+    return total + (weights.length > 0 ? Math.max(...weights) : 0);
+  }, 0);
+}
+
+/**
+ * Validate a rule set from an imported file or API request.
+ * Throws an Error describing the first problem found.
+ */
+export function parseKeywordRuleSet(input: unknown): SaveKeywordRuleSetRequest {
+  if (!isRecord(input)) {
+    throw new Error('Rule set must be a JSON object');
+  }
+
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name) {
+    throw new Error('Rule set needs a name');
+  }
+
+  if (!Array.isArray(input.rules)) {
+    throw new Error('Rule set needs a "rules" array');
+  }
+
+  const rules = input.rules.map((rule, index): KeywordRule => {
+    const label = `Rule ${index + 1}`;
+    if (!isRecord(rule)) {
+      throw new Error(`${label} must be an object`);
+    }
+
+    const slugPatterns = parseStringList(rule.slugPatterns, `${label} slugPatterns`).map((pattern) => pattern.trim());
+    if (slugPatterns.length === 0) {
+      throw new Error(`${label} needs at least one slug pattern`);
+    }
+
+    const boostedTerms = rule.boostedTerms === undefined ? [] : rule.boostedTerms;
+    if (!Array.isArray(boostedTerms)) {
+      throw new Error(`${label} boostedTerms must be an array`);
+    }
+
+    return {
+      slugPatterns,
+      excludedTerms: parseStringList(rule.excludedTerms ?? [], `${label} excludedTerms`),
+      boostedTerms: boostedTerms.map((boost) => {
+        if (!isRecord(boost) || typeof boost.term !== 'string' || !boost.term.trim()) {
+          throw new Error(`${label} has a boosted term without a "term"`);
+        }
+        const weight = Number(boost.weight);
+        if (!Number.isFinite(weight)) {
+          throw new Error(`${label} boost for "${boost.term}" needs a numeric weight`);
+        }
+        return { term: boost.term.trim(), weight };
+      }),
+    };
+  });
+
+  return {
+    name,
+    client: typeof input.client === 'string' ? input.client.trim() : '',
+    rules,
+  };
+}
+
+/**
+ * JSON for sharing a rule set (ids and timestamps are left out so imports create a new set)
+ */
+export function serializeKeywordRuleSet(ruleSet: KeywordRuleSet | SaveKeywordRuleSetRequest): string {
+  const { name, client, rules } = ruleSet;
+  return JSON.stringify({ name, client: client || '', rules }, null, 2);
+}
+
+function parseStringList(value: unknown, label: string): string[] {
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+    throw new Error(`${label} must be an array of strings`);
+  }
+  return (value as string[]).filter((item) => item.trim());
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,385 @@
+/**
+ * LLM Provider - The AI backends the content optimizer can call
+ *
+ * Every optimizer request is a conversation that must end in a call to one
+ * tool, whose input is the structured answer. Providers translate that
+ * request to their own API:
+ * - anthropic: Claude through the Anthropic SDK (requires ANTHROPIC_API_KEY)
+ * - openai: any OpenAI-compatible chat completions endpoint (OPENAI_BASE_URL),
+ *   including local model servers
+ * - mock: deterministic answers built from fixture files, so the whole
+ *   analyze-to-report pipeline runs without network access
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { LLMProviderName } from '@/types';
+
+// A tool the model must call; inputSchema is a JSON Schema object
+export interface LLMTool {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+}
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  input: unknown;
+}
+
+export type LLMMessage =
+  | { role: 'user'; content: string }
+  // An earlier answer: the tool call it made, or its text if it made none
+  | { role: 'assistant'; toolCall?: LLMToolCall; text?: string }
+  // Feedback on an earlier tool call
+  | { role: 'tool'; toolCallId: string; content: string; isError?: boolean };
+
+export interface LLMToolRequest {
+  model: string;
+  system: string;
+  messages: LLMMessage[];
+  tool: LLMTool;
+  maxTokens: number;
+  // Called with each piece of the tool input as it streams in
+  onInputDelta?: (delta: string) => void;
+}
+
+export interface LLMToolResponse {
+  // Null when the model answered without calling the tool
+  toolCall: LLMToolCall | null;
+  text: string;
+  outputTokens: number;
+}
+
+/**
+ * An AI backend that answers tool-forced requests.
+ * Select one with getLLMProvider() or the LLM_PROVIDER env variable.
+ */
+export interface LLMProvider {
+  name: LLMProviderName;
+  // Model used when Settings.llmModel is empty
+  defaultModel: string;
+  callTool(request: LLMToolRequest): Promise<LLMToolResponse>;
+}
+
+export const LLM_PROVIDERS: LLMProviderName[] = ['anthropic', 'openai', 'mock'];
+
+const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_FIXTURES_DIR = path.join(process.cwd(), 'fixtures', 'llm');
+
+/**
+ * Claude through the Anthropic SDK (requires ANTHROPIC_API_KEY)
+ */
+export const anthropicProvider: LLMProvider = {
+  name: 'anthropic',
+  defaultModel: process.env.ANTHROPIC_MODEL || 'claude-sonnet-4-20250514',
+  callTool: callAnthropicTool,
+};
+
+/**
+ * Any endpoint that speaks the OpenAI chat completions API with tool calls.
+ * OPENAI_API_KEY is only required for api.openai.com; local servers usually
+ * run without one.
+ */
+export const openAICompatibleProvider: LLMProvider = {
+  name: 'openai',
+  defaultModel: process.env.OPENAI_MODEL || 'gpt-4o',
+  callTool: callOpenAICompatibleTool,
+};
+
+/**
+ * Offline provider: answers with <tool name>.json from the fixtures directory,
+ * filled in from the prompt. The same prompt always gets the same answer.
+ */
+export const mockProvider: LLMProvider = {
+  name: 'mock',
+  defaultModel: 'fixtures',
+  callTool: callMockTool,
+};
+
+export function isLLMProviderName(value: unknown): value is LLMProviderName {
+  return typeof value === 'string' && (LLM_PROVIDERS as string[]).includes(value);
+}
+
+/**
+ * Resolve an LLM provider. Precedence: explicit name, LLM_PROVIDER env, then Anthropic.
+ */
+export function getLLMProvider(name?: LLMProviderName): LLMProvider {
+  const envName = process.env.LLM_PROVIDER;
+  const resolved = name || (isLLMProviderName(envName) ? envName : 'anthropic');
+
+  switch (resolved) {
+    case 'openai':
+      return openAICompatibleProvider;
+    case 'mock':
+      return mockProvider;
+    default:
+      return anthropicProvider;
+  }
+}
+
+async function callAnthropicTool(request: LLMToolRequest): Promise<LLMToolResponse> {
+  const apiKey = process.env.ANTHROPIC_API_KEY;
+  if (!apiKey) {
+    throw new Error('ANTHROPIC_API_KEY is not configured');
+  }
+
+  const client = new Anthropic({ apiKey });
+  const stream = client.messages.stream({
+    model: request.model,
+    max_tokens: request.maxTokens,
+    system: request.system,
+    messages: request.messages.map(toAnthropicMessage),
+    tools: [{
+      name: request.tool.name,
+      description: request.tool.description,
+      input_schema: request.tool.inputSchema as Anthropic.Tool.InputSchema,
+    }],
+    tool_choice: { type: 'tool', name: request.tool.name },
+  });
+
+  stream.on('inputJson', (partialJson) => request.onInputDelta?.(partialJson));
+
+  const response = await stream.finalMessage();
+  const toolUse = response.content.find(
+    (block): block is Anthropic.ToolUseBlock => block.type === 'tool_use' && block.name === request.tool.name
+  );
+
+  return {
+    toolCall: toolUse ? { id: toolUse.id, name: toolUse.name, input: toolUse.input } : null,
+    text: response.content
+      .filter((block): block is Anthropic.TextBlock => block.type === 'text')
+      .map((block) => block.text)
+      .join(''),
+    outputTokens: response.usage.output_tokens,
+  };
+}
+
+function toAnthropicMessage(message: LLMMessage): Anthropic.MessageParam {
+  switch (message.role) {
+    case 'user':
+      return { role: 'user', content: message.content };
+    case 'assistant':
+      return {
+        role: 'assistant',
+        content: message.toolCall
+          ? [{ type: 'tool_use', id: message.toolCall.id, name: message.toolCall.name, input: message.toolCall.input }]
+          : message.text || '(no answer)',
+      };
+    case 'tool':
+      return {
+        role: 'user',
+        content: [{ type: 'tool_result', tool_use_id: message.toolCallId, is_error: message.isError, content: message.content }],
+      };
+  }
+}
+
+// The parts of a streamed chat completion chunk the provider reads
+interface OpenAIStreamChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+      tool_calls?: Array<{
+        index?: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      }>;
+    };
+  }>;
+  usage?: { completion_tokens?: number } | null;
+}
+
+async function callOpenAICompatibleTool(request: LLMToolRequest): Promise<LLMToolResponse> {
+  const baseUrl = (process.env.OPENAI_BASE_URL || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '');
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (!apiKey && baseUrl === DEFAULT_OPENAI_BASE_URL) {
+    throw new Error('OPENAI_API_KEY is not configured');
+  }
+
+  const response = await fetch(`${baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+    },
+    body: JSON.stringify({
+      model: request.model,
+      max_tokens: request.maxTokens,
+      stream: true,
+      stream_options: { include_usage: true },
+      messages: [{ role: 'system', content: request.system }, ...request.messages.map(toOpenAIMessage)],
+      tools: [{
+        type: 'function',
+        function: { name: request.tool.name, description: request.tool.description, parameters: request.tool.inputSchema },
+      }],
+      tool_choice: { type: 'function', function: { name: request.tool.name } },
+    }),
+  });
+
+  if (!response.ok || !response.body) {
+    const detail = await response.text().catch(() => '');
+    throw new Error(`OpenAI-compatible endpoint ${baseUrl} returned ${response.status}${detail ? `: ${detail.substring(0, 200)}` : ''}`);
+  }
+
+  let id = '';
+  let name = '';
+  let args = '';
+  let text = '';
+  let outputTokens = 0;
+
+  const handleLine = (line: string) => {
+    const data = line.trim().replace(/^data:\s*/, '');
+    if (!line.trim().startsWith('data:') || !data || data === '[DONE]') return;
+
+    const chunk = JSON.parse(data) as OpenAIStreamChunk;
+    const delta = chunk.choices?.[0]?.delta;
+    for (const call of delta?.tool_calls || []) {
+      // Only the first tool call is used; tool_choice forces exactly one
+      if (call.index) continue;
+      if (call.id) id = call.id;
+      if (call.function?.name) name = call.function.name;
+      if (call.function?.arguments) {
+        args += call.function.arguments;
+        request.onInputDelta?.(call.function.arguments);
+      }
+    }
+    if (delta?.content) text += delta.content;
+    if (chunk.usage?.completion_tokens) outputTokens = chunk.usage.completion_tokens;
+  };
+
+  // Server-sent events: one "data: {...}" line per chunk
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    lines.forEach(handleLine);
+  }
+  handleLine(buffer);
+
+  let toolCall: LLMToolCall | null = null;
+  if (name) {
+    let input: unknown = args;
+    try {
+      input = JSON.parse(args || '{}');
+    } catch {
+      // Left as the raw string, which fails validation and is sent back for repair
+    }
+    toolCall = { id: id || 'call_0', name, input };
+  }
+
+  return {
+    toolCall,
+    text,
+    // Servers that don't report usage get an estimate of ~4 characters per token
+    outputTokens: outputTokens || Math.ceil((args.length + text.length) / 4),
+  };
+}
+
+function toOpenAIMessage(message: LLMMessage): Record<string, unknown> {
+  switch (message.role) {
+    case 'user':
+      return { role: 'user', content: message.content };
+    case 'assistant':
+      return message.toolCall
+        ? {
+            role: 'assistant',
+            content: null,
+            tool_calls: [{
+              id: message.toolCall.id,
+              type: 'function',
+              function: {
+                name: message.toolCall.name,
+                arguments: typeof message.toolCall.input === 'string' ? message.toolCall.input : JSON.stringify(message.toolCall.input),
+              },
+            }],
+          }
+        : { role: 'assistant', content: message.text || '' };
+    case 'tool':
+      return { role: 'tool', tool_call_id: message.toolCallId, content: message.isError ? `Error: ${message.content}` : message.content };
+  }
+}
+
+async function callMockTool(request: LLMToolRequest): Promise<LLMToolResponse> {
+  const fixturesDir = process.env.MOCK_LLM_FIXTURES_DIR || DEFAULT_FIXTURES_DIR;
+  const fixturePath = path.join(fixturesDir, `${request.tool.name}.json`);
+
+  let fixture: unknown;
+  try {
+    fixture = JSON.parse(await fs.readFile(fixturePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Mock LLM fixture ${fixturePath} could not be read: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  const prompt = request.messages.find((message) => message.role === 'user');
+  const input = fillPlaceholders(fixture, getPromptValues(prompt?.role === 'user' ? prompt.content : ''));
+  const json = JSON.stringify(input);
+  request.onInputDelta?.(json);
+
+  return {
+    toolCall: { id: `mock_${request.messages.length}`, name: request.tool.name, input },
+    text: '',
+    outputTokens: Math.ceil(json.length / 4),
+  };
+}
+
+/**
+ * Values for the {{title}}, {{primaryKeyword}}, {{content}} and {{h1}} fixture
+ * placeholders, read from the optimizer prompt. {{h1}} is the content's own
+ * [H1] (the title if it has none), so the h1 field matches the page.
+ */
+function getPromptValues(prompt: string): Record<string, string> {
+  // [^\S\n] rather than \s so an empty value doesn't pick up the next line
+  const title = prompt.match(/^Page Topic:[^\S\n]*(.*)$/m)?.[1].trim() || 'Untitled page';
+  const keyword = prompt.match(/^PRIMARY KEYWORD[^:\n]*:[^\S\n]*(.*)$/m)?.[1]
+    .replace(/\s*[([].*$/, '')
+    .trim();
+  const content = toMarkedContent(prompt.match(/"""\n([\s\S]*?)\n"""/)?.[1] || '');
+
+  return {
+    title,
+    primaryKeyword: keyword && !/^(none provided|already used enough)$/i.test(keyword) ? keyword : title,
+    content,
+    h1: content.match(/^\[H1\] (.*)$/m)?.[1] || title,
+  };
+}
+
+// Markdown as the optimizer's [H1]/[H2]/[H3]/[PARA]/[BULLET] lines, unchanged otherwise
+function toMarkedContent(markdown: string): string {
+  return markdown
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const heading = line.match(/^(#{1,6})\s+(.*)$/);
+      const bullet = line.match(/^(?:[-*+]|\d+[.)])\s+(.*)$/);
+      const marker = heading ? `H${Math.min(heading[1].length, 3)}` : bullet ? 'BULLET' : 'PARA';
+      const text = (heading ? heading[2] : bullet ? bullet[1] : line)
+        .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+        .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+        .replace(/[*_`]/g, '')
+        .trim();
+      return text ? `[${marker}] ${text}` : '';
+    })
+    .filter(Boolean)
+    .join('\n');
+}
+
+function fillPlaceholders(value: unknown, values: Record<string, string>): unknown {
+  if (typeof value === 'string') {
+    return value.replace(/\{\{(\w+)\}\}/g, (placeholder, key: string) => values[key] ?? placeholder);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => fillPlaceholders(item, values));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, fillPlaceholders(item, values)]));
+  }
+  return value;
+}
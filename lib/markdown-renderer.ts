@@ -0,0 +1,202 @@
+/**
+ * Markdown Renderer - Renders the report model as clean Markdown (no highlights)
+ */
+
+import type { ComplianceReport, ReauditResult } from '@/types';
+import { COMPLIANCE_RULE_LABELS } from './compliance-checker';
+import { formatJsonLd } from './html-renderer';
+import { formatKeywordsForDocument } from './keyword-processor';
+import {
+  ADOPTION_ELEMENT_LABELS,
+  ADOPTION_STATUS_LABELS,
+  CANNIBALIZATION_SEVERITY_LABELS,
+  describeChunking,
+  describeCompliance,
+  formatMetaAlternate,
+  segmentsToText,
+  type CannibalizationSection,
+  type ContentBlock,
+  type ReportModel,
+} from './report-model';
+
+export function renderMarkdown(model: ReportModel): string {
+  const lines: string[] = [
+    `# ${model.title}`,
+    '',
+    `**Target Page:** ${model.targetUrl || '_Not yet published (analyzed from pasted content)_'}`,
+    '',
+    ...(model.targetKeywords.length > 0
+      ? [`**Target Keywords:** ${formatKeywordsForDocument(model.targetKeywords)}`, '']
+      : []),
+    ...(model.chunking ? [`> ${describeChunking(model.chunking)}`, ''] : []),
+    '## Current vs Optimized Meta Elements',
+    '',
+    '| Element | Current | Optimized | Why Changed |',
+    '| --- | --- | --- | --- |',
+    ...model.metaRows.map((row) =>
+      `| ${tableCell(row.element)} | ${tableCell(row.current || 'Not set')} | ${tableCell(row.optimized || 'Not set')} | ${tableCell(row.why)} |`
+    ),
+    '',
+    // Table cells can't hold lists, so alternates follow the table
+    ...model.metaRows
+      .filter((row) => row.alternates)
+      .flatMap((row) => [
+        `**${row.element} alternatives:**`,
+        '',
+        ...row.alternates!.map((alternate) => `- ${formatMetaAlternate(alternate)}`),
+        '',
+      ]),
+    '## Optimized Content',
+    '',
+    `# ${segmentsToText(model.h1).trim()}`,
+    '',
+  ];
+
+  let previous: ContentBlock['type'] | null = null;
+  let listNumber = 0;
+  for (const block of model.blocks) {
+    const text = segmentsToText(block.segments).trim();
+    const isListItem = block.type === 'bullet' || block.type === 'numbered';
+
+    // Blank line between blocks, except between items of the same list
+    if (previous && !(isListItem && previous === block.type)) {
+      lines.push('');
+    }
+    listNumber = block.type === 'numbered' && previous === 'numbered' ? listNumber + 1 : 1;
+
+    switch (block.type) {
+      case 'heading':
+        lines.push(`${'#'.repeat(block.level)} ${text}`);
+        break;
+      case 'bullet':
+        lines.push(`- ${text}`);
+        break;
+      case 'numbered':
+        lines.push(`${listNumber}. ${text}`);
+        break;
+      default:
+        lines.push(text);
+    }
+    previous = block.type;
+  }
+
+  if (model.faqs.length > 0) {
+    lines.push('', '## Frequently Asked Questions');
+    for (const faq of model.faqs) {
+      lines.push('', `### ${faq.question}`, '', faq.answer);
+    }
+  }
+
+  if (model.schemaRecommendations.length > 0) {
+    lines.push('', '## Schema Markup Recommendations');
+    for (const recommendation of model.schemaRecommendations) {
+      lines.push(
+        '',
+        `### ${recommendation.type}`,
+        '',
+        `_${recommendation.reason}_`,
+        '',
+        '```json',
+        formatJsonLd(recommendation.jsonLd),
+        '```'
+      );
+    }
+  }
+
+  if (model.reaudit) {
+    lines.push('', ...renderImplementationCheck(model.reaudit));
+  }
+
+  if (model.cannibalization) {
+    lines.push('', ...renderCannibalization(model.cannibalization));
+  }
+
+  if (model.compliance) {
+    lines.push('', ...renderRuleCheck(model.compliance));
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+function renderRuleCheck(compliance: ComplianceReport): string[] {
+  return [
+    '## Optimization Rule Check',
+    '',
+    describeCompliance(compliance),
+    '',
+    '| Rule | Result | Measured | Target |',
+    '| --- | --- | --- | --- |',
+    ...compliance.checks.map((check) =>
+      `| ${COMPLIANCE_RULE_LABELS[check.rule]} | ${check.passed ? 'Passed' : 'Failed'} | ${tableCell(check.actual)} | ${tableCell(check.expected)} |`
+    ),
+  ];
+}
+
+function renderImplementationCheck(reaudit: ReauditResult): string[] {
+  const delta = `${reaudit.scoreDelta > 0 ? '+' : ''}${reaudit.scoreDelta}`;
+  const issueList = (issues: ReauditResult['resolvedIssues']) =>
+    issues.length > 0 ? issues.map((issue) => `- ${issue.message}`) : ['_None_'];
+
+  const lines = [
+    '## Implementation Check',
+    '',
+    `Live page re-audited on ${new Date(reaudit.auditedAt).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}. **SEO score: ${reaudit.previousScore} → ${reaudit.currentScore} (${delta})**`,
+    '',
+    '| Element | Recommended | Live Page | Status |',
+    '| --- | --- | --- | --- |',
+    ...reaudit.adoption.map((item) =>
+      `| ${ADOPTION_ELEMENT_LABELS[item.element]} | ${tableCell(item.recommended || 'Not set')} | ${tableCell(item.current || 'Not set')} | ${ADOPTION_STATUS_LABELS[item.status]} |`
+    ),
+    '',
+    `### Issues Resolved (${reaudit.resolvedIssues.length})`,
+    '',
+    ...issueList(reaudit.resolvedIssues),
+    '',
+    `### New Issues (${reaudit.introducedIssues.length})`,
+    '',
+    ...issueList(reaudit.introducedIssues),
+  ];
+
+  if (reaudit.densityChanges.length > 0) {
+    lines.push(
+      '',
+      '### Keyword Density Changes',
+      '',
+      '| Keyword | Before | After | Change |',
+      '| --- | --- | --- | --- |',
+      ...reaudit.densityChanges.slice(0, 15).map((change) =>
+        `| ${tableCell(change.keyword)} | ${change.before.toFixed(2)}% | ${change.after.toFixed(2)}% | ${change.delta > 0 ? '+' : ''}${change.delta.toFixed(2)} |`
+      )
+    );
+  }
+
+  return lines;
+}
+
+function renderCannibalization(section: CannibalizationSection): string[] {
+  const lines = [
+    '## Keyword Cannibalization',
+    '',
+    `Checked against ${section.pageCount - 1} other analyzed page${section.pageCount === 2 ? '' : 's'} on ${section.domain}.`,
+    '',
+  ];
+
+  if (section.rows.length === 0) {
+    lines.push('_No other checked page competes for this page\'s keywords._');
+    return lines;
+  }
+
+  lines.push(
+    '| Keyword | Severity | Should Own | Competing Pages | Action for This Page |',
+    '| --- | --- | --- | --- | --- |',
+    ...section.rows.map((row) =>
+      `| ${tableCell(row.keyword)} | ${CANNIBALIZATION_SEVERITY_LABELS[row.severity]} | ${tableCell(row.ownerUrl)} | ${tableCell(row.competingUrls.join(', '))} | ${tableCell(row.action)} |`
+    )
+  );
+
+  return lines;
+}
+
+function tableCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
@@ -0,0 +1,193 @@
+/**
+ * Meta Variant Scorer - Ranks the optimizer's title tag and meta description candidates
+ *
+ * The optimizer proposes several titles and descriptions. Each is scored
+ * locally on the checks copywriters apply by hand: primary keyword early,
+ * length within the configured limit, brand suffix and little overlap with
+ * the H1 (titles), and a call to action (descriptions). The best-scoring
+ * candidate is the default; the others stay available as alternates.
+ */
+
+import type { MetaVariant, MetaVariantCheck, MetaVariantCriterion } from '@/types';
+import { cleanMarkersForDisplay } from './report-model';
+
+export type MetaVariantKind = 'title' | 'description';
+
+export const META_VARIANT_CRITERION_LABELS: Record<MetaVariantCriterion, string> = {
+  keyword_position: 'Keyword position',
+  length: 'Length',
+  brand_suffix: 'Brand suffix',
+  call_to_action: 'Call to action',
+  h1_overlap: 'Differs from H1',
+};
+
+// Candidates kept per element
+export const MAX_META_VARIANTS = 5;
+
+// The primary keyword should start within this many characters
+const KEYWORD_POSITION_CHARS = 30;
+
+// Shortest lengths the SEO audit accepts (seo-analyzer.ts); the maximum comes from Settings
+const MIN_LENGTH: Record<MetaVariantKind, number> = { title: 30, description: 120 };
+
+// Characters outside the range that still earn partial credit
+const LENGTH_TOLERANCE = 10;
+
+// Share of title words also in the H1 above which the title reads as a copy of it
+const MAX_H1_OVERLAP = 0.6;
+
+const POINTS: Record<MetaVariantCriterion, number> = {
+  keyword_position: 30,
+  length: 30,
+  brand_suffix: 15,
+  call_to_action: 25,
+  h1_overlap: 25,
+};
+
+const CTA_PATTERN = /\b(learn|discover|find out|get|call|contact|book|schedule|request|shop|buy|order|explore|start|try|compare|see|download|sign up|apply|enroll|join|visit|save|claim)\b/i;
+
+export interface MetaVariantContext {
+  primaryKeyword?: string;
+  brandName?: string;
+  // The optimized H1 the title should differ from
+  h1?: string;
+  maxLength: number;
+}
+
+/**
+ * Score candidates and return them best first, without duplicates. Ties keep
+ * the candidates' order, so the optimizer's own pick wins a tie.
+ */
+export function scoreMetaVariants(
+  kind: MetaVariantKind,
+  candidates: string[],
+  context: MetaVariantContext
+): MetaVariant[] {
+  const seen = new Set<string>();
+  const unique = candidates.filter((candidate) => {
+    const key = toPlainText(candidate).toLowerCase();
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  return unique
+    .slice(0, MAX_META_VARIANTS)
+    .map((text) => scoreMetaVariant(kind, text, context))
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Score one title tag or meta description
+ */
+export function scoreMetaVariant(kind: MetaVariantKind, text: string, context: MetaVariantContext): MetaVariant {
+  const plain = toPlainText(text);
+  const checks: MetaVariantCheck[] = [];
+
+  const keyword = context.primaryKeyword?.trim();
+  if (keyword) {
+    checks.push(checkKeywordPosition(plain, keyword));
+  }
+
+  checks.push(checkLength(plain, { min: Math.min(MIN_LENGTH[kind], context.maxLength), max: context.maxLength }));
+
+  if (kind === 'title') {
+    const brand = context.brandName?.trim();
+    if (brand) {
+      checks.push(checkBrandSuffix(plain, brand));
+    }
+    if (context.h1?.trim()) {
+      checks.push(checkH1Overlap(plain, toPlainText(context.h1), brand));
+    }
+  } else {
+    const hasCta = CTA_PATTERN.test(plain);
+    checks.push({
+      criterion: 'call_to_action',
+      passed: hasCta,
+      points: hasCta ? POINTS.call_to_action : 0,
+      maxPoints: POINTS.call_to_action,
+      detail: hasCta ? `Has a call to action ("${plain.match(CTA_PATTERN)![1]}")` : 'No call to action',
+    });
+  }
+
+  const points = checks.reduce((total, check) => total + check.points, 0);
+  const maxPoints = checks.reduce((total, check) => total + check.maxPoints, 0);
+
+  return {
+    text,
+    score: maxPoints > 0 ? Math.round((points / maxPoints) * 100) : 0,
+    checks,
+  };
+}
+
+function checkKeywordPosition(text: string, keyword: string): MetaVariantCheck {
+  const index = text.toLowerCase().indexOf(keyword.toLowerCase());
+  const early = index >= 0 && index < KEYWORD_POSITION_CHARS;
+
+  return {
+    criterion: 'keyword_position',
+    passed: early,
+    points: early ? POINTS.keyword_position : index >= 0 ? Math.round(POINTS.keyword_position / 2) : 0,
+    maxPoints: POINTS.keyword_position,
+    detail: index < 0
+      ? `"${keyword}" missing`
+      : `"${keyword}" at character ${index + 1}${early ? '' : ` (after the first ${KEYWORD_POSITION_CHARS})`}`,
+  };
+}
+
+function checkLength(text: string, range: { min: number; max: number }): MetaVariantCheck {
+  const length = text.length;
+  const outside = length < range.min ? range.min - length : length > range.max ? length - range.max : 0;
+
+  return {
+    criterion: 'length',
+    passed: outside === 0,
+    points: outside === 0 ? POINTS.length : outside <= LENGTH_TOLERANCE ? Math.round(POINTS.length / 2) : 0,
+    maxPoints: POINTS.length,
+    detail: `${length} characters (${range.min}-${range.max})`,
+  };
+}
+
+function checkBrandSuffix(text: string, brand: string): MetaVariantCheck {
+  const suffix = new RegExp(`\\s[|–—-]\\s*${escapeRegExp(brand)}$`, 'i');
+  const hasSuffix = suffix.test(text);
+  const mentions = text.toLowerCase().includes(brand.toLowerCase());
+
+  return {
+    criterion: 'brand_suffix',
+    passed: hasSuffix,
+    points: hasSuffix ? POINTS.brand_suffix : mentions ? Math.round(POINTS.brand_suffix / 2) : 0,
+    maxPoints: POINTS.brand_suffix,
+    detail: hasSuffix ? `Ends with "${brand}"` : mentions ? `Mentions "${brand}" but not as a suffix` : `No "${brand}" suffix`,
+  };
+}
+
+// Share of the title's words (brand excluded) that also appear in the H1
+function checkH1Overlap(title: string, h1: string, brand?: string): MetaVariantCheck {
+  const brandWords = new Set(brand ? toWords(brand) : []);
+  const titleWords = new Set(toWords(title).filter((word) => !brandWords.has(word)));
+  const h1Words = new Set(toWords(h1));
+  const shared = [...titleWords].filter((word) => h1Words.has(word)).length;
+  const overlap = titleWords.size > 0 ? shared / titleWords.size : 0;
+  const identical = overlap === 1 && titleWords.size === h1Words.size;
+
+  return {
+    criterion: 'h1_overlap',
+    passed: overlap <= MAX_H1_OVERLAP,
+    points: overlap <= MAX_H1_OVERLAP ? POINTS.h1_overlap : identical ? 0 : Math.round(POINTS.h1_overlap / 2),
+    maxPoints: POINTS.h1_overlap,
+    detail: identical ? 'Same wording as the H1' : `${Math.round(overlap * 100)}% of words shared with the H1`,
+  };
+}
+
+function toPlainText(text: string): string {
+  return cleanMarkersForDisplay(text).replace(/\s+/g, ' ').trim();
+}
+
+function toWords(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9]+(?:['’][a-z0-9]+)*/g) || [];
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,242 @@
+/**
+ * Optimizer Schema - Declared output of the content optimizer and its runtime validation
+ *
+ * The optimizer asks the model to call the submit_optimization tool, so the
+ * response arrives as structured tool input instead of free text. The tool's
+ * inputSchema tells the model the shape; validateOptimizationOutput checks
+ * what actually came back, and its error list is what the model sees when it
+ * is asked to repair a response.
+ */
+
+import type { FAQ } from '@/types';
+import type { LLMTool } from './llm-provider';
+
+export const OPTIMIZATION_TOOL_NAME = 'submit_optimization';
+
+// Later sections of a chunked page only carry content; meta elements and FAQs come with the first
+export const SECTION_TOOL_NAME = 'submit_section';
+
+// A change as the AI reports it in its "changes" list
+export interface AIChangeRationale {
+  type?: string;
+  text?: string;
+  targetKeyword?: string;
+  issue?: number;
+  reason?: string;
+}
+
+export interface OptimizationOutput {
+  metaTitle: string;
+  metaDescription: string;
+  // Further candidates, scored against metaTitle/metaDescription (meta-variant-scorer.ts)
+  metaTitleAlternatives: string[];
+  metaDescriptionAlternatives: string[];
+  h1: string;
+  fullContent: string;
+  changesSummary: string;
+  changes: AIChangeRationale[];
+  faqs: FAQ[];
+}
+
+export type SectionOptimizationOutput = Pick<OptimizationOutput, 'fullContent' | 'changesSummary' | 'changes'>;
+
+// Validation result: the typed output, or the problems phrased for the model to fix
+export interface ValidationResult<T> {
+  data: T | null;
+  errors: string[];
+}
+
+const CONTENT_PROPERTIES = {
+  fullContent: {
+    type: 'string',
+    description: 'Content using [H1], [H2], [H3], [PARA], [BULLET] lines with [[KEYWORD:]], [[ADJUSTED:]] and [[NEW]] change markers',
+  },
+  changesSummary: { type: 'string', description: 'Short summary of the changes made' },
+  changes: {
+    type: 'array',
+    description: 'Every marked change with the reason for it',
+    items: {
+      type: 'object',
+      properties: {
+        type: { type: 'string', enum: ['keyword', 'adjusted', 'new'] },
+        text: { type: 'string', description: 'Exact text inside the marker' },
+        targetKeyword: { type: 'string' },
+        issue: { type: 'integer', description: 'Number of the SEO issue this change addresses' },
+        reason: { type: 'string' },
+      },
+      required: ['type', 'text', 'reason'],
+    },
+  },
+};
+
+export const OPTIMIZATION_TOOL: LLMTool = {
+  name: OPTIMIZATION_TOOL_NAME,
+  description: 'Submit the optimized meta elements, content, change list and FAQs for the page.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      metaTitle: { type: 'string', description: 'Optimized title tag' },
+      metaDescription: { type: 'string', description: 'Optimized meta description' },
+      metaTitleAlternatives: {
+        type: 'array',
+        description: '2-4 further title tags, each taking a different angle',
+        items: { type: 'string' },
+      },
+      metaDescriptionAlternatives: {
+        type: 'array',
+        description: '2-4 further meta descriptions, each taking a different angle',
+        items: { type: 'string' },
+      },
+      h1: { type: 'string', description: 'Optimized H1; must differ from the title tag' },
+      ...CONTENT_PROPERTIES,
+      faqs: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            question: { type: 'string' },
+            answer: { type: 'string' },
+          },
+          required: ['question', 'answer'],
+        },
+      },
+    },
+    required: ['metaTitle', 'metaDescription', 'h1', 'fullContent', 'changesSummary', 'faqs'],
+  },
+};
+
+export const SECTION_TOOL: LLMTool = {
+  name: SECTION_TOOL_NAME,
+  description: 'Submit the optimized content and change list for one section of a long page.',
+  inputSchema: {
+    type: 'object',
+    properties: CONTENT_PROPERTIES,
+    required: ['fullContent', 'changesSummary'],
+  },
+};
+
+/**
+ * Thrown when the optimizer's output still fails validation after the repair attempt
+ */
+export class OptimizationOutputError extends Error {
+  constructor(
+    // Validation errors from the last attempt
+    readonly errors: string[],
+    readonly attempts: number
+  ) {
+    super(`AI response failed validation after ${attempts} attempt${attempts !== 1 ? 's' : ''}: ${errors.slice(0, 3).join('; ')}${errors.length > 3 ? ` (+${errors.length - 3} more)` : ''}`);
+    this.name = 'OptimizationOutputError';
+  }
+}
+
+const CHANGE_TYPES = ['keyword', 'adjusted', 'new'];
+
+/**
+ * Check submit_optimization input against the declared schema
+ */
+export function validateOptimizationOutput(input: unknown): ValidationResult<OptimizationOutput> {
+  if (!isObject(input)) {
+    return { data: null, errors: ['The tool input must be an object'] };
+  }
+
+  const errors: string[] = [];
+
+  for (const field of ['metaTitle', 'metaDescription', 'h1'] as const) {
+    if (typeof input[field] !== 'string' || !(input[field] as string).trim()) {
+      errors.push(`"${field}" must be a non-empty string`);
+    }
+  }
+
+  for (const field of ['metaTitleAlternatives', 'metaDescriptionAlternatives'] as const) {
+    const value = input[field];
+    if (value !== undefined && (!Array.isArray(value) || value.some((item) => typeof item !== 'string'))) {
+      errors.push(`"${field}" must be an array of strings`);
+    }
+  }
+
+  errors.push(...checkContentFields(input));
+
+  if (!Array.isArray(input.faqs)) {
+    errors.push('"faqs" must be an array (use [] for none)');
+  } else {
+    input.faqs.forEach((faq, i) => {
+      if (!faq || typeof faq.question !== 'string' || !faq.question.trim() || typeof faq.answer !== 'string' || !faq.answer.trim()) {
+        errors.push(`faqs[${i}] needs a non-empty "question" and "answer"`);
+      }
+    });
+  }
+
+  if (errors.length > 0) {
+    return { data: null, errors };
+  }
+
+  return {
+    data: {
+      metaTitle: input.metaTitle as string,
+      metaDescription: input.metaDescription as string,
+      metaTitleAlternatives: toStrings(input.metaTitleAlternatives),
+      metaDescriptionAlternatives: toStrings(input.metaDescriptionAlternatives),
+      h1: input.h1 as string,
+      ...toContentOutput(input),
+      faqs: input.faqs as FAQ[],
+    },
+    errors: [],
+  };
+}
+
+/**
+ * Check submit_section input against the declared schema
+ */
+export function validateSectionOutput(input: unknown): ValidationResult<SectionOptimizationOutput> {
+  if (!isObject(input)) {
+    return { data: null, errors: ['The tool input must be an object'] };
+  }
+
+  const errors = checkContentFields(input);
+  return errors.length > 0 ? { data: null, errors } : { data: toContentOutput(input), errors: [] };
+}
+
+function isObject(input: unknown): input is Record<string, unknown> {
+  return Boolean(input) && typeof input === 'object' && !Array.isArray(input);
+}
+
+// fullContent, changesSummary and changes, shared by both tools
+function checkContentFields(value: Record<string, unknown>): string[] {
+  const errors: string[] = [];
+
+  if (typeof value.fullContent !== 'string' || !value.fullContent.trim()) {
+    errors.push('"fullContent" must be a non-empty string');
+  }
+
+  if (typeof value.changesSummary !== 'string') {
+    errors.push('"changesSummary" must be a string');
+  }
+
+  if (value.changes !== undefined) {
+    if (!Array.isArray(value.changes)) {
+      errors.push('"changes" must be an array');
+    } else {
+      value.changes.forEach((change, i) => {
+        if (!change || typeof change.text !== 'string') {
+          errors.push(`changes[${i}] needs a "text" string`);
+        } else if (!CHANGE_TYPES.includes(change.type)) {
+          errors.push(`changes[${i}].type must be one of ${CHANGE_TYPES.join(', ')}`);
+        }
+      });
+    }
+  }
+
+  return errors;
+}
+
+function toStrings(value: unknown): string[] {
+  return Array.isArray(value) ? (value as string[]).filter((item) => item.trim()) : [];
+}
+
+function toContentOutput(value: Record<string, unknown>): SectionOptimizationOutput {
+  return {
+    fullContent: value.fullContent as string,
+    changesSummary: value.changesSummary as string,
+    changes: (value.changes as AIChangeRationale[] | undefined) || [],
+  };
+}
@@ -0,0 +1,158 @@
+/**
+ * Pasted Content - Builds CrawledData from user-supplied HTML, Markdown or text
+ *
+ * Used for pages that can't be crawled (staging drafts behind auth, Google
+ * Docs). The result feeds analyzeSEO, optimizeContent and the doc generator
+ * exactly like a crawled page.
+ */
+
+import type { CrawledData, ImageData, PastedContentFormat } from '@/types';
+import { buildCrawledDataFromHtml, classifyLink, countMarkdownWords } from './crawler';
+
+const PASTED_CONTENT_FORMATS: PastedContentFormat[] = ['auto', 'html', 'markdown', 'text'];
+
+export function isPastedContentFormat(value: unknown): value is PastedContentFormat {
+  return typeof value === 'string' && (PASTED_CONTENT_FORMATS as string[]).includes(value);
+}
+
+/**
+ * Guess the format of pasted content
+ */
+export function detectContentFormat(content: string): Exclude<PastedContentFormat, 'auto'> {
+  const sample = content.trim().substring(0, 5000);
+
+  if (/<(html|body|head|p|div|h[1-6]|article|section|ul|ol|li|span|a)\b[^>]*>/i.test(sample)) {
+    return 'html';
+  }
+
+  if (
+    /^#{1,6}\s+\S/m.test(sample) ||
+    /^\s*[-*+]\s+\S/m.test(sample) ||
+    /\[[^\]]+\]\([^)]+\)/.test(sample) ||
+    /\*\*[^*]+\*\*/.test(sample)
+  ) {
+    return 'markdown';
+  }
+
+  return 'text';
+}
+
+/**
+ * Build CrawledData from pasted content
+ *
+ * @param content - The pasted HTML, Markdown or plain text
+ * @param format - Content format, or 'auto' to detect it
+ * @param url - Optional intended URL of the page (used for keyword relevance and the report)
+ */
+export function buildCrawledDataFromPastedContent(
+  content: string,
+  format: PastedContentFormat = 'auto',
+  url: string = ''
+): CrawledData {
+  const resolvedFormat = format === 'auto' ? detectContentFormat(content) : format;
+
+  console.log(`[pasted-content] Building page data from pasted ${resolvedFormat} (${content.length} chars)`);
+
+  if (resolvedFormat === 'html') {
+    return buildCrawledDataFromHtml(content, url);
+  }
+
+  if (resolvedFormat === 'markdown') {
+    return buildCrawledDataFromMarkdown(content, url);
+  }
+
+  return buildCrawledDataFromText(content, url);
+}
+
+function buildCrawledDataFromMarkdown(markdown: string, url: string): CrawledData {
+  const normalized = markdown.replace(/\r\n?/g, '\n').trim();
+  const headings: Record<number, string[]> = { 1: [], 2: [], 3: [], 4: [], 5: [], 6: [] };
+
+  for (const line of normalized.split('\n')) {
+    const match = line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (match) {
+      headings[match[1].length].push(stripInlineMarkdown(match[2]));
+    }
+  }
+
+  const internalLinks: string[] = [];
+  const externalLinks: string[] = [];
+  const linkPattern = /(?<!!)\[[^\]]*\]\(([^)\s]+)[^)]*\)/g;
+  let match;
+  while ((match = linkPattern.exec(normalized)) !== null) {
+    const href = match[1];
+    const kind = classifyLink(href, url);
+    if (kind === 'external') {
+      externalLinks.push(href);
+    } else if (kind === 'internal') {
+      internalLinks.push(href);
+    }
+  }
+
+  const images: ImageData[] = [];
+  const imagePattern = /!\[([^\]]*)\]\(([^)\s]+)[^)]*\)/g;
+  while ((match = imagePattern.exec(normalized)) !== null) {
+    images.push({ src: match[2], alt: match[1], hasAlt: match[1].trim().length > 0 });
+  }
+
+  return {
+    ...emptyPageFields(url),
+    h1: headings[1],
+    h2: headings[2],
+    h3: headings[3],
+    h4: headings[4],
+    h5: headings[5],
+    h6: headings[6],
+    bodyContent: normalized,
+    wordCount: countMarkdownWords(normalized),
+    internalLinks: [...new Set(internalLinks)],
+    externalLinks: [...new Set(externalLinks)],
+    images,
+  };
+}
+
+function buildCrawledDataFromText(text: string, url: string): CrawledData {
+  // Keep paragraph breaks, collapse everything else
+  const bodyContent = text
+    .replace(/\r\n?/g, '\n')
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n\n');
+
+  return {
+    ...emptyPageFields(url),
+    bodyContent,
+    wordCount: countMarkdownWords(bodyContent),
+  };
+}
+
+function emptyPageFields(url: string): CrawledData {
+  return {
+    url,
+    title: '',
+    metaDescription: '',
+    h1: [],
+    h2: [],
+    h3: [],
+    h4: [],
+    h5: [],
+    h6: [],
+    bodyContent: '',
+    schemaMarkup: [],
+    canonicalUrl: '',
+    ogTitle: '',
+    ogDescription: '',
+    wordCount: 0,
+    internalLinks: [],
+    externalLinks: [],
+    images: [],
+  };
+}
+
+function stripInlineMarkdown(text: string): string {
+  return text
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/[*_`~]/g, '')
+    .trim();
+}
@@ -0,0 +1,696 @@
+/**
+ * PDF Renderer - Renders the report model as a non-editable PDF
+ *
+ * Built with pdf-lib and the standard PDF fonts, so it runs in the API route
+ * without a headless browser. pdf-lib only draws text at coordinates, so the
+ * small layout engine below handles word wrapping, page breaks and the green
+ * highlight boxes behind changed words.
+ */
+
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb, type RGB } from 'pdf-lib';
+import type { ComplianceReport, ReauditResult } from '@/types';
+import { COMPLIANCE_RULE_LABELS } from './compliance-checker';
+import { formatJsonLd } from './html-renderer';
+import { formatKeywordsForDocument } from './keyword-processor';
+import {
+  ADOPTION_ELEMENT_LABELS,
+  ADOPTION_STATUS_LABELS,
+  CANNIBALIZATION_SEVERITY_LABELS,
+  describeChunking,
+  describeCompliance,
+  formatMetaAlternate,
+  type CannibalizationSection,
+  type ContentSegment,
+  type ReportModel,
+} from './report-model';
+
+// US Letter, 0.75in margins (points)
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 54;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+// Font sizes in points (mirrors the Word report)
+const FONT_SIZES = {
+  TITLE: 22,
+  HEADING1: 18,
+  HEADING2: 14,
+  HEADING3: 12,
+  BODY: 10.5,
+  SMALL: 9,
+  CODE: 8,
+};
+
+const LINE_HEIGHT = 1.35;
+const CELL_PADDING = 5;
+
+const COLORS = {
+  PRIMARY: hex('1e3a5f'),
+  SECONDARY: hex('2c5282'),
+  TERTIARY: hex('3c6997'),
+  LINK: hex('2563eb'),
+  TEXT: hex('1a1a1a'),
+  TEXT_LIGHT: hex('374151'),
+  MUTED: hex('4b5563'),
+  GREEN_HIGHLIGHT: hex('c6efce'),
+  GREEN_BORDER: hex('22c55e'),
+  GUIDE_BACKGROUND: hex('f0fdf4'),
+  TABLE_HEADER: hex('1e40af'),
+  TABLE_LABEL: hex('f9cb9c'),
+  TABLE_BORDER: hex('cccccc'),
+  CODE_BACKGROUND: hex('f3f4f6'),
+  WHITE: rgb(1, 1, 1),
+  ADOPTED: hex('15803d'),
+  PARTIAL: hex('b45309'),
+  NOT_ADOPTED: hex('b91c1c'),
+};
+
+// Characters outside the standard fonts' WinAnsi encoding that have a readable fallback
+const CHARACTER_FALLBACKS: Record<string, string> = {
+  '→': '->',
+  '←': '<-',
+  '≥': '>=',
+  '≤': '<=',
+  '✓': 'v',
+  '✗': 'x',
+  '\u00a0': ' ',
+  '\u200b': '',
+};
+
+interface Fonts {
+  regular: PDFFont;
+  bold: PDFFont;
+  italic: PDFFont;
+  mono: PDFFont;
+}
+
+interface TextStyle {
+  font: PDFFont;
+  size: number;
+  color: RGB;
+}
+
+// A styled run of text before wrapping
+interface TextRun extends TextStyle {
+  text: string;
+  highlight?: boolean;
+}
+
+// A measured piece of a wrapped line
+interface LinePiece extends TextRun {
+  width: number;
+}
+
+interface Line {
+  pieces: LinePiece[];
+  height: number;
+}
+
+interface TableColumn {
+  header: string;
+  width: number;
+}
+
+interface TableCell {
+  runs: TextRun[];
+  background?: RGB;
+}
+
+/**
+ * Render a report model as a PDF document
+ */
+export async function renderPdf(model: ReportModel): Promise<Buffer> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(sanitizeText(model.title));
+  pdf.setCreator('SEO Content Optimizer');
+
+  const fonts: Fonts = {
+    regular: await pdf.embedFont(StandardFonts.Helvetica),
+    bold: await pdf.embedFont(StandardFonts.HelveticaBold),
+    italic: await pdf.embedFont(StandardFonts.HelveticaOblique),
+    mono: await pdf.embedFont(StandardFonts.Courier),
+  };
+  const layout = createLayout(pdf);
+  const body: TextStyle = { font: fonts.regular, size: FONT_SIZES.BODY, color: COLORS.TEXT };
+
+  // Title and target URL
+  layout.paragraph([{ text: model.title, font: fonts.bold, size: FONT_SIZES.TITLE, color: COLORS.TEXT }], { after: 6 });
+  layout.paragraph(
+    [
+      { text: 'Target Page: ', font: fonts.bold, size: FONT_SIZES.SMALL, color: COLORS.TEXT_LIGHT },
+      model.targetUrl
+        ? { text: model.targetUrl, font: fonts.regular, size: FONT_SIZES.SMALL, color: COLORS.LINK }
+        : { text: 'Not yet published (analyzed from pasted content)', font: fonts.italic, size: FONT_SIZES.SMALL, color: COLORS.TEXT_LIGHT },
+    ],
+    { after: model.targetKeywords.length > 0 ? 4 : 16 }
+  );
+  if (model.targetKeywords.length > 0) {
+    layout.paragraph(
+      [
+        { text: 'Target Keywords: ', font: fonts.bold, size: FONT_SIZES.SMALL, color: COLORS.TEXT_LIGHT },
+        { text: formatKeywordsForDocument(model.targetKeywords), font: fonts.regular, size: FONT_SIZES.SMALL, color: COLORS.TEXT },
+      ],
+      { after: 16 }
+    );
+  }
+
+  // Reading guide
+  layout.callout([
+    { ...body, text: 'Reading Guide: ', font: fonts.bold },
+    { ...body, text: 'Words highlighted in ' },
+    { ...body, text: 'green', font: fonts.bold, highlight: true },
+    { ...body, text: ' are keyword insertions or small adjustments. The rest of the content remains unchanged from the original page.' },
+    ...(model.chunking ? [{ ...body, text: ` ${describeChunking(model.chunking)}` }] : []),
+  ]);
+
+  // Current vs optimized meta elements
+  layout.heading('Current vs Optimized Meta Elements', { font: fonts.bold, size: FONT_SIZES.HEADING2, color: COLORS.SECONDARY });
+  layout.table(
+    [
+      { header: 'Element', width: 0.16 },
+      { header: 'Current', width: 0.28 },
+      { header: 'Optimized', width: 0.32 },
+      { header: 'Why Changed', width: 0.24 },
+    ],
+    model.metaRows.map((row) => [
+      { runs: [{ text: row.element, font: fonts.bold, size: FONT_SIZES.SMALL, color: COLORS.TEXT }], background: COLORS.TABLE_LABEL },
+      { runs: [{ text: row.current || 'Not set', font: fonts.regular, size: FONT_SIZES.SMALL, color: COLORS.TEXT }] },
+      {
+        runs: [
+          { text: row.optimized || 'Not set', font: fonts.regular, size: FONT_SIZES.SMALL, color: COLORS.TEXT, highlight: true },
+          ...(row.alternates
+            ? [{ text: ` Alternatives: ${row.alternates.map(formatMetaAlternate).join('; ')}`, font: fonts.italic, size: FONT_SIZES.SMALL, color: COLORS.MUTED }]
+            : []),
+        ],
+      },
+      { runs: [{ text: row.why, font: fonts.italic, size: FONT_SIZES.SMALL, color: COLORS.MUTED }] },
+    ]),
+    fonts.bold
+  );
+
+  // Optimized content
+  layout.heading('OPTIMIZED CONTENT', { font: fonts.bold, size: FONT_SIZES.HEADING2, color: COLORS.LINK }, { before: 20 });
+  layout.paragraph(segmentsToRuns(model.h1, { font: fonts.bold, size: FONT_SIZES.HEADING1, color: COLORS.PRIMARY }), { after: 10 });
+
+  let numberedIndex = 0;
+  for (const block of model.blocks) {
+    numberedIndex = block.type === 'numbered' ? numberedIndex + 1 : 0;
+
+    switch (block.type) {
+      case 'heading': {
+        const style = block.level === 1
+          ? { font: fonts.bold, size: FONT_SIZES.HEADING1, color: COLORS.PRIMARY }
+          : block.level === 2
+            ? { font: fonts.bold, size: FONT_SIZES.HEADING2, color: COLORS.SECONDARY }
+            : { font: fonts.bold, size: FONT_SIZES.HEADING3, color: COLORS.TERTIARY };
+        layout.paragraph(segmentsToRuns(block.segments, style), { before: 12, after: 6, keepWithNext: true });
+        break;
+      }
+      case 'bullet':
+        layout.paragraph(segmentsToRuns(block.segments, body), { after: 3, marker: '•' });
+        break;
+      case 'numbered':
+        layout.paragraph(segmentsToRuns(block.segments, body), { after: 3, marker: `${numberedIndex}.` });
+        break;
+      default:
+        layout.paragraph(segmentsToRuns(block.segments, body), { after: 8 });
+    }
+  }
+
+  // FAQs and schema are new content, so they are highlighted in full
+  if (model.faqs.length > 0) {
+    layout.heading('Frequently Asked Questions', { font: fonts.bold, size: FONT_SIZES.HEADING2, color: COLORS.SECONDARY }, { highlight: true });
+    for (const faq of model.faqs) {
+      layout.paragraph([{ ...body, text: `Q: ${faq.question}`, font: fonts.bold, highlight: true }], { after: 2, keepWithNext: true });
+      layout.paragraph([{ ...body, text: `A: ${faq.answer}`, highlight: true }], { after: 10, indent: 12 });
+    }
+  }
+
+  if (model.schemaRecommendations.length > 0) {
+    layout.heading('Schema Markup Recommendations', { font: fonts.bold, size: FONT_SIZES.HEADING2, color: COLORS.SECONDARY }, { highlight: true });
+    for (const recommendation of model.schemaRecommendations) {
+      layout.paragraph(
+        [{ text: recommendation.type, font: fonts.bold, size: FONT_SIZES.HEADING3, color: COLORS.TERTIARY, highlight: true }],
+        { before: 6, after: 4, keepWithNext: true }
+      );
+      layout.paragraph([{ text: recommendation.reason, font: fonts.italic, size: FONT_SIZES.SMALL, color: COLORS.MUTED }], { after: 4 });
+      layout.code(formatJsonLd(recommendation.jsonLd), { font: fonts.mono, size: FONT_SIZES.CODE, color: COLORS.TEXT_LIGHT });
+    }
+  }
+
+  if (model.reaudit) {
+    renderImplementationCheck(layout, model.reaudit, fonts);
+  }
+
+  if (model.cannibalization) {
+    renderCannibalization(layout, model.cannibalization, fonts);
+  }
+
+  if (model.compliance) {
+    renderRuleCheck(layout, model.compliance, fonts);
+  }
+
+  layout.addPageNumbers(fonts.regular);
+
+  const bytes = await pdf.save();
+  console.log('[pdf-renderer] PDF created, pages:', pdf.getPageCount(), 'size:', bytes.length);
+  return Buffer.from(bytes);
+}
+
+function renderImplementationCheck(layout: Layout, reaudit: ReauditResult, fonts: Fonts) {
+  const body: TextStyle = { font: fonts.regular, size: FONT_SIZES.BODY, color: COLORS.TEXT };
+  const small: TextStyle = { font: fonts.regular, size: FONT_SIZES.SMALL, color: COLORS.TEXT };
+  const delta = `${reaudit.scoreDelta > 0 ? '+' : ''}${reaudit.scoreDelta}`;
+  const statusColors = { adopted: COLORS.ADOPTED, partial: COLORS.PARTIAL, not_adopted: COLORS.NOT_ADOPTED };
+
+  layout.heading('Implementation Check', { font: fonts.bold, size: FONT_SIZES.HEADING2, color: COLORS.SECONDARY });
+  layout.paragraph(
+    [
+      { ...body, text: `Live page re-audited on ${new Date(reaudit.auditedAt).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}. ` },
+      { ...body, font: fonts.bold, text: `SEO score: ${reaudit.previousScore} → ${reaudit.currentScore} (${delta})` },
+    ],
+    { after: 8 }
+  );
+
+  layout.table(
+    [
+      { header: 'Element', width: 0.18 },
+      { header: 'Recommended', width: 0.33 },
+      { header: 'Live Page', width: 0.33 },
+      { header: 'Status', width: 0.16 },
+    ],
+    reaudit.adoption.map((item) => [
+      { runs: [{ ...small, font: fonts.bold, text: ADOPTION_ELEMENT_LABELS[item.element] }], background: COLORS.TABLE_LABEL },
+      { runs: [{ ...small, text: item.recommended || 'Not set' }] },
+      { runs: [{ ...small, text: item.current || 'Not set' }] },
+      { runs: [{ ...small, font: fonts.bold, color: statusColors[item.status], text: ADOPTION_STATUS_LABELS[item.status] }] },
+    ]),
+    fonts.bold
+  );
+
+  const issueList = (title: string, issues: ReauditResult['resolvedIssues']) => {
+    layout.paragraph(
+      [{ text: `${title} (${issues.length})`, font: fonts.bold, size: FONT_SIZES.HEADING3, color: COLORS.TERTIARY }],
+      { before: 8, after: 4, keepWithNext: true }
+    );
+    if (issues.length === 0) {
+      layout.paragraph([{ ...body, font: fonts.italic, text: 'None' }], { after: 4 });
+    }
+    for (const issue of issues) {
+      layout.paragraph([{ ...body, text: issue.message }], { after: 2, marker: '•' });
+    }
+  };
+
+  issueList('Issues Resolved', reaudit.resolvedIssues);
+  issueList('New Issues', reaudit.introducedIssues);
+
+  if (reaudit.densityChanges.length > 0) {
+    layout.paragraph(
+      [{ text: 'Keyword Density Changes', font: fonts.bold, size: FONT_SIZES.HEADING3, color: COLORS.TERTIARY }],
+      { before: 8, after: 4, keepWithNext: true }
+    );
+    layout.table(
+      [
+        { header: 'Keyword', width: 0.46 },
+        { header: 'Before', width: 0.18 },
+        { header: 'After', width: 0.18 },
+        { header: 'Change', width: 0.18 },
+      ],
+      reaudit.densityChanges.slice(0, 15).map((change) => [
+        { runs: [{ ...small, text: change.keyword }] },
+        { runs: [{ ...small, text: `${change.before.toFixed(2)}%` }] },
+        { runs: [{ ...small, text: `${change.after.toFixed(2)}%` }] },
+        { runs: [{ ...small, text: `${change.delta > 0 ? '+' : ''}${change.delta.toFixed(2)}` }] },
+      ]),
+      fonts.bold
+    );
+  }
+}
+
+function renderCannibalization(layout: Layout, section: CannibalizationSection, fonts: Fonts) {
+  const body: TextStyle = { font: fonts.regular, size: FONT_SIZES.BODY, color: COLORS.TEXT };
+  const small: TextStyle = { font: fonts.regular, size: FONT_SIZES.SMALL, color: COLORS.TEXT };
+
+  layout.heading('Keyword Cannibalization', { font: fonts.bold, size: FONT_SIZES.HEADING2, color: COLORS.SECONDARY });
+  layout.paragraph(
+    [{ ...body, text: `Checked against ${section.pageCount - 1} other analyzed page${section.pageCount === 2 ? '' : 's'} on ${section.domain}.` }],
+    { after: 8 }
+  );
+
+  if (section.rows.length === 0) {
+    layout.paragraph([{ ...body, font: fonts.italic, text: "No other checked page competes for this page's keywords." }], { after: 4 });
+    return;
+  }
+
+  layout.table(
+    [
+      { header: 'Keyword', width: 0.18 },
+      { header: 'Severity', width: 0.1 },
+      { header: 'Should Own', width: 0.22 },
+      { header: 'Competing Pages', width: 0.22 },
+      { header: 'Action for This Page', width: 0.28 },
+    ],
+    section.rows.map((row) => [
+      { runs: [{ ...small, font: fonts.bold, text: row.keyword }], background: COLORS.TABLE_LABEL },
+      { runs: [{ ...small, text: CANNIBALIZATION_SEVERITY_LABELS[row.severity] }] },
+      { runs: [{ ...small, text: row.ownerUrl }] },
+      { runs: [{ ...small, text: row.competingUrls.join(', ') }] },
+      { runs: [{ ...small, text: row.action }] },
+    ]),
+    fonts.bold
+  );
+}
+
+function renderRuleCheck(layout: Layout, compliance: ComplianceReport, fonts: Fonts) {
+  const body: TextStyle = { font: fonts.regular, size: FONT_SIZES.BODY, color: COLORS.TEXT };
+  const small: TextStyle = { font: fonts.regular, size: FONT_SIZES.SMALL, color: COLORS.TEXT };
+
+  layout.heading('Optimization Rule Check', { font: fonts.bold, size: FONT_SIZES.HEADING2, color: COLORS.SECONDARY });
+  layout.paragraph([{ ...body, text: describeCompliance(compliance) }], { after: 8 });
+
+  layout.table(
+    [
+      { header: 'Rule', width: 0.34 },
+      { header: 'Result', width: 0.14 },
+      { header: 'Measured', width: 0.26 },
+      { header: 'Target', width: 0.26 },
+    ],
+    compliance.checks.map((check) => [
+      { runs: [{ ...small, font: fonts.bold, text: COMPLIANCE_RULE_LABELS[check.rule] }], background: COLORS.TABLE_LABEL },
+      { runs: [{ ...small, font: check.passed ? fonts.regular : fonts.bold, text: check.passed ? 'Passed' : 'Failed' }] },
+      { runs: [{ ...small, text: check.actual }] },
+      { runs: [{ ...small, text: check.expected }] },
+    ]),
+    fonts.bold
+  );
+}
+
+function segmentsToRuns(segments: ContentSegment[], style: TextStyle): TextRun[] {
+  return segments.map((segment) => ({ ...style, text: segment.text, highlight: segment.highlight }));
+}
+
+type Layout = ReturnType<typeof createLayout>;
+
+interface ParagraphOptions {
+  before?: number;
+  after?: number;
+  indent?: number;
+  // List marker drawn in the indent ("•" or "1.")
+  marker?: string;
+  // Move to a new page with the following block rather than strand a heading
+  keepWithNext?: boolean;
+}
+
+/**
+ * Cursor-based layout over the PDF's pages. Content flows top to bottom and
+ * starts a new page whenever the next line doesn't fit.
+ */
+function createLayout(pdf: PDFDocument) {
+  let page: PDFPage = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const newPage = () => {
+    page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    y = PAGE_HEIGHT - MARGIN;
+  };
+
+  // Start a new page if the given height doesn't fit (unless already at the top)
+  const ensureSpace = (height: number) => {
+    if (y - height < MARGIN && y < PAGE_HEIGHT - MARGIN) {
+      newPage();
+    }
+  };
+
+  const drawLine = (line: Line, x: number) => {
+    const baseline = y - line.height * 0.78;
+    let cursor = x;
+    for (const piece of line.pieces) {
+      if (piece.highlight && piece.text.trim()) {
+        page.drawRectangle({
+          x: cursor - 1,
+          y: y - line.height + 1,
+          width: piece.width + 2,
+          height: line.height - 1,
+          color: COLORS.GREEN_HIGHLIGHT,
+        });
+      }
+      page.drawText(piece.text, { x: cursor, y: baseline, font: piece.font, size: piece.size, color: piece.color });
+      cursor += piece.width;
+    }
+    y -= line.height;
+  };
+
+  const paragraph = (runs: TextRun[], options: ParagraphOptions = {}) => {
+    const indent = options.indent ?? (options.marker ? 16 : 0);
+    const lines = wrapRuns(runs, CONTENT_WIDTH - indent);
+    if (lines.length === 0) return;
+
+    y -= options.before ?? 0;
+    // Keep headings with at least a couple of lines of what follows
+    ensureSpace(options.keepWithNext ? lines[0].height * 3 : lines[0].height);
+
+    if (options.marker) {
+      const first = runs[0];
+      page.drawText(options.marker, {
+        x: MARGIN + 4,
+        y: y - lines[0].height * 0.78,
+        font: first.font,
+        size: first.size,
+        color: first.color,
+      });
+    }
+
+    for (const line of lines) {
+      ensureSpace(line.height);
+      drawLine(line, MARGIN + indent);
+    }
+    y -= options.after ?? 0;
+  };
+
+  const heading = (text: string, style: TextStyle, options: { before?: number; highlight?: boolean } = {}) => {
+    paragraph([{ ...style, text, highlight: options.highlight }], { before: options.before ?? 16, after: 8, keepWithNext: true });
+  };
+
+  // Text box with a light green background and a left border (reading guide)
+  const callout = (runs: TextRun[]) => {
+    const padding = 8;
+    const lines = wrapRuns(runs, CONTENT_WIDTH - padding * 2 - 4);
+    const height = lines.reduce((sum, line) => sum + line.height, 0) + padding * 2;
+
+    y -= 4;
+    ensureSpace(height);
+    page.drawRectangle({ x: MARGIN, y: y - height, width: CONTENT_WIDTH, height, color: COLORS.GUIDE_BACKGROUND });
+    page.drawRectangle({ x: MARGIN, y: y - height, width: 3, height, color: COLORS.GREEN_BORDER });
+
+    y -= padding;
+    for (const line of lines) {
+      drawLine(line, MARGIN + padding + 4);
+    }
+    y -= padding + 12;
+  };
+
+  // Monospaced block with a grey background, wrapped by character
+  const code = (text: string, style: TextStyle) => {
+    const padding = 6;
+    const charWidth = style.font.widthOfTextAtSize('M', style.size);
+    const maxChars = Math.max(1, Math.floor((CONTENT_WIDTH - padding * 2) / charWidth));
+    const lineHeight = style.size * LINE_HEIGHT;
+
+    const lines = sanitizeText(text, style.font, true)
+      .split('\n')
+      .flatMap((line) => {
+        const chunks: string[] = [];
+        for (let i = 0; i < line.length; i += maxChars) {
+          chunks.push(line.slice(i, i + maxChars));
+        }
+        return chunks.length > 0 ? chunks : [''];
+      });
+
+    y -= 2;
+    for (const [index, line] of lines.entries()) {
+      ensureSpace(lineHeight + padding);
+      const top = index === 0 ? padding : 0;
+      const bottom = index === lines.length - 1 ? padding : 0;
+      page.drawRectangle({
+        x: MARGIN,
+        y: y - lineHeight - top - bottom,
+        width: CONTENT_WIDTH,
+        height: lineHeight + top + bottom,
+        color: COLORS.CODE_BACKGROUND,
+      });
+      y -= top;
+      page.drawText(line, { x: MARGIN + padding, y: y - lineHeight * 0.78, font: style.font, size: style.size, color: style.color });
+      y -= lineHeight + bottom;
+    }
+    y -= 10;
+  };
+
+  const table = (columns: TableColumn[], rows: TableCell[][], headerFont: PDFFont) => {
+    const widths = columns.map((column) => column.width * CONTENT_WIDTH);
+    const header: TableCell[] = columns.map((column) => ({
+      runs: [{ text: column.header, font: headerFont, size: FONT_SIZES.SMALL, color: COLORS.WHITE }],
+      background: COLORS.TABLE_HEADER,
+    }));
+
+    const drawRow = (cells: TableCell[]) => {
+      const cellLines = cells.map((cell, i) => wrapRuns(cell.runs, widths[i] - CELL_PADDING * 2));
+      const height = Math.max(...cellLines.map((lines) => lines.reduce((sum, line) => sum + line.height, 0))) + CELL_PADDING * 2;
+
+      ensureSpace(height);
+      const top = y;
+      let x = MARGIN;
+      cells.forEach((cell, i) => {
+        page.drawRectangle({
+          x,
+          y: top - height,
+          width: widths[i],
+          height,
+          color: cell.background,
+          borderColor: COLORS.TABLE_BORDER,
+          borderWidth: 0.5,
+        });
+        y = top - CELL_PADDING;
+        for (const line of cellLines[i]) {
+          drawLine(line, x + CELL_PADDING);
+        }
+        x += widths[i];
+      });
+      y = top - height;
+    };
+
+    y -= 4;
+    drawRow(header);
+    rows.forEach(drawRow);
+    y -= 14;
+  };
+
+  // "Page X of Y" footer, added once all pages exist
+  const addPageNumbers = (font: PDFFont) => {
+    const pages = pdf.getPages();
+    pages.forEach((p, i) => {
+      const label = `Page ${i + 1} of ${pages.length}`;
+      p.drawText(label, {
+        x: PAGE_WIDTH - MARGIN - font.widthOfTextAtSize(label, FONT_SIZES.SMALL),
+        y: MARGIN / 2,
+        font,
+        size: FONT_SIZES.SMALL,
+        color: COLORS.MUTED,
+      });
+    });
+  };
+
+  return { paragraph, heading, callout, code, table, addPageNumbers };
+}
+
+/**
+ * Word-wrap styled runs into lines that fit maxWidth. Words longer than a full
+ * line (e.g. URLs) are broken by character.
+ */
+function wrapRuns(runs: TextRun[], maxWidth: number): Line[] {
+  const lines: Line[] = [];
+  let pieces: LinePiece[] = [];
+  let width = 0;
+
+  const lineHeight = (items: TextRun[]) => Math.max(...items.map((item) => item.size * LINE_HEIGHT));
+
+  const pushLine = () => {
+    // Trailing spaces don't count towards the line or its highlight
+    while (pieces.length > 0 && !pieces[pieces.length - 1].text.trim()) {
+      pieces.pop();
+    }
+    if (pieces.length > 0) {
+      lines.push({ pieces, height: lineHeight(pieces) });
+    }
+    pieces = [];
+    width = 0;
+  };
+
+  const addPiece = (run: TextRun, text: string, textWidth: number) => {
+    const last = pieces[pieces.length - 1];
+    // Merge with the previous piece when the style matches, so highlights are continuous
+    if (last && last.font === run.font && last.size === run.size && last.color === run.color && last.highlight === run.highlight) {
+      last.text += text;
+      last.width += textWidth;
+    } else {
+      pieces.push({ ...run, text, width: textWidth });
+    }
+    width += textWidth;
+  };
+
+  for (const run of runs) {
+    const text = sanitizeText(run.text.replace(/\s+/g, ' '), run.font);
+    for (const token of text.split(/( )/)) {
+      if (!token) continue;
+      const tokenWidth = run.font.widthOfTextAtSize(token, run.size);
+
+      if (token === ' ') {
+        if (pieces.length > 0) addPiece(run, token, tokenWidth);
+        continue;
+      }
+
+      if (width + tokenWidth > maxWidth && pieces.length > 0) {
+        pushLine();
+      }
+
+      if (tokenWidth <= maxWidth) {
+        addPiece(run, token, tokenWidth);
+        continue;
+      }
+
+      // Break an over-long word across lines
+      let chunk = '';
+      for (const char of token) {
+        const next = chunk + char;
+        if (width + run.font.widthOfTextAtSize(next, run.size) > maxWidth && (chunk || pieces.length > 0)) {
+          if (chunk) addPiece(run, chunk, run.font.widthOfTextAtSize(chunk, run.size));
+          pushLine();
+          chunk = char;
+        } else {
+          chunk = next;
+        }
+      }
+      if (chunk) addPiece(run, chunk, run.font.widthOfTextAtSize(chunk, run.size));
+    }
+  }
+  pushLine();
+
+  return lines;
+}
+
+// Standard fonts only cover WinAnsi; map what has a fallback and drop the rest (e.g. emoji)
+const characterSets = new WeakMap<PDFFont, Set<number>>();
+
+function sanitizeText(text: string, font?: PDFFont, keepNewlines = false): string {
+  const supported = font ? getCharacterSet(font) : null;
+  let result = '';
+  for (const char of text) {
+    if (keepNewlines && char === '\n') {
+      result += char;
+      continue;
+    }
+    const mapped = CHARACTER_FALLBACKS[char] ?? char;
+    for (const c of mapped) {
+      const code = c.codePointAt(0)!;
+      if (c === '\t' || c === '\r' || c === '\n') {
+        result += ' ';
+      } else if (!supported || supported.has(code)) {
+        result += c;
+      }
+    }
+  }
+  return result;
+}
+
+function getCharacterSet(font: PDFFont): Set<number> {
+  let set = characterSets.get(font);
+  if (!set) {
+    set = new Set(font.getCharacterSet());
+    characterSets.set(font, set);
+  }
+  return set;
+}
+
+function hex(color: string): RGB {
+  const value = parseInt(color, 16);
+  return rgb(((value >> 16) & 0xff) / 255, ((value >> 8) & 0xff) / 255, (value & 0xff) / 255);
+}
@@ -0,0 +1,165 @@
+/**
+ * Re-audit - Crawls a previously analyzed page again and compares it to the original audit
+ *
+ * Uses the same KeywordData as the original analysis so scores and densities
+ * are comparable, and checks whether the recommended title, description and
+ * H1 made it onto the live page.
+ */
+
+import * as Diff from 'diff';
+import type {
+  AdoptionStatus,
+  AnalysisResult,
+  CrawledData,
+  CrawlerProviderName,
+  KeywordDensityChange,
+  RecommendationAdoption,
+  ReauditResult,
+  SEOAnalysis,
+  SEOIssue,
+} from '@/types';
+import { crawlPage } from './crawler';
+import { analyzeSEO } from './seo-analyzer';
+import { parseMarkedContent } from './content-differ';
+
+// Similarity thresholds for counting a recommendation as adopted
+const ADOPTED_THRESHOLD = 0.9;
+const PARTIAL_THRESHOLD = 0.5;
+
+// Density changes smaller than this (percentage points) are noise
+const MIN_DENSITY_CHANGE = 0.05;
+
+/**
+ * Crawl the page of a previous analysis again and compare the two audits
+ */
+export async function reauditPage(
+  previous: AnalysisResult,
+  options: { crawler?: CrawlerProviderName; originalAuditedAt?: string } = {}
+): Promise<ReauditResult> {
+  const { url } = previous.crawledData;
+  if (!url) {
+    throw new Error('This analysis was made from pasted content and has no URL to re-audit');
+  }
+
+  console.log(`[reaudit] Re-crawling ${url}`);
+  const crawledData = await crawlPage(url, options.crawler);
+  const currentAnalysis = analyzeSEO(crawledData, previous.keywords);
+
+  return compareAudits(previous, crawledData, currentAnalysis, options.originalAuditedAt);
+}
+
+/**
+ * Diff a fresh audit of a page against the original analysis
+ */
+export function compareAudits(
+  previous: AnalysisResult,
+  crawledData: CrawledData,
+  currentAnalysis: SEOAnalysis,
+  originalAuditedAt?: string
+): ReauditResult {
+  const previousAnalysis = previous.seoAnalysis;
+
+  const previousIssues = new Map(previousAnalysis.issues.map((issue) => [issueKey(issue), issue]));
+  const currentIssues = new Map(currentAnalysis.issues.map((issue) => [issueKey(issue), issue]));
+
+  const resolvedIssues = [...previousIssues].filter(([key]) => !currentIssues.has(key)).map(([, issue]) => issue);
+  const introducedIssues = [...currentIssues].filter(([key]) => !previousIssues.has(key)).map(([, issue]) => issue);
+  const unchangedIssues = [...currentIssues].filter(([key]) => previousIssues.has(key)).map(([, issue]) => issue);
+
+  const { optimizedContent } = previous;
+
+  return {
+    url: crawledData.url,
+    originalAuditedAt,
+    auditedAt: new Date().toISOString(),
+    previousScore: previousAnalysis.score,
+    currentScore: currentAnalysis.score,
+    scoreDelta: currentAnalysis.score - previousAnalysis.score,
+    resolvedIssues,
+    introducedIssues,
+    unchangedIssues,
+    densityChanges: compareDensities(
+      previousAnalysis.keywordAnalysis.keywordDensity,
+      currentAnalysis.keywordAnalysis.keywordDensity
+    ),
+    adoption: [
+      checkAdoption('title', previous.crawledData.title, optimizedContent.metaTitle, crawledData.title),
+      checkAdoption('description', previous.crawledData.metaDescription, optimizedContent.metaDescription, crawledData.metaDescription),
+      checkAdoption('h1', previous.crawledData.h1[0] || '', optimizedContent.h1, crawledData.h1[0] || ''),
+    ],
+    previousWordCount: previous.crawledData.wordCount,
+    currentWordCount: crawledData.wordCount,
+    currentAnalysis,
+  };
+}
+
+// Issue messages embed counts ("too short (45 characters)"), so compare them without the numbers
+function issueKey(issue: SEOIssue): string {
+  return `${issue.category}:${issue.message.replace(/\d+/g, '#')}`;
+}
+
+function compareDensities(
+  before: Record<string, number>,
+  after: Record<string, number>
+): KeywordDensityChange[] {
+  const keywords = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  return [...keywords]
+    .map((keyword) => {
+      const previous = before[keyword] ?? 0;
+      const current = after[keyword] ?? 0;
+      return {
+        keyword,
+        before: round(previous),
+        after: round(current),
+        delta: round(current - previous),
+      };
+    })
+    .filter((change) => Math.abs(change.delta) >= MIN_DENSITY_CHANGE)
+    .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+}
+
+function checkAdoption(
+  element: RecommendationAdoption['element'],
+  before: string,
+  markedRecommendation: string,
+  current: string
+): RecommendationAdoption {
+  const recommended = parseMarkedContent(markedRecommendation || '').cleanContent;
+  const similarity = textSimilarity(recommended, current);
+
+  let status: AdoptionStatus = 'not_adopted';
+  if (similarity >= ADOPTED_THRESHOLD) {
+    status = 'adopted';
+  } else if (similarity >= PARTIAL_THRESHOLD && textSimilarity(before, current) < ADOPTED_THRESHOLD) {
+    // Only "partial" if the page actually changed towards the recommendation
+    status = 'partial';
+  }
+
+  return { element, before, recommended, current, similarity: round(similarity), status };
+}
+
+/**
+ * Word-level similarity (0-1): share of characters common to both texts
+ */
+function textSimilarity(a: string, b: string): number {
+  const left = normalizeText(a);
+  const right = normalizeText(b);
+  if (!left && !right) return 1;
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const common = Diff.diffWords(left, right)
+    .filter((part) => !part.added && !part.removed)
+    .reduce((total, part) => total + part.value.length, 0);
+
+  return (2 * common) / (left.length + right.length);
+}
+
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,207 @@
+/**
+ * Relevance Scorer - Scores how well each keyword fits the page being optimized
+ *
+ * Two scorers share the KeywordRelevanceScorer interface:
+ * - heuristic: slug/title substring checks plus the rule set's boosts
+ * - tfidf: the heuristic blended with TF-IDF similarity between the keyword
+ *   and the page's headings and body content, so "teacher coverage" ranks well
+ *   on a page about educator insurance that talks about teachers and coverage.
+ * Both run locally with no model downloads.
+ */
+
+import type { KeywordRule, RelevanceScorerName } from '@/types';
+import { getKeywordBoost } from './keyword-rules';
+
+export interface RelevanceContext {
+  pageSlug: string;
+  pageTitle?: string;
+  bodyContent?: string;
+  headings?: string[];
+  // Rules from the client's rule set that match this page
+  rules: KeywordRule[];
+}
+
+export interface KeywordRelevanceScorer {
+  name: RelevanceScorerName;
+  // One score per keyword, in the same order; higher = more relevant
+  score(keywords: string[], context: RelevanceContext): number[];
+}
+
+export const RELEVANCE_SCORERS: RelevanceScorerName[] = ['tfidf', 'heuristic'];
+
+// Points added for a perfect content match (the heuristic ranges roughly 40-130)
+const SEMANTIC_WEIGHT = 40;
+
+// Body content is split into passages of about this many words
+const PASSAGE_WORDS = 60;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'for', 'from', 'has', 'have',
+  'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'near', 'of', 'on', 'or', 'our',
+  'so', 'than', 'that', 'the', 'their', 'them', 'there', 'these', 'they', 'this', 'to', 'us', 'was',
+  'we', 'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with', 'you', 'your',
+]);
+
+/**
+ * Slug and title substring checks plus the rule set's boosts (the original scoring)
+ */
+export const heuristicScorer: KeywordRelevanceScorer = {
+  name: 'heuristic',
+  score: (keywords, context) => keywords.map((keyword) => scoreHeuristic(keyword, context)),
+};
+
+/**
+ * Heuristic score plus up to SEMANTIC_WEIGHT points for TF-IDF similarity to the page content
+ */
+export const tfidfScorer: KeywordRelevanceScorer = {
+  name: 'tfidf',
+  score(keywords, context) {
+    const index = buildPageIndex(context);
+    if (!index) {
+      // Nothing to compare against (e.g. no body content); fall back to the heuristic
+      return heuristicScorer.score(keywords, context);
+    }
+
+    return keywords.map((keyword) =>
+      scoreHeuristic(keyword, context) + Math.round(SEMANTIC_WEIGHT * index.similarity(keyword))
+    );
+  },
+};
+
+export function getRelevanceScorer(name?: RelevanceScorerName): KeywordRelevanceScorer {
+  return name === 'heuristic' ? heuristicScorer : tfidfScorer;
+}
+
+function scoreHeuristic(keyword: string, context: RelevanceContext): number {
+  const keywordLower = keyword.toLowerCase();
+  const slugLower = context.pageSlug.toLowerCase();
+  const titleLower = (context.pageTitle || '').toLowerCase();
+
+  let score = 50; // Base score
+
+  // Boost if keyword appears in slug
+  if (slugLower.includes(keywordLower.replace(/\s+/g, '-'))) {
+    score += 30;
+  }
+
+  // Boost if keyword appears in page title
+  if (titleLower.includes(keywordLower)) {
+    score += 20;
+  }
+
+  // Boost for the rule set's page-specific terms
+  score += getKeywordBoost(keyword, context.rules);
+
+  // Penalize very short keywords (likely too generic)
+  if (keyword.length < 5) {
+    score -= 10;
+  }
+
+  // Boost for longer, more specific keywords
+  if (keyword.split(' ').length >= 3) {
+    score += 10;
+  }
+
+  return score;
+}
+
+type TermVector = Map<string, number>;
+
+interface PageIndex {
+  // 0-1 similarity between a keyword and the page
+  similarity(keyword: string): number;
+}
+
+/**
+ * Index the page as passages (title, each heading, ~60-word body windows) so
+ * IDF reflects how concentrated a term is, not just whether it appears.
+ */
+function buildPageIndex(context: RelevanceContext): PageIndex | null {
+  const passages = [
+    ...(context.pageTitle ? [context.pageTitle] : []),
+    ...(context.headings || []),
+    ...splitPassages(context.bodyContent || ''),
+  ]
+    .map(tokenize)
+    .filter((tokens) => tokens.length > 0);
+
+  if (passages.length === 0) return null;
+
+  const documentFrequency = new Map<string, number>();
+  for (const tokens of passages) {
+    for (const term of new Set(tokens)) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+
+  const idf = (term: string) => Math.log((passages.length + 1) / ((documentFrequency.get(term) || 0) + 1)) + 1;
+  const passageVectors = passages.map((tokens) => weightTerms(tokens, idf));
+  const pageVector = weightTerms(passages.flat(), idf);
+
+  return {
+    similarity(keyword) {
+      const keywordVector = weightTerms(tokenize(keyword), idf);
+      if (keywordVector.size === 0) return 0;
+
+      // Best single passage rewards keywords whose terms occur together;
+      // the whole-page vector rewards terms the page keeps coming back to
+      const bestPassage = Math.max(...passageVectors.map((vector) => cosine(keywordVector, vector)));
+      const coverage = [...keywordVector.keys()].filter((term) => documentFrequency.has(term)).length / keywordVector.size;
+      return 0.5 * bestPassage + 0.3 * coverage + 0.2 * cosine(keywordVector, pageVector);
+    },
+  };
+}
+
+function splitPassages(text: string): string[] {
+  const passages: string[] = [];
+  for (const paragraph of text.split(/\n\s*\n|\n(?=[#*-] )/)) {
+    const words = paragraph.split(/\s+/).filter(Boolean);
+    for (let start = 0; start < words.length; start += PASSAGE_WORDS) {
+      passages.push(words.slice(start, start + PASSAGE_WORDS).join(' '));
+    }
+  }
+  return passages;
+}
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 1 && !STOP_WORDS.has(token))
+    .map(stem);
+}
+
+// Light plural/suffix folding so "teachers" matches "teacher" and "policies" matches "policy"
+function stem(token: string): string {
+  if (token.length > 4 && token.endsWith('ies')) return `${token.slice(0, -3)}y`;
+  if (token.length > 4 && /(ches|shes|sses|xes)$/.test(token)) return token.slice(0, -2);
+  if (token.length > 3 && token.endsWith('s') && !/(ss|us|is)$/.test(token)) return token.slice(0, -1);
+  return token;
+}
+
+// Sublinear term frequency times IDF, L2-normalized
+function weightTerms(tokens: string[], idf: (term: string) => number): TermVector {
+  const counts = new Map<string, number>();
+  for (const token of tokens) counts.set(token, (counts.get(token) || 0) + 1);
+
+  const vector: TermVector = new Map();
+  let norm = 0;
+  for (const [term, count] of counts) {
+    const weight = (1 + Math.log(count)) * idf(term);
+    vector.set(term, weight);
+    norm += weight * weight;
+  }
+
+  norm = Math.sqrt(norm);
+  for (const [term, weight] of vector) vector.set(term, weight / norm);
+  return vector;
+}
+
+function cosine(a: TermVector, b: TermVector): number {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let dot = 0;
+  for (const [term, weight] of small) {
+    dot += weight * (large.get(term) || 0);
+  }
+  return dot;
+}
@@ -0,0 +1,692 @@
+/**
+ * Report Model - Format-independent parse of an analysis into report sections
+ *
+ * The AI output carries structural markers ([H1], [H2], [H3], [PARA], [BULLET])
+ * and change markers ([[KEYWORD: term]], [[ADJUSTED: old → new]], [[NEW]]).
+ * They are parsed once here into blocks of highlighted/plain segments; every
+ * renderer (Word, HTML, Markdown) builds its output from the same model.
+ */
+
+import type {
+  AdoptionStatus,
+  AnalysisResult,
+  CannibalizationIssue,
+  CannibalizationReport,
+  ChangeRationale,
+  ComplianceReport,
+  ContentChunking,
+  FAQ,
+  MetaVariant,
+  ReauditResult,
+  SchemaRecommendation,
+  Settings,
+} from '@/types';
+import { getIssuesForPage, getPageAction, includesPage } from './cannibalization';
+import { createRationaleMatcher, formatChangeRationale } from './content-differ';
+import { filterAndLimitKeywords, type KeywordWithVolume } from './keyword-processor';
+
+export interface ReportOptions {
+  analysisResult: AnalysisResult;
+  settings: Settings;
+  clientName: string;
+  pageName: string;
+  // Optional re-audit results, rendered as an "Implementation Check" section
+  reaudit?: ReauditResult;
+  // Optional site-wide check, rendered as a "Keyword Cannibalization" section if it covered this page
+  cannibalization?: CannibalizationReport;
+}
+
+// A run of text; highlighted runs are keyword insertions, adjustments or new sentences
+export interface ContentSegment {
+  text: string;
+  highlight: boolean;
+  change?: 'keyword' | 'adjusted' | 'new';
+  // For adjustments: the phrase that was replaced
+  original?: string;
+  // Why the change was made (from the optimizer's change rationales)
+  reason?: string;
+  // For new sentences: the keyword insertions and adjustments inside them
+  innerChanges?: ContentSegment[];
+}
+
+export type ContentBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; segments: ContentSegment[] }
+  | { type: 'paragraph'; segments: ContentSegment[] }
+  | { type: 'bullet'; segments: ContentSegment[] }
+  | { type: 'numbered'; segments: ContentSegment[] };
+
+export interface MetaComparisonRow {
+  element: string;
+  current: string;
+  optimized: string;
+  why: string;
+  // Other scored candidates for the title tag and meta description
+  alternates?: MetaAlternate[];
+}
+
+export interface MetaAlternate {
+  text: string;
+  score: number;
+}
+
+// A contested keyword as seen from the report's page
+export interface CannibalizationRow {
+  keyword: string;
+  severity: CannibalizationIssue['severity'];
+  ownerUrl: string;
+  // Other checked pages competing for the keyword
+  competingUrls: string[];
+  // What this page should do
+  action: string;
+}
+
+export interface CannibalizationSection {
+  domain: string;
+  pageCount: number;
+  rows: CannibalizationRow[];
+}
+
+export interface ReportModel {
+  title: string;
+  clientName: string;
+  pageName: string;
+  // Empty for pasted content that isn't published yet
+  targetUrl: string;
+  // Keywords the page was optimized for, most relevant first (up to Settings.keywordLimits.display)
+  targetKeywords: KeywordWithVolume[];
+  metaRows: MetaComparisonRow[];
+  h1: ContentSegment[];
+  blocks: ContentBlock[];
+  faqs: FAQ[];
+  schemaRecommendations: SchemaRecommendation[];
+  reaudit?: ReauditResult;
+  cannibalization?: CannibalizationSection;
+  // Set when a long page was optimized in sections
+  chunking?: ContentChunking;
+  // Optimizer rule checks, rendered as an "Optimization Rule Check" section
+  compliance?: ComplianceReport;
+  // Word only: render changes as tracked revisions attributed to revisionAuthor
+  trackChanges: boolean;
+  revisionAuthor: string;
+}
+
+// Labels for the Implementation Check section
+export const ADOPTION_STATUS_LABELS: Record<AdoptionStatus, string> = {
+  adopted: 'Adopted',
+  partial: 'Partially adopted',
+  not_adopted: 'Not adopted',
+};
+
+export const CANNIBALIZATION_SEVERITY_LABELS: Record<CannibalizationIssue['severity'], string> = {
+  high: 'High',
+  medium: 'Medium',
+};
+
+export const ADOPTION_ELEMENT_LABELS: Record<ReauditResult['adoption'][number]['element'], string> = {
+  title: 'Title Tag',
+  description: 'Meta Description',
+  h1: 'H1',
+};
+
+/**
+ * Build the report model for an analysis
+ */
+export function buildReportModel(options: ReportOptions): ReportModel {
+  const { analysisResult, settings, clientName, pageName, reaudit, cannibalization } = options;
+  const { crawledData, optimizedContent } = analysisResult;
+
+  const h1 = parseMarkedLine(optimizedContent.h1);
+  // The H1 is rendered separately, so a copy inside fullContent is dropped
+  const blocks = parseContentBlocks(optimizedContent.fullContent, [optimizedContent.h1]);
+  attachChangeReasons([h1, ...blocks.map((block) => block.segments)], optimizedContent.changeRationales || []);
+
+  return {
+    title: `${clientName} - ${pageName} | Content Improvement`,
+    clientName,
+    pageName,
+    targetUrl: crawledData.url,
+    targetKeywords: filterAndLimitKeywords(analysisResult.keywords, crawledData, {
+      ruleSet: settings.keywordRuleSet,
+      scorer: settings.relevanceScorer,
+      limit: settings.keywordLimits?.display,
+    }),
+    metaRows: [
+      {
+        element: 'Title Tag',
+        current: crawledData.title,
+        optimized: cleanMarkersForDisplay(optimizedContent.metaTitle),
+        why: 'Primary keyword in first 30 chars, optimal length',
+        alternates: getMetaAlternates(optimizedContent.metaTitleVariants, optimizedContent.metaTitle),
+      },
+      {
+        element: 'Meta Description',
+        current: crawledData.metaDescription,
+        optimized: cleanMarkersForDisplay(optimizedContent.metaDescription),
+        why: 'Added CTA, included target keyword, compelling copy',
+        alternates: getMetaAlternates(optimizedContent.metaDescriptionVariants, optimizedContent.metaDescription),
+      },
+      {
+        element: 'H1',
+        current: crawledData.h1[0] || '',
+        optimized: cleanMarkersForDisplay(optimizedContent.h1),
+        why: 'Differentiated from title, natural keyword placement',
+      },
+    ],
+    h1,
+    blocks,
+    faqs: optimizedContent.faqs,
+    schemaRecommendations: settings.includeSchemaRecommendations ? optimizedContent.schemaRecommendations : [],
+    reaudit,
+    cannibalization: cannibalization && crawledData.url && includesPage(cannibalization, crawledData.url)
+      ? buildCannibalizationSection(cannibalization, crawledData.url)
+      : undefined,
+    chunking: optimizedContent.chunking,
+    compliance: analysisResult.compliance,
+    trackChanges: Boolean(settings.trackChangesInWord),
+    revisionAuthor: settings.brandName || clientName,
+  };
+}
+
+/**
+ * An alternate title or description with its score, as listed under the meta table
+ */
+export function formatMetaAlternate(alternate: MetaAlternate): string {
+  return `${alternate.text} (score ${alternate.score}/100)`;
+}
+
+/**
+ * Reading-guide note for a page that was optimized in sections
+ */
+export function describeChunking(chunking: ContentChunking): string {
+  return `This page was too long for a single optimization pass, so its ${chunking.characters.toLocaleString('en-US')} characters of content were optimized in ${chunking.sections} heading-bounded sections sharing one keyword budget.`;
+}
+
+/**
+ * Summary line for the Optimization Rule Check section
+ */
+export function describeCompliance(compliance: ComplianceReport): string {
+  const passed = compliance.checks.filter((check) => check.passed).length;
+  const reprompts = compliance.reprompts > 0
+    ? ` The AI was asked ${compliance.reprompts === 1 ? 'once' : `${compliance.reprompts} times`} to fix rule violations.`
+    : '';
+  return `${passed} of ${compliance.checks.length} optimization rules passed; ${Math.round(compliance.preservationRatio * 100)}% of the original wording was kept.${reprompts}`;
+}
+
+// Scored candidates other than the chosen one, as display text
+function getMetaAlternates(variants: MetaVariant[] | undefined, chosen: string): MetaAlternate[] | undefined {
+  const chosenText = cleanMarkersForDisplay(chosen);
+  const alternates = (variants || [])
+    .map((variant) => ({ text: cleanMarkersForDisplay(variant.text), score: variant.score }))
+    .filter((alternate) => alternate.text !== chosenText);
+  return alternates.length > 0 ? alternates : undefined;
+}
+
+function buildCannibalizationSection(report: CannibalizationReport, url: string): CannibalizationSection {
+  return {
+    domain: report.domain,
+    pageCount: report.urls.length,
+    rows: getIssuesForPage(report, url).map((issue) => ({
+      keyword: issue.keyword,
+      severity: issue.severity,
+      ownerUrl: issue.ownerUrl,
+      competingUrls: issue.pages.map((page) => page.url).filter((pageUrl) => pageUrl !== url),
+      action: getPageAction(issue, url),
+    })),
+  };
+}
+
+/**
+ * Set `reason` on each changed segment, matching rationales in document order.
+ * A new sentence's reason also covers the keywords and adjustments inside it.
+ */
+function attachChangeReasons(segmentLists: ContentSegment[][], rationales: ChangeRationale[]) {
+  if (rationales.length === 0) return;
+
+  const findRationale = createRationaleMatcher(rationales);
+  for (const segments of segmentLists) {
+    for (const segment of segments) {
+      if (!segment.change) continue;
+      const reasons = [segment, ...(segment.innerChanges || [])]
+        .map((changed) => findRationale(changed.change!, changed.text))
+        .filter((rationale): rationale is ChangeRationale => !!rationale)
+        .map(formatChangeRationale);
+      if (reasons.length > 0) {
+        segment.reason = reasons.join(' ');
+      }
+    }
+  }
+}
+
+/**
+ * Plain text of a list of segments
+ */
+export function segmentsToText(segments: ContentSegment[]): string {
+  return segments.map((segment) => segment.text).join('');
+}
+
+/**
+ * Clean markers from text for display (removes [[KEYWORD:]], [[ADJUSTED:]], [[NEW]])
+ * Used for metadata fields where we want clean text without markers
+ */
+export function cleanMarkersForDisplay(text: string): string {
+  if (!text) return '';
+
+  let clean = text;
+
+  // Remove [[KEYWORD: text]] -> text
+  clean = clean.replace(/\[\[KEYWORD:\s*([^\]]+)\]\]/g, '$1');
+
+  // Remove [[ADJUSTED: old → new]] -> new
+  clean = clean.replace(/\[\[ADJUSTED:\s*[^→]*→\s*([^\]]+)\]\]/g, '$1');
+  clean = clean.replace(/\[\[ADJUSTED:\s*([^\]]+)\]\]/g, '$1');
+
+  // Remove [[NEW...]] markers entirely
+  clean = clean.replace(/\[\[NEW[^\]]*\]\]/g, '');
+
+  // Remove any corrupted GREEN markers from previous approach
+  clean = clean.replace(/<<<GREEN>>>/g, '');
+  clean = clean.replace(/<<\/GREEN>>>/g, '');
+  clean = clean.replace(/<<<\/?GREEN>>>/g, '');
+  clean = clean.replace(/<<</g, '');
+  clean = clean.replace(/>>>/g, '');
+  clean = clean.replace(/>>/g, '');
+  clean = clean.replace(/<</g, '');
+  clean = clean.replace(/\\</g, '');
+
+  // Remove structural markers (with or without brackets)
+  clean = clean.replace(/^\[?H[123]\]?\s*/gim, '');
+  clean = clean.replace(/\[?H[123]\]?\s+/gi, '');
+  clean = clean.replace(/^\[?PARA\]?\s*/gim, '');
+  clean = clean.replace(/\[?PARA\]?\s+/gi, '');
+  clean = clean.replace(/^\[?BULLET\]?\s*/gim, '');
+  clean = clean.replace(/\[?BULLET\]?\s+/gi, '');
+
+  // Clean up extra spaces
+  clean = clean.replace(/\s+/g, ' ').trim();
+
+  return clean;
+}
+
+/**
+ * Filter out footer content that shouldn't appear in the report
+ */
+function filterFooterContent(content: string): string {
+  // Patterns that indicate footer/non-content areas
+  const footerPatterns = [
+    /©.*All Rights Reserved.*/gi,
+    /©\s*\d{4}.*/gi,
+    /Privacy Policy.*/gi,
+    /Terms of Service.*/gi,
+    /Cookie Policy.*/gi,
+    /\| All Rights Reserved \|/gi,
+    /Follow us on.*/gi,
+    /Connect with us.*/gi,
+    /^\s*©.*/gm,
+  ];
+
+  let filtered = content;
+  for (const pattern of footerPatterns) {
+    filtered = filtered.replace(pattern, '');
+  }
+
+  // Split into lines and filter aggressively in the last portion
+  const lines = filtered.split('\n');
+  const cutoffIndex = Math.floor(lines.length * 0.85);
+
+  const cleanedLines = lines.filter((line, index) => {
+    const trimmedLine = line.trim();
+
+    // Always filter these patterns regardless of position
+    if (trimmedLine.includes('©') ||
+        trimmedLine.includes('All Rights Reserved') ||
+        /Privacy Policy/i.test(trimmedLine) ||
+        /Terms of (Service|Use)/i.test(trimmedLine)) {
+      return false;
+    }
+
+    // More aggressive filtering for bottom 15% of content
+    if (index > cutoffIndex) {
+      // Skip very short lines at the end (likely footer links)
+      if (trimmedLine.length < 20 && trimmedLine.length > 0) {
+        // Check if it looks like a footer link
+        if (/^[A-Z][a-z]+(\s[A-Z][a-z]+)*$/.test(trimmedLine)) {
+          return false;
+        }
+      }
+    }
+
+    return true;
+  });
+
+  return cleanedLines.join('\n').trim();
+}
+
+// Lines that are stray markers, button text or footer text
+const JUNK_LINE_PATTERNS = [
+  /^PARA$/i,                    // Stray "PARA" text
+  /^BULLET$/i,                  // Stray "BULLET" text
+  /^H[123]$/i,                  // Stray "H1", "H2", "H3" text
+  /^Get a Quote$/i,             // Button text
+  /^Learn More$/i,              // Button text
+  /^Read More$/i,               // Button text
+  /^Contact Us$/i,              // Button text
+  /^Submit$/i,                  // Button text
+  /^Sign Up$/i,                 // Button text
+  /^Apply Now$/i,               // Button text
+  /^Request a Quote$/i,         // Button text
+  /^Privacy Policy$/i,          // Footer text
+  /^Terms of Service$/i,        // Footer text
+  /^©/,                         // Copyright text
+  /^\[PARA\]$/i,                // Empty PARA marker
+  /^\[BULLET\]$/i,              // Empty BULLET marker
+  /^\[H[123]\]$/i,              // Empty heading marker
+  /^\[\[NEW\]\]$/i,             // Standalone [[NEW]] marker
+  /^\[\[NEW FAQ SECTION\]\]/i,  // FAQ section marker (FAQs handled separately)
+  /^\[PARA\s*\(/i,              // [PARA (http... junk
+  /^\(https?:\/\//i,            // Bare URLs starting with (http
+  /^https?:\/\/[^\s]+$/i,       // Standalone URLs
+];
+
+/**
+ * Parse structured content with [H1], [H2], [H3], [PARA], [BULLET] markers
+ * Also handles legacy markdown format for backwards compatibility
+ *
+ * @param content - The marked-up optimized content
+ * @param renderedH1s - H1s already shown elsewhere in the report; duplicates are skipped
+ */
+export function parseContentBlocks(content: string, renderedH1s: string[] = []): ContentBlock[] {
+  const blocks: ContentBlock[] = [];
+  const seenH1s = new Set(renderedH1s.map(normalizeHeading));
+
+  const isDuplicateH1 = (heading: string): boolean => {
+    const normalized = normalizeHeading(heading);
+    if (seenH1s.has(normalized)) {
+      console.log('[report-model] Skipping duplicate H1:', normalized);
+      return true;
+    }
+    seenH1s.add(normalized);
+    return false;
+  };
+
+  // First filter out footer content
+  let processedContent = filterFooterContent(content);
+
+  // CRITICAL: Strip FAQ section from fullContent since FAQs are handled separately
+  // The AI sometimes includes FAQs in fullContent with [[NEW FAQ SECTION]] marker
+  // We need to remove everything from [[NEW FAQ SECTION]] onwards to prevent duplicates
+  const faqSectionIndex = processedContent.search(/\[\[NEW FAQ SECTION\]\]/i);
+  if (faqSectionIndex !== -1) {
+    console.log('[report-model] Found FAQ section in content at index', faqSectionIndex, '- stripping to prevent duplicate');
+    processedContent = processedContent.substring(0, faqSectionIndex).trim();
+  }
+
+  // Also check for "Frequently Asked Questions" heading that might indicate embedded FAQ
+  const faqHeadingMatch = processedContent.match(/\[H2\]\s*Frequently Asked Questions/i);
+  if (faqHeadingMatch && faqHeadingMatch.index !== undefined) {
+    console.log('[report-model] Found FAQ heading in content - stripping to prevent duplicate');
+    processedContent = processedContent.substring(0, faqHeadingMatch.index).trim();
+  }
+
+  // Clean residual markdown/HTML but KEEP the [[KEYWORD:]] markers
+  // We only clean markdown/HTML, not our custom markers
+  processedContent = processedContent
+    // Remove escaped markdown characters
+    .replace(/\\\*/g, '*')
+    .replace(/\\\[/g, '[')
+    .replace(/\\\]/g, ']')
+    // Remove markdown image syntax: ![alt](url) or ![alt]
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '')      // ![alt](url)
+    .replace(/!\[[^\]]*\]/g, '')                  // ![alt]
+    .replace(/^!([A-Za-z][A-Za-z0-9 ]*)/gm, '')   // !AltText at start of line
+    // Remove markdown links: [text](url) -> text
+    .replace(/\[([^\]]+)\]\([^)]+\)/g, '$1')
+    // Remove orphan brackets (but not our [[KEYWORD:]] markers)
+    .replace(/(?<!\[)\[(?!\[)([^\]]*)\](?!\])/g, '$1')  // Single [text] but not [[
+    // Remove bold/italic markdown
+    .replace(/\*\*([^*]+)\*\*/g, '$1')
+    .replace(/\*([^*]+)\*/g, '$1')
+    // Remove HTML tags
+    .replace(/<[^>]+>/g, '')
+    // Remove "Get a Quote" button text that might be captured
+    .replace(/^Get a Quote$/gm, '');
+
+  // CRITICAL: Split structured markers onto their own lines if AI didn't add newlines
+  // This handles cases where AI outputs: "[H1] Title [PARA] Content [H2] Heading"
+  // or "H1 Title PARA Content H2 Heading" (without brackets)
+  // and converts it to separate lines
+  processedContent = processedContent
+    // Keep a line-leading [[NEW]] on the line of the structural marker after it
+    // (the bracket cleanup above may already have turned "[PARA]" into "PARA")
+    .replace(/^[ \t]*\[\[NEW\]\][ \t]*\[?(H[123]|PARA|BULLET)\]?[ \t]+/gm, '[$1] [[NEW]] ')
+    // With brackets
+    .replace(/\s*\[H1\]/g, '\n[H1]')
+    .replace(/\s*\[H2\]/g, '\n[H2]')
+    .replace(/\s*\[H3\]/g, '\n[H3]')
+    .replace(/\s*\[PARA\]/g, '\n[PARA]')
+    .replace(/\s*\[BULLET\]/g, '\n[BULLET]')
+    // Without brackets - handle "H1 text" format (word boundary to avoid matching "H1" in middle of text)
+    .replace(/^H1\s+/gm, '\n[H1] ')
+    .replace(/^H2\s+/gm, '\n[H2] ')
+    .replace(/^H3\s+/gm, '\n[H3] ')
+    .replace(/^PARA\s+/gm, '\n[PARA] ')
+    .replace(/^BULLET\s+/gm, '\n[BULLET] ')
+    // Also handle inline without brackets (e.g., "... text H1 heading ...")
+    .replace(/\s+H1\s+/g, '\n[H1] ')
+    .replace(/\s+H2\s+/g, '\n[H2] ')
+    .replace(/\s+H3\s+/g, '\n[H3] ')
+    .replace(/\s+PARA\s+/g, '\n[PARA] ')
+    .replace(/\s+BULLET\s+/g, '\n[BULLET] ')
+    .trim();
+
+  // Split by lines for processing - keep the [[KEYWORD:]] markers intact
+  for (const line of processedContent.split('\n')) {
+    const trimmedLine = line.trim();
+
+    // Skip empty lines entirely - they would become empty paragraphs
+    if (!trimmedLine) {
+      continue;
+    }
+
+    if (JUNK_LINE_PATTERNS.some(pattern => pattern.test(trimmedLine))) {
+      console.log('[report-model] Filtering junk line:', trimmedLine);
+      continue;
+    }
+
+    // If the line is empty apart from [[NEW]] markers, skip it
+    if (!trimmedLine.replace(/\[\[NEW\]\]/g, '').trim()) {
+      continue;
+    }
+
+    // [[NEW]] markers stay in the line; parseMarkedLine turns them into segments
+    const cleanedLine = trimmedLine;
+
+    // NEW STRUCTURED FORMAT: [H1] / [H2] / [H3] Heading
+    const structuredHeading = cleanedLine.match(/^\[H([123])\]/);
+    if (structuredHeading) {
+      const level = Number(structuredHeading[1]) as 1 | 2 | 3;
+      const headingText = cleanedLine.replace(structuredHeading[0], '').trim();
+      if (level === 1 && isDuplicateH1(headingText)) {
+        continue;
+      }
+      blocks.push({ type: 'heading', level, segments: parseMarkedLine(headingText) });
+      continue;
+    }
+
+    // NEW STRUCTURED FORMAT: [PARA] Paragraph text
+    if (cleanedLine.startsWith('[PARA]')) {
+      blocks.push({ type: 'paragraph', segments: parseMarkedLine(cleanedLine.replace('[PARA]', '').trim()) });
+      continue;
+    }
+
+    // NEW STRUCTURED FORMAT: [BULLET] Bullet point
+    if (cleanedLine.startsWith('[BULLET]')) {
+      blocks.push({ type: 'bullet', segments: parseMarkedLine(cleanedLine.replace('[BULLET]', '').trim()) });
+      continue;
+    }
+
+    // LEGACY FORMAT: #, ## and ### markdown headings
+    const markdownHeading = cleanedLine.match(/^(#{1,3}) /);
+    if (markdownHeading) {
+      const level = markdownHeading[1].length as 1 | 2 | 3;
+      const headingText = cleanedLine.substring(markdownHeading[0].length);
+      if (level === 1 && isDuplicateH1(headingText)) {
+        continue;
+      }
+      blocks.push({ type: 'heading', level, segments: parseMarkedLine(headingText) });
+      continue;
+    }
+
+    // LEGACY FORMAT: Bullet point (- or *)
+    if (cleanedLine.startsWith('- ') || cleanedLine.startsWith('* ')) {
+      blocks.push({ type: 'bullet', segments: parseMarkedLine(cleanedLine.substring(2)) });
+      continue;
+    }
+
+    // LEGACY FORMAT: Numbered list
+    const numberMatch = cleanedLine.match(/^(\d+)\.\s(.+)/);
+    if (numberMatch) {
+      blocks.push({ type: 'numbered', segments: parseMarkedLine(numberMatch[2]) });
+      continue;
+    }
+
+    // Regular paragraph (no marker - treat as paragraph)
+    blocks.push({ type: 'paragraph', segments: parseMarkedLine(cleanedLine) });
+  }
+
+  return blocks;
+}
+
+/**
+ * Split a single line into plain and highlighted segments based on its
+ * [[KEYWORD:]], [[ADJUSTED:]] and [[NEW]] markers
+ */
+export function parseMarkedLine(line: string): ContentSegment[] {
+  if (!line || !line.trim()) {
+    return [];
+  }
+
+  // Strip [[NEW FAQ SECTION]] and any other internal markers, keeping [[NEW]]
+  const processedLine = line
+    .replace(/\[\[NEW [^\]]*\]\]/gi, '')
+    .replace(/\[\[(?!KEYWORD:|ADJUSTED:|NEW\]\])[^\]]*\]\]/g, '');
+
+  // A sentence marked [[NEW]] is one new segment, including any keywords in it
+  return splitNewSentences(processedLine).flatMap(({ text, isNew }): ContentSegment[] => {
+    const segments = parseChangeMarkers(text);
+    if (!isNew || segments.length === 0) {
+      return segments;
+    }
+    const innerChanges = segments.filter((segment) => segment.change);
+    return [{
+      text: segmentsToText(segments),
+      highlight: true,
+      change: 'new',
+      ...(innerChanges.length > 0 ? { innerChanges } : {}),
+    }];
+  });
+}
+
+/**
+ * Split a line on its [[NEW]] markers. The marker follows the new sentence;
+ * at the start of a line it marks the sentence after it instead.
+ */
+function splitNewSentences(line: string): Array<{ text: string; isNew: boolean }> {
+  const pieces: Array<{ text: string; isNew: boolean }> = [];
+  let rest = line;
+
+  const leading = rest.match(/^\s*\[\[NEW\]\]\s*/i);
+  if (leading) {
+    rest = rest.substring(leading[0].length);
+    const sentence = rest.match(/^[^.!?]*(?:[.!?]+|$)/)?.[0] || rest;
+    // Markers inside the sentence belong to it (e.g. "[[NEW]] Text. [[NEW]]")
+    pieces.push({ text: sentence.replace(/\s*\[\[NEW\]\]/gi, ''), isNew: true });
+    rest = rest.substring(sentence.length).replace(/^\s*\[\[NEW\]\]/i, '');
+  }
+
+  const newMarker = /\[\[NEW\]\]/gi;
+  let lastIndex = 0;
+  let match;
+  while ((match = newMarker.exec(rest)) !== null) {
+    const before = rest.substring(lastIndex, match.index);
+    // The last sentence before the marker, including its closing punctuation
+    const sentenceStart = before.search(/[^.!?\s][^.!?]*[.!?]*\s*$/);
+    if (sentenceStart > 0) {
+      pieces.push({ text: before.substring(0, sentenceStart), isNew: false });
+    }
+    if (sentenceStart !== -1) {
+      pieces.push({ text: before.substring(sentenceStart).trimEnd(), isNew: true });
+    }
+    lastIndex = match.index + match[0].length;
+  }
+  pieces.push({ text: rest.substring(lastIndex), isNew: false });
+
+  return pieces.filter((piece) => piece.text);
+}
+
+/**
+ * Parse [[KEYWORD: text]] and [[ADJUSTED: old → new]] markers into segments
+ */
+function parseChangeMarkers(line: string): ContentSegment[] {
+  const segments: ContentSegment[] = [];
+  let processedLine = line;
+
+  // Step 1: Fix spacing around [[KEYWORD:]] and [[ADJUSTED:]] markers
+  // Add space BEFORE [[ if preceded by word character
+  processedLine = processedLine.replace(/(\w)(\[\[(?:KEYWORD|ADJUSTED):)/g, '$1 $2');
+
+  // Add space AFTER ]] if followed by word character
+  processedLine = processedLine.replace(/(\]\])(\w)/g, '$1 $2');
+
+  // Handle comma/apostrophe cases
+  processedLine = processedLine.replace(/,(\[\[(?:KEYWORD|ADJUSTED):)/g, ', $1');
+  processedLine = processedLine.replace(/'(\[\[(?:KEYWORD|ADJUSTED):)/g, "' $1");
+
+  // Step 2: Parse [[KEYWORD: text]] and [[ADJUSTED: old → new]] markers
+  const markerRegex = /\[\[(KEYWORD|ADJUSTED):\s*([^\]]+)\]\]/g;
+
+  let lastIndex = 0;
+  let match;
+
+  while ((match = markerRegex.exec(processedLine)) !== null) {
+    // Text before this marker (not highlighted)
+    if (match.index > lastIndex) {
+      segments.push({ text: processedLine.substring(lastIndex, match.index), highlight: false });
+    }
+
+    const markerType = match[1].toUpperCase();
+    let highlightText = match[2].trim();
+    let original: string | undefined;
+
+    // For ADJUSTED, highlight only the NEW part (after the arrow)
+    if (markerType === 'ADJUSTED' && highlightText.includes('→')) {
+      const parts = highlightText.split('→');
+      highlightText = parts[parts.length - 1].trim();
+      original = parts.slice(0, -1).join('→').trim();
+    }
+
+    if (highlightText) {
+      segments.push({
+        text: highlightText,
+        highlight: true,
+        change: markerType === 'ADJUSTED' ? 'adjusted' : 'keyword',
+        original,
+      });
+    }
+
+    lastIndex = match.index + match[0].length;
+  }
+
+  // Text after the last marker
+  if (lastIndex < processedLine.length) {
+    segments.push({ text: processedLine.substring(lastIndex), highlight: false });
+  }
+
+  return segments.filter((segment) => segment.text);
+}
+
+function normalizeHeading(heading: string): string {
+  return cleanMarkersForDisplay(heading)
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
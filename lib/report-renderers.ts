@@ -0,0 +1,67 @@
+import type { ReportFormat } from '@/types';
+import { renderDocx } from './doc-generator';
+import { renderHtmlReport, renderPasteReadyHtml } from './html-renderer';
+import { renderMarkdown } from './markdown-renderer';
+import { renderPdf } from './pdf-renderer';
+import type { ReportModel } from './report-model';
+
+/**
+ * A report renderer turns the shared ReportModel into a downloadable file.
+ * The content is parsed once by buildReportModel(); renderers only format it.
+ */
+export interface ReportRenderer {
+  format: ReportFormat;
+  contentType: string;
+  extension: string;
+  // Appended to the client/page name in the download filename
+  filenameSuffix: string;
+  render(model: ReportModel): Promise<Buffer>;
+}
+
+export const REPORT_FORMATS: ReportFormat[] = ['docx', 'pdf', 'html', 'html-clean', 'markdown'];
+
+const REPORT_RENDERERS: Record<ReportFormat, ReportRenderer> = {
+  docx: {
+    format: 'docx',
+    contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    extension: 'docx',
+    filenameSuffix: 'Improvement',
+    render: renderDocx,
+  },
+  pdf: {
+    format: 'pdf',
+    contentType: 'application/pdf',
+    extension: 'pdf',
+    filenameSuffix: 'Improvement',
+    render: renderPdf,
+  },
+  html: {
+    format: 'html',
+    contentType: 'text/html; charset=utf-8',
+    extension: 'html',
+    filenameSuffix: 'Improvement',
+    render: async (model) => Buffer.from(renderHtmlReport(model), 'utf-8'),
+  },
+  'html-clean': {
+    format: 'html-clean',
+    contentType: 'text/html; charset=utf-8',
+    extension: 'html',
+    filenameSuffix: 'Paste_Ready',
+    render: async (model) => Buffer.from(renderPasteReadyHtml(model), 'utf-8'),
+  },
+  markdown: {
+    format: 'markdown',
+    contentType: 'text/markdown; charset=utf-8',
+    extension: 'md',
+    filenameSuffix: 'Improvement',
+    render: async (model) => Buffer.from(renderMarkdown(model), 'utf-8'),
+  },
+};
+
+export function isReportFormat(value: unknown): value is ReportFormat {
+  return typeof value === 'string' && (REPORT_FORMATS as string[]).includes(value);
+}
+
+export function getReportRenderer(format: ReportFormat = 'docx'): ReportRenderer {
+  return REPORT_RENDERERS[format];
+}
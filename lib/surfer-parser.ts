@@ -1,4 +1,7 @@
 import puppeteer, { Browser } from 'puppeteer-core';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { extractSurferData, toSurferReportData } from './surfer-extractor';
 
 export interface SurferTerm {
   term: string;
@@ -29,6 +32,8 @@ export interface SurferReportData {
     pageTitle?: string;
     url?: string;
     extractionMethod?: string;
+    // Saved HTML of the rendered page (parseSurferAuditReport's saveSnapshot option)
+    snapshotPath?: string;
     pageContent?: {
       bodyLength: number;
       hasTable: boolean;
@@ -40,6 +45,14 @@ export interface SurferReportData {
   };
 }
 
+export interface SurferParseOptions {
+  // Save the rendered page's HTML so it can be replayed offline (see surfer-snapshot.ts)
+  saveSnapshot?: boolean;
+}
+
+// Where snapshots are written; override with SURFER_SNAPSHOT_DIR (e.g. a fixtures folder)
+const DEFAULT_SNAPSHOT_DIR = path.join(process.cwd(), '.data', 'surfer-snapshots');
+
 // Track if we're using Browserless.io (for proper cleanup)
 let usingBrowserless = false;
 
@@ -87,7 +100,7 @@ async function getBrowser(): Promise<Browser> {
   throw new Error('BROWSERLESS_TOKEN environment variable is required in production');
 }
 
-export async function parseSurferAuditReport(reportUrl: string): Promise<SurferReportData> {
+export async function parseSurferAuditReport(reportUrl: string, options: SurferParseOptions = {}): Promise<SurferReportData> {
   // Validate URL
   if (!reportUrl.includes('surferseo.com')) {
     return {
@@ -518,809 +531,18 @@ export async function parseSurferAuditReport(reportUrl: string): Promise<SurferR
 
     console.log('[Surfer Parser] Extracting data with multiple strategies...');
 
-    // Extract all data from the page using multiple strategies
-    const extractedData = await page.evaluate(() => {
-      const data: {
-        mainKeyword: string;
-        auditedUrl: string;
-        contentScore: number | null;
-        wordCount: number | null;
-        terms: Array<{
-          term: string;
-          isNLP: boolean;
-          currentCount: number | null;
-          recommendedMin: number | null;
-          recommendedMax: number | null;
-          competitorMin: number | null;
-          competitorMax: number | null;
-          relevance: number | null;
-          action: string | null;
-          status: string;
-        }>;
-        questions: string[];
-        headings: string[];
-        extractionMethod: string;
-      } = {
-        mainKeyword: '',
-        auditedUrl: '',
-        contentScore: null,
-        wordCount: null,
-        terms: [],
-        questions: [],
-        headings: [],
-        extractionMethod: 'none'
-      };
-
-      // Helper to safely get text
-      const getText = (selector: string): string => {
-        const el = document.querySelector(selector);
-        return el?.textContent?.trim() || '';
-      };
-
-      // 1. Try to get main keyword from SurferSEO shared audit page
-      // The page structure shows: "Audit / [flag] keyword https://url"
-      // Look for text between flag image and URL
-      const allText = document.body.innerText;
-
-      // Try to extract from page title first (format: "URL | keyword · Audit · Surfer")
-      const pageTitle = document.title;
-      const titleMatch = pageTitle.match(/\|\s*([^·]+)\s*·\s*Audit/i);
-      if (titleMatch && titleMatch[1]) {
-        data.mainKeyword = titleMatch[1].trim();
-      }
-
-      // Extract audited URL from page title (format: "https://url.com/page | keyword · Audit · Surfer")
-      const urlMatch = pageTitle.match(/^(https?:\/\/[^\s|]+)/i);
-      if (urlMatch && urlMatch[1]) {
-        data.auditedUrl = urlMatch[1].trim();
-      }
-
-      // Fallback: Look for keyword in the header area
-      if (!data.mainKeyword) {
-        // SurferSEO header typically shows "Audit / [flag] keyword URL"
-        const headerElement = document.querySelector('[class*="header"], header, nav');
-        if (headerElement) {
-          const headerText = headerElement.textContent || '';
-          // Pattern: after "Audit" and "/" but before "http"
-          const auditMatch = headerText.match(/Audit\s*\/\s*([^h]+?)(?:https?:|$)/i);
-          if (auditMatch && auditMatch[1]) {
-            data.mainKeyword = auditMatch[1].replace(/[^\w\s]/g, ' ').trim();
-          }
-        }
-      }
-
-      // Fallback to other selectors
-      if (!data.mainKeyword) {
-        const keywordSelectors = ['h1', '[class*="keyword" i]', '[class*="query" i]'];
-        for (const sel of keywordSelectors) {
-          const text = getText(sel);
-          if (text && text.length < 100 && text.length > 2 && !text.includes('\n') && !text.includes('http')) {
-            data.mainKeyword = text;
-            break;
-          }
-        }
-      }
-
-      // 2. Try to get content score
-      // SurferSEO format: "Your Content Score is X." or "Content Score is X"
-      const scorePatterns = [
-        /Content Score is\s*(\d{1,3})/i,
-        /(\d{1,3})\s*\/\s*100/,
-        /score[:\s]+(\d{1,3})/i
-      ];
-
-      for (const pattern of scorePatterns) {
-        const scoreMatch = allText.match(pattern);
-        if (scoreMatch) {
-          const score = parseInt(scoreMatch[1]);
-          if (score >= 0 && score <= 100) {
-            data.contentScore = score;
-            break;
-          }
-        }
-      }
-
-      // 3. Try to get word count
-      // SurferSEO format: "X words in body" or "Add X-Y words in body"
-      const wordCountPatterns = [
-        /(\d{1,5})\s*words?\s*in\s*body/i,
-        /body.*?(\d{1,5})\s*words/i,
-        /(\d{1,5})\s*words?\b/i
-      ];
-
-      for (const pattern of wordCountPatterns) {
-        const wordMatch = allText.match(pattern);
-        if (wordMatch) {
-          const count = parseInt(wordMatch[1]);
-          if (count > 0 && count < 100000) {
-            data.wordCount = count;
-            break;
-          }
-        }
-      }
-
-      // STRATEGY 0: Extract from SurferSEO's "Terms to Use" section specifically
-      // First, find the Terms section container, then extract ONLY from that section
-      // This prevents extracting competitor URLs from the wrong table
-
-      // Find the "Terms to Use" or "Important terms" section
-      const findTermsSection = (): Element | null => {
-        // Strategy A: Look for ANY element containing "Terms to Use" or similar text
-        // and walk up to find the container with data rows
-        const allElements = document.querySelectorAll('*');
-        for (const el of allElements) {
-          // Check direct text content (not children)
-          const directText = Array.from(el.childNodes)
-            .filter(node => node.nodeType === Node.TEXT_NODE)
-            .map(node => node.textContent || '')
-            .join('')
-            .trim()
-            .toLowerCase();
-
-          const fullText = (el.textContent || '').toLowerCase();
-
-          // Check if this element or its direct text mentions terms
-          if (directText.includes('terms to use') || directText.includes('important terms') ||
-              (fullText.includes('terms to use') && fullText.length < 50)) {
-            // Found a Terms label - walk up to find the data container
-            let parent = el.parentElement;
-            for (let i = 0; i < 15 && parent; i++) {
-              // Check if this parent contains rows with "Add X" patterns
-              const rows = parent.querySelectorAll('[role="row"], tr, [class*="row"]');
-              let termRowCount = 0;
-              rows.forEach(row => {
-                const rowText = row.textContent || '';
-                if (rowText.includes('Add ') && !rowText.includes('http')) {
-                  termRowCount++;
-                }
-              });
-
-              // If we find a container with 3+ term rows, this is likely it
-              if (termRowCount >= 3) {
-                console.log('findTermsSection: Found container with', termRowCount, 'term rows');
-                return parent;
-              }
-              parent = parent.parentElement;
-            }
-          }
-        }
-
-        // Strategy B: Look for heading elements
-        const headings = document.querySelectorAll('h1, h2, h3, h4, h5, h6, [class*="heading"], [class*="title"], button');
-        for (const heading of headings) {
-          const text = (heading.textContent || '').toLowerCase();
-          if (text.includes('terms to use') || text.includes('important terms') ||
-              (text.includes('terms') && !text.includes('competitor') && text.length < 30)) {
-            // Found the Terms section header - look for the containing section
-            let parent = heading.parentElement;
-            for (let i = 0; i < 15 && parent; i++) {
-              const hasDataRows = parent.querySelectorAll('[role="row"], tr').length > 0;
-              if (hasDataRows) {
-                return parent;
-              }
-              parent = parent.parentElement;
-            }
-            return heading.closest('section, [class*="section"], [class*="card"], article, div[class*="container"]');
-          }
-        }
-
-        // Strategy C: Find container with the most "Add X" patterns (terms)
-        // Exclude containers that have competitor URLs
-        const containers = document.querySelectorAll('section, [class*="section"], [class*="panel"], [class*="card"], [class*="table"], [role="table"]');
-        let bestContainer: Element | null = null;
-        let bestAddCount = 0;
-
-        for (const container of containers) {
-          const text = container.textContent || '';
-          const addPatterns = text.match(/\bAdd\s+\d+(-\d+)?\b/gi) || [];
-          const hasUrls = text.includes('http://') || text.includes('https://');
-
-          // Prefer containers with many Add patterns and few/no URLs
-          if (addPatterns.length > bestAddCount && (!hasUrls || addPatterns.length > 10)) {
-            bestAddCount = addPatterns.length;
-            bestContainer = container;
-          }
-        }
-
-        if (bestAddCount >= 3) {
-          console.log('findTermsSection: Found container with', bestAddCount, 'Add patterns');
-          return bestContainer;
-        }
-
-        return null;
-      };
-
-      const termsSection = findTermsSection();
-      console.log('termsSection found:', !!termsSection, 'tag:', termsSection?.tagName, 'class:', (termsSection as HTMLElement)?.className?.substring(0, 100));
-
-      // If we found a terms section, extract ONLY from there
-      // Otherwise, fall back to page-wide search (but with better filtering)
-      const targetContainer = termsSection || document.body;
-      const ariaRows = targetContainer.querySelectorAll('[role="row"]');
-
-      console.log('Terms section found:', !!termsSection, 'ARIA rows in section:', ariaRows.length);
-
-      if (ariaRows.length > 1) {
-        data.extractionMethod = termsSection ? 'aria-table-section' : 'aria-table';
-        ariaRows.forEach((row, index) => {
-          if (index === 0) return; // Skip header row (columnheader)
-
-          // Check if this row has columnheaders (it's a header row)
-          if (row.querySelector('[role="columnheader"]')) return;
-
-          const cells = row.querySelectorAll('[role="cell"], [role="gridcell"]');
-          if (cells.length >= 2) {
-            // SurferSEO table structure (from CSV export):
-            // Cell 0: Term (may include "NLP" badge)
-            // Cell 1: Examples count OR Competitors range
-            // Cell 2: Your count ("You")
-            // Cell 3: Suggested count
-            // Cell 4: Sentiment (optional)
-            // Cell 5: Relevance (%)
-            // Cell 6: Search Volume
-            // Cell 7: Action (e.g., "Add 1", "Add 2-7")
-
-            const termCell = cells[0];
-            const termCellText = termCell?.textContent?.trim() || '';
-
-            // CRITICAL: Skip rows that look like competitor URLs
-            if (termCellText.startsWith('http') || termCellText.includes('://') ||
-                termCellText.includes('.com/') || termCellText.includes('.org/') ||
-                termCellText.includes('.net/') || termCellText.includes('.io/')) {
-              return;
-            }
-
-            // Check if term has NLP badge
-            const isNLP = termCellText.toLowerCase().includes('nlp') ||
-                          !!termCell?.querySelector('[class*="nlp" i], [class*="badge" i]');
-
-            // Remove "NLP" badge text from term
-            let termText = termCellText.replace(/\s*NLP\s*$/i, '').trim();
-
-            // Get count values from cells - adapt based on cell count
-            let yourCountText = '0';
-            let suggestedText = '1';
-            let relevanceText = '';
-            let actionText = '';
-
-            if (cells.length >= 4) {
-              // Standard layout: Term | Examples | You | Suggested | ... | Action
-              yourCountText = cells[2]?.textContent?.trim() || '0';
-              suggestedText = cells[3]?.textContent?.trim() || '1';
-
-              // Look for relevance (percentage) and action in remaining cells
-              for (let i = 4; i < cells.length; i++) {
-                const cellText = cells[i]?.textContent?.trim() || '';
-                if (cellText.includes('%')) {
-                  relevanceText = cellText;
-                } else if (cellText.toLowerCase().startsWith('add') ||
-                           cellText.toLowerCase().includes('remove') ||
-                           cellText.toLowerCase().includes('reduce')) {
-                  actionText = cellText;
-                }
-              }
-            } else if (cells.length >= 2) {
-              // Compact layout: Term | Count/Range
-              const countCell = cells[1]?.textContent?.trim() || '';
-              const countMatch = countCell.match(/(\d+)\s*\/\s*(\d+)/);
-              if (countMatch) {
-                yourCountText = countMatch[1];
-                suggestedText = countMatch[2];
-              }
-            }
-
-            // Get "You" count
-            const yourCount = parseInt(yourCountText) || 0;
-
-            // Get Relevance
-            let relevance: number | null = null;
-            if (relevanceText) {
-              const relevanceMatch = relevanceText.match(/([\d.]+)%?/);
-              if (relevanceMatch) {
-                const relValue = parseFloat(relevanceMatch[1]);
-                // If value is between 0 and 1, it's already a decimal
-                // If value is between 1 and 100, convert to decimal
-                relevance = relValue > 1 ? relValue / 100 : relValue;
-              }
-            }
-
-            // Get Action
-            const action = actionText || null;
-
-            if (termText && termText.length > 1 && termText.length < 100 && !termText.match(/^\d+$/)) {
-              let recommendedMin: number | null = null;
-              let recommendedMax: number | null = null;
-
-              // Parse suggested range (e.g., "2-7" or "1")
-              const rangeMatch = suggestedText.match(/(\d+)\s*-\s*(\d+)/);
-              if (rangeMatch) {
-                recommendedMin = parseInt(rangeMatch[1]);
-                recommendedMax = parseInt(rangeMatch[2]);
-              } else {
-                const singleMatch = suggestedText.match(/(\d+)/);
-                if (singleMatch) {
-                  const suggested = parseInt(singleMatch[1]);
-                  recommendedMin = suggested;
-                  recommendedMax = suggested;
-                }
-              }
-
-              // Determine status based on current vs recommended
-              let status = 'missing';
-              if (yourCount > 0) {
-                if (recommendedMin !== null && recommendedMax !== null) {
-                  if (yourCount < recommendedMin) status = 'low';
-                  else if (yourCount > recommendedMax) status = 'overused';
-                  else status = 'good';
-                } else {
-                  status = 'good';
-                }
-              }
-
-              data.terms.push({
-                term: termText,
-                isNLP,
-                currentCount: yourCount,
-                recommendedMin,
-                recommendedMax,
-                competitorMin: null, // Not available in shared audit table view
-                competitorMax: null,
-                relevance,
-                action,
-                status
-              });
-            }
-          }
-        });
-      }
-
-      // STRATEGY 1: Extract from table rows (fallback for traditional HTML tables)
-      // Also try to target the Terms section if found
-      if (data.terms.length === 0) {
-        // Re-use the terms section if found, otherwise search whole document
-        const tableContainer = termsSection || document.body;
-        const tableRows = tableContainer.querySelectorAll('tr');
-
-        if (tableRows.length > 1) {
-          data.extractionMethod = termsSection ? 'table-rows-section' : 'table-rows';
-          tableRows.forEach((row, index) => {
-            if (index === 0) return; // Skip header row
-
-            const cells = row.querySelectorAll('td');
-            if (cells.length >= 2) {
-              const termCell = cells[0];
-              const termCellText = termCell?.textContent?.trim() || '';
-
-              // CRITICAL: Skip rows that look like competitor URLs
-              if (termCellText.startsWith('http') || termCellText.includes('://') ||
-                  termCellText.includes('.com/') || termCellText.includes('.org/') ||
-                  termCellText.includes('.net/') || termCellText.includes('.io/')) {
-                return;
-              }
-
-              const isNLP = termCellText.toLowerCase().includes('nlp');
-              const termText = termCellText.replace(/\s*NLP\s*$/i, '').trim();
-
-              // Get count from various cell positions
-              let yourCount = '0';
-              let suggestedCount = '1';
-
-              if (cells.length >= 4) {
-                yourCount = cells[2]?.textContent?.trim() || '0';
-                suggestedCount = cells[3]?.textContent?.trim() || '1';
-              } else if (cells.length >= 2) {
-                const countText = cells[1]?.textContent?.trim() || '';
-                const countMatch = countText.match(/(\d+)\s*\/\s*(\d+)/);
-                if (countMatch) {
-                  yourCount = countMatch[1];
-                  suggestedCount = countMatch[2];
-                }
-              }
-
-              if (termText && termText.length > 1 && termText.length < 100 && !termText.match(/^\d+$/)) {
-                let recommendedMin: number | null = null;
-                let recommendedMax: number | null = null;
-
-                const rangeMatch = suggestedCount.match(/(\d+)\s*-\s*(\d+)/);
-                if (rangeMatch) {
-                  recommendedMin = parseInt(rangeMatch[1]);
-                  recommendedMax = parseInt(rangeMatch[2]);
-                } else {
-                  const singleMatch = suggestedCount.match(/(\d+)/);
-                  if (singleMatch) {
-                    recommendedMin = 1;
-                    recommendedMax = parseInt(singleMatch[1]);
-                  }
-                }
-
-                const currentCount = parseInt(yourCount) || 0;
-
-                let status = 'missing';
-                if (currentCount > 0) {
-                  if (recommendedMin && recommendedMax) {
-                    if (currentCount < recommendedMin) status = 'low';
-                    else if (currentCount > recommendedMax) status = 'overused';
-                    else status = 'good';
-                  } else {
-                    status = 'good';
-                  }
-                }
-
-                data.terms.push({
-                  term: termText,
-                  isNLP,
-                  currentCount,
-                  recommendedMin,
-                  recommendedMax,
-                  competitorMin: null,
-                  competitorMax: null,
-                  relevance: null,
-                  action: null,
-                  status
-                });
-              }
-            }
-          });
-        }
-      }
-
-      // STRATEGY 2: Look for elements with "term" in class name
-      if (data.terms.length === 0) {
-        data.extractionMethod = 'class-term';
-        const termContainers = document.querySelectorAll(
-          '[class*="term" i], [class*="Term"], [class*="phrase" i], [class*="keyword-item"], li[class*="item"]'
-        );
-
-        termContainers.forEach(container => {
-          const text = container.textContent?.trim() || '';
-          if (text.length < 2 || text.length > 200) return;
-
-          const termMatch = text.match(/^(.+?)\s*(?:(\d+)\s*\/\s*(\d+)|(\d+)\s*-\s*(\d+)|\((\d+)\s*-\s*(\d+)\))?$/);
-
-          if (termMatch) {
-            const term = termMatch[1].replace(/[•\-\*]/g, '').replace(/\s*NLP\s*$/i, '').trim();
-            if (term.length < 2) return;
-
-            const isNLP = text.toLowerCase().includes('nlp');
-            let currentCount: number | null = null;
-            let recommendedMin: number | null = null;
-            let recommendedMax: number | null = null;
-
-            if (termMatch[2] && termMatch[3]) {
-              currentCount = parseInt(termMatch[2]);
-              recommendedMax = parseInt(termMatch[3]);
-              recommendedMin = Math.max(1, recommendedMax - 2);
-            } else if (termMatch[4] && termMatch[5]) {
-              recommendedMin = parseInt(termMatch[4]);
-              recommendedMax = parseInt(termMatch[5]);
-            } else if (termMatch[6] && termMatch[7]) {
-              recommendedMin = parseInt(termMatch[6]);
-              recommendedMax = parseInt(termMatch[7]);
-            }
-
-            let status = 'unknown';
-            const classList = container.className.toLowerCase();
-            if (classList.includes('missing') || classList.includes('red')) {
-              status = 'missing';
-            } else if (classList.includes('low') || classList.includes('yellow')) {
-              status = 'low';
-            } else if (classList.includes('good') || classList.includes('green')) {
-              status = 'good';
-            } else if (classList.includes('over') || classList.includes('high')) {
-              status = 'overused';
-            }
-
-            data.terms.push({
-              term,
-              isNLP,
-              currentCount,
-              recommendedMin,
-              recommendedMax,
-              competitorMin: null,
-              competitorMax: null,
-              relevance: null,
-              action: null,
-              status
-            });
-          }
-        });
-      }
-
-      // STRATEGY 3: Look for divs with row-like structure
-      if (data.terms.length === 0) {
-        data.extractionMethod = 'div-rows';
-        const rowDivs = document.querySelectorAll('[class*="row" i], [class*="Row"], [class*="item" i], [class*="Item"]');
-        rowDivs.forEach(row => {
-          const children = row.querySelectorAll('div, span');
-          if (children.length >= 2) {
-            const termText = children[0]?.textContent?.trim()?.replace(/\s*NLP\s*$/i, '');
-            const countText = children[1]?.textContent?.trim() || '';
-
-            if (termText && termText.length > 1 && termText.length < 80 && !termText.match(/^\d+$/)) {
-              const countMatch = countText.match(/(\d+)\s*\/\s*(\d+)/);
-              if (countMatch || termText.length < 40) {
-                data.terms.push({
-                  term: termText,
-                  isNLP: false,
-                  currentCount: countMatch ? parseInt(countMatch[1]) : null,
-                  recommendedMin: null,
-                  recommendedMax: countMatch ? parseInt(countMatch[2]) : null,
-                  competitorMin: null,
-                  competitorMax: null,
-                  relevance: null,
-                  action: null,
-                  status: 'unknown'
-                });
-              }
-            }
-          }
-        });
-      }
-
-      // STRATEGY 4: List items
-      if (data.terms.length === 0) {
-        data.extractionMethod = 'list-items';
-        const listItems = document.querySelectorAll('li');
-        listItems.forEach(li => {
-          const text = li.textContent?.trim();
-          if (text && text.length > 2 && text.length < 80 && !text.includes('http')) {
-            const match = text.match(/^(.+?)\s*(\d+)\s*\/\s*(\d+)$/);
-            if (match) {
-              data.terms.push({
-                term: match[1].trim().replace(/\s*NLP\s*$/i, ''),
-                isNLP: false,
-                currentCount: parseInt(match[2]),
-                recommendedMin: null,
-                recommendedMax: parseInt(match[3]),
-                competitorMin: null,
-                competitorMax: null,
-                relevance: null,
-                action: null,
-                status: 'unknown'
-              });
-            }
-          }
-        });
-      }
-
-      // STRATEGY 5: Extract rows that contain "Add X" action patterns
-      // This is more reliable because we know these patterns exist on the page
-      if (data.terms.length < 10) {
-        console.log('Strategy 5: Looking for rows with Add X patterns');
-        const allRows = document.querySelectorAll('[role="row"], tr, [class*="row"]');
-        let foundInStrategy5 = 0;
-
-        allRows.forEach((row) => {
-          const rowText = row.textContent || '';
-
-          // Skip if this row has competitor URL patterns
-          if (rowText.includes('http://') || rowText.includes('https://') ||
-              rowText.includes('.com/') || rowText.includes('.org/') ||
-              rowText.includes('.net/')) {
-            return;
-          }
-
-          // Look for "Add X" or "Add X-Y" pattern
-          const actionMatch = rowText.match(/\b(Add|Remove|Reduce)\s+(\d+)(?:-(\d+))?\b/i);
-          if (!actionMatch) return;
-
-          const action = actionMatch[0];
-          const suggestedMin = parseInt(actionMatch[2]);
-          const suggestedMax = actionMatch[3] ? parseInt(actionMatch[3]) : suggestedMin;
-
-          // Get all text parts from the row
-          const cells = row.querySelectorAll('[role="cell"], [role="gridcell"], td, span, div');
-          let term = '';
-          let isNLP = false;
-          let currentCount = 0;
-          let relevance: number | null = null;
-
-          // First cell is usually the term
-          if (cells.length > 0) {
-            const firstCellText = (cells[0]?.textContent || '').trim();
-            // Remove NLP badge if present
-            isNLP = firstCellText.toLowerCase().includes('nlp');
-            term = firstCellText.replace(/\s*NLP\s*/gi, '').trim();
-
-            // Skip if term looks like a header or is too short/long
-            if (term.length < 2 || term.length > 80 || term.toLowerCase().includes('term')) {
-              return;
-            }
-          }
-
-          // Look for count patterns like "0" in a cell (your current usage)
-          for (let i = 1; i < Math.min(cells.length, 5); i++) {
-            const cellText = (cells[i]?.textContent || '').trim();
-            // Current count - usually a single number
-            if (/^\d+$/.test(cellText)) {
-              currentCount = parseInt(cellText);
-              break;
-            }
-          }
-
-          // Look for relevance percentage
-          for (let i = 1; i < cells.length; i++) {
-            const cellText = (cells[i]?.textContent || '').trim();
-            if (cellText.includes('%')) {
-              const relMatch = cellText.match(/([\d.]+)\s*%/);
-              if (relMatch) {
-                const relValue = parseFloat(relMatch[1]);
-                relevance = relValue > 1 ? relValue / 100 : relValue;
-                break;
-              }
-            }
-          }
-
-          if (term && term.length > 1) {
-            // Check if we already have this term
-            const termLower = term.toLowerCase();
-            const exists = data.terms.some(t => t.term.toLowerCase() === termLower);
-            if (!exists) {
-              foundInStrategy5++;
-              data.terms.push({
-                term,
-                isNLP,
-                currentCount,
-                recommendedMin: suggestedMin,
-                recommendedMax: suggestedMax,
-                competitorMin: null,
-                competitorMax: null,
-                relevance,
-                action,
-                status: currentCount === 0 ? 'missing' : (currentCount < suggestedMin ? 'low' : 'good')
-              });
-            }
-          }
-        });
-
-        if (foundInStrategy5 > 0) {
-          data.extractionMethod = data.extractionMethod + '+action-rows';
-          console.log('Strategy 5 found', foundInStrategy5, 'additional terms');
-        }
-      }
-
-      // STRATEGY 6: Regex search in page text for "word X/Y" patterns
-      if (data.terms.length === 0) {
-        data.extractionMethod = 'regex';
-        const pageText = document.body.innerText;
-        const termPattern = /([a-zA-Z][a-zA-Z\s]{1,40}?)\s+(\d{1,3})\s*\/\s*(\d{1,3})/g;
-        let match;
-        const seenTerms = new Set<string>();
-        while ((match = termPattern.exec(pageText)) !== null) {
-          const term = match[1].trim();
-          const termLower = term.toLowerCase();
-          if (term.length > 1 && !seenTerms.has(termLower)) {
-            seenTerms.add(termLower);
-            data.terms.push({
-              term,
-              isNLP: false,
-              currentCount: parseInt(match[2]),
-              recommendedMin: null,
-              recommendedMax: parseInt(match[3]),
-              competitorMin: null,
-              competitorMax: null,
-              relevance: null,
-              action: null,
-              status: 'unknown'
-            });
-          }
-        }
-      }
-
-      // Extract questions
-      const questionSelectors = [
-        '[class*="question" i] li',
-        '[class*="Question"] li',
-        '[class*="heading-suggestion"]'
-      ];
-
-      questionSelectors.forEach(sel => {
-        try {
-          const elements = document.querySelectorAll(sel);
-          elements.forEach(el => {
-            const text = el.textContent?.trim();
-            if (text && text.includes('?') && text.length < 200) {
-              data.questions.push(text);
-            }
-          });
-        } catch {
-          // Selector not supported
-        }
-      });
-
-      // Fallback: extract questions from page text
-      if (data.questions.length === 0) {
-        const allText = document.body.innerText;
-        const questionMatches = allText.match(/([A-Z][^.!?\n]{10,100}\?)/g);
-        if (questionMatches) {
-          data.questions = [...new Set(questionMatches)].slice(0, 10);
-        }
-      }
-
-      // Extract heading suggestions
-      const headingSelectors = [
-        '[class*="heading" i] li',
-        '[class*="Heading"] li',
-        '[class*="h2-suggestion"]',
-        '[class*="structure"] li'
-      ];
-
-      headingSelectors.forEach(sel => {
-        try {
-          const elements = document.querySelectorAll(sel);
-          elements.forEach(el => {
-            const text = el.textContent?.trim();
-            if (text && text.length > 3 && text.length < 100) {
-              data.headings.push(text);
-            }
-          });
-        } catch {
-          // Selector not supported
-        }
-      });
-
-      return data;
-    });
-
-    // Helper function to check if a string is a URL
-    const isUrl = (str: string): boolean => {
-      return str.startsWith('http://') ||
-             str.startsWith('https://') ||
-             str.startsWith('www.') ||
-             str.includes('.com/') ||
-             str.includes('.pdf') ||
-             str.includes('.org/') ||
-             str.includes('.net/') ||
-             str.includes('.io/') ||
-             /^[a-z0-9-]+\.(com|org|net|io|co|edu|gov|pdf)\b/i.test(str);
-    };
-
-    // Deduplicate and filter terms
-    const seenTerms = new Set<string>();
-    const uniqueTerms = extractedData.terms.filter((t) => {
-      const key = t.term.toLowerCase();
-
-      // Skip if already seen
-      if (seenTerms.has(key)) return false;
-
-      // Skip URLs - they're not real keywords
-      if (isUrl(t.term)) {
-        console.log(`[Surfer Parser] Filtering out URL: ${t.term.substring(0, 50)}...`);
-        return false;
-      }
-
-      // Skip if term is too long (likely not a keyword)
-      if (t.term.length > 60) return false;
-
-      // Skip if term contains too many special characters
-      if (/[<>{}|\[\]\\]/.test(t.term)) return false;
-
-      seenTerms.add(key);
-      return true;
-    }) as SurferTerm[];
-
-    // Separate NLP terms from regular terms
-    const regularTerms = uniqueTerms.filter(t => !t.isNLP);
-    const nlpTerms = uniqueTerms.filter(t => t.isNLP);
+    // Capture the expanded page before extracting so the heuristics can be re-run offline
+    if (options.saveSnapshot) {
+      debugInfo.snapshotPath = await saveSurferSnapshot(await page.content(), reportUrl);
+    }
 
-    // Deduplicate questions
-    const uniqueQuestions = [...new Set(extractedData.questions)];
+    // Extract all data from the page using multiple strategies
+    const extractedData = await page.evaluate(extractSurferData, undefined, Boolean(process.env.SURFER_DEBUG));
 
     debugInfo.extractionMethod = extractedData.extractionMethod;
-    console.log(`[Surfer Parser] Extraction method: ${extractedData.extractionMethod}`);
-    console.log(`[Surfer Parser] Extracted ${regularTerms.length} terms, ${nlpTerms.length} NLP terms, ${uniqueQuestions.length} questions`);
 
     return {
-      success: uniqueTerms.length > 0,
-      mainKeyword: extractedData.mainKeyword,
-      url: reportUrl,
-      auditedUrl: extractedData.auditedUrl,
-      contentScore: extractedData.contentScore,
-      wordCount: extractedData.wordCount,
-      terms: regularTerms,
-      nlpTerms: nlpTerms,
-      questions: uniqueQuestions,
-      headings: extractedData.headings,
+      ...toSurferReportData(extractedData, reportUrl),
       debug: debugInfo
     };
 
@@ -1357,6 +579,27 @@ export async function parseSurferAuditReport(reportUrl: string): Promise<SurferR
   }
 }
 
+/**
+ * Write the page HTML with a header comment recording the report URL and capture time.
+ * Returns the file path, or undefined if the snapshot couldn't be written.
+ */
+async function saveSurferSnapshot(html: string, reportUrl: string): Promise<string | undefined> {
+  const directory = process.env.SURFER_SNAPSHOT_DIR || DEFAULT_SNAPSHOT_DIR;
+  const savedAt = new Date().toISOString();
+  const slug = reportUrl.replace(/^https?:\/\//, '').replace(/[^a-z0-9]+/gi, '-').replace(/^-+|-+$/g, '').slice(0, 80);
+  const filePath = path.join(directory, `${savedAt.replace(/[:.]/g, '-')}_${slug}.html`);
+
+  try {
+    await fs.mkdir(directory, { recursive: true });
+    await fs.writeFile(filePath, `<!-- surfer-snapshot url="${reportUrl}" saved="${savedAt}" -->\n${html}`, 'utf-8');
+    console.log('[Surfer Parser] Saved snapshot:', filePath);
+    return filePath;
+  } catch (error) {
+    console.error('[Surfer Parser] Failed to save snapshot:', error);
+    return undefined;
+  }
+}
+
 // Helper function to combine multiple Surfer reports
 export function combineSurferReports(reports: SurferReportData[]): {
   allTerms: SurferTerm[];
@@ -0,0 +1,166 @@
+/**
+ * Surfer Report - Turns parsed content brief data into the app's report and keyword formats
+ *
+ * Shared by the live Surfer audit scraper (surfer-parser.ts) and the offline
+ * export import for Surfer and other content tools (content-brief-parser.ts).
+ */
+
+import type { ContentBriefSource, KeywordData, KeywordLimits, SurferSEOReport } from '@/types';
+import type { SurferReportData } from './surfer-parser';
+
+export const CONTENT_BRIEF_SOURCES: ContentBriefSource[] = ['surfer', 'clearscope', 'marketmuse', 'frase', 'neuronwriter'];
+
+export const CONTENT_BRIEF_SOURCE_LABELS: Record<ContentBriefSource, string> = {
+  surfer: 'Surfer',
+  clearscope: 'Clearscope',
+  marketmuse: 'MarketMuse',
+  frase: 'Frase',
+  neuronwriter: 'NeuronWriter',
+};
+
+/**
+ * Display name of the tool a report came from
+ */
+export function getBriefSourceLabel(report: SurferSEOReport | null | undefined): string {
+  return CONTENT_BRIEF_SOURCE_LABELS[report?.source || 'surfer'];
+}
+
+// Long-tail keywords kept from a report
+const MAX_LONG_TAIL_KEYWORDS = 5;
+
+/**
+ * Convert parsed brief data to the SurferSEOReport shape stored with an analysis
+ */
+export function toSurferSEOReport(result: SurferReportData, source: ContentBriefSource = 'surfer'): SurferSEOReport {
+  // Combine regular terms and NLP terms for the full list
+  const allTerms = [...result.terms, ...result.nlpTerms];
+
+  return {
+    source,
+    url: result.url,
+    auditedUrl: result.auditedUrl,
+    targetKeyword: result.mainKeyword,
+    contentScore: result.contentScore || 0,
+    wordCountTarget: {
+      min: result.wordCount ? Math.round(result.wordCount * 0.8) : 1500,
+      max: result.wordCount ? Math.round(result.wordCount * 1.2) : 3000,
+      recommended: result.wordCount || 2000,
+    },
+    headings: {
+      h2Count: { min: 3, max: 10, recommended: 6 },
+      h3Count: { min: 2, max: 15, recommended: 8 },
+    },
+    keywords: allTerms.map((term, index) => ({
+      term: term.term,
+      // Rough label kept with the saved report; convertToKeywordData ranks the terms itself
+      importance: index < 5 ? 'high' as const : index < 15 ? 'medium' as const : 'low' as const,
+      usageTarget: {
+        min: term.recommendedMin || 1,
+        max: term.recommendedMax || 5,
+        recommended: term.recommendedMin && term.recommendedMax
+          ? Math.round((term.recommendedMin + term.recommendedMax) / 2)
+          : 2,
+      },
+      currentCount: term.currentCount,
+      status: term.status,
+      action: term.action,
+      relevance: term.relevance,
+      isNLP: term.isNLP,
+    })),
+    nlpTerms: result.nlpTerms.map((term, index) => ({
+      term: term.term,
+      relevance: term.relevance ?? Math.max(0.3, 1 - (index * 0.03)),
+      usageTarget: term.recommendedMax || Math.max(1, 3 - Math.floor(index / 5)),
+      currentCount: term.currentCount,
+      status: term.status,
+      action: term.action,
+    })),
+    questions: result.questions,
+    competitors: [],
+    structureRecommendations: result.headings,
+  };
+}
+
+// Helper to check if a string looks like a URL
+function isUrl(str: string): boolean {
+  return str.startsWith('http://') ||
+         str.startsWith('https://') ||
+         str.startsWith('www.') ||
+         str.includes('.com/') ||
+         str.includes('.pdf') ||
+         str.includes('.org/') ||
+         str.includes('.net/') ||
+         str.includes('.io/') ||
+         /^[a-z0-9-]+\.(com|org|net|io|co|edu|gov|pdf)\b/i.test(str);
+}
+
+// Helper to filter out invalid keywords
+function isValidKeyword(term: string): boolean {
+  if (!term || term.length < 2 || term.length > 60) return false;
+  if (isUrl(term)) return false;
+  if (/[<>{}|\[\]\\]/.test(term)) return false;
+  return true;
+}
+
+/**
+ * Most relevant first; terms without a relevance score keep the report's order after the scored ones
+ */
+function rankByRelevance<T extends { relevance?: number | null }>(terms: T[]): T[] {
+  return terms
+    .map((term, index) => ({ term, index }))
+    .sort((a, b) => (b.term.relevance ?? -1) - (a.term.relevance ?? -1) || a.index - b.index)
+    .map(({ term }) => term);
+}
+
+/**
+ * Convert a content brief report to KeywordData format for the main analyzer.
+ * Terms are ranked by relevance and cut into primary and secondary by the limits.
+ */
+export function convertToKeywordData(surferReport: SurferSEOReport, limits: KeywordLimits): KeywordData {
+  const questions: string[] = surferReport.questions.filter(q => !isUrl(q));
+
+  // The target keyword leads the primary keywords (if valid)
+  const ranked: string[] = [];
+  if (surferReport.targetKeyword && isValidKeyword(surferReport.targetKeyword)) {
+    ranked.push(surferReport.targetKeyword);
+  }
+
+  // Regular terms rank ahead of NLP terms; skip invalid keywords (URLs, too long, etc.)
+  const regularTerms = surferReport.keywords.filter(kw => !kw.isNLP);
+  const nlpKeywords = surferReport.keywords.filter(kw => kw.isNLP);
+  [...rankByRelevance(regularTerms), ...rankByRelevance(nlpKeywords)].forEach(kw => {
+    if (isValidKeyword(kw.term) && !ranked.includes(kw.term)) {
+      ranked.push(kw.term);
+    }
+  });
+
+  // Apply the configured limits to prevent overwhelming the AI optimizer
+  const primary = ranked.slice(0, limits.primary);
+  const secondary = ranked.slice(limits.primary, limits.primary + limits.secondary);
+  // Leftover terms of three or more words often make good long-tail targets
+  const longTail = ranked
+    .slice(limits.primary + limits.secondary)
+    .filter(term => term.split(' ').length >= 3)
+    .slice(0, MAX_LONG_TAIL_KEYWORDS);
+  const nlpTerms = rankByRelevance(surferReport.nlpTerms)
+    .map(term => term.term)
+    .filter(isValidKeyword)
+    .slice(0, limits.nlpTerms);
+  const limitedQuestions = questions.slice(0, limits.questions);
+
+  // Combine all keywords (limited)
+  const all = [...new Set([...primary, ...secondary, ...nlpTerms, ...limitedQuestions, ...longTail])];
+
+  if (process.env.SURFER_DEBUG) {
+    console.log(`[Surfer Report] Keyword limits applied: ${primary.length} primary, ${secondary.length} secondary, ${nlpTerms.length} NLP`);
+  }
+
+  return {
+    primary,
+    secondary,
+    nlpTerms,
+    questions: limitedQuestions,
+    longTail,
+    all,
+  };
+}
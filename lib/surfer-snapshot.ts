@@ -0,0 +1,53 @@
+/**
+ * Surfer Snapshot - Runs the Surfer extraction against saved HTML, without a browser
+ *
+ * Snapshots are captured with the Surfer route's saveSnapshot debug option
+ * (or "Save page as" from a browser). Replaying them through jsdom runs the
+ * same extractSurferData heuristics the live parser uses, so a UI change on
+ * Surfer's side can be reproduced and fixed from the saved page alone.
+ * Snapshots in fixtures/surfer are checked by tests/surfer-snapshot.test.ts
+ * (npm test), so add one there when fixing a layout the extractor missed.
+ *
+ * Development-only: jsdom is a dev dependency, so no route imports this module.
+ */
+
+import { promises as fs } from 'fs';
+import { JSDOM } from 'jsdom';
+import { extractSurferData, toSurferReportData } from './surfer-extractor';
+import type { SurferReportData } from './surfer-parser';
+
+// Header comment written by saveSurferSnapshot in surfer-parser.ts
+const SNAPSHOT_HEADER = /^<!-- surfer-snapshot url="([^"]*)" saved="([^"]*)" -->/;
+
+/**
+ * Extract report data from snapshot HTML. The report URL defaults to the one
+ * recorded in the snapshot header.
+ */
+export function parseSurferSnapshot(html: string, reportUrl?: string): SurferReportData {
+  const header = html.match(SNAPSHOT_HEADER);
+  const url = reportUrl || header?.[1] || '';
+
+  // Scripts stay disabled: the snapshot is the already-rendered page
+  const { window } = new JSDOM(html, url ? { url } : {});
+
+  try {
+    const extractedData = extractSurferData(window.document, Boolean(process.env.SURFER_DEBUG));
+    return {
+      ...toSurferReportData(extractedData, url),
+      debug: {
+        pageTitle: window.document.title,
+        url,
+        extractionMethod: extractedData.extractionMethod,
+      },
+    };
+  } finally {
+    window.close();
+  }
+}
+
+/**
+ * Read a snapshot file and extract its report data
+ */
+export async function readSurferSnapshot(filePath: string, reportUrl?: string): Promise<SurferReportData> {
+  return parseSurferSnapshot(await fs.readFile(filePath, 'utf-8'), reportUrl);
+}
@@ -0,0 +1,96 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createJsonFileRepository } from '../lib/analysis-store';
+import { checkCompliance } from '../lib/compliance-checker';
+import type { AnalysisResult, ReauditResult } from '../types';
+import { loadReportFixture, settings } from './helpers';
+
+async function loadAnalysis(): Promise<AnalysisResult> {
+  const analysis = await loadReportFixture();
+  const { optimizedContent } = analysis;
+  const compliance = checkCompliance({
+    ...optimizedContent,
+    originalContent: analysis.crawledData.bodyContent,
+    maxInsertions: 5,
+    titleMaxLength: settings.titleMaxLength,
+    descriptionMaxLength: settings.descriptionMaxLength,
+  });
+  return { ...analysis, compliance };
+}
+
+describe('analysis store', () => {
+  const directories: string[] = [];
+  after(() => Promise.all(directories.map((directory) => fs.rm(directory, { recursive: true, force: true }))));
+
+  async function createRepository() {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'analyses-'));
+    directories.push(directory);
+    return createJsonFileRepository(directory);
+  }
+
+  it('saves a picked title and re-checks it', async () => {
+    const repository = await createRepository();
+    const saved = await repository.create({ analysisResult: await loadAnalysis(), settings });
+    const check = (analysis: AnalysisResult | undefined, rule: string) =>
+      analysis?.compliance?.checks.find((item) => item.rule === rule);
+
+    assert.equal(check(saved.analysisResult, 'title_length')?.passed, true);
+
+    await repository.update(saved.id, { metaTitle: 'Teacher Liability Insurance' });
+    const reopened = await repository.get(saved.id);
+
+    assert.equal(reopened?.analysisResult.optimizedContent.metaTitle, 'Teacher Liability Insurance');
+    assert.equal(check(reopened?.analysisResult, 'title_length')?.passed, false);
+    assert.equal(check(reopened?.analysisResult, 'title_length')?.actual, '27 characters');
+    assert.equal(check(reopened?.analysisResult, 'title_differs_from_h1')?.passed, false);
+    assert.equal(reopened?.analysisResult.compliance?.passed, false);
+    // The rest of the analysis is untouched
+    assert.equal(reopened?.analysisResult.optimizedContent.metaDescription, saved.analysisResult.optimizedContent.metaDescription);
+    assert.equal(reopened?.name, saved.name);
+  });
+
+  it('saves a picked description', async () => {
+    const repository = await createRepository();
+    const saved = await repository.create({ analysisResult: await loadAnalysis(), settings });
+    const description = 'Compare teacher liability insurance plans from Acme, see what each one covers at school and on trips, and request a quote today.';
+
+    await repository.update(saved.id, { metaDescription: description });
+    const reopened = await repository.get(saved.id);
+
+    assert.equal(reopened?.analysisResult.optimizedContent.metaDescription, description);
+    assert.equal(reopened?.analysisResult.compliance?.checks.find((item) => item.rule === 'description_length')?.passed, true);
+  });
+
+  it('keeps a picked title and a re-audit saved at the same time', async () => {
+    const repository = await createRepository();
+    const saved = await repository.create({ analysisResult: await loadAnalysis(), settings });
+    const { seoAnalysis, crawledData } = saved.analysisResult;
+    const reaudit: ReauditResult = {
+      url: saved.url,
+      auditedAt: new Date().toISOString(),
+      previousScore: seoAnalysis.score,
+      currentScore: seoAnalysis.score,
+      scoreDelta: 0,
+      resolvedIssues: [],
+      introducedIssues: [],
+      unchangedIssues: [],
+      densityChanges: [],
+      adoption: [],
+      previousWordCount: crawledData.wordCount,
+      currentWordCount: crawledData.wordCount,
+      currentAnalysis: seoAnalysis,
+    };
+
+    await Promise.all([
+      repository.update(saved.id, { metaTitle: 'Teacher Liability Insurance' }),
+      repository.addReaudit(saved.id, reaudit),
+    ]);
+    const reopened = await repository.get(saved.id);
+
+    assert.equal(reopened?.analysisResult.optimizedContent.metaTitle, 'Teacher Liability Insurance');
+    assert.equal(reopened?.reaudits?.length, 1);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkCompliance, type ComplianceInput } from '../lib/compliance-checker';
+
+const ORIGINAL = 'Teachers need cover every day. We offer plans for every school.';
+
+function check(overrides: Partial<ComplianceInput>) {
+  const report = checkCompliance({
+    metaTitle: 'Teacher Liability Insurance Plans for Every School | Acme',
+    metaDescription: 'Teacher liability insurance from Acme covers claims at school and on trips. Compare plans for every school and get a quote in minutes today.',
+    h1: 'Teacher Liability Insurance',
+    fullContent: `[H1] Teacher Liability Insurance\n[PARA] Teachers need cover every day. We offer plans for every school.`,
+    originalContent: ORIGINAL,
+    maxInsertions: 3,
+    titleMaxLength: 60,
+    descriptionMaxLength: 160,
+    ...overrides,
+  });
+  return (rule: string) => report.checks.find((item) => item.rule === rule);
+}
+
+describe('checkCompliance', () => {
+  it('measures meta lengths against the configured maximums', () => {
+    const title = 'Teacher Liability Insurance Plans for Every Kind of School | Acme';
+
+    assert.equal(check({ metaTitle: title })('title_length')?.passed, false);
+    assert.equal(check({ metaTitle: title, titleMaxLength: 70 })('title_length')?.passed, true);
+    assert.equal(check({ metaTitle: title, titleMaxLength: 70 })('title_length')?.expected, '30-70 characters');
+    assert.equal(check({ descriptionMaxLength: 130 })('description_length')?.passed, false);
+  });
+
+  it('lowers the minimum when the maximum is below it', () => {
+    const result = check({ metaTitle: 'Teacher Insurance | Acme', titleMaxLength: 24 })('title_length');
+
+    assert.equal(result?.passed, true);
+    assert.equal(result?.expected, '24-24 characters');
+  });
+
+  it('requires exactly one H1 on the page', () => {
+    const withoutH1 = check({ fullContent: '[PARA] Teachers need cover every day. We offer plans for every school.' });
+    const twoH1 = check({ fullContent: '[H1] Teacher Liability Insurance\n[H1] Plans\n[PARA] Teachers need cover every day. We offer plans for every school.' });
+
+    assert.equal(check({})('single_h1')?.passed, true);
+    assert.equal(withoutH1('single_h1')?.passed, false);
+    assert.equal(withoutH1('single_h1')?.expected, 'exactly 1');
+    assert.equal(twoH1('single_h1')?.passed, false);
+  });
+
+  it('lets later sections of a long page leave out the H1', () => {
+    const section = check({
+      metaTitle: undefined,
+      metaDescription: undefined,
+      h1: undefined,
+      fullContent: '[H2] Plans\n[PARA] Teachers need cover every day. We offer plans for every school.',
+    });
+
+    assert.equal(section('single_h1')?.passed, true);
+    assert.equal(section('title_length'), undefined);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseMarkedContent } from '../lib/content-differ';
+
+describe('parseMarkedContent', () => {
+  it('takes a new sentence from its own line, without the structure marker', () => {
+    const { changes } = parseMarkedContent(
+      '[H2] Coverage that travels with you\n[PARA] Our plans follow you between schools. [[NEW]]'
+    );
+
+    assert.deepEqual(
+      changes.filter((change) => change.type === 'new').map((change) => change.text),
+      ['Our plans follow you between schools.']
+    );
+  });
+
+  it('keeps earlier sentences on the line out of the new one', () => {
+    const { changes } = parseMarkedContent('[BULLET] Claims can come from anywhere. Plans start at $10 a month. [[NEW]]');
+
+    assert.deepEqual(
+      changes.filter((change) => change.type === 'new').map((change) => change.text),
+      ['Plans start at $10 a month.']
+    );
+  });
+
+  it('reports keywords inside a new sentence separately', () => {
+    const { changes, cleanContent } = parseMarkedContent(
+      '[PARA] We also cover [[KEYWORD: student injury]] claims at school. [[NEW]]'
+    );
+
+    assert.deepEqual(
+      changes.map(({ type, text }) => ({ type, text })),
+      [
+        { type: 'keyword', text: 'student injury' },
+        { type: 'new', text: 'We also cover [[KEYWORD: student injury]] claims at school.' },
+      ]
+    );
+    assert.equal(cleanContent, '[PARA] We also cover student injury claims at school.');
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import JSZip from 'jszip';
+import { parseMarkedContent } from '../lib/content-differ';
+import { generateDocument } from '../lib/doc-generator';
+import type { AnalysisResult, ChangeRationale } from '../types';
+import { loadReportFixture, settings } from './helpers';
+
+// One rationale per marked change, as the optimizer builds them
+async function loadAnalysis(): Promise<AnalysisResult> {
+  const analysis = await loadReportFixture();
+  const changeRationales: ChangeRationale[] = parseMarkedContent(analysis.optimizedContent.fullContent).changes
+    .filter((change) => change.type !== 'faq')
+    .map((change, index) => ({
+      type: change.type as ChangeRationale['type'],
+      text: change.text,
+      reason: `Reason ${index + 1} (${change.type})`,
+    }));
+
+  return { ...analysis, optimizedContent: { ...analysis.optimizedContent, changeRationales } };
+}
+
+async function readDocx(buffer: Buffer) {
+  const zip = await JSZip.loadAsync(buffer);
+  return {
+    document: await zip.file('word/document.xml')!.async('string'),
+    comments: (await zip.file('word/comments.xml')?.async('string')) || '',
+  };
+}
+
+function count(text: string, pattern: RegExp): number {
+  return (text.match(pattern) || []).length;
+}
+
+describe('generateDocument', () => {
+  for (const trackChangesInWord of [false, true]) {
+    it(`adds a comment for each explained change${trackChangesInWord ? ' with tracked changes' : ''}`, async () => {
+      const analysisResult = await loadAnalysis();
+      const buffer = await generateDocument({
+        analysisResult,
+        settings: { ...settings, trackChangesInWord },
+        clientName: 'Acme',
+        pageName: 'teacher-insurance',
+      });
+      const { document, comments } = await readDocx(buffer);
+
+      // The H1 and bullet adjustments, and the new sentence (which holds the keyword)
+      assert.equal(count(comments, /<w:comment /g), 3);
+      assert.equal(count(document, /<w:commentRangeStart /g), 3);
+      assert.match(comments, /Reason 2 \(adjusted\)\./);
+      assert.match(comments, /Reason 3 \(adjusted\)\./);
+    });
+  }
+
+  it('explains the keywords inside a new sentence in its comment', async () => {
+    const buffer = await generateDocument({
+      analysisResult: await loadAnalysis(),
+      settings,
+      clientName: 'Acme',
+      pageName: 'teacher-insurance',
+    });
+    const { comments } = await readDocx(buffer);
+
+    // Changes come keywords first: 1 is "student injury", 4 the sentence around it
+    assert.match(comments, /Reason 4 \(new\)\. Reason 1 \(keyword\)\./);
+  });
+});
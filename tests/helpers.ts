@@ -0,0 +1,35 @@
+/**
+ * Shared test setup: the settings the tests run with and the saved report fixture
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DEFAULT_KEYWORD_LIMITS } from '../lib/keyword-processor';
+import type { AnalysisResult, Settings } from '../types';
+
+export const FIXTURES_DIR = path.join(__dirname, '..', 'fixtures');
+
+// An analysis of a teacher insurance page, as saved by the app (no compliance or change rationales)
+export const REPORT_FIXTURE = path.join(FIXTURES_DIR, 'reports', 'teacher-insurance.json');
+
+// Offline: heuristic scoring, no rule set and the mock AI provider
+export const settings: Settings = {
+  brandName: 'Acme',
+  titleMaxLength: 60,
+  descriptionMaxLength: 160,
+  tone: 'professional',
+  includeSchemaRecommendations: true,
+  trackChangesInWord: false,
+  keywordRuleSet: null,
+  relevanceScorer: 'heuristic',
+  keywordLimits: DEFAULT_KEYWORD_LIMITS,
+  llmProvider: 'mock',
+  llmModel: '',
+};
+
+/**
+ * A fresh copy of the report fixture
+ */
+export async function loadReportFixture(): Promise<AnalysisResult> {
+  return JSON.parse(await fs.readFile(REPORT_FIXTURE, 'utf-8')) as AnalysisResult;
+}
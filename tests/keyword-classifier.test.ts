@@ -0,0 +1,87 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { clusterKeywords } from '../lib/keyword-classifier';
+import { categorizeKeywords } from '../lib/keyword-parser';
+
+function groups(keywords: string[]) {
+  return clusterKeywords(keywords).map((cluster) => [cluster.head, ...cluster.variants]);
+}
+
+describe('clusterKeywords', () => {
+  it('groups plurals, reordered words and stop-word variants', () => {
+    assert.deepEqual(groups(['teacher insurance', 'insurance for teachers', 'teachers insurance']), [
+      ['teacher insurance', 'insurance for teachers', 'teachers insurance'],
+    ]);
+  });
+
+  it('keeps questions apart from the keyword they ask about', () => {
+    assert.deepEqual(groups(['teacher liability insurance', 'what is teacher liability insurance']), [
+      ['teacher liability insurance'],
+      ['what is teacher liability insurance'],
+    ]);
+  });
+
+  it('keeps local searches apart', () => {
+    assert.deepEqual(groups(['teacher insurance', 'teacher insurance near me']), [
+      ['teacher insurance'],
+      ['teacher insurance near me'],
+    ]);
+  });
+
+  it('keeps keywords with different intents apart', () => {
+    const clusters = clusterKeywords(['teacher insurance', 'insurance for teachers'], {
+      'teacher insurance': { intent: 'Commercial' },
+      'insurance for teachers': { intent: 'Informational' },
+    });
+
+    assert.deepEqual(clusters.map((cluster) => [cluster.head, cluster.intent]), [
+      ['teacher insurance', 'commercial'],
+      ['insurance for teachers', 'informational'],
+    ]);
+  });
+});
+
+describe('categorizeKeywords', () => {
+  it('picks primary keywords by search volume', () => {
+    const keywords = ['teacher insurance', 'educator liability', 'classroom coverage', 'school staff insurance'];
+    const data = categorizeKeywords(keywords, {
+      'teacher insurance': { volume: 100 },
+      'educator liability': { volume: 50 },
+      'classroom coverage': { volume: 900 },
+      'school staff insurance': { volume: 400 },
+    });
+
+    assert.deepEqual(data.primary, ['classroom coverage', 'school staff insurance', 'teacher insurance', 'educator liability']);
+  });
+
+  it('counts only primary picks against the primary limit', () => {
+    const keywords = [
+      'what is teacher insurance',
+      'how much is teacher insurance',
+      'teacher insurance',
+      'educator liability',
+      'classroom coverage',
+      'school staff insurance',
+      'tutor insurance',
+      'coach insurance',
+    ];
+
+    assert.deepEqual(categorizeKeywords(keywords).primary, [
+      'teacher insurance',
+      'educator liability',
+      'classroom coverage',
+      'school staff insurance',
+      'tutor insurance',
+    ]);
+  });
+
+  it('never makes a navigational keyword primary', () => {
+    const data = categorizeKeywords(['acme insurance login', 'teacher insurance'], {
+      'acme insurance login': { volume: 5000 },
+      'teacher insurance': { volume: 100 },
+    });
+
+    assert.deepEqual(data.primary, ['teacher insurance']);
+    assert.deepEqual(data.secondary, ['acme insurance login']);
+  });
+});
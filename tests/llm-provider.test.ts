@@ -0,0 +1,48 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mockProvider } from '../lib/llm-provider';
+import { OPTIMIZATION_TOOL } from '../lib/optimizer-schema';
+
+// The parts of the optimizer prompt the mock reads
+function buildPrompt(title: string, content: string): string {
+  return `Optimize this webpage content with MINIMAL, GRAMMATICALLY CORRECT changes.
+
+## PAGE CONTEXT
+URL: https://example.com/teacher-insurance
+Page Topic: ${title}
+
+## ORIGINAL PAGE CONTENT
+"""
+${content}
+"""
+
+PRIMARY KEYWORD (integrate 2-3 times): teacher liability insurance (informational)`;
+}
+
+async function optimize(title: string, content: string) {
+  const response = await mockProvider.callTool({
+    model: mockProvider.defaultModel,
+    system: '',
+    messages: [{ role: 'user', content: buildPrompt(title, content) }],
+    tool: OPTIMIZATION_TOOL,
+    maxTokens: 8000,
+  });
+  return response.toolCall!.input as { metaTitle: string; h1: string; fullContent: string };
+}
+
+describe('mockProvider', () => {
+  it("uses the content's H1 for the h1 field", async () => {
+    const output = await optimize('Teacher Insurance | Acme', '# Insurance for Teachers\n\nTeachers need coverage.');
+
+    assert.equal(output.h1, 'Insurance for Teachers');
+    assert.deepEqual(output.fullContent.split('\n').filter((line) => line.startsWith('[H1]')), ['[H1] Insurance for Teachers']);
+    assert.match(output.fullContent, /^\[H1\] Insurance for Teachers\n\[PARA\] Teachers need coverage\./);
+  });
+
+  it('falls back to a placeholder title when the page has none', async () => {
+    const output = await optimize('', 'Teachers need coverage.');
+
+    assert.equal(output.metaTitle, 'teacher liability insurance | Untitled page');
+    assert.equal(output.h1, 'Untitled page');
+  });
+});
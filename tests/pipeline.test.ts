@@ -0,0 +1,36 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import JSZip from 'jszip';
+import { analyzeSEO } from '../lib/seo-analyzer';
+import { optimizeContent } from '../lib/content-optimizer';
+import { generateDocument } from '../lib/doc-generator';
+import { loadReportFixture, settings } from './helpers';
+
+describe('analyze, optimize and generate the report', () => {
+  it('runs offline with the mock provider', async () => {
+    const { crawledData, keywords } = await loadReportFixture();
+
+    const seoAnalysis = analyzeSEO(crawledData, keywords);
+    const { optimizedContent, compliance } = await optimizeContent(crawledData, keywords, settings, undefined, undefined, { seoAnalysis });
+    const buffer = await generateDocument({
+      analysisResult: { crawledData, seoAnalysis, optimizedContent, keywords, compliance },
+      settings,
+      clientName: 'Acme',
+      pageName: 'teacher-insurance',
+    });
+    const zip = await JSZip.loadAsync(buffer);
+    const document = await zip.file('word/document.xml')!.async('string');
+    const comments = (await zip.file('word/comments.xml')?.async('string')) || '';
+
+    // The mock keeps the page and adds one closing sentence with the primary keyword
+    assert.equal(optimizedContent.h1, crawledData.h1[0]);
+    assert.match(optimizedContent.fullContent, /^\[H1\] Teacher Insurance\n/);
+    assert.match(optimizedContent.fullContent, /Contact our team with any questions about \[\[KEYWORD: teacher liability insurance\]\] and your situation\. \[\[NEW\]\]$/);
+    assert.equal(compliance.passed, true);
+
+    assert.ok(document.includes(optimizedContent.metaTitle));
+    assert.ok(document.includes('Teachers need cover every day.'));
+    assert.ok(document.includes('Contact our team with any questions about '));
+    assert.match(comments, /Closes the page with a call to action\./);
+  });
+});
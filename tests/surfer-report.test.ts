@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { convertToKeywordData, toSurferSEOReport } from '../lib/surfer-report';
+import { DEFAULT_KEYWORD_LIMITS } from '../lib/keyword-processor';
+import type { SurferReportData, SurferTerm } from '../lib/surfer-parser';
+
+function term(name: string, relevance: number | null, isNLP = false): SurferTerm {
+  return {
+    term: name,
+    isNLP,
+    currentCount: 0,
+    recommendedMin: 1,
+    recommendedMax: 3,
+    competitorMin: null,
+    competitorMax: null,
+    relevance,
+    action: null,
+    status: 'missing',
+  };
+}
+
+function report(terms: SurferTerm[], nlpTerms: SurferTerm[] = []): SurferReportData {
+  return {
+    success: true,
+    mainKeyword: 'teacher liability insurance',
+    url: '',
+    auditedUrl: '',
+    contentScore: null,
+    wordCount: null,
+    terms,
+    nlpTerms,
+    questions: [],
+    headings: [],
+  };
+}
+
+// term 1 .. term n, least relevant first
+const terms = (count: number) =>
+  Array.from({ length: count }, (_, index) => term(`term ${index + 1}`, (index + 1) / 100));
+
+describe('convertToKeywordData', () => {
+  it('fills primary up to the configured limit, most relevant first', () => {
+    const keywords = convertToKeywordData(
+      toSurferSEOReport(report(terms(20))),
+      { ...DEFAULT_KEYWORD_LIMITS, primary: 8, secondary: 3 }
+    );
+
+    assert.deepEqual(keywords.primary, [
+      'teacher liability insurance',
+      'term 20', 'term 19', 'term 18', 'term 17', 'term 16', 'term 15', 'term 14',
+    ]);
+    assert.deepEqual(keywords.secondary, ['term 13', 'term 12', 'term 11']);
+  });
+
+  it('keeps the report order for terms without relevance and ranks NLP terms last', () => {
+    const keywords = convertToKeywordData(
+      toSurferSEOReport(report(
+        [term('general liability', null), term('coverage limits', null)],
+        [term('tutor insurance', 0.9, true)]
+      )),
+      { ...DEFAULT_KEYWORD_LIMITS, primary: 2, secondary: 5 }
+    );
+
+    assert.deepEqual(keywords.primary, ['teacher liability insurance', 'general liability']);
+    assert.deepEqual(keywords.secondary, ['coverage limits', 'tutor insurance']);
+    assert.deepEqual(keywords.nlpTerms, ['tutor insurance']);
+  });
+
+  it('leaves a category out when its limit is 0', () => {
+    const keywords = convertToKeywordData(
+      toSurferSEOReport(report(terms(4))),
+      { ...DEFAULT_KEYWORD_LIMITS, secondary: 0 }
+    );
+
+    assert.equal(keywords.primary.length, 5);
+    assert.deepEqual(keywords.secondary, []);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { readSurferSnapshot } from '../lib/surfer-snapshot';
+import type { SurferTerm } from '../lib/surfer-parser';
+
+const FIXTURES_DIR = path.join(__dirname, '..', 'fixtures', 'surfer');
+
+function loadFixture(name: string) {
+  return readSurferSnapshot(path.join(FIXTURES_DIR, name));
+}
+
+// The fields the extractor fills from a page; competitor ranges aren't shown on either layout
+function summarize(terms: SurferTerm[]) {
+  return terms.map(({ term, currentCount, recommendedMin, recommendedMax, relevance, action, status }) => ({
+    term,
+    currentCount,
+    recommendedMin,
+    recommendedMax,
+    relevance,
+    action,
+    status,
+  }));
+}
+
+describe('parseSurferSnapshot', () => {
+  describe('shared audit (ARIA grid)', () => {
+    it('reads the keyword, URLs, score and word count', async () => {
+      const report = await loadFixture('shared-audit.html');
+
+      assert.equal(report.success, true);
+      assert.equal(report.mainKeyword, 'teacher liability insurance');
+      assert.equal(report.url, 'https://app.surferseo.com/audit/share/Xk2pQ9');
+      assert.equal(report.auditedUrl, 'https://example.com/teacher-insurance');
+      assert.equal(report.contentScore, 47);
+      assert.equal(report.wordCount, 1240);
+      assert.equal(report.debug?.extractionMethod, 'aria-table-section');
+    });
+
+    it('extracts terms with counts, relevance, actions and statuses', async () => {
+      const report = await loadFixture('shared-audit.html');
+
+      assert.deepEqual(summarize(report.terms), [
+        { term: 'teacher liability insurance', currentCount: 3, recommendedMin: 4, recommendedMax: 9, relevance: 0.92, action: 'Add 1-6', status: 'low' },
+        { term: 'professional liability', currentCount: 0, recommendedMin: 2, recommendedMax: 5, relevance: 0.81, action: 'Add 2-5', status: 'missing' },
+        { term: 'legal defense costs', currentCount: 7, recommendedMin: 1, recommendedMax: 4, relevance: 0.55, action: 'Reduce 3', status: 'overused' },
+      ]);
+    });
+
+    it('splits out NLP terms without the badge text', async () => {
+      const report = await loadFixture('shared-audit.html');
+
+      assert.deepEqual(summarize(report.nlpTerms), [
+        { term: 'student injury', currentCount: 2, recommendedMin: 1, recommendedMax: 3, relevance: 0.64, action: null, status: 'good' },
+        { term: 'educator insurance', currentCount: 0, recommendedMin: 1, recommendedMax: 1, relevance: 0.4, action: 'Add 1', status: 'missing' },
+      ]);
+      assert.ok(report.nlpTerms.every((term) => term.isNLP));
+    });
+
+    it('skips competitor URLs', async () => {
+      const report = await loadFixture('shared-audit.html');
+      const terms = [...report.terms, ...report.nlpTerms].map((term) => term.term);
+
+      assert.ok(terms.every((term) => !term.includes('http') && !term.includes('.com')));
+    });
+
+    it('reads questions from the questions panel', async () => {
+      const report = await loadFixture('shared-audit.html');
+
+      assert.deepEqual(report.questions, [
+        'What does teacher liability insurance cover?',
+        'Do teachers need their own liability insurance?',
+        'How much is teacher liability insurance?',
+      ]);
+    });
+  });
+
+  describe('content editor (HTML table)', () => {
+    it('falls back to the H1 for the keyword and reads score and word count from page text', async () => {
+      const report = await loadFixture('content-editor-table.html');
+
+      assert.equal(report.success, true);
+      assert.equal(report.mainKeyword, 'school liability coverage');
+      assert.equal(report.url, 'https://app.surferseo.com/drafts/s/8fd21c');
+      assert.equal(report.auditedUrl, '');
+      assert.equal(report.contentScore, 62);
+      assert.equal(report.wordCount, 900);
+      assert.equal(report.debug?.extractionMethod, 'table-rows-section');
+    });
+
+    it('extracts "current / suggested" counts and statuses', async () => {
+      const report = await loadFixture('content-editor-table.html');
+
+      assert.deepEqual(summarize(report.terms), [
+        { term: 'school liability coverage', currentCount: 0, recommendedMin: 1, recommendedMax: 3, relevance: null, action: null, status: 'missing' },
+        { term: 'general liability', currentCount: 2, recommendedMin: 1, recommendedMax: 4, relevance: null, action: null, status: 'good' },
+        { term: 'coverage limits', currentCount: 6, recommendedMin: 1, recommendedMax: 4, relevance: null, action: null, status: 'overused' },
+      ]);
+      assert.deepEqual(summarize(report.nlpTerms), [
+        { term: 'tutor insurance', currentCount: 1, recommendedMin: 1, recommendedMax: 2, relevance: null, action: null, status: 'good' },
+      ]);
+    });
+
+    it('finds questions in the page text', async () => {
+      const report = await loadFixture('content-editor-table.html');
+
+      assert.deepEqual(report.questions, [
+        'Is school liability coverage required for private tutors?',
+        'Does general liability cover student injuries?',
+      ]);
+    });
+  });
+
+  it('prefers an explicit report URL over the snapshot header', async () => {
+    const report = await readSurferSnapshot(
+      path.join(FIXTURES_DIR, 'shared-audit.html'),
+      'https://app.surferseo.com/audit/share/override'
+    );
+
+    assert.equal(report.url, 'https://app.surferseo.com/audit/share/override');
+  });
+});
@@ -42,6 +42,67 @@ export interface KeywordData {
   questions: string[];
   longTail: string[];
   all: string[];
+  // Metrics from the uploaded spreadsheet, keyed by lowercase keyword
+  metrics?: Record<string, KeywordMetrics>;
+  // Search intent per keyword, keyed by lowercase keyword
+  intents?: Record<string, KeywordIntent>;
+  // Near-duplicates and plurals grouped under one head keyword (only groups with variants)
+  clusters?: KeywordCluster[];
+}
+
+export type KeywordIntent = 'informational' | 'commercial' | 'transactional' | 'navigational' | 'local';
+
+export interface KeywordCluster {
+  // The form to target: highest search volume, else the first listed
+  head: string;
+  variants: string[];
+  intent: KeywordIntent;
+}
+
+export interface KeywordMetrics {
+  volume?: number;
+  // Keyword difficulty (KD), 0-100
+  difficulty?: number;
+  cpc?: number;
+  intent?: string;
+  // Current ranking position
+  position?: number;
+}
+
+// Spreadsheet columns the keyword parser understands.
+// Mapping a url column groups rows by target page (one KeywordData per URL).
+export type KeywordColumn = 'keyword' | 'url' | 'volume' | 'difficulty' | 'cpc' | 'intent' | 'position';
+
+// Column index for each field (unmapped fields are omitted)
+export type KeywordColumnMapping = Partial<Record<KeywordColumn, number>>;
+
+export type KeywordExportSource = 'ahrefs' | 'semrush' | 'gsc' | 'keyword-planner';
+
+// First rows of an uploaded keyword file, shown so the user can check the column mapping
+export interface KeywordSheetPreview {
+  headers: string[];
+  rows: string[][];
+  totalRows: number;
+  mapping: KeywordColumnMapping;
+  // Tool the export appears to come from, if recognized
+  source: KeywordExportSource | null;
+  // Worksheet names in the workbook (empty for CSV) and the one that was read
+  sheets: string[];
+  sheet?: string;
+}
+
+// Keywords for one target page, from a URL → keyword file
+export interface KeywordUrlGroup {
+  url: string;
+  keywords: KeywordData;
+}
+
+export interface ParsedKeywordFile {
+  // Every keyword in the sheet, regardless of URL
+  keywords: KeywordData;
+  preview: KeywordSheetPreview;
+  // Present when a url column is mapped, in first-seen order
+  pages?: KeywordUrlGroup[];
 }
 
 export interface SEOAnalysis {
@@ -93,6 +154,51 @@ export interface OptimizedContent {
   fullContent: string;
   faqs: FAQ[];
   schemaRecommendations: SchemaRecommendation[];
+  // Why each marked change was made (absent for analyses made before rationales existed)
+  changeRationales?: ChangeRationale[];
+  // Set when the page was too long for one request and was optimized in sections
+  chunking?: ContentChunking;
+  // Every title/description candidate, best score first; metaTitle and metaDescription hold the chosen one
+  metaTitleVariants?: MetaVariant[];
+  metaDescriptionVariants?: MetaVariant[];
+}
+
+// Local scoring of meta title/description candidates (see lib/meta-variant-scorer.ts)
+export type MetaVariantCriterion = 'keyword_position' | 'length' | 'brand_suffix' | 'call_to_action' | 'h1_overlap';
+
+export interface MetaVariantCheck {
+  criterion: MetaVariantCriterion;
+  passed: boolean;
+  points: number;
+  maxPoints: number;
+  detail: string;
+}
+
+export interface MetaVariant {
+  text: string;
+  // 0-100, from the checks that apply
+  score: number;
+  checks: MetaVariantCheck[];
+}
+
+export interface ContentChunking {
+  sections: number;
+  // Length of the page content that was optimized
+  characters: number;
+}
+
+// Rationale for one [[KEYWORD:]], [[ADJUSTED:]] or [[NEW]] change in fullContent
+export interface ChangeRationale {
+  type: 'keyword' | 'adjusted' | 'new';
+  // The inserted text (for adjustments: the new phrase; for new content: the sentence)
+  text: string;
+  reason: string;
+  targetKeyword?: string;
+  // Content brief usage target for targetKeyword and its count on the original page;
+  // source is the tool's display name (Surfer when absent)
+  surferTarget?: { min: number; max: number; current?: number; source?: string };
+  // Message of the SEOAnalysis issue this change addresses
+  issue?: string;
 }
 
 export interface FAQ {
@@ -111,6 +217,37 @@ export interface AnalysisResult {
   seoAnalysis: SEOAnalysis;
   optimizedContent: OptimizedContent;
   keywords: KeywordData;
+  // How well the optimized content follows the optimizer's rules (absent for older analyses)
+  compliance?: ComplianceReport;
+}
+
+// Optimizer rules measured on the output
+export type ComplianceRule =
+  | 'single_h1'
+  | 'preservation'
+  | 'one_keyword_per_sentence'
+  | 'max_insertions'
+  | 'title_differs_from_h1'
+  | 'title_length'
+  | 'description_length';
+
+export interface ComplianceCheck {
+  rule: ComplianceRule;
+  passed: boolean;
+  // What was measured and the limit, for display ("78% kept", "at least 85%")
+  actual: string;
+  expected: string;
+  // Offending sentences or headings, when the rule has them
+  examples?: string[];
+}
+
+export interface ComplianceReport {
+  passed: boolean;
+  // Share of the original words kept unchanged (0-1)
+  preservationRatio: number;
+  checks: ComplianceCheck[];
+  // Times the AI was asked to fix rule violations
+  reprompts: number;
 }
 
 export interface AnalysisProgress {
@@ -121,19 +258,106 @@ export interface AnalysisProgress {
   message: string;
 }
 
+// Progress reported by optimizeContent while the AI response streams in
+export type OptimizerProgressEvent =
+  | { type: 'request_sent' }
+  | { type: 'receiving'; characters: number }
+  | { type: 'received'; characters: number; outputTokens: number }
+  | { type: 'repairing'; errors: string[] }
+  // Long pages: a section request is about to start
+  | { type: 'section'; section: number; sections: number }
+  | { type: 'parsed' };
+
+// Stages streamed by /api/analyze
+export type AnalysisStageId = 'crawl' | 'analyze' | 'generate' | 'parse';
+
+// NDJSON events streamed by /api/analyze when `stream: true`
+export type AnalysisStreamEvent =
+  | { type: 'stage'; stage: AnalysisStageId; status: 'started' | 'completed'; message: string; at: number }
+  | { type: 'analysis'; data: SEOAnalysis }
+  | { type: 'tokens'; characters: number; outputTokens?: number }
+  | { type: 'result'; data: AnalysisResult }
+  | { type: 'error'; stage?: AnalysisStageId; error: string };
+
 export interface Settings {
   brandName: string;
   titleMaxLength: number;
   descriptionMaxLength: number;
   tone: 'professional' | 'friendly' | 'authoritative';
   includeSchemaRecommendations: boolean;
+  // Word report: record changes as tracked insertions/deletions instead of green highlights
+  trackChangesInWord: boolean;
+  // Client-specific keyword exclusions and boosts (null = generic filtering only)
+  keywordRuleSet: KeywordRuleSet | null;
+  // How keywords are ranked against the page (see lib/relevance-scorer.ts)
+  relevanceScorer: RelevanceScorerName;
+  // How many keywords are kept at each stage (defaults in lib/keyword-processor.ts)
+  keywordLimits: KeywordLimits;
+  // Which AI backend optimizes the content (see lib/llm-provider.ts)
+  llmProvider: LLMProviderName;
+  // Model name for that backend; empty uses the provider's default
+  llmModel: string;
+}
+
+export interface KeywordLimits {
+  // Target keywords sent to the optimizer and listed in the report
+  display: number;
+  // Caps applied when a Surfer report is converted to KeywordData
+  primary: number;
+  secondary: number;
+  nlpTerms: number;
+  questions: number;
+}
+
+// 'tfidf' blends the slug/title heuristic with similarity to the page content
+export type RelevanceScorerName = 'tfidf' | 'heuristic';
+
+// Keyword rule sets (per-client exclusions and boosts, see lib/keyword-rules.ts)
+export interface KeywordBoost {
+  term: string;
+  weight: number;
+}
+
+export interface KeywordRule {
+  // The rule applies when the page slug contains any of these
+  slugPatterns: string[];
+  // Keywords containing any of these terms are dropped for matching pages
+  excludedTerms: string[];
+  // Keywords containing a boosted term score higher; only the largest matching boost per rule counts
+  boostedTerms: KeywordBoost[];
 }
 
+export interface KeywordRuleSet {
+  id: string;
+  name: string;
+  // Client/project the rules were written for
+  client: string;
+  rules: KeywordRule[];
+  // Shipped with the app; can be copied but not edited or deleted
+  builtIn?: boolean;
+  updatedAt?: string;
+}
+
+export interface SaveKeywordRuleSetRequest {
+  name: string;
+  client?: string;
+  rules: KeywordRule[];
+}
+
+// Report export formats (see lib/report-renderers.ts)
+export type ReportFormat = 'docx' | 'pdf' | 'html' | 'html-clean' | 'markdown';
+
 export interface DocumentGenerationRequest {
   analysisResult: AnalysisResult;
   settings: Settings;
   clientName: string;
   pageName: string;
+  // Adds an "Implementation Check" section comparing the live page to the recommendations
+  reaudit?: ReauditResult;
+  // Site-wide cannibalization check; issues involving this page get a report section
+  cannibalization?: CannibalizationReport;
+  // Defaults to 'docx'
+  format?: ReportFormat;
 }
 
 // API Response types
@@ -150,15 +374,231 @@ export interface CustomInstructions {
   additionalInstructions: string;
 }
 
+// Crawler backends available to /api/analyze
+export type CrawlerProviderName = 'firecrawl' | 'fetch';
+
+export type LLMProviderName = 'anthropic' | 'openai' | 'mock';
+
+// Pasted content input (pages that can't be crawled)
+export type PastedContentFormat = 'auto' | 'html' | 'markdown' | 'text';
+
+export interface PastedContent {
+  content: string;
+  format: PastedContentFormat;
+}
+
 export interface AnalyzeRequest {
+  // Page URL to crawl, or the intended URL when pastedContent is supplied (may be empty)
   url: string;
   keywords: KeywordData;
   settings: Settings;
   customInstructions?: CustomInstructions;
+  crawler?: CrawlerProviderName;
+  // When present the page is built from this content instead of being crawled
+  pastedContent?: PastedContent;
+  // Surfer usage targets, cited in the rationale for each change
+  surferReport?: SurferSEOReport | null;
+  // Stream AnalysisStreamEvent lines (NDJSON) instead of a single JSON response
+  stream?: boolean;
+}
+
+// Batch analysis types
+export interface BatchItemInput {
+  url: string;
+  keywords: KeywordData;
+}
+
+export type BatchItemStatus =
+  | 'queued'
+  | 'crawling'
+  | 'analyzing'
+  | 'optimizing'
+  | 'completed'
+  | 'failed';
+
+export interface BatchItemSummary {
+  index: number;
+  url: string;
+  status: BatchItemStatus;
+  primaryKeyword: string;
+  score?: number;
+  issueCount?: number;
+  filename?: string;
+  error?: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export interface BatchJobSummary {
+  id: string;
+  status: 'running' | 'completed';
+  createdAt: string;
+  finishedAt?: string;
+  concurrency: number;
+  total: number;
+  completed: number;
+  failed: number;
+  items: BatchItemSummary[];
+  // Set when the job finishes: one report per domain with two or more completed pages
+  cannibalization?: CannibalizationReport[];
+}
+
+export interface BatchCreateRequest {
+  // Either structured items or raw pasted/CSV text ("url, keyword; keyword" per line)
+  items?: BatchItemInput[];
+  input?: string;
+  settings: Settings;
+  customInstructions?: CustomInstructions;
+  crawler?: CrawlerProviderName;
+  concurrency?: number;
+}
+
+// Re-audit (before/after comparison of a previously analyzed page)
+export type AdoptionStatus = 'adopted' | 'partial' | 'not_adopted';
+
+export interface RecommendationAdoption {
+  element: 'title' | 'description' | 'h1';
+  before: string;
+  recommended: string;
+  current: string;
+  // 0-1 similarity between the recommended and current text
+  similarity: number;
+  status: AdoptionStatus;
+}
+
+export interface KeywordDensityChange {
+  keyword: string;
+  before: number;
+  after: number;
+  delta: number;
+}
+
+export interface ReauditResult {
+  url: string;
+  originalAuditedAt?: string;
+  auditedAt: string;
+  previousScore: number;
+  currentScore: number;
+  scoreDelta: number;
+  resolvedIssues: SEOIssue[];
+  introducedIssues: SEOIssue[];
+  unchangedIssues: SEOIssue[];
+  densityChanges: KeywordDensityChange[];
+  adoption: RecommendationAdoption[];
+  previousWordCount: number;
+  currentWordCount: number;
+  // Fresh analysis of the live page
+  currentAnalysis: SEOAnalysis;
+}
+
+// Keyword cannibalization: several pages of one site competing for the same keyword
+export interface CannibalizationPage {
+  url: string;
+  // The keyword is one of the page's primary keywords (mainPrimary: the first one)
+  targeted: boolean;
+  mainPrimary: boolean;
+  inTitle: boolean;
+  inH1: boolean;
+  inSlug: boolean;
+  // Percent of body words
+  density: number;
+  // 0-100: how strongly the page currently claims the keyword
+  strength: number;
+}
+
+export interface CannibalizationIssue {
+  keyword: string;
+  severity: 'high' | 'medium';
+  // Page that should own the keyword, and why
+  ownerUrl: string;
+  ownerReason: string;
+  // Competing pages, owner first
+  pages: CannibalizationPage[];
+  // What to change on each page that should give the keyword up
+  recommendations: { url: string; action: string }[];
+}
+
+export interface CannibalizationReport {
+  domain: string;
+  checkedAt: string;
+  // Pages that were compared
+  urls: string[];
+  keywordCount: number;
+  issues: CannibalizationIssue[];
+}
+
+export interface CannibalizationRequest {
+  // Saved analyses to compare...
+  analysisIds?: string[];
+  // ...or analysis results uploaded as JSON
+  analyses?: AnalysisResult[];
+}
+
+export interface ReauditRequest {
+  // Re-audit a saved analysis (the result is stored with it)...
+  savedAnalysisId?: string;
+  // ...or an analysis result held by the client
+  analysisResult?: AnalysisResult;
+  crawler?: CrawlerProviderName;
+}
+
+// Saved analyses (persistent workspace)
+export interface SavedAnalysis {
+  id: string;
+  name: string;
+  // Client/project the analysis is filed under
+  project: string;
+  url: string;
+  createdAt: string;
+  updatedAt: string;
+  analysisResult: AnalysisResult;
+  settings: Settings;
+  customInstructions: CustomInstructions;
+  keywords: KeywordData;
+  surferReport: SurferSEOReport | null;
+  // Re-audits of the page, oldest first
+  reaudits?: ReauditResult[];
+}
+
+// Lightweight listing entry - omits the (large) analysis payload
+export interface SavedAnalysisSummary {
+  id: string;
+  name: string;
+  project: string;
+  url: string;
+  createdAt: string;
+  updatedAt: string;
+  score: number;
+  primaryKeyword: string;
+  // Score from the most recent re-audit, if any
+  latestScore?: number;
+}
+
+export interface SaveAnalysisRequest {
+  name?: string;
+  project?: string;
+  analysisResult: AnalysisResult;
+  settings: Settings;
+  customInstructions?: CustomInstructions;
+  keywords?: KeywordData;
+  surferReport?: SurferSEOReport | null;
+}
+
+export interface UpdateSavedAnalysisRequest {
+  name?: string;
+  project?: string;
+  // A picked variant replacing the recommended title tag or meta description
+  metaTitle?: string;
+  metaDescription?: string;
 }
 
 // SurferSEO Report Types
+// Content-optimization tools whose reports and exports can be imported as a brief
+export type ContentBriefSource = 'surfer' | 'clearscope' | 'marketmuse' | 'frase' | 'neuronwriter';
+
 export interface SurferSEOReport {
+  // Tool the brief came from; Surfer when absent (reports saved before other tools were supported)
+  source?: ContentBriefSource;
   url: string;
   auditedUrl?: string;
   targetKeyword: string;